@@ -11,18 +11,40 @@ import CompanyOnboarding from "@/pages/company-onboarding";
 import BranchManagement from "@/pages/branch-management";
 import OnboardingLanding from "@/pages/onboarding-landing";
 import CompanyTestPage from "@/pages/company-test";
+import AlertManagement from "@/pages/alert-management";
+import NotificationPreferences from "@/pages/notification-preferences";
+import TeamManagement from "@/pages/team-management";
+import WebhookManagement from "@/pages/webhook-management";
+import FeedbackTopics from "@/pages/feedback-topics";
+import FeedbackInbox from "@/pages/feedback-inbox";
+import FeedbackImport from "@/pages/feedback-import";
+import AcceptInvitation from "@/pages/accept-invitation";
+import AcknowledgeAlert from "@/pages/acknowledge-alert";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={OnboardingLanding} />
-      <Route path="/dashboard" component={Dashboard} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/invite" component={AcceptInvitation} />
+      <Route path="/acknowledge-alert" component={AcknowledgeAlert} />
+      <ProtectedRoute path="/dashboard" component={Dashboard} />
       <Route path="/feedback" component={FeedbackForm} />
-      <Route path="/survey-builder" component={SurveyBuilder} />
-      <Route path="/qr-management" component={QRManagement} />
+      <ProtectedRoute path="/survey-builder" component={SurveyBuilder} />
+      <ProtectedRoute path="/qr-management" component={QRManagement} />
       <Route path="/company-onboarding" component={CompanyOnboarding} />
-      <Route path="/branch-management" component={BranchManagement} />
+      <ProtectedRoute path="/branch-management" component={BranchManagement} />
+      <ProtectedRoute path="/alert-management" component={AlertManagement} />
+      <ProtectedRoute path="/notification-preferences" component={NotificationPreferences} />
+      <ProtectedRoute path="/team-management" component={TeamManagement} />
+      <ProtectedRoute path="/webhooks" component={WebhookManagement} />
+      <ProtectedRoute path="/feedback-topics" component={FeedbackTopics} />
+      <ProtectedRoute path="/feedback-inbox" component={FeedbackInbox} />
+      <ProtectedRoute path="/feedback-import" component={FeedbackImport} />
       <Route path="/test" component={CompanyTestPage} />
       <Route component={NotFound} />
     </Switch>
@@ -32,10 +54,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,468 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderPlus, Plus, Trash2 } from 'lucide-react';
+import { topicLabel } from '@shared/topics';
+
+export interface AlertCondition {
+  type: 'rating_threshold' | 'keyword_detection' | 'volume_based' | 'time_based' | 'sentiment' | 'topic_tags' | 'custom';
+  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'greater_than_or_equal' | 'less_than_or_equal' | 'contains' | 'contains_all' | 'not_contains' | 'regex';
+  field: string;
+  value: any;
+  additionalParams?: Record<string, any>;
+}
+
+// Matches when all, any or none of its conditions match; a rule's top-level
+// conditions are an implicit "all" group
+export interface AlertConditionGroup {
+  type: 'group';
+  match: 'all' | 'any' | 'none';
+  conditions: AlertConditionNode[];
+}
+
+export type AlertConditionNode = AlertCondition | AlertConditionGroup;
+
+type LocationOption = { id: string; name: string };
+
+// Keep in step with MAX_GROUP_DEPTH in server/alertRuleEngine.ts
+const MAX_GROUP_DEPTH = 5;
+
+const matchLabels: Record<AlertConditionGroup['match'], string> = {
+  all: 'All of',
+  any: 'Any of',
+  none: 'None of',
+};
+
+const tagOperatorLabels: Record<string, string> = {
+  contains: 'any of',
+  contains_all: 'all of',
+  not_contains: 'none of',
+};
+
+// Topic conditions store a list; older or hand-written rules may hold a string
+function conditionTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return tags.map((tag) => String(tag).trim()).filter(Boolean);
+}
+
+// Volume and silence conditions start from a usable example rather than the rating defaults
+const conditionDefaults: Record<AlertCondition['type'], Partial<AlertCondition>> = {
+  rating_threshold: { field: 'overallRating', operator: 'less_than', value: 3, additionalParams: undefined },
+  keyword_detection: { field: 'feedbackText', operator: 'contains', value: '', additionalParams: undefined },
+  volume_based: { field: 'responseCount', operator: 'greater_than_or_equal', value: 5, additionalParams: { timeWindow: 30, maxRating: 2 } },
+  time_based: { field: 'minutesSinceLastFeedback', operator: 'greater_than', value: 360, additionalParams: { groupBy: 'location' } },
+  sentiment: { field: 'sentimentScore', operator: 'less_than', value: -0.3, additionalParams: undefined },
+  topic_tags: { field: 'tags', operator: 'contains', value: ['staff'], additionalParams: undefined },
+  custom: { field: 'expression', operator: 'equals', value: 'overallRating <= 2 && contains(feedbackText, "refund")', additionalParams: undefined },
+};
+
+export function newCondition(): AlertCondition {
+  return {
+    type: 'rating_threshold',
+    operator: 'less_than',
+    field: 'overallRating',
+    value: 3
+  };
+}
+
+export function newGroup(): AlertConditionGroup {
+  return { type: 'group', match: 'any', conditions: [newCondition()] };
+}
+
+export function describeCondition(condition: AlertCondition, locations: LocationOption[]): string {
+  const params = condition.additionalParams || {};
+  const scope = params.locationId
+    ? ` at ${locations.find(location => location.id === params.locationId)?.name || 'one location'}`
+    : params.groupBy === 'location' ? ' per location' : params.groupBy === 'qr_code' ? ' per QR code' : '';
+  if (condition.type === 'volume_based') {
+    return `responses ${condition.operator} ${condition.value} in ${params.timeWindow || 60} min${scope}`;
+  }
+  if (condition.type === 'time_based') {
+    return `no feedback for ${condition.operator === 'greater_than' ? 'over ' : ''}${condition.value} min${scope}`;
+  }
+  if (condition.type === 'topic_tags') {
+    return `tagged with ${tagOperatorLabels[condition.operator] || condition.operator} ${conditionTags(condition.value).map(topicLabel).join(', ')}`;
+  }
+  if (condition.type === 'custom') {
+    return condition.value;
+  }
+  return `${condition.field} ${condition.operator} ${condition.value}`;
+}
+
+// Read-only rendering of a rule's conditions for the rule list
+export function ConditionSummary({ conditions, locations }: { conditions: AlertConditionNode[]; locations: LocationOption[] }) {
+  return (
+    <div className="space-y-2">
+      {conditions.map((condition, index) => condition.type === 'group' ? (
+        <div key={index} className="text-sm p-2 border rounded space-y-2">
+          <div className="font-medium">{matchLabels[condition.match]}</div>
+          <ConditionSummary conditions={condition.conditions} locations={locations} />
+        </div>
+      ) : (
+        <div key={index} className="text-sm p-2 bg-muted rounded">
+          {condition.type}: {describeCondition(condition, locations)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ConditionListEditorProps {
+  conditions: AlertConditionNode[];
+  onChange: (conditions: AlertConditionNode[]) => void;
+  locations: LocationOption[];
+  depth?: number;
+}
+
+// Edits a list of conditions and nested groups. The rule dialog supplies the
+// add buttons for the top level; each group renders its own.
+export function ConditionListEditor({ conditions, onChange, locations, depth = 1 }: ConditionListEditorProps) {
+  const replace = (index: number, condition: AlertConditionNode) => {
+    onChange(conditions.map((existing, i) => (i === index ? condition : existing)));
+  };
+
+  const remove = (index: number) => {
+    onChange(conditions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {conditions.map((condition, index) => (
+        <div key={index} className={`p-4 border rounded-lg ${condition.type === 'group' ? 'bg-muted/40' : ''}`}>
+          {condition.type === 'group' ? (
+            <>
+              <div className="flex items-center gap-2 mb-4">
+                <Select
+                  value={condition.match}
+                  onValueChange={(value: AlertConditionGroup['match']) => replace(index, { ...condition, match: value })}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All of</SelectItem>
+                    <SelectItem value="any">Any of</SelectItem>
+                    <SelectItem value="none">None of</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">these conditions match</span>
+              </div>
+              <ConditionListEditor
+                conditions={condition.conditions}
+                onChange={(nested) => replace(index, { ...condition, conditions: nested })}
+                locations={locations}
+                depth={depth + 1}
+              />
+            </>
+          ) : (
+            <ConditionFields
+              condition={condition}
+              onChange={(updated) => replace(index, updated)}
+              locations={locations}
+            />
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2"
+            onClick={() => remove(index)}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {condition.type === 'group' ? 'Remove Group' : 'Remove'}
+          </Button>
+        </div>
+      ))}
+      {depth > 1 && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onChange([...conditions, newCondition()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Condition
+          </Button>
+          {depth < MAX_GROUP_DEPTH && (
+            <Button variant="outline" size="sm" onClick={() => onChange([...conditions, newGroup()])}>
+              <FolderPlus className="w-4 h-4 mr-2" />
+              Add Group
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ConditionFieldsProps {
+  condition: AlertCondition;
+  onChange: (condition: AlertCondition) => void;
+  locations: LocationOption[];
+}
+
+function ConditionFields({ condition, onChange, locations }: ConditionFieldsProps) {
+  const update = (changes: Partial<AlertCondition>) => onChange({ ...condition, ...changes });
+  const updateParams = (params: Record<string, any>) => update({
+    additionalParams: { ...condition.additionalParams, ...params }
+  });
+
+  return (
+    <>
+      <div className="grid md:grid-cols-4 gap-4">
+        <div>
+          <Label>Type</Label>
+          <Select
+            value={condition.type}
+            onValueChange={(value: AlertCondition['type']) => update({ ...conditionDefaults[value], type: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rating_threshold">Rating Threshold</SelectItem>
+              <SelectItem value="keyword_detection">Keyword Detection</SelectItem>
+              <SelectItem value="volume_based">Volume Based</SelectItem>
+              <SelectItem value="time_based">Time Based</SelectItem>
+              <SelectItem value="sentiment">Sentiment</SelectItem>
+              <SelectItem value="topic_tags">Topic Tags</SelectItem>
+              <SelectItem value="custom">Custom Expression</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {condition.type === 'sentiment' && (
+          <SentimentFields condition={condition} update={update} />
+        )}
+        {condition.type === 'topic_tags' && (
+          <>
+            <div>
+              <Label>Tagged With</Label>
+              <Select
+                value={condition.operator}
+                onValueChange={(value: AlertCondition['operator']) => update({ operator: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">Any of</SelectItem>
+                  <SelectItem value="contains_all">All of</SelectItem>
+                  <SelectItem value="not_contains">None of</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              <Label>Topics</Label>
+              <Input
+                key={conditionTags(condition.value).join(',')}
+                defaultValue={conditionTags(condition.value).join(', ')}
+                placeholder="staff, wait_time"
+                onBlur={(e) => update({ value: conditionTags(e.target.value) })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Comma-separated topic names from Feedback Topics</p>
+            </div>
+          </>
+        )}
+        {condition.type !== 'custom' && condition.type !== 'sentiment' && condition.type !== 'topic_tags' && (
+          <>
+            <div>
+              <Label>Field</Label>
+              <Input
+                value={condition.field}
+                onChange={(e) => update({ field: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Operator</Label>
+              <Select
+                value={condition.operator}
+                onValueChange={(value: AlertCondition['operator']) => update({ operator: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="equals">Equals</SelectItem>
+                  <SelectItem value="not_equals">Not Equals</SelectItem>
+                  <SelectItem value="greater_than">Greater Than</SelectItem>
+                  <SelectItem value="less_than">Less Than</SelectItem>
+                  <SelectItem value="greater_than_or_equal">At Least</SelectItem>
+                  <SelectItem value="less_than_or_equal">At Most</SelectItem>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="not_contains">Not Contains</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Value</Label>
+              <Input
+                value={condition.value}
+                onChange={(e) => update({ value: e.target.value })}
+              />
+              {condition.type === 'time_based' && (
+                <p className="text-xs text-muted-foreground mt-1">Minutes since the last response</p>
+              )}
+              {condition.type === 'volume_based' && (
+                <p className="text-xs text-muted-foreground mt-1">Number of responses</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+      {condition.type === 'custom' && (
+        <div className="mt-4">
+          <Label>Expression</Label>
+          <Textarea
+            value={condition.value}
+            className="font-mono text-sm"
+            onChange={(e) => update({ value: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Compare fields such as overallRating, feedbackText, sentimentScore, tags or customFields.name with ==, !=, &lt;, &gt;, in [...];
+            combine with and / or / not; functions: contains, startsWith, endsWith, matches, lower, upper, length, isEmpty.
+          </p>
+        </div>
+      )}
+      {(condition.type === 'volume_based' || condition.type === 'time_based') && (
+        <div className="grid md:grid-cols-4 gap-4 mt-4">
+          <div>
+            <Label>Measure</Label>
+            <Select
+              value={condition.additionalParams?.locationId || condition.additionalParams?.groupBy || 'tenant'}
+              onValueChange={(value) => updateParams({
+                groupBy: value === 'location' || value === 'qr_code' ? value : undefined,
+                locationId: locations.some(location => location.id === value) ? value : undefined
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tenant">All locations combined</SelectItem>
+                <SelectItem value="location">Each location separately</SelectItem>
+                <SelectItem value="qr_code">Each QR code separately</SelectItem>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>Only {location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {condition.type === 'volume_based' && (
+            <>
+              <div>
+                <Label>Time Window (minutes)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={condition.additionalParams?.timeWindow ?? 60}
+                  onChange={(e) => updateParams({ timeWindow: parseInt(e.target.value) || 60 })}
+                />
+              </div>
+              <div>
+                <Label>Min Rating</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={5}
+                  placeholder="Any"
+                  value={condition.additionalParams?.minRating ?? ''}
+                  onChange={(e) => updateParams({ minRating: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label>Max Rating</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={5}
+                  placeholder="Any"
+                  value={condition.additionalParams?.maxRating ?? ''}
+                  onChange={(e) => updateParams({ maxRating: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+interface SentimentFieldsProps {
+  condition: AlertCondition;
+  update: (changes: Partial<AlertCondition>) => void;
+}
+
+// A sentiment condition either thresholds the -1..1 score or matches the label
+function SentimentFields({ condition, update }: SentimentFieldsProps) {
+  const isLabel = condition.field === 'sentiment';
+
+  return (
+    <>
+      <div>
+        <Label>Compare</Label>
+        <Select
+          value={condition.field}
+          onValueChange={(value) => update(value === 'sentiment'
+            ? { field: value, operator: 'equals', value: 'negative' }
+            : { field: value, operator: 'less_than', value: -0.3 })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sentimentScore">Score</SelectItem>
+            <SelectItem value="sentiment">Label</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Operator</Label>
+        <Select
+          value={condition.operator}
+          onValueChange={(value: AlertCondition['operator']) => update({ operator: value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="equals">Equals</SelectItem>
+            <SelectItem value="not_equals">Not Equals</SelectItem>
+            {!isLabel && (
+              <>
+                <SelectItem value="greater_than">Greater Than</SelectItem>
+                <SelectItem value="less_than">Less Than</SelectItem>
+                <SelectItem value="greater_than_or_equal">At Least</SelectItem>
+                <SelectItem value="less_than_or_equal">At Most</SelectItem>
+              </>
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Value</Label>
+        {isLabel ? (
+          <Select value={condition.value} onValueChange={(value) => update({ value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="positive">Positive</SelectItem>
+              <SelectItem value="neutral">Neutral</SelectItem>
+              <SelectItem value="negative">Negative</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : (
+          <>
+            <Input
+              type="number"
+              min={-1}
+              max={1}
+              step={0.1}
+              value={condition.value}
+              onChange={(e) => update({ value: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">From -1 (very negative) to 1 (very positive)</p>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
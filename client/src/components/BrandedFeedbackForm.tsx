@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,6 +14,7 @@ import { Star, Send, Mic, Camera, CheckCircle, AlertCircle, Loader2 } from "luci
 import { apiRequest } from "@/lib/queryClient";
 import VoiceRecorder from "@/components/VoiceRecorder";
 import ImageUploader from "@/components/ui/ImageUploader";
+import type { QrScanEvent } from "@shared/qrFunnel";
 
 const feedbackSchema = z.object({
   customerName: z.string().min(1, "Please enter your name"),
@@ -31,13 +32,15 @@ interface BrandedFeedbackFormProps {
   locationId: string;
   qrCodeId?: string;
   surveyTemplateId?: string;
+  scanSession?: string;
 }
 
 export default function BrandedFeedbackForm({
   tenantId,
   locationId,
   qrCodeId,
-  surveyTemplateId
+  surveyTemplateId,
+  scanSession
 }: BrandedFeedbackFormProps) {
   const [selectedRating, setSelectedRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
@@ -46,22 +49,40 @@ export default function BrandedFeedbackForm({
   const [submissionStatus, setSubmissionStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
   const queryClient = useQueryClient();
   const startTime = Date.now();
+  const hasStarted = useRef(false);
+
+  // Funnel steps for the QR scan that opened the form; losing one only
+  // affects the report, so failures are ignored
+  const reportScanEvent = (step: QrScanEvent) => {
+    if (!scanSession) return;
+    apiRequest('POST', `/api/qr-scans/${encodeURIComponent(scanSession)}/events`, { step }).catch(() => {});
+  };
+
+  useEffect(() => {
+    reportScanEvent('opened');
+  }, [scanSession]);
+
+  const markStarted = () => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+    reportScanEvent('started');
+  };
 
   // Fetch tenant branding
   const { data: tenant } = useQuery({
-    queryKey: ['/api/tenants', tenantId],
+    queryKey: ['/api/public/tenants', tenantId],
     retry: false,
   });
 
   // Fetch location details
   const { data: location } = useQuery({
-    queryKey: ['/api/locations', locationId],
+    queryKey: ['/api/public/tenants', tenantId, 'locations', locationId],
     retry: false,
   });
 
   // Fetch survey template if specified
   const { data: surveyTemplate } = useQuery({
-    queryKey: ['/api/survey-templates', surveyTemplateId],
+    queryKey: ['/api/public/tenants', tenantId, 'survey-templates', surveyTemplateId],
     enabled: !!surveyTemplateId,
     retry: false,
   });
@@ -81,17 +102,15 @@ export default function BrandedFeedbackForm({
   // Submit feedback mutation
   const submitFeedback = useMutation({
     mutationFn: async (data: FeedbackFormData & { voiceRecordingUrl?: string; imageUrls?: string[] }) => {
-      return await apiRequest('/api/feedback', {
-        method: 'POST',
-        body: JSON.stringify({
-          ...data,
-          tenantId,
-          locationId,
-          qrCodeId,
-          ipAddress: '',
-          userAgent: navigator.userAgent,
-          responseTime: Math.floor((Date.now() - startTime) / 1000),
-        }),
+      return await apiRequest('POST', '/api/feedback', {
+        ...data,
+        tenantId,
+        locationId,
+        qrCodeId,
+        scanSession,
+        ipAddress: '',
+        userAgent: navigator.userAgent,
+        responseTime: Math.floor((Date.now() - startTime) / 1000),
       });
     },
     onSuccess: () => {
@@ -223,7 +242,12 @@ export default function BrandedFeedbackForm({
           </CardHeader>
           <CardContent className="p-6">
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <form
+                onSubmit={form.handleSubmit(onSubmit)}
+                onFocusCapture={markStarted}
+                onClickCapture={markStarted}
+                className="space-y-6"
+              >
                 {/* Customer Information */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
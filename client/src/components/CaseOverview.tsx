@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Briefcase, MapPin } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+interface CaseMetrics {
+  openCases: number;
+  unassignedCases: number;
+  openByLocation: Array<{ locationId: string; locationName: string; openCases: number }>;
+  averageResolutionHours: number | null;
+  resolvedLast30Days: number;
+}
+
+const formatDuration = (hours: number) => {
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
+
+// Open feedback cases per location and how quickly cases get resolved
+export default function CaseOverview() {
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
+
+  const { data: metrics, isLoading } = useQuery<CaseMetrics>({
+    queryKey: ['/api/analytics/cases', tenantId],
+    retry: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Briefcase className="h-5 w-5 text-blue-600" />
+          Open Cases
+          <Link href="/feedback-inbox" className="ml-auto">
+            <Button variant="ghost" size="sm" data-testid="button-open-cases">View inbox</Button>
+          </Link>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !metrics ? (
+          <div className="animate-pulse h-24 bg-gray-100 rounded"></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-gray-900" data-testid="text-open-cases">{metrics.openCases}</p>
+                <p className="text-sm text-gray-500">Open</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{metrics.unassignedCases}</p>
+                <p className="text-sm text-gray-500">Unassigned</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900" data-testid="text-resolution-time">
+                  {metrics.averageResolutionHours === null ? '—' : formatDuration(metrics.averageResolutionHours)}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Avg. time to resolve ({metrics.resolvedLast30Days} in 30 days)
+                </p>
+              </div>
+            </div>
+            {metrics.openByLocation.length > 0 && (
+              <div className="space-y-2">
+                {metrics.openByLocation.map((row) => (
+                  <div key={row.locationId} className="flex items-center justify-between text-sm p-2 bg-muted rounded">
+                    <span className="flex items-center">
+                      <MapPin className="h-3 w-3 mr-2 text-gray-500" />
+                      {row.locationName}
+                    </span>
+                    <span className="font-medium">{row.openCases}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
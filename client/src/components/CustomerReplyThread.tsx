@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, MessageCircle, Send } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { FeedbackReply, FeedbackResponse, ReplyChannel } from "@shared/schema";
+
+type ReplyRow = FeedbackReply & { senderName?: string };
+
+const channelLabels: Record<ReplyChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+};
+
+// Replies to the customer behind a feedback item and their SMS answers.
+// The composer only offers channels the customer left contact details for.
+export default function CustomerReplyThread({ feedback }: { feedback: FeedbackResponse }) {
+  const { can } = useAuth();
+  const canManage = can('feedback:manage');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const channels = ([
+    feedback.customerEmail ? 'email' : null,
+    feedback.customerPhone ? 'sms' : null,
+  ] as const).filter((channel): channel is ReplyChannel => channel !== null);
+  const [channel, setChannel] = useState<ReplyChannel | undefined>(channels[0]);
+  const [body, setBody] = useState("");
+
+  useEffect(() => {
+    if (!channel || !channels.includes(channel)) setChannel(channels[0]);
+  }, [feedback.customerEmail, feedback.customerPhone]);
+
+  const { data: replies } = useQuery<ReplyRow[]>({
+    queryKey: ['/api/feedback', feedback.id, 'replies'],
+    retry: false,
+  });
+
+  const sendReply = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/feedback/${feedback.id}/replies`, { channel, body });
+    },
+    onSuccess: () => {
+      setBody("");
+      toast({ title: "Reply sent" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reply not delivered", description: error.message, variant: "destructive" });
+    },
+    // Failed attempts are kept in the thread too
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback', feedback.id, 'replies'] });
+    },
+  });
+
+  return (
+    <div data-testid={`reply-thread-${feedback.id}`}>
+      <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+        <Mail className="h-4 w-4" />
+        Customer Replies
+      </h4>
+      <div className="space-y-2">
+        {replies?.length ? replies.map((reply) => {
+          const inbound = reply.direction === 'inbound';
+          return (
+            <div
+              key={reply.id}
+              className={`text-sm p-2 rounded max-w-[85%] ${inbound ? 'bg-muted' : 'bg-blue-50 ml-auto'}`}
+            >
+              <div className="text-xs text-muted-foreground mb-1 flex items-center gap-2">
+                {reply.channel === 'sms' ? <MessageCircle className="h-3 w-3" /> : <Mail className="h-3 w-3" />}
+                {inbound ? (feedback.customerName || reply.address) : (reply.senderName || 'Unknown')}
+                {' · '}
+                {reply.createdAt ? new Date(reply.createdAt).toLocaleString() : ''}
+                {reply.status === 'failed' && <Badge variant="destructive">Not delivered</Badge>}
+              </div>
+              <p className="whitespace-pre-wrap">{reply.body}</p>
+              {reply.error && <p className="text-xs text-red-600 mt-1">{reply.error}</p>}
+            </div>
+          );
+        }) : (
+          <p className="text-sm text-muted-foreground">No replies yet</p>
+        )}
+      </div>
+      {canManage && channel && (
+        <div className="flex flex-col md:flex-row gap-2 mt-2">
+          <Select value={channel} onValueChange={(value: ReplyChannel) => setChannel(value)}>
+            <SelectTrigger className="md:w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {channels.map((value) => (
+                <SelectItem key={value} value={value}>{channelLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            rows={2}
+            value={body}
+            maxLength={2000}
+            placeholder={`Reply to ${channel === 'email' ? feedback.customerEmail : feedback.customerPhone}`}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <Button onClick={() => sendReply.mutate()} disabled={!body.trim() || sendReply.isPending}>
+            <Send className="h-4 w-4 mr-2" />
+            {sendReply.isPending ? "Sending..." : "Send"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
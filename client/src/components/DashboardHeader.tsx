@@ -1,6 +1,5 @@
-import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Bell, Building, MapPin, QrCode, Users } from "lucide-react";
+import { Bell, Building, Inbox, MapPin, QrCode, Tags, Users, Webhook } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -12,10 +11,13 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function DashboardHeader() {
-  const [selectedTenant] = useState("a550e8e0-d5e7-4f82-8b9a-123456789012"); // This would come from auth context
+  const { user, logoutMutation, can } = useAuth();
+  const [, setLocation] = useLocation();
+  const selectedTenant = user!.tenantId;
 
   const { data: tenant, isLoading } = useQuery({
     queryKey: ['/api/tenants', selectedTenant],
@@ -76,6 +78,12 @@ export default function DashboardHeader() {
           <div className="flex items-center space-x-4">
             {/* Quick Actions */}
             <div className="flex items-center space-x-2">
+              <Link href="/feedback-inbox">
+                <Button variant="outline" size="sm" data-testid="button-inbox">
+                  <Inbox className="h-4 w-4 mr-2" />
+                  Inbox
+                </Button>
+              </Link>
               <Link href="/branch-management">
                 <Button variant="outline" size="sm" data-testid="button-locations">
                   <MapPin className="h-4 w-4 mr-2" />
@@ -88,6 +96,30 @@ export default function DashboardHeader() {
                   QR Codes
                 </Button>
               </Link>
+              {can('users:manage') && (
+                <Link href="/team-management">
+                  <Button variant="outline" size="sm" data-testid="button-team">
+                    <Users className="h-4 w-4 mr-2" />
+                    Team
+                  </Button>
+                </Link>
+              )}
+              {can('webhooks:manage') && (
+                <Link href="/webhooks">
+                  <Button variant="outline" size="sm" data-testid="button-webhooks">
+                    <Webhook className="h-4 w-4 mr-2" />
+                    Webhooks
+                  </Button>
+                </Link>
+              )}
+              {can('topics:manage') && (
+                <Link href="/feedback-topics">
+                  <Button variant="outline" size="sm" data-testid="button-topics">
+                    <Tags className="h-4 w-4 mr-2" />
+                    Topics
+                  </Button>
+                </Link>
+              )}
             </div>
 
             {/* Notifications */}
@@ -138,12 +170,20 @@ export default function DashboardHeader() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuLabel>My Account</DropdownMenuLabel>
+                <DropdownMenuLabel>
+                  <div>{[user?.firstName, user?.lastName].filter(Boolean).join(' ') || 'My Account'}</div>
+                  <div className="text-xs font-normal text-gray-500">{user?.email}</div>
+                </DropdownMenuLabel>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem>Settings</DropdownMenuItem>
                 <DropdownMenuItem>Support</DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem>Sign out</DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => setLocation("/auth") })}
+                  data-testid="button-sign-out"
+                >
+                  Sign out
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { DigestFrequency, DigestSubscription, Location } from "@shared/schema";
+
+const frequencyLabels: Record<DigestFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly (Mondays)",
+  monthly: "Monthly (1st of the month)",
+};
+
+const ALL_LOCATIONS = "all";
+
+// Scheduled summary emails of ratings, volume, complaints, weakest locations
+// and open alerts, for the whole business or a single location
+export default function DigestSubscriptions() {
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [frequency, setFrequency] = useState<DigestFrequency>("weekly");
+  const [scope, setScope] = useState(ALL_LOCATIONS);
+
+  const { data: subscriptions, isLoading } = useQuery<DigestSubscription[]>({
+    queryKey: ['/api/digest-subscriptions'],
+    retry: false,
+  });
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ['/api/locations', tenantId],
+    retry: false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/digest-subscriptions'] });
+
+  const subscribe = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/digest-subscriptions', {
+        frequency,
+        locationId: scope === ALL_LOCATIONS ? null : scope,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Digest added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add the digest", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; isActive?: boolean; frequency?: DigestFrequency }) => {
+      return await apiRequest('PATCH', `/api/digest-subscriptions/${id}`, changes);
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Could not update the digest", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unsubscribe = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/digest-subscriptions/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Could not remove the digest", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const locationName = (id: string | null) =>
+    id ? locations?.find((location) => location.id === id)?.name ?? "Unknown location" : "All locations";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Digest Reports
+        </CardTitle>
+        <CardDescription>
+          A summary email of ratings, response volume, top complaints, lowest rated locations and unresolved alerts,
+          sent to {user?.email} at 07:00 UTC
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="animate-pulse h-16 bg-gray-100 rounded"></div>
+        ) : subscriptions?.length ? (
+          subscriptions.map((subscription) => (
+            <div
+              key={subscription.id}
+              className="flex flex-col md:flex-row md:items-center gap-3 p-3 border rounded-lg"
+              data-testid={`digest-${subscription.id}`}
+            >
+              <div className="flex-1">
+                <p className="font-medium">
+                  {frequencyLabels[subscription.frequency as DigestFrequency]} · {locationName(subscription.locationId)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {subscription.isActive
+                    ? `Next: ${new Date(subscription.nextSendAt).toLocaleString()}`
+                    : 'Paused'}
+                  {subscription.lastSentAt && ` · Last sent ${new Date(subscription.lastSentAt).toLocaleString()}`}
+                </p>
+                {subscription.lastError && <p className="text-sm text-red-600">{subscription.lastError}</p>}
+              </div>
+              <Select
+                value={subscription.frequency}
+                onValueChange={(value: DigestFrequency) => update.mutate({ id: subscription.id, frequency: value })}
+              >
+                <SelectTrigger className="md:w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(frequencyLabels) as DigestFrequency[]).map((value) => (
+                    <SelectItem key={value} value={value}>{frequencyLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Switch
+                checked={subscription.isActive}
+                onCheckedChange={(checked) => update.mutate({ id: subscription.id, isActive: checked })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => unsubscribe.mutate(subscription.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">You don't receive any digests yet</p>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-end gap-3 pt-4 border-t">
+          <div className="space-y-1">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={(value: DigestFrequency) => setFrequency(value)}>
+              <SelectTrigger className="md:w-56" data-testid="select-digest-frequency"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(frequencyLabels) as DigestFrequency[]).map((value) => (
+                  <SelectItem key={value} value={value}>{frequencyLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Covering</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="md:w-56" data-testid="select-digest-location"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                {locations?.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => subscribe.mutate()} disabled={subscribe.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Digest
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
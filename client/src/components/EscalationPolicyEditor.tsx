@@ -0,0 +1,74 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface EscalationTier {
+  role: 'location_manager' | 'admin' | 'owner';
+  phoneNumbers?: string[];
+}
+
+const tierRoleLabels: Record<EscalationTier['role'], string> = {
+  location_manager: 'Location manager',
+  admin: 'Admins (regional)',
+  owner: 'Owners',
+};
+
+export const defaultEscalationTiers: EscalationTier[] = [
+  { role: 'location_manager' },
+  { role: 'admin' },
+  { role: 'owner' },
+];
+
+interface EscalationPolicyEditorProps {
+  tiers: EscalationTier[];
+  onChange: (tiers: EscalationTier[]) => void;
+}
+
+// Ordered tiers of an escalation action. Each tier is emailed in turn while
+// the alert stays unacknowledged; SMS numbers are optional per tier.
+export function EscalationPolicyEditor({ tiers, onChange }: EscalationPolicyEditorProps) {
+  const replace = (index: number, tier: EscalationTier) => {
+    onChange(tiers.map((existing, i) => (i === index ? tier : existing)));
+  };
+
+  return (
+    <div className="space-y-2 mt-4">
+      <Label>Escalation Tiers</Label>
+      {tiers.map((tier, index) => (
+        <div key={index} className="grid md:grid-cols-[2rem_1fr_2fr_auto] gap-2 items-center">
+          <span className="text-sm text-muted-foreground">{index + 1}.</span>
+          <Select
+            value={tier.role}
+            onValueChange={(value: EscalationTier['role']) => replace(index, { ...tier, role: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(tierRoleLabels).map(([role, label]) => (
+                <SelectItem key={role} value={role}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="SMS numbers (optional, comma-separated)"
+            value={tier.phoneNumbers?.join(', ') || ''}
+            onChange={(e) => replace(index, {
+              ...tier,
+              phoneNumbers: e.target.value.split(',').map(s => s.trim()).filter(Boolean)
+            })}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(tiers.filter((_, i) => i !== index))}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...tiers, { role: 'owner' }])}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Tier
+      </Button>
+    </div>
+  );
+}
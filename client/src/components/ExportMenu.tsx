@@ -0,0 +1,50 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@shared/schema";
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+};
+
+interface ExportMenuProps {
+  // One of the /api/exports endpoints
+  path: string;
+  params?: URLSearchParams;
+  label?: string;
+}
+
+// Downloads an export in the chosen format. The file is streamed by the
+// server, so the browser handles it as a plain download rather than a fetch.
+export default function ExportMenu({ path, params, label = "Export" }: ExportMenuProps) {
+  const download = (format: ExportFormat) => {
+    const query = new URLSearchParams(params);
+    query.set("format", format);
+    const link = document.createElement("a");
+    link.href = `${path}?${query}`;
+    link.download = "";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" data-testid="button-export">
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(formatLabels) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => download(format)}>
+            {formatLabels[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
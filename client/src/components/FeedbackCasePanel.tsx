@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquareText, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { feedbackStatuses, feedbackStatusLabels, type FeedbackStatus } from "@shared/cases";
+import type { FeedbackNote, FeedbackResponse } from "@shared/schema";
+
+export interface Assignee {
+  id: string;
+  name: string;
+  role: string;
+}
+
+type NoteRow = FeedbackNote & { authorName?: string };
+
+interface FeedbackCasePanelProps {
+  feedback: FeedbackResponse;
+  assignees: Assignee[];
+}
+
+// Status, assignee, resolution reason and the internal notes thread for one
+// feedback case. Read-only for roles without feedback:manage.
+export default function FeedbackCasePanel({ feedback, assignees }: FeedbackCasePanelProps) {
+  const { user, can } = useAuth();
+  const tenantId = user!.tenantId;
+  const canManage = can('feedback:manage');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<FeedbackStatus>(feedback.status as FeedbackStatus);
+  const [assignedTo, setAssignedTo] = useState(feedback.assignedTo || "unassigned");
+  const [resolutionReason, setResolutionReason] = useState(feedback.resolutionReason || "");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    setStatus(feedback.status as FeedbackStatus);
+    setAssignedTo(feedback.assignedTo || "unassigned");
+    setResolutionReason(feedback.resolutionReason || "");
+  }, [feedback.status, feedback.assignedTo, feedback.resolutionReason]);
+
+  const { data: notes } = useQuery<NoteRow[]>({
+    queryKey: ['/api/feedback', feedback.id, 'notes'],
+    retry: false,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const updateCase = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('PATCH', `/api/feedback/${feedback.id}/case`, {
+        status,
+        assignedTo: assignedTo === "unassigned" ? null : assignedTo,
+        resolutionReason: resolutionReason.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback', tenantId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/cases', tenantId] });
+      toast({ title: "Case updated" });
+    },
+    onError: onError("Could not update case"),
+  });
+
+  const addNote = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/feedback/${feedback.id}/notes`, { body: note });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback', feedback.id, 'notes'] });
+      setNote("");
+    },
+    onError: onError("Could not add note"),
+  });
+
+  const changed = status !== feedback.status
+    || assignedTo !== (feedback.assignedTo || "unassigned")
+    || resolutionReason.trim() !== (feedback.resolutionReason || "");
+
+  return (
+    <div className="space-y-4" data-testid={`case-panel-${feedback.id}`}>
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <Label>Status</Label>
+          <Select value={status} onValueChange={(value: FeedbackStatus) => setStatus(value)} disabled={!canManage}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {feedbackStatuses.map((value) => (
+                <SelectItem key={value} value={value}>{feedbackStatusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Assignee</Label>
+          <Select value={assignedTo} onValueChange={setAssignedTo} disabled={!canManage}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {assignees.map((assignee) => (
+                <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Resolution Reason</Label>
+          <Textarea
+            rows={1}
+            value={resolutionReason}
+            disabled={!canManage}
+            placeholder={status === 'resolved' ? "Required to resolve" : "Optional"}
+            onChange={(e) => setResolutionReason(e.target.value)}
+          />
+        </div>
+      </div>
+      {canManage && (
+        <Button size="sm" onClick={() => updateCase.mutate()} disabled={!changed || updateCase.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {updateCase.isPending ? "Saving..." : "Save Case"}
+        </Button>
+      )}
+
+      <div>
+        <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+          <MessageSquareText className="h-4 w-4" />
+          Internal Notes
+        </h4>
+        <div className="space-y-2">
+          {notes?.length ? notes.map((row) => (
+            <div key={row.id} className="text-sm p-2 bg-muted rounded">
+              <div className="text-xs text-muted-foreground mb-1">
+                {row.authorName || 'Unknown'} · {row.createdAt ? new Date(row.createdAt).toLocaleString() : ''}
+              </div>
+              <p className="whitespace-pre-wrap">{row.body}</p>
+            </div>
+          )) : (
+            <p className="text-sm text-muted-foreground">No notes yet</p>
+          )}
+        </div>
+        {canManage && (
+          <div className="flex gap-2 mt-2">
+            <Textarea
+              rows={2}
+              value={note}
+              placeholder="Add a note for your team"
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button variant="outline" onClick={() => addNote.mutate()} disabled={!note.trim() || addNote.isPending}>
+              Add Note
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
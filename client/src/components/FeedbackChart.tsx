@@ -4,10 +4,12 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { CalendarDays, TrendingUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function FeedbackChart() {
   const [timeRange, setTimeRange] = useState(7);
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
 
   const { data: trends, isLoading } = useQuery({
     queryKey: ['/api/analytics/trends', tenantId, { days: timeRange }],
@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertTriangle, MessageSquare, QrCode, Star, TrendingUp, Users, Wifi } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
 
 interface RealTimeStats {
   totalFeedback: number;
@@ -15,7 +16,8 @@ interface MetricsOverviewProps {
 }
 
 export default function MetricsOverview({ realTimeStats }: MetricsOverviewProps) {
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
 
   const { data: metrics, isLoading } = useQuery({
     queryKey: ['/api/analytics/metrics', tenantId],
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Layers } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Location, QrCode, SurveyTemplate } from "@shared/schema";
+
+type SourceType = "range" | "list" | "copy";
+
+interface BulkPreview {
+  qrCodes: Array<{ identifier: string; section: string | null }>;
+  duplicates: string[];
+}
+
+interface QrBulkDialogProps {
+  tenantId: string;
+  locations: Location[];
+  templates: SurveyTemplate[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_TEMPLATE = "default";
+const PREVIEW_ROWS = 8;
+
+// Creates many QR codes for one location: a numbered range, a pasted list or
+// a copy of another location's codes. The server previews the list first so
+// identifiers already in use can be fixed before anything is created.
+export default function QrBulkDialog({ tenantId, locations, templates, open, onOpenChange }: QrBulkDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [locationId, setLocationId] = useState("");
+  const [sourceType, setSourceType] = useState<SourceType>("range");
+  const [prefix, setPrefix] = useState("Table");
+  const [from, setFrom] = useState("1");
+  const [to, setTo] = useState("20");
+  const [csv, setCsv] = useState("");
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [section, setSection] = useState("");
+  const [surveyTemplateId, setSurveyTemplateId] = useState(DEFAULT_TEMPLATE);
+  const [campaign, setCampaign] = useState("");
+  const [preview, setPreview] = useState<BulkPreview | null>(null);
+
+  // Any change to the request makes the last preview stale
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const request = (previewOnly: boolean) => ({
+    locationId,
+    section: section || null,
+    surveyTemplateId: surveyTemplateId === DEFAULT_TEMPLATE ? null : surveyTemplateId,
+    campaign: campaign || null,
+    preview: previewOnly,
+    source: sourceType === "range"
+      ? { type: "range", prefix, from: Number(from), to: Number(to) }
+      : sourceType === "list"
+        ? { type: "list", csv }
+        : { type: "copy", fromLocationId },
+  });
+
+  const previewCodes = useMutation({
+    mutationFn: async (): Promise<BulkPreview> => {
+      const response = await apiRequest('POST', '/api/qr-codes/bulk', request(true));
+      return await response.json();
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Could not prepare the QR codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createCodes = useMutation({
+    mutationFn: async (): Promise<QrCode[]> => {
+      const response = await apiRequest('POST', '/api/qr-codes/bulk', request(false));
+      return await response.json();
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', tenantId] });
+      toast({ title: `${created.length} QR codes created` });
+      setPreview(null);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create the QR codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create QR Codes in Bulk</DialogTitle>
+          <DialogDescription>
+            Generate codes for a whole section or floor at once. Nothing is created if any identifier is already in use.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-1">
+            <Label>Location</Label>
+            <Select value={locationId} onValueChange={edit(setLocationId)}>
+              <SelectTrigger data-testid="select-bulk-location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Tabs value={sourceType} onValueChange={(value) => edit(setSourceType)(value as SourceType)}>
+            <TabsList>
+              <TabsTrigger value="range">Numbered Range</TabsTrigger>
+              <TabsTrigger value="list">List</TabsTrigger>
+              <TabsTrigger value="copy">Copy Location</TabsTrigger>
+            </TabsList>
+            <TabsContent value="range" className="grid grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="bulk-prefix">Name</Label>
+                <Input id="bulk-prefix" value={prefix} onChange={(e) => edit(setPrefix)(e.target.value)} placeholder="Table, Bed, Room" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-from">From</Label>
+                <Input id="bulk-from" type="number" min={0} value={from} onChange={(e) => edit(setFrom)(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-to">To</Label>
+                <Input id="bulk-to" type="number" min={0} value={to} onChange={(e) => edit(setTo)(e.target.value)} />
+              </div>
+            </TabsContent>
+            <TabsContent value="list" className="space-y-1">
+              <Label htmlFor="bulk-csv">One code per line: identifier, then an optional section</Label>
+              <Textarea
+                id="bulk-csv"
+                rows={8}
+                value={csv}
+                onChange={(e) => edit(setCsv)(e.target.value)}
+                placeholder={"Bed 1,ICU\nBed 2,ICU\nWaiting Room"}
+                className="font-mono text-sm"
+              />
+            </TabsContent>
+            <TabsContent value="copy" className="space-y-1">
+              <Label>Copy the identifiers and sections of</Label>
+              <Select value={fromLocationId} onValueChange={edit(setFromLocationId)}>
+                <SelectTrigger data-testid="select-bulk-copy-from">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter((location) => location.id !== locationId).map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TabsContent>
+          </Tabs>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="bulk-section">Section</Label>
+              <Input id="bulk-section" value={section} onChange={(e) => edit(setSection)(e.target.value)} placeholder="Patio" />
+            </div>
+            <div className="space-y-1">
+              <Label>Survey Template</Label>
+              <Select value={surveyTemplateId} onValueChange={edit(setSurveyTemplateId)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TEMPLATE}>Default Feedback Form</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-campaign">Campaign</Label>
+              <Input id="bulk-campaign" value={campaign} onChange={(e) => edit(setCampaign)(e.target.value)} />
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              {preview.duplicates.length > 0 ? (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Already used at this location: {preview.duplicates.join(", ")}
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <p className="text-sm">{preview.qrCodes.length} QR codes will be created:</p>
+              )}
+              <ul className="text-sm text-gray-600 border rounded-lg p-3 space-y-1">
+                {preview.qrCodes.slice(0, PREVIEW_ROWS).map((qrCode) => (
+                  <li key={qrCode.identifier}>
+                    {qrCode.identifier}{qrCode.section && <span className="text-gray-400"> · {qrCode.section}</span>}
+                  </li>
+                ))}
+                {preview.qrCodes.length > PREVIEW_ROWS && (
+                  <li className="text-gray-400">and {preview.qrCodes.length - PREVIEW_ROWS} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4 border-t">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            {preview && preview.duplicates.length === 0 ? (
+              <Button onClick={() => createCodes.mutate()} disabled={createCodes.isPending} data-testid="button-bulk-create">
+                <Layers className="h-4 w-4 mr-2" />
+                {createCodes.isPending ? "Creating..." : `Create ${preview.qrCodes.length} QR Codes`}
+              </Button>
+            ) : (
+              <Button onClick={() => previewCodes.mutate()} disabled={!locationId || previewCodes.isPending} data-testid="button-bulk-preview">
+                {previewCodes.isPending ? "Checking..." : "Preview"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
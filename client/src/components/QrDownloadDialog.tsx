@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  qrImageFormats,
+  qrImageFormatLabels,
+  qrErrorCorrectionLevels,
+  qrImageDpis,
+  qrImagePixels,
+  defaultQrImageOptions,
+  QR_IMAGE_MAX_PIXELS,
+  type QrImageFormat,
+  type QrErrorCorrectionLevel,
+} from "@shared/qrImages";
+import type { QrCode } from "@shared/schema";
+
+interface QrDownloadDialogProps {
+  tenantId: string;
+  qrCode: QrCode | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const errorCorrectionLabels: Record<QrErrorCorrectionLevel, string> = {
+  L: "Low (7%)",
+  M: "Medium (15%)",
+  Q: "Quartile (25%)",
+  H: "High (30%)",
+};
+
+// Downloads one QR code as SVG, PNG or EPS with the chosen colours, size and
+// error correction, optionally with the brand logo in the centre
+export default function QrDownloadDialog({ tenantId, qrCode, onOpenChange }: QrDownloadDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<QrImageFormat>(defaultQrImageOptions.format);
+  const [size, setSize] = useState(String(defaultQrImageOptions.size));
+  const [dpi, setDpi] = useState(defaultQrImageOptions.dpi);
+  const [dark, setDark] = useState(defaultQrImageOptions.dark);
+  const [light, setLight] = useState(defaultQrImageOptions.light);
+  const [errorCorrection, setErrorCorrection] = useState<QrErrorCorrectionLevel>(defaultQrImageOptions.errorCorrection);
+  const [logo, setLogo] = useState(defaultQrImageOptions.logo);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const pixels = qrImagePixels(Number(size) || 0, dpi);
+
+  // A logo covers modules, so it needs the stronger error correction levels
+  const toggleLogo = (checked: boolean) => {
+    setLogo(checked);
+    if (checked && (errorCorrection === "L" || errorCorrection === "M")) setErrorCorrection("H");
+  };
+
+  const download = async () => {
+    if (!qrCode) return;
+    setIsDownloading(true);
+    try {
+      const query = new URLSearchParams({
+        format,
+        size,
+        dpi: String(dpi),
+        dark,
+        light,
+        errorCorrection,
+        logo: String(logo && format !== "eps"),
+      });
+      const response = await apiRequest('GET', `/api/qr-codes/${tenantId}/${qrCode.id}/image?${query}`);
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? `qr-code.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ title: "Could not download the QR code", description: error.message, variant: "destructive" });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!qrCode} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Download {qrCode?.identifier}</DialogTitle>
+          <DialogDescription>
+            Vector formats stay sharp at any size; PNG is rendered at the size and resolution you choose
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value: QrImageFormat) => setFormat(value)}>
+              <SelectTrigger data-testid="select-download-format"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {qrImageFormats.map((value) => (
+                  <SelectItem key={value} value={value}>{qrImageFormatLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="download-size">Printed width (mm)</Label>
+              <Input id="download-size" type="number" min={10} max={1000} value={size} onChange={(e) => setSize(e.target.value)} />
+            </div>
+            {format === "png" && (
+              <div className="space-y-1">
+                <Label>Resolution</Label>
+                <Select value={String(dpi)} onValueChange={(value) => setDpi(Number(value))}>
+                  <SelectTrigger data-testid="select-download-dpi"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {qrImageDpis.map((value) => (
+                      <SelectItem key={value} value={String(value)}>{value} dpi</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {format === "png" && (
+            <p className={`text-xs ${pixels > QR_IMAGE_MAX_PIXELS ? "text-red-600" : "text-gray-500"}`}>
+              {pixels} × {pixels} pixels{pixels > QR_IMAGE_MAX_PIXELS && ` (at most ${QR_IMAGE_MAX_PIXELS})`}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="download-dark">Code colour</Label>
+              <Input id="download-dark" type="color" value={dark} onChange={(e) => setDark(e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="download-light">Background</Label>
+              <Input id="download-light" type="color" value={light} onChange={(e) => setLight(e.target.value.toUpperCase())} />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Error correction</Label>
+            <Select value={errorCorrection} onValueChange={(value: QrErrorCorrectionLevel) => setErrorCorrection(value)}>
+              <SelectTrigger data-testid="select-download-error-correction"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {qrErrorCorrectionLevels.map((value) => (
+                  <SelectItem key={value} value={value} disabled={logo && (value === "L" || value === "M")}>
+                    {errorCorrectionLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="download-logo">Logo in the centre</Label>
+              <p className="text-xs text-gray-500">
+                {format === "eps" ? "Not available for EPS" : "Uses the logo from your branding settings"}
+              </p>
+            </div>
+            <Switch id="download-logo" checked={logo && format !== "eps"} disabled={format === "eps"} onCheckedChange={toggleLogo} />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4 border-t">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              onClick={download}
+              disabled={isDownloading || (format === "png" && pixels > QR_IMAGE_MAX_PIXELS)}
+              data-testid="button-download-image"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isDownloading ? "Preparing..." : "Download"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Filter } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  qrFunnelSteps,
+  qrFunnelStepLabels,
+  qrFunnelGroupings,
+  qrFunnelGroupingLabels,
+  qrFunnelDropOff,
+  emptyQrFunnelCounts,
+  type QrFunnelGrouping,
+  type QrFunnelRow,
+} from "@shared/qrFunnel";
+
+const periods = [7, 30, 90];
+
+const percent = (value: number | null) => (value === null ? "–" : `${Math.round(value * 100)}%`);
+
+// How many scans become feedback, step by step, for each QR code, section or
+// location
+export default function QrFunnelReport({ tenantId }: { tenantId: string }) {
+  const [groupBy, setGroupBy] = useState<QrFunnelGrouping>("qrCode");
+  const [days, setDays] = useState(30);
+
+  const { data: rows, isLoading } = useQuery<QrFunnelRow[]>({
+    queryKey: ['/api/analytics/qr-codes', tenantId, groupBy, days],
+    queryFn: async () => {
+      const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const res = await apiRequest('GET', `/api/analytics/qr-codes/${tenantId}?${new URLSearchParams({ groupBy, from })}`);
+      return await res.json();
+    },
+    retry: false,
+  });
+
+  const totals = emptyQrFunnelCounts();
+  (rows ?? []).forEach((row) => qrFunnelSteps.forEach((step) => { totals[step] += row.counts[step]; }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          <Filter className="h-5 w-5 text-purple-600" />
+          Scan Funnel
+          <div className="ml-auto flex gap-2">
+            <Select value={groupBy} onValueChange={(value: QrFunnelGrouping) => setGroupBy(value)}>
+              <SelectTrigger className="w-40" data-testid="select-funnel-group"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {qrFunnelGroupings.map((value) => (
+                  <SelectItem key={value} value={value}>By {qrFunnelGroupingLabels[value].toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-36" data-testid="select-funnel-period"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {periods.map((value) => (
+                  <SelectItem key={value} value={String(value)}>Last {value} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Overall drop-off between steps */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {qrFunnelDropOff(totals).map(({ step, count, conversion, dropped }) => (
+            <div key={step} className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">{qrFunnelStepLabels[step]}</div>
+              <div className="text-2xl font-semibold">{count}</div>
+              {conversion !== null && (
+                <div className="text-xs text-gray-500">
+                  {percent(conversion)} of previous{dropped > 0 && <span className="text-red-600"> · {dropped} dropped</span>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="h-32 bg-gray-100 rounded animate-pulse" />
+        ) : !rows || rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No QR codes to report on</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{qrFunnelGroupingLabels[groupBy]}</TableHead>
+                {qrFunnelSteps.map((step) => (
+                  <TableHead key={step} className="text-right">{qrFunnelStepLabels[step]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  {qrFunnelDropOff(row.counts).map(({ step, count, conversion }) => (
+                    <TableCell key={step} className="text-right">
+                      {count}
+                      {conversion !== null && <span className="ml-1 text-xs text-gray-500">({percent(conversion)})</span>}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
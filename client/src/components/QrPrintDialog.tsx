@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Printer } from "lucide-react";
+import { qrSheetBleeds, qrSheetLayoutLabels, qrSheetSizes, type QrSheetLayout } from "@shared/qrSheets";
+import type { Location, QrCode } from "@shared/schema";
+
+interface QrPrintDialogProps {
+  tenantId: string;
+  qrCodes: QrCode[];
+  locations: Location[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Picks a location's QR codes and a print layout, then downloads them as one
+// PDF rendered by the server
+export default function QrPrintDialog({ tenantId, qrCodes, locations, open, onOpenChange }: QrPrintDialogProps) {
+  const [locationId, setLocationId] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [layout, setLayout] = useState<QrSheetLayout>("table-tent");
+  const [size, setSize] = useState(Object.keys(qrSheetSizes["table-tent"])[0]);
+  const [bleed, setBleed] = useState<number>(0);
+
+  const locationCodes = qrCodes.filter((qrCode) => qrCode.locationId === locationId);
+
+  // Everything active at a newly picked location starts out selected
+  useEffect(() => {
+    setSelected(new Set(locationCodes.filter((qrCode) => qrCode.isActive).map((qrCode) => qrCode.id)));
+  }, [locationId]);
+
+  const changeLayout = (value: QrSheetLayout) => {
+    setLayout(value);
+    setSize(Object.keys(qrSheetSizes[value])[0]);
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const download = () => {
+    const query = new URLSearchParams({
+      locationId,
+      layout,
+      size,
+      bleed: String(bleed),
+      ids: Array.from(selected).join(","),
+    });
+    const link = document.createElement("a");
+    link.href = `/api/qr-codes/${tenantId}/sheets?${query}`;
+    link.download = "";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Print QR Codes</DialogTitle>
+          <DialogDescription>
+            Download a location's QR codes as a print-ready PDF with your logo, colours and slogan
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Location</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger data-testid="select-print-location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {locationId && (
+            <div className="space-y-2">
+              <Label>QR codes</Label>
+              {locationCodes.length === 0 ? (
+                <p className="text-sm text-gray-500">This location has no QR codes yet</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto space-y-2 border rounded-lg p-3">
+                  {locationCodes.map((qrCode) => (
+                    <label key={qrCode.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={selected.has(qrCode.id)}
+                        onCheckedChange={(checked) => toggle(qrCode.id, checked === true)}
+                      />
+                      <span>{qrCode.identifier}</span>
+                      {qrCode.section && <span className="text-gray-500">· {qrCode.section}</span>}
+                      {!qrCode.isActive && <span className="text-gray-400">(inactive)</span>}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Layout</Label>
+            <Select value={layout} onValueChange={(value: QrSheetLayout) => changeLayout(value)}>
+              <SelectTrigger data-testid="select-print-layout"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(qrSheetLayoutLabels) as QrSheetLayout[]).map((value) => (
+                  <SelectItem key={value} value={value}>{qrSheetLayoutLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Size</Label>
+              <Select value={size} onValueChange={setSize}>
+                <SelectTrigger data-testid="select-print-size"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(qrSheetSizes[layout]).map(([value, option]) => (
+                    <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Bleed</Label>
+              <Select value={String(bleed)} onValueChange={(value) => setBleed(Number(value))}>
+                <SelectTrigger data-testid="select-print-bleed"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {qrSheetBleeds.map((value) => (
+                    <SelectItem key={value} value={String(value)}>{value === 0 ? "None" : `${value} mm`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4 border-t">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={download} disabled={selected.size === 0} data-testid="button-download-pdf">
+              <Printer className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
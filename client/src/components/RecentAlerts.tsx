@@ -6,11 +6,13 @@ import { Button } from "@/components/ui/button";
 import { AlertTriangle, Bell, Check, Clock, Eye } from "lucide-react";
 import { connectWebSocket, sendWebSocketMessage } from "@/lib/websocket";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function RecentAlerts() {
   const [realTimeAlerts, setRealTimeAlerts] = useState<any[]>([]);
   const queryClient = useQueryClient();
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
 
   const { data: alerts, isLoading } = useQuery({
     queryKey: ['/api/alerts', tenantId],
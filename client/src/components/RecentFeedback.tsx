@@ -7,6 +7,9 @@ import { MessageSquare, Star, Clock, MapPin, Play, Image as ImageIcon, Wifi } fr
 import { useState, useEffect } from "react";
 import AudioPlayer from "@/components/ui/AudioPlayer";
 import ImageGallery from "@/components/ui/ImageGallery";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { topicLabel } from "@shared/topics";
 
 interface RecentFeedbackProps {
   realTimeUpdates?: boolean;
@@ -15,7 +18,8 @@ interface RecentFeedbackProps {
 export default function RecentFeedback({ realTimeUpdates = false }: RecentFeedbackProps) {
   const [showDetails, setShowDetails] = useState<string | null>(null);
   const [newFeedbackIds, setNewFeedbackIds] = useState<Set<string>>(new Set());
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
 
   const { data: feedback, isLoading, refetch } = useQuery({
     queryKey: ['/api/feedback', tenantId, { limit: 20 }],
@@ -86,6 +90,12 @@ export default function RecentFeedback({ realTimeUpdates = false }: RecentFeedba
     return 'destructive';
   };
 
+  const getSentimentBadge = (sentiment: string) => {
+    if (sentiment === 'positive') return 'default';
+    if (sentiment === 'negative') return 'destructive';
+    return 'outline';
+  };
+
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -112,6 +122,9 @@ export default function RecentFeedback({ realTimeUpdates = false }: RecentFeedba
               <Badge variant="outline" className="text-xs">Live</Badge>
             </div>
           )}
+          <Link href="/feedback-inbox" className="ml-auto">
+            <Button variant="ghost" size="sm" data-testid="button-view-all-feedback">View all</Button>
+          </Link>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -170,8 +183,18 @@ export default function RecentFeedback({ realTimeUpdates = false }: RecentFeedba
                           </p>
                         )}
                         
-                        {/* Multimedia indicators */}
-                        <div className="flex items-center gap-2 mt-2">
+                        {/* Sentiment, topic tags and multimedia indicators */}
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
+                          {item.sentiment && (
+                            <Badge variant={getSentimentBadge(item.sentiment)} className="text-xs capitalize" data-testid={`sentiment-${index}`}>
+                              {item.sentiment}
+                            </Badge>
+                          )}
+                          {Array.isArray(item.tags) && item.tags.map((tag: string) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {topicLabel(tag)}
+                            </Badge>
+                          ))}
                           {item.voiceRecordingUrl && (
                             <div className="flex items-center gap-1 text-blue-600 text-xs">
                               <Play className="h-3 w-3" />
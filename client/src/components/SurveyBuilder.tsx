@@ -28,6 +28,7 @@ import {
   Settings
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 
 const surveyTemplateSchema = z.object({
   name: z.string().min(1, "Template name is required"),
@@ -116,7 +117,8 @@ export default function SurveyBuilder() {
   ]);
 
   const queryClient = useQueryClient();
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
 
   // Fetch existing survey templates
   const { data: templates, isLoading } = useQuery({
@@ -0,0 +1,116 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// User as returned by the API: credentials are stripped server-side
+export type AuthUser = Omit<User, "passwordHash"> & { hasPassword: boolean };
+
+type LoginData = {
+  email: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  magicLinkMutation: UseMutationResult<{ message: string }, Error, { email: string }>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  can: (permission: Permission) => boolean;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<AuthUser | null, Error>({
+    queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return await res.json();
+    },
+    onSuccess: (user: AuthUser) => {
+      queryClient.setQueryData(["/api/auth/user"], user);
+    },
+    onError: () => {
+      toast({
+        title: "Sign in failed",
+        description: "Invalid email or password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const magicLinkMutation = useMutation({
+    mutationFn: async (data: { email: string }) => {
+      const res = await apiRequest("POST", "/api/auth/magic-link", data);
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Check your inbox",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send sign-in link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/user"], null);
+      queryClient.clear();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sign out failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        magicLinkMutation,
+        logoutMutation,
+        can: (permission) => hasPermission(user?.role, permission),
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
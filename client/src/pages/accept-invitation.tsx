@@ -0,0 +1,168 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { AlertCircle, Loader2, UserPlus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { roleLabels, type UserRole } from "@shared/permissions";
+
+const acceptSchema = z.object({
+  firstName: z.string().min(1, "First name is required"),
+  lastName: z.string().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters").optional().or(z.literal("")),
+});
+
+type AcceptData = z.infer<typeof acceptSchema>;
+
+type InvitationDetails = {
+  email: string;
+  role: string;
+  status: "pending" | "accepted" | "revoked" | "expired";
+  expiresAt: string;
+  brandName: string;
+  logoUrl?: string | null;
+};
+
+export default function AcceptInvitation() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ['/api/public/invitations', token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<AcceptData>({
+    resolver: zodResolver(acceptSchema),
+    defaultValues: { firstName: "", lastName: "", password: "" },
+  });
+
+  const acceptInvitation = useMutation({
+    mutationFn: async ({ password, ...data }: AcceptData) => {
+      const res = await apiRequest('POST', '/api/public/invitations/accept', {
+        ...data,
+        token,
+        ...(password ? { password } : {}),
+      });
+      return await res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['/api/auth/user'], user);
+      setLocation('/dashboard');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not accept invitation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const problem = !token || error || !invitation
+    ? "This invitation link is invalid."
+    : invitation.status === "accepted"
+      ? "This invitation has already been accepted. Sign in to continue."
+      : invitation.status === "revoked"
+        ? "This invitation has been revoked."
+        : invitation.status === "expired"
+          ? "This invitation has expired. Ask your team admin to resend it."
+          : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-secondary/5 to-primary/10 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">
+            {invitation ? `Join ${invitation.brandName}` : "Team invitation"}
+          </CardTitle>
+          {invitation && !problem && (
+            <p className="text-sm text-gray-600">
+              You've been invited as a {roleLabels[invitation.role as UserRole] || invitation.role} using {invitation.email}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {problem ? (
+            <>
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{problem}</AlertDescription>
+              </Alert>
+              <Button variant="outline" className="w-full" onClick={() => setLocation('/auth')}>
+                Go to sign in
+              </Button>
+            </>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => acceptInvitation.mutate(data))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First name *</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-first-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last name</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-last-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Leave blank to sign in by email link" {...field} data-testid="input-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={acceptInvitation.isPending} data-testid="button-accept-invite">
+                  {acceptInvitation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <UserPlus className="w-4 h-4 mr-2" />
+                  )}
+                  Accept Invitation
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AlertDetails = {
+  title: string;
+  message: string;
+  severity: "critical" | "warning" | "info";
+  createdAt: string;
+  isAcknowledged: boolean;
+  acknowledgedAt?: string | null;
+  brandName: string;
+};
+
+// Landing page for the acknowledgement link in escalation emails. Nothing is
+// acknowledged until the recipient confirms, so mail scanners that open the
+// link do not stop the escalation.
+export default function AcknowledgeAlert() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: alert, isLoading, error } = useQuery<AlertDetails>({
+    queryKey: ['/api/public/alert-acknowledgements', token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acknowledge = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/public/alert-acknowledgements/acknowledge', { token });
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/public/alert-acknowledgements', token], { ...alert, ...result });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not acknowledge alert", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-secondary/5 to-primary/10 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">{alert ? alert.brandName : "Alert"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!token || error || !alert ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>This acknowledgement link is invalid or has expired.</AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">{alert.title}</h3>
+                  <Badge variant={alert.severity === 'critical' ? 'destructive' : 'secondary'}>{alert.severity}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">{alert.message}</p>
+                <p className="text-xs text-muted-foreground">Raised {new Date(alert.createdAt).toLocaleString()}</p>
+              </div>
+              {alert.isAcknowledged ? (
+                <Alert>
+                  <CheckCircle2 className="h-4 w-4" />
+                  <AlertDescription>
+                    Acknowledged{alert.acknowledgedAt ? ` ${new Date(alert.acknowledgedAt).toLocaleString()}` : ''}. No further escalation will be sent.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Button className="w-full" onClick={() => acknowledge.mutate()} disabled={acknowledge.isPending} data-testid="button-acknowledge-alert">
+                  {acknowledge.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                  )}
+                  Acknowledge Alert
+                </Button>
+              )}
+            </>
+          )}
+          <Button variant="outline" className="w-full" onClick={() => setLocation('/alert-management')}>
+            Open alert management
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
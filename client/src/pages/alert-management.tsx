@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
+import ExportMenu from '@/components/ExportMenu';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,38 +13,48 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, TestTube, Bell, Mail, MessageSquare, Globe } from 'lucide-react';
+import { EscalationPolicyEditor, defaultEscalationTiers, type EscalationTier } from '@/components/EscalationPolicyEditor';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit, Trash2, TestTube, Bell, Mail, MessageSquare, Globe, FolderPlus, Send, ArrowUpCircle } from 'lucide-react';
+import { ConditionListEditor, ConditionSummary, newCondition, newGroup, type AlertConditionNode } from '@/components/AlertConditionEditor';
 
 interface AlertRule {
   id: string;
   name: string;
   description?: string;
-  conditions: AlertCondition[];
+  conditions: AlertConditionNode[];
   actions: AlertAction[];
   isActive: boolean;
   priority: 'low' | 'medium' | 'high' | 'critical';
   cooldownPeriod?: number;
+  lastTriggeredAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
-interface AlertCondition {
-  type: 'rating_threshold' | 'keyword_detection' | 'volume_based' | 'time_based' | 'custom';
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'greater_than_or_equal' | 'less_than_or_equal' | 'contains' | 'not_contains' | 'regex';
-  field: string;
-  value: any;
-  additionalParams?: Record<string, any>;
-}
-
 interface AlertAction {
   type: 'email' | 'sms' | 'webhook' | 'notification' | 'escalation';
   recipients?: string[];
   phoneNumbers?: string[];
-  url?: string;
+  endpointId?: string;
   template?: string;
   delay?: number;
   retryCount?: number;
   retryInterval?: number;
+  tiers?: EscalationTier[];
+  acknowledgeTimeout?: number;
+}
+
+interface AlertDelivery {
+  id: string;
+  channel: 'email' | 'sms' | 'webhook';
+  recipient: string;
+  status: 'pending' | 'processing' | 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string | null;
+  sentAt?: string | null;
 }
 
 interface AlertNotification {
@@ -53,16 +64,35 @@ interface AlertNotification {
   severity: 'info' | 'warning' | 'critical';
   isRead: boolean;
   isAcknowledged: boolean;
+  acknowledgedAt?: string | null;
+  escalationLevel: number;
+  escalateAt?: string | null;
   createdAt: string;
   feedbackId?: string;
 }
 
+const deliveryStatusVariants: Record<AlertDelivery['status'], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "outline",
+  sent: "default",
+  failed: "destructive",
+  skipped: "secondary",
+};
+
 export default function AlertManagement() {
-  const { tenantId } = useParams<{ tenantId: string }>();
+  const { user, can } = useAuth();
+  const tenantId = user?.tenantId;
+  const canViewRules = can('rules:view');
+  const canManageRules = can('rules:manage');
+  const canAcknowledge = can('alerts:acknowledge');
   const { toast } = useToast();
   
   const [rules, setRules] = useState<AlertRule[]>([]);
+  const [locations, setLocations] = useState<{ id: string; name: string }[]>([]);
+  const [webhookEndpoints, setWebhookEndpoints] = useState<{ id: string; url: string; description?: string | null }[]>([]);
   const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const [deliveryAlert, setDeliveryAlert] = useState<AlertNotification | null>(null);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
@@ -82,17 +112,88 @@ export default function AlertManagement() {
     priority: 'medium' as const,
     isActive: true,
     cooldownPeriod: 30,
-    conditions: [] as AlertCondition[],
+    conditions: [] as AlertConditionNode[],
     actions: [] as AlertAction[]
   });
 
   useEffect(() => {
     if (tenantId) {
-      loadAlertRules();
+      if (canViewRules) {
+        loadAlertRules();
+      } else {
+        setLoading(false);
+      }
+      if (canManageRules) {
+        loadWebhookEndpoints();
+      }
       loadAlertNotifications();
+      loadLocations();
     }
   }, [tenantId]);
 
+  const updateNotification = async (notification: AlertNotification, action: 'read' | 'acknowledge') => {
+    try {
+      const response = await fetch(`/api/alerts/${notification.id}/${action}`, {
+        method: 'PATCH'
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to ${action} alert`);
+      }
+      const updated: AlertNotification = await response.json();
+      setNotifications(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (error) {
+      console.error('Error updating alert:', error);
+      toast({
+        title: "Error",
+        description: action === 'acknowledge' ? "Failed to acknowledge alert" : "Failed to mark alert as read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDeliveries = async (notification: AlertNotification) => {
+    setDeliveryAlert(notification);
+    setDeliveries(null);
+    try {
+      const response = await fetch(`/api/alerts/${notification.id}/deliveries`);
+      if (!response.ok) {
+        throw new Error('Failed to load deliveries');
+      }
+      setDeliveries(await response.json());
+    } catch (error) {
+      console.error('Error loading alert deliveries:', error);
+      setDeliveries([]);
+      toast({
+        title: "Error",
+        description: "Failed to load delivery log",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadLocations = async () => {
+    try {
+      const response = await fetch(`/api/locations/${tenantId}`);
+      if (response.ok) {
+        setLocations(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    }
+  };
+
+  // Webhook actions send to one of the endpoints registered under Webhooks
+  const loadWebhookEndpoints = async () => {
+    try {
+      const response = await fetch(`/api/webhooks/${tenantId}`);
+      if (response.ok) {
+        setWebhookEndpoints(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading webhook endpoints:', error);
+    }
+  };
+
   const loadAlertRules = async () => {
     try {
       const response = await fetch(`/api/alerts/rules/${tenantId}`);
@@ -124,6 +225,16 @@ export default function AlertManagement() {
     }
   };
 
+  // Invalid conditions come back as a 400 listing each problem
+  const ruleErrorMessage = async (response: Response, fallback: string) => {
+    try {
+      const body = await response.json();
+      return body.details?.length ? body.details.join('\n') : body.error || fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
   const handleCreateRule = async () => {
     try {
       const response = await fetch('/api/alerts/rules', {
@@ -144,13 +255,13 @@ export default function AlertManagement() {
         resetForm();
         loadAlertRules();
       } else {
-        throw new Error('Failed to create rule');
+        throw new Error(await ruleErrorMessage(response, 'Failed to create alert rule'));
       }
     } catch (error) {
       console.error('Error creating alert rule:', error);
       toast({
         title: "Error",
-        description: "Failed to create alert rule",
+        description: error instanceof Error ? error.message : "Failed to create alert rule",
         variant: "destructive",
       });
     }
@@ -178,13 +289,13 @@ export default function AlertManagement() {
         resetForm();
         loadAlertRules();
       } else {
-        throw new Error('Failed to update rule');
+        throw new Error(await ruleErrorMessage(response, 'Failed to update alert rule'));
       }
     } catch (error) {
       console.error('Error updating alert rule:', error);
       toast({
         title: "Error",
-        description: "Failed to update alert rule",
+        description: error instanceof Error ? error.message : "Failed to update alert rule",
         variant: "destructive",
       });
     }
@@ -259,25 +370,6 @@ export default function AlertManagement() {
     });
   };
 
-  const addCondition = () => {
-    setRuleForm(prev => ({
-      ...prev,
-      conditions: [...prev.conditions, {
-        type: 'rating_threshold',
-        operator: 'less_than',
-        field: 'overallRating',
-        value: 3
-      }]
-    }));
-  };
-
-  const removeCondition = (index: number) => {
-    setRuleForm(prev => ({
-      ...prev,
-      conditions: prev.conditions.filter((_, i) => i !== index)
-    }));
-  };
-
   const addAction = () => {
     setRuleForm(prev => ({
       ...prev,
@@ -331,15 +423,22 @@ export default function AlertManagement() {
           <h1 className="text-3xl font-bold">Alert Management</h1>
           <p className="text-muted-foreground">Configure and manage alert rules for your feedback system</p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          Create Alert Rule
-        </Button>
+        <div className="flex gap-2">
+          {can('data:export') && (
+            <ExportMenu path={`/api/exports/${tenantId}/alerts`} label="Export History" />
+          )}
+          {canManageRules && (
+            <Button onClick={() => setShowCreateDialog(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Alert Rule
+            </Button>
+          )}
+        </div>
       </div>
 
-      <Tabs defaultValue="rules" className="space-y-6">
+      <Tabs defaultValue={canViewRules ? "rules" : "notifications"} className="space-y-6">
         <TabsList>
-          <TabsTrigger value="rules">Alert Rules</TabsTrigger>
+          {canViewRules && <TabsTrigger value="rules">Alert Rules</TabsTrigger>}
           <TabsTrigger value="notifications">Alert History</TabsTrigger>
           <TabsTrigger value="stats">Statistics</TabsTrigger>
         </TabsList>
@@ -362,60 +461,60 @@ export default function AlertManagement() {
                         </Badge>
                       </CardTitle>
                       <CardDescription>{rule.description}</CardDescription>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Cooldown {rule.cooldownPeriod ?? 30} min · Last triggered{' '}
+                        {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : 'never'}
+                      </p>
                     </div>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setTestRule(rule);
-                          setShowTestDialog(true);
-                        }}
-                      >
-                        <TestTube className="w-4 h-4 mr-2" />
-                        Test
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setEditingRule(rule);
-                          setRuleForm({
-                            name: rule.name,
-                            description: rule.description || '',
-                            priority: rule.priority,
-                            isActive: rule.isActive,
-                            cooldownPeriod: rule.cooldownPeriod || 30,
-                            conditions: rule.conditions,
-                            actions: rule.actions
-                          });
-                        }}
-                      >
-                        <Edit className="w-4 h-4 mr-2" />
-                        Edit
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteRule(rule.id)}
-                      >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Delete
-                      </Button>
-                    </div>
+                    {canManageRules && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setTestRule(rule);
+                            setShowTestDialog(true);
+                          }}
+                        >
+                          <TestTube className="w-4 h-4 mr-2" />
+                          Test
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setEditingRule(rule);
+                            setRuleForm({
+                              name: rule.name,
+                              description: rule.description || '',
+                              priority: rule.priority,
+                              isActive: rule.isActive,
+                              cooldownPeriod: rule.cooldownPeriod ?? 30,
+                              conditions: rule.conditions,
+                              actions: rule.actions
+                            });
+                          }}
+                        >
+                          <Edit className="w-4 h-4 mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRule(rule.id)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="grid md:grid-cols-2 gap-4">
                     <div>
                       <h4 className="font-semibold mb-2">Conditions</h4>
-                      <div className="space-y-2">
-                        {rule.conditions.map((condition, index) => (
-                          <div key={index} className="text-sm p-2 bg-muted rounded">
-                            {condition.type}: {condition.field} {condition.operator} {condition.value}
-                          </div>
-                        ))}
-                      </div>
+                      <ConditionSummary conditions={rule.conditions} locations={locations} />
                     </div>
                     <div>
                       <h4 className="font-semibold mb-2">Actions</h4>
@@ -425,6 +524,7 @@ export default function AlertManagement() {
                             {action.type === 'email' && <Mail className="w-4 h-4" />}
                             {action.type === 'sms' && <MessageSquare className="w-4 h-4" />}
                             {action.type === 'webhook' && <Globe className="w-4 h-4" />}
+                            {action.type === 'escalation' && <ArrowUpCircle className="w-4 h-4" />}
                             {action.type}
                           </div>
                         ))}
@@ -452,6 +552,11 @@ export default function AlertManagement() {
                         {!notification.isRead && (
                           <Badge variant="default">New</Badge>
                         )}
+                        {notification.isAcknowledged ? (
+                          <Badge variant="outline">Acknowledged</Badge>
+                        ) : notification.escalationLevel > 0 && (
+                          <Badge variant="destructive">Escalated to tier {notification.escalationLevel}</Badge>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground mb-2">
                         {notification.message}
@@ -461,15 +566,23 @@ export default function AlertManagement() {
                       </p>
                     </div>
                     <div className="flex gap-2">
-                      {!notification.isRead && (
-                        <Button variant="outline" size="sm">
-                          Mark Read
-                        </Button>
-                      )}
-                      {!notification.isAcknowledged && (
-                        <Button variant="outline" size="sm">
-                          Acknowledge
-                        </Button>
+                      <Button variant="outline" size="sm" onClick={() => openDeliveries(notification)}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Deliveries
+                      </Button>
+                      {canAcknowledge && (
+                        <>
+                        {!notification.isRead && (
+                          <Button variant="outline" size="sm" onClick={() => updateNotification(notification, 'read')}>
+                            Mark Read
+                          </Button>
+                        )}
+                        {!notification.isAcknowledged && (
+                          <Button variant="outline" size="sm" onClick={() => updateNotification(notification, 'acknowledge')}>
+                            Acknowledge
+                          </Button>
+                        )}
+                        </>
                       )}
                     </div>
                   </div>
@@ -479,6 +592,49 @@ export default function AlertManagement() {
           </div>
         </TabsContent>
 
+        <Dialog open={!!deliveryAlert} onOpenChange={(open) => !open && setDeliveryAlert(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Delivery Log</DialogTitle>
+              <DialogDescription>{deliveryAlert?.title}</DialogDescription>
+            </DialogHeader>
+            {deliveries === null ? (
+              <div className="animate-pulse h-24 bg-muted rounded"></div>
+            ) : deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This alert had no email, SMS or webhook actions.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="capitalize">{delivery.channel}</TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={delivery.recipient}>{delivery.recipient}</TableCell>
+                      <TableCell>
+                        <Badge variant={deliveryStatusVariants[delivery.status]}>{delivery.status}</Badge>
+                      </TableCell>
+                      <TableCell>{delivery.attempts} / {delivery.maxAttempts}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {delivery.status === 'sent' && delivery.sentAt && `Sent ${new Date(delivery.sentAt).toLocaleString()}`}
+                        {delivery.status === 'pending' && `Next attempt ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+                        {delivery.lastError && <div className="text-destructive">{delivery.lastError}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </DialogContent>
+        </Dialog>
+
         <TabsContent value="stats" className="space-y-6">
           <div className="grid md:grid-cols-3 gap-6">
             <Card>
@@ -580,8 +736,9 @@ export default function AlertManagement() {
                 <Input
                   id="cooldown"
                   type="number"
+                  min={0}
                   value={ruleForm.cooldownPeriod}
-                  onChange={(e) => setRuleForm(prev => ({ ...prev, cooldownPeriod: parseInt(e.target.value) || 30 }))}
+                  onChange={(e) => setRuleForm(prev => ({ ...prev, cooldownPeriod: Math.max(0, parseInt(e.target.value) || 0) }))}
                 />
               </div>
               <div className="flex items-center space-x-2">
@@ -597,94 +754,33 @@ export default function AlertManagement() {
             <div>
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-semibold">Conditions</h3>
-                <Button variant="outline" size="sm" onClick={addCondition}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Condition
-                </Button>
-              </div>
-              <div className="space-y-4">
-                {ruleForm.conditions.map((condition, index) => (
-                  <div key={index} className="p-4 border rounded-lg">
-                    <div className="grid md:grid-cols-4 gap-4">
-                      <div>
-                        <Label>Type</Label>
-                        <Select
-                          value={condition.type}
-                          onValueChange={(value: any) => {
-                            const newConditions = [...ruleForm.conditions];
-                            newConditions[index].type = value;
-                            setRuleForm(prev => ({ ...prev, conditions: newConditions }));
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="rating_threshold">Rating Threshold</SelectItem>
-                            <SelectItem value="keyword_detection">Keyword Detection</SelectItem>
-                            <SelectItem value="volume_based">Volume Based</SelectItem>
-                            <SelectItem value="time_based">Time Based</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Label>Field</Label>
-                        <Input
-                          value={condition.field}
-                          onChange={(e) => {
-                            const newConditions = [...ruleForm.conditions];
-                            newConditions[index].field = e.target.value;
-                            setRuleForm(prev => ({ ...prev, conditions: newConditions }));
-                          }}
-                        />
-                      </div>
-                      <div>
-                        <Label>Operator</Label>
-                        <Select
-                          value={condition.operator}
-                          onValueChange={(value: any) => {
-                            const newConditions = [...ruleForm.conditions];
-                            newConditions[index].operator = value;
-                            setRuleForm(prev => ({ ...prev, conditions: newConditions }));
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="equals">Equals</SelectItem>
-                            <SelectItem value="not_equals">Not Equals</SelectItem>
-                            <SelectItem value="greater_than">Greater Than</SelectItem>
-                            <SelectItem value="less_than">Less Than</SelectItem>
-                            <SelectItem value="contains">Contains</SelectItem>
-                            <SelectItem value="not_contains">Not Contains</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <Label>Value</Label>
-                        <Input
-                          value={condition.value}
-                          onChange={(e) => {
-                            const newConditions = [...ruleForm.conditions];
-                            newConditions[index].value = e.target.value;
-                            setRuleForm(prev => ({ ...prev, conditions: newConditions }));
-                          }}
-                        />
-                      </div>
-                    </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="mt-2"
-                      onClick={() => removeCondition(index)}
-                    >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Remove
-                    </Button>
-                  </div>
-                ))}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRuleForm(prev => ({ ...prev, conditions: [...prev.conditions, newCondition()] }))}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Condition
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRuleForm(prev => ({ ...prev, conditions: [...prev.conditions, newGroup()] }))}
+                  >
+                    <FolderPlus className="w-4 h-4 mr-2" />
+                    Add Group
+                  </Button>
+                </div>
               </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                All of the conditions below must match. Use a group to match any (or none) of a set of conditions.
+              </p>
+              <ConditionListEditor
+                conditions={ruleForm.conditions}
+                onChange={(conditions) => setRuleForm(prev => ({ ...prev, conditions }))}
+                locations={locations}
+              />
             </div>
 
             <div>
@@ -706,6 +802,10 @@ export default function AlertManagement() {
                           onValueChange={(value: any) => {
                             const newActions = [...ruleForm.actions];
                             newActions[index].type = value;
+                            if (value === 'escalation' && !newActions[index].tiers) {
+                              newActions[index].tiers = defaultEscalationTiers;
+                              newActions[index].acknowledgeTimeout = 15;
+                            }
                             setRuleForm(prev => ({ ...prev, actions: newActions }));
                           }}
                         >
@@ -717,35 +817,79 @@ export default function AlertManagement() {
                             <SelectItem value="sms">SMS</SelectItem>
                             <SelectItem value="webhook">Webhook</SelectItem>
                             <SelectItem value="notification">In-App Notification</SelectItem>
+                            <SelectItem value="escalation">Escalation</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
-                      <div>
-                        <Label>
-                          {action.type === 'email' ? 'Recipients (comma-separated)' :
-                           action.type === 'sms' ? 'Phone Numbers (comma-separated)' :
-                           action.type === 'webhook' ? 'Webhook URL' : 'Configuration'}
-                        </Label>
-                        <Input
-                          value={
-                            action.type === 'email' ? action.recipients?.join(', ') :
-                            action.type === 'sms' ? action.phoneNumbers?.join(', ') :
-                            action.url || ''
-                          }
-                          onChange={(e) => {
-                            const newActions = [...ruleForm.actions];
-                            if (action.type === 'email') {
-                              newActions[index].recipients = e.target.value.split(',').map(s => s.trim());
-                            } else if (action.type === 'sms') {
-                              newActions[index].phoneNumbers = e.target.value.split(',').map(s => s.trim());
-                            } else if (action.type === 'webhook') {
-                              newActions[index].url = e.target.value;
+                      {action.type === 'escalation' ? (
+                        <div>
+                          <Label>Minutes to acknowledge before escalating</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={action.acknowledgeTimeout ?? 15}
+                            onChange={(e) => {
+                              const newActions = [...ruleForm.actions];
+                              newActions[index].acknowledgeTimeout = parseInt(e.target.value) || 15;
+                              setRuleForm(prev => ({ ...prev, actions: newActions }));
+                            }}
+                          />
+                        </div>
+                      ) : action.type === 'webhook' ? (
+                        <div>
+                          <Label>Webhook Endpoint</Label>
+                          <Select
+                            value={action.endpointId || ''}
+                            onValueChange={(value) => {
+                              const newActions = [...ruleForm.actions];
+                              newActions[index].endpointId = value;
+                              setRuleForm(prev => ({ ...prev, actions: newActions }));
+                            }}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder={webhookEndpoints.length ? 'Choose an endpoint' : 'Register an endpoint under Webhooks first'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {webhookEndpoints.map((endpoint) => (
+                                <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.description || endpoint.url}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ) : (
+                        <div>
+                          <Label>
+                            {action.type === 'email' ? 'Recipients (comma-separated)' :
+                             action.type === 'sms' ? 'Phone Numbers (comma-separated)' : 'Configuration'}
+                          </Label>
+                          <Input
+                            value={
+                              action.type === 'email' ? action.recipients?.join(', ') :
+                              action.type === 'sms' ? action.phoneNumbers?.join(', ') : ''
                             }
-                            setRuleForm(prev => ({ ...prev, actions: newActions }));
-                          }}
-                        />
-                      </div>
+                            onChange={(e) => {
+                              const newActions = [...ruleForm.actions];
+                              if (action.type === 'email') {
+                                newActions[index].recipients = e.target.value.split(',').map(s => s.trim());
+                              } else if (action.type === 'sms') {
+                                newActions[index].phoneNumbers = e.target.value.split(',').map(s => s.trim());
+                              }
+                              setRuleForm(prev => ({ ...prev, actions: newActions }));
+                            }}
+                          />
+                        </div>
+                      )}
                     </div>
+                    {action.type === 'escalation' && (
+                      <EscalationPolicyEditor
+                        tiers={action.tiers || []}
+                        onChange={(tiers) => {
+                          const newActions = [...ruleForm.actions];
+                          newActions[index].tiers = tiers;
+                          setRuleForm(prev => ({ ...prev, actions: newActions }));
+                        }}
+                      />
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
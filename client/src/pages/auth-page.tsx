@@ -0,0 +1,154 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect, useLocation } from "wouter";
+import { Loader2, Mail, Lock, AlertCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+
+const passwordLoginSchema = z.object({
+  email: z.string().email("Valid email is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const magicLinkSchema = z.object({
+  email: z.string().email("Valid email is required"),
+});
+
+export default function AuthPage() {
+  const { user, loginMutation, magicLinkMutation } = useAuth();
+  const [, setLocation] = useLocation();
+  const linkError = new URLSearchParams(window.location.search).get("error");
+
+  const passwordForm = useForm<z.infer<typeof passwordLoginSchema>>({
+    resolver: zodResolver(passwordLoginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const magicLinkForm = useForm<z.infer<typeof magicLinkSchema>>({
+    resolver: zodResolver(magicLinkSchema),
+    defaultValues: { email: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/dashboard" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-secondary/5 to-primary/10 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Sign in to your dashboard</CardTitle>
+          <p className="text-sm text-gray-600">Use your password or get a one-time sign-in link by email</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {linkError === "invalid_link" && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>That sign-in link is invalid or has expired. Request a new one below.</AlertDescription>
+            </Alert>
+          )}
+
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="magic-link">Email link</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <Form {...passwordForm}>
+                <form
+                  onSubmit={passwordForm.handleSubmit((data) =>
+                    loginMutation.mutate(data, { onSuccess: () => setLocation("/dashboard") })
+                  )}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={passwordForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="you@company.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={passwordForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                    {loginMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Lock className="w-4 h-4 mr-2" />
+                    )}
+                    Sign In
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="magic-link">
+              <Form {...magicLinkForm}>
+                <form
+                  onSubmit={magicLinkForm.handleSubmit((data) => magicLinkMutation.mutate(data))}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={magicLinkForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="you@company.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={magicLinkMutation.isPending}>
+                    {magicLinkMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Mail className="w-4 h-4 mr-2" />
+                    )}
+                    Email me a sign-in link
+                  </Button>
+                  {magicLinkMutation.isSuccess && (
+                    <p className="text-sm text-gray-600 text-center">{magicLinkMutation.data.message}</p>
+                  )}
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+
+          <p className="text-sm text-center text-gray-600">
+            New here?{" "}
+            <Button variant="link" className="p-0 h-auto" onClick={() => setLocation("/company-onboarding")}>
+              Set up your company
+            </Button>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
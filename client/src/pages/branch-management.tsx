@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -30,6 +31,7 @@ import {
   Building
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
 
 const locationSchema = z.object({
   name: z.string().min(1, "Location name is required"),
@@ -48,6 +50,7 @@ const locationSchema = z.object({
   }),
   operatingHours: z.string().optional(),
   capacity: z.number().min(1, "Capacity must be at least 1").optional(),
+  managerId: z.string().nullable().optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -56,7 +59,9 @@ type LocationData = z.infer<typeof locationSchema>;
 export default function BranchManagement() {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingLocation, setEditingLocation] = useState<any | null>(null);
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const { user, can } = useAuth();
+  const tenantId = user!.tenantId;
+  const canManageLocations = can('locations:manage');
   const queryClient = useQueryClient();
 
   const form = useForm<LocationData>({
@@ -78,6 +83,7 @@ export default function BranchManagement() {
       },
       operatingHours: "",
       capacity: undefined,
+      managerId: null,
       isActive: true,
     },
   });
@@ -88,6 +94,14 @@ export default function BranchManagement() {
     retry: false,
   });
 
+  // Team members who can be put in charge of a location
+  const { data: users } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users', tenantId],
+    enabled: can('users:manage'),
+    retry: false,
+  });
+  const locationManagers = (users || []).filter((member) => member.role === 'location_manager');
+
   // Fetch analytics for each location
   const { data: analytics } = useQuery({
     queryKey: ['/api/analytics/locations', tenantId],
@@ -146,6 +160,7 @@ export default function BranchManagement() {
       contactInfo: location.contactInfo,
       operatingHours: location.operatingHours,
       capacity: location.capacity,
+      managerId: location.managerId,
       isActive: location.isActive,
     });
     setShowCreateDialog(true);
@@ -195,10 +210,12 @@ export default function BranchManagement() {
               <h1 className="text-2xl font-bold text-gray-900">Location Management</h1>
               <p className="text-gray-600">Manage your business locations and track their performance</p>
             </div>
-            <Button onClick={handleCreateLocation} data-testid="button-add-location">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Location
-            </Button>
+            {canManageLocations && (
+              <Button onClick={handleCreateLocation} data-testid="button-add-location">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Location
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -211,12 +228,16 @@ export default function BranchManagement() {
               <Building className="h-16 w-16 mx-auto mb-4 text-gray-300" />
               <h3 className="text-lg font-semibold text-gray-900 mb-2">No locations yet</h3>
               <p className="text-gray-600 mb-6">
-                Start by adding your first business location to begin collecting feedback.
+                {canManageLocations
+                  ? "Start by adding your first business location to begin collecting feedback."
+                  : "No locations have been assigned to you yet."}
               </p>
-              <Button onClick={handleCreateLocation}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Your First Location
-              </Button>
+              {canManageLocations && (
+                <Button onClick={handleCreateLocation}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Your First Location
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -244,24 +265,26 @@ export default function BranchManagement() {
                           )}
                         </div>
                       </div>
-                      <div className="flex items-center gap-1">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEditLocation(location)}
-                          data-testid={`button-edit-${location.id}`}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => deleteLocation.mutate(location.id)}
-                          data-testid={`button-delete-${location.id}`}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                      {canManageLocations && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditLocation(location)}
+                            data-testid={`button-edit-${location.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteLocation.mutate(location.id)}
+                            data-testid={`button-delete-${location.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -385,6 +408,34 @@ export default function BranchManagement() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="managerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Location Manager</FormLabel>
+                      <Select
+                        value={field.value ?? "none"}
+                        onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-location-manager">
+                            <SelectValue placeholder="No manager" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No manager</SelectItem>
+                          {locationManagers.map((manager) => (
+                            <SelectItem key={manager.id} value={manager.id}>
+                              {[manager.firstName, manager.lastName].filter(Boolean).join(' ') || manager.email}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {/* Address */}
@@ -28,12 +28,22 @@ import {
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 
+// Team member emails are typed as one comma or newline separated list
+function parseEmailList(value?: string): string[] {
+  return (value || "").split(/[\s,;]+/).map((email) => email.trim()).filter(Boolean);
+}
+
 const tenantSchema = z.object({
   brandName: z.string().min(1, "Business name is required"),
   industry: z.string().min(1, "Industry is required"),
   email: z.string().email("Valid email is required"),
+  password: z.string().min(8, "Password must be at least 8 characters").optional().or(z.literal("")),
   phone: z.string().min(1, "Phone number is required"),
   website: z.string().url("Valid website URL is required").optional().or(z.literal("")),
+  authorizedEmails: z.string().optional().refine(
+    (value) => parseEmailList(value).every((email) => z.string().email().safeParse(email).success),
+    "Enter valid email addresses separated by commas"
+  ),
   description: z.string().optional(),
   address: z.object({
     street: z.string().min(1, "Street address is required"),
@@ -123,8 +133,10 @@ export default function CompanyOnboarding() {
       brandName: "",
       industry: "",
       email: "",
+      password: "",
       phone: "",
       website: "",
+      authorizedEmails: "",
       description: "",
       address: {
         street: "",
@@ -148,11 +160,15 @@ export default function CompanyOnboarding() {
   });
 
   const createTenant = useMutation({
-    mutationFn: async (data: TenantData) => {
-      return await apiRequest('POST', '/api/tenants', data);
+    mutationFn: async ({ password, authorizedEmails, ...data }: TenantData) => {
+      // Each authorized email receives a team invitation once the company is created
+      const payload = { ...data, authorizedEmails: parseEmailList(authorizedEmails) };
+      // Without a password the owner signs in through the emailed link instead
+      return await apiRequest('POST', '/api/tenants', password ? { ...payload, password } : payload);
     },
     onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ['/api/tenants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
       setLocation('/dashboard');
     },
     onError: (error) => {
@@ -292,6 +308,19 @@ export default function CompanyOnboarding() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Leave blank to sign in by email link" type="password" {...field} data-testid="input-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="phone"
@@ -321,6 +350,25 @@ export default function CompanyOnboarding() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="authorizedEmails"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Team Members (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea 
+                      placeholder="manager@yourbusiness.com, staff@yourbusiness.com"
+                      {...field}
+                      data-testid="textarea-authorized-emails"
+                    />
+                  </FormControl>
+                  <p className="text-xs text-gray-500">Each address gets an email invitation to join your dashboard.</p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -1,19 +1,23 @@
 import { useState, useEffect, useRef } from "react";
-import { useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
 import DashboardHeader from "@/components/DashboardHeader";
 import MetricsOverview from "@/components/MetricsOverview";
 import FeedbackChart from "@/components/FeedbackChart";
 import RecentAlerts from "@/components/RecentAlerts";
 import RecentFeedback from "@/components/RecentFeedback";
+import CaseOverview from "@/components/CaseOverview";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useWebSocket, WebSocketEvent } from "@/hooks/useWebSocket";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Bell, Wifi, WifiOff } from "lucide-react";
+import { allowsSeverity, quietHoursEnd, type NotificationSettings } from "@shared/notifications";
 
 export default function Dashboard() {
-  const { tenantId } = useParams<{ tenantId: string }>();
+  const { user } = useAuth();
+  const tenantId = user?.tenantId;
   const { toast } = useToast();
   const [selectedView, setSelectedView] = useState('dashboard');
   const [realTimeStats, setRealTimeStats] = useState({
@@ -25,10 +29,18 @@ export default function Dashboard() {
   const [isConnected, setIsConnected] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  // In-app settings from the notification preferences page. Alert handlers
+  // read them from the cache, since the socket may hold an older handler.
+  const queryClient = useQueryClient();
+  useQuery<NotificationSettings>({
+    queryKey: ['/api/notification-preferences'],
+    retry: false,
+  });
+
   // WebSocket connection for real-time updates
   const { isConnected: wsConnected, connectionError } = useWebSocket({
     tenantId,
-    userId: 'current-user', // This would come from auth context
+    userId: user?.id,
     onMessage: handleWebSocketMessage,
     onConnect: () => {
       console.log('WebSocket connected');
@@ -103,6 +115,12 @@ export default function Dashboard() {
       unreadNotifications: prev.unreadNotifications + 1
     }));
 
+    const settings = queryClient.getQueryData<NotificationSettings>(['/api/notification-preferences']);
+    const inApp = settings?.inApp;
+    if (inApp && !allowsSeverity(inApp, alert.severity)) return;
+    // Quiet hours keep the toast but silence sound and desktop notifications
+    const quiet = settings ? quietHoursEnd(settings.quietHours, alert.severity) !== undefined : false;
+
     // Show toast notification
     toast({
       title: alert.title || "New Alert",
@@ -111,9 +129,13 @@ export default function Dashboard() {
     });
 
     // Play sound for critical alerts
-    if (alert.severity === 'critical' && audioRef.current) {
+    if (alert.severity === 'critical' && audioRef.current && inApp?.sound !== false && !quiet) {
       audioRef.current.play().catch(console.error);
     }
+
+    if (inApp?.desktop && !quiet && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(alert.title || "New Alert", { body: alert.message });
+    }
   }
 
   function handleAnalyticsUpdate(analytics: any) {
@@ -273,6 +295,10 @@ export default function Dashboard() {
             </div>
           </div>
 
+          <div className="mt-8">
+            <CaseOverview />
+          </div>
+
           <div className="mt-8">
             <RecentFeedback realTimeUpdates={wsConnected} />
           </div>
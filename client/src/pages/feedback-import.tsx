@@ -0,0 +1,516 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CheckCircle, FileUp, Plus, Trash2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  feedbackImportFields,
+  feedbackImportFieldLabels,
+  MAX_IMPORT_ERRORS,
+  type FeedbackImportField,
+  type FeedbackImportStatus,
+  type ImportRowError,
+} from "@shared/imports";
+import type { FeedbackImportMapping, FeedbackImportSummary, InsertFeedbackResponse, Location, SurveyTemplate } from "@shared/schema";
+
+interface UploadedImport {
+  import: FeedbackImportSummary;
+  sampleRows: string[][];
+}
+
+interface ImportValidation {
+  validRows: number;
+  failedRows: number;
+  errors: ImportRowError[];
+  preview: (InsertFeedbackResponse & { createdAt?: string })[];
+}
+
+const statusVariants: Record<FeedbackImportStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  importing: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+// Header names commonly used for each field by other survey tools' exports
+const headerGuesses: Record<FeedbackImportField, string[]> = {
+  overallRating: ["rating", "overall rating", "score", "stars"],
+  feedbackText: ["comment", "comments", "feedback", "review", "text"],
+  customerName: ["name", "customer", "customer name"],
+  customerEmail: ["email", "e-mail", "customer email"],
+  customerPhone: ["phone", "mobile", "customer phone", "phone number"],
+  submittedAt: ["date", "submitted", "submitted at", "created", "created at", "timestamp"],
+  location: ["location", "branch", "store", "site"],
+  qrCode: ["qr", "qr code", "table"],
+};
+
+const NONE = "none";
+
+function guessFields(headers: string[]): FeedbackImportMapping['fields'] {
+  const normalized = headers.map((header) => header.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const fields: FeedbackImportMapping['fields'] = {};
+  for (const field of feedbackImportFields) {
+    const index = normalized.findIndex((header) => headerGuesses[field].includes(header));
+    if (index !== -1) fields[field] = headers[index];
+  }
+  return fields;
+}
+
+function templateQuestions(templates: SurveyTemplate[] | undefined): string[] {
+  const labels = (templates ?? []).flatMap((template) =>
+    Array.isArray(template.fields)
+      ? template.fields.map((field: { label?: unknown }) => field.label).filter((label): label is string => typeof label === 'string' && label !== '')
+      : []
+  );
+  return Array.from(new Set(labels));
+}
+
+// Uploads go as the raw file rather than JSON, so apiRequest doesn't fit
+async function uploadCsv(file: File): Promise<UploadedImport> {
+  const res = await fetch(`/api/feedback-imports?fileName=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: await file.text(),
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || res.statusText);
+  }
+  return res.json();
+}
+
+export default function FeedbackImport() {
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [upload, setUpload] = useState<UploadedImport | null>(null);
+  const [fields, setFields] = useState<FeedbackImportMapping['fields']>({});
+  const [customFields, setCustomFields] = useState<FeedbackImportMapping['customFields']>([]);
+  const [locationId, setLocationId] = useState<string | undefined>();
+  const [validation, setValidation] = useState<ImportValidation | null>(null);
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ['/api/locations', tenantId],
+    retry: false,
+  });
+
+  const { data: templates } = useQuery<SurveyTemplate[]>({
+    queryKey: ['/api/survey-templates', tenantId],
+    retry: false,
+  });
+
+  const { data: imports } = useQuery<FeedbackImportSummary[]>({
+    queryKey: ['/api/feedback-imports', tenantId],
+    retry: false,
+    // Poll while an import is running so its progress bar moves
+    refetchInterval: (query) => query.state.data?.some((item) => item.status === 'importing') ? 2000 : false,
+  });
+
+  const headers = upload?.import.headers ?? [];
+  const mapping: FeedbackImportMapping = {
+    fields,
+    customFields: customFields.filter((customField) => customField.column && customField.name.trim()),
+    locationId,
+  };
+  const mappedColumns = new Set([...Object.values(fields), ...customFields.map((customField) => customField.column)]);
+  const questions = templateQuestions(templates);
+
+  const reset = () => {
+    setUpload(null);
+    setFields({});
+    setCustomFields([]);
+    setLocationId(undefined);
+    setValidation(null);
+  };
+
+  const uploadFile = useMutation({
+    mutationFn: uploadCsv,
+    onSuccess: (uploaded) => {
+      setUpload(uploaded);
+      setFields(guessFields(uploaded.import.headers));
+      setCustomFields([]);
+      setValidation(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback-imports', tenantId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not read the file", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const validate = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/feedback-imports/${upload!.import.id}/validate`, { mapping });
+      return await res.json() as ImportValidation;
+    },
+    onSuccess: setValidation,
+    onError: (error: Error) => {
+      toast({ title: "Could not check the mapping", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const start = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/feedback-imports/${upload!.import.id}/start`, { mapping });
+    },
+    onSuccess: () => {
+      reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback-imports', tenantId] });
+      toast({ title: "Import started", description: "Feedback is being imported in the background" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start the import", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const discard = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/feedback-imports/${id}`);
+    },
+    onSuccess: (_, id) => {
+      if (upload?.import.id === id) reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback-imports', tenantId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not discard the upload", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Any change to the mapping makes the last check out of date
+  const setField = (field: FeedbackImportField, column: string) => {
+    setFields(({ [field]: _, ...rest }) => column === NONE ? rest : { ...rest, [field]: column });
+    setValidation(null);
+  };
+  const updateCustomField = (index: number, change: Partial<FeedbackImportMapping['customFields'][number]>) => {
+    setCustomFields((prev) => prev.map((customField, i) => i === index ? { ...customField, ...change } : customField));
+    setValidation(null);
+  };
+
+  const locationName = (id: string) => locations?.find((location) => location.id === id)?.name ?? id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Import Feedback</h1>
+              <p className="text-gray-600">Bring in historical feedback from a CSV file</p>
+            </div>
+            <Link href="/feedback-inbox">
+              <Button variant="outline">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Feedback Inbox
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!upload ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileUp className="h-5 w-5 text-blue-600" />
+                Upload a CSV
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                The first row must name the columns. Each following row becomes one feedback response and needs
+                at least a rating from 1 to 5 and a location, either from a column or a default you pick next.
+              </p>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                disabled={uploadFile.isPending}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadFile.mutate(file);
+                  e.target.value = "";
+                }}
+                data-testid="input-import-file"
+              />
+              {uploadFile.isPending && <p className="text-sm text-muted-foreground">Reading file...</p>}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Map columns in {upload.import.fileName}</span>
+                  <span className="text-sm font-normal text-muted-foreground">{upload.import.totalRows} rows</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {feedbackImportFields.map((field) => (
+                    <div key={field} className="space-y-1">
+                      <Label>
+                        {feedbackImportFieldLabels[field]}
+                        {field === 'overallRating' && <span className="text-red-600"> *</span>}
+                      </Label>
+                      <Select value={fields[field] ?? NONE} onValueChange={(value) => setField(field, value)}>
+                        <SelectTrigger data-testid={`select-import-${field}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Not in file</SelectItem>
+                          {headers.map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label>Default location</Label>
+                    <Select
+                      value={locationId ?? NONE}
+                      onValueChange={(value) => {
+                        setLocationId(value === NONE ? undefined : value);
+                        setValidation(null);
+                      }}
+                    >
+                      <SelectTrigger data-testid="select-import-default-location"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>None</SelectItem>
+                        {locations?.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Used for rows without a location</p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Survey questions</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Answers to custom questions, stored under the question name as on the survey form
+                  </p>
+                  <datalist id="import-question-names">
+                    {questions.map((question) => <option key={question} value={question} />)}
+                  </datalist>
+                  {customFields.map((customField, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Select value={customField.column || NONE} onValueChange={(value) => updateCustomField(index, { column: value === NONE ? '' : value })}>
+                        <SelectTrigger className="md:w-64"><SelectValue placeholder="Column" /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Choose a column</SelectItem>
+                          {headers.map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        list="import-question-names"
+                        placeholder="Question"
+                        value={customField.name}
+                        maxLength={255}
+                        onChange={(e) => updateCustomField(index, { name: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setCustomFields((prev) => prev.filter((_, i) => i !== index));
+                          setValidation(null);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={headers.every((header) => mappedColumns.has(header))}
+                    onClick={() => {
+                      const column = headers.find((header) => !mappedColumns.has(header)) ?? '';
+                      setCustomFields((prev) => [...prev, { column, name: questions.includes(column) ? column : '' }]);
+                      setValidation(null);
+                    }}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add question
+                  </Button>
+                </div>
+
+                {upload.sampleRows.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <p className="text-sm font-medium mb-2">First rows of the file</p>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {headers.map((header) => <TableHead key={header}>{header}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {upload.sampleRows.map((row, index) => (
+                          <TableRow key={index}>
+                            {headers.map((header, column) => (
+                              <TableCell key={header} className="max-w-xs truncate">{row[column]}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                <div className="flex gap-3 pt-4 border-t">
+                  <Button onClick={() => validate.mutate()} disabled={!fields.overallRating || validate.isPending}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {validate.isPending ? "Checking..." : "Check rows"}
+                  </Button>
+                  <Button variant="outline" onClick={() => discard.mutate(upload.import.id)} disabled={discard.isPending}>
+                    Discard
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {validation && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Review</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex gap-3">
+                    <Badge>{validation.validRows} ready to import</Badge>
+                    {validation.failedRows > 0 && (
+                      <Badge variant="destructive">{validation.failedRows} will be skipped</Badge>
+                    )}
+                  </div>
+
+                  {validation.preview.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <p className="text-sm font-medium mb-2">As they will be stored</p>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Submitted</TableHead>
+                            <TableHead>Location</TableHead>
+                            <TableHead>Rating</TableHead>
+                            <TableHead>Comment</TableHead>
+                            <TableHead>Customer</TableHead>
+                            <TableHead>Answers</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {validation.preview.map((feedback, index) => (
+                            <TableRow key={index}>
+                              <TableCell>{feedback.createdAt ? new Date(feedback.createdAt).toLocaleString() : 'Import time'}</TableCell>
+                              <TableCell>{locationName(feedback.locationId)}</TableCell>
+                              <TableCell>{feedback.overallRating}</TableCell>
+                              <TableCell className="max-w-xs truncate">{feedback.feedbackText}</TableCell>
+                              <TableCell>{feedback.customerName || feedback.customerEmail || feedback.customerPhone}</TableCell>
+                              <TableCell className="max-w-xs truncate">
+                                {feedback.customFields && typeof feedback.customFields === 'object'
+                                  ? Object.entries(feedback.customFields as Record<string, unknown>).map(([name, value]) => `${name}: ${value}`).join('; ')
+                                  : ''}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  {validation.errors.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <p className="text-sm font-medium mb-2">
+                        Problems{validation.errors.length >= MAX_IMPORT_ERRORS ? ` (first ${MAX_IMPORT_ERRORS})` : ''}
+                      </p>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Line</TableHead>
+                            <TableHead>Column</TableHead>
+                            <TableHead>Problem</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {validation.errors.map((error, index) => (
+                            <TableRow key={index}>
+                              <TableCell>{error.line}</TableCell>
+                              <TableCell>{error.column}</TableCell>
+                              <TableCell>{error.message}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  <Button onClick={() => start.mutate()} disabled={validation.validRows === 0 || start.isPending} data-testid="button-start-import">
+                    <Upload className="h-4 w-4 mr-2" />
+                    {start.isPending ? "Starting..." : `Import ${validation.validRows} responses`}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent imports</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {imports?.length ? imports.map((item) => (
+              <div key={item.id} className="space-y-2" data-testid={`import-${item.id}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{item.fileName}</span>
+                  <Badge variant={statusVariants[item.status as FeedbackImportStatus]}>{item.status}</Badge>
+                  <span className="text-sm text-muted-foreground ml-auto">
+                    {item.createdAt ? new Date(item.createdAt).toLocaleString() : ''}
+                  </span>
+                  {item.status === 'draft' && item.id !== upload?.import.id && (
+                    <Button variant="ghost" size="sm" onClick={() => discard.mutate(item.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {item.status !== 'draft' && (
+                  <>
+                    <Progress value={item.totalRows ? (item.processedRows / item.totalRows) * 100 : 0} />
+                    <p className="text-sm text-muted-foreground">
+                      {item.processedRows} of {item.totalRows} rows processed · {item.importedRows} imported · {item.failedRows} skipped
+                    </p>
+                  </>
+                )}
+                {item.lastError && <p className="text-sm text-red-600">{item.lastError}</p>}
+                {item.failedRows > 0 && item.errors.length > 0 && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer text-muted-foreground">Skipped rows</summary>
+                    <ul className="mt-1 space-y-1">
+                      {item.errors.map((error, index) => (
+                        <li key={index}>Line {error.line}{error.column ? ` (${error.column})` : ''}: {error.message}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            )) : (
+              <p className="text-sm text-muted-foreground">No imports yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
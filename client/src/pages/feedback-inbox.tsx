@@ -0,0 +1,491 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, FileUp, Image as ImageIcon, Inbox, MapPin, Play, QrCode as QrCodeIcon, Search, Star, X } from "lucide-react";
+import AudioPlayer from "@/components/ui/AudioPlayer";
+import ImageGallery from "@/components/ui/ImageGallery";
+import FeedbackCasePanel, { type Assignee } from "@/components/FeedbackCasePanel";
+import CustomerReplyThread from "@/components/CustomerReplyThread";
+import ExportMenu from "@/components/ExportMenu";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { effectiveTopicKeywords, topicLabel, type TopicKeywords } from "@shared/topics";
+import { feedbackStatuses, feedbackStatusLabels, isOpenStatus, type FeedbackStatus } from "@shared/cases";
+import type { FeedbackResponse, Location, QrCode } from "@shared/schema";
+
+interface FeedbackPage {
+  items: FeedbackResponse[];
+  nextCursor: string | null;
+}
+
+// Select values; "any" leaves the filter off
+interface InboxFilters {
+  locationId: string;
+  qrCodeId: string;
+  section: string;
+  minRating: string;
+  maxRating: string;
+  from: string;
+  to: string;
+  sentiment: string;
+  tag: string;
+  hasVoice: string;
+  hasImages: string;
+  status: string;
+  assignedTo: string;
+}
+
+const emptyFilters: InboxFilters = {
+  locationId: "any",
+  qrCodeId: "any",
+  section: "any",
+  minRating: "any",
+  maxRating: "any",
+  from: "",
+  to: "",
+  sentiment: "any",
+  tag: "any",
+  hasVoice: "any",
+  hasImages: "any",
+  status: "any",
+  assignedTo: "any",
+};
+
+const PAGE_SIZE = 25;
+
+// Date inputs are local days; the server compares timestamps, so send the
+// first and last moment of the chosen days
+function searchParams(filters: InboxFilters, q: string, cursor?: string): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (!value || value === "any") return;
+    if (key === "from") params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    else if (key === "to") params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    else params.set(key, value);
+  });
+  if (q) params.set("q", q);
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+const getRatingColor = (rating: number) => {
+  if (rating >= 4) return 'text-green-600';
+  if (rating >= 3) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const getSentimentBadge = (sentiment: string) => {
+  if (sentiment === 'positive') return 'default';
+  if (sentiment === 'negative') return 'destructive';
+  return 'outline';
+};
+
+export default function FeedbackInbox() {
+  const { user, can } = useAuth();
+  const tenantId = user!.tenantId;
+  const [filters, setFilters] = useState<InboxFilters>(emptyFilters);
+  const [searchInput, setSearchInput] = useState("");
+  const [q, setQ] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ['/api/locations', tenantId],
+    retry: false,
+  });
+
+  const { data: qrCodes } = useQuery<QrCode[]>({
+    queryKey: ['/api/qr-codes', tenantId],
+    retry: false,
+  });
+
+  const { data: topicOverrides } = useQuery<TopicKeywords>({
+    queryKey: ['/api/topic-keywords', tenantId],
+    retry: false,
+  });
+
+  const { data: assignees } = useQuery<Assignee[]>({
+    queryKey: ['/api/feedback-assignees', tenantId],
+    retry: false,
+  });
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/feedback', tenantId, 'search', filters, q],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest('GET', `/api/feedback/${tenantId}/search?${searchParams(filters, q, pageParam)}`);
+      return await res.json() as FeedbackPage;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const feedback = data?.pages.flatMap((page) => page.items) ?? [];
+  const sections = Array.from(new Set((qrCodes || []).map((qr) => qr.section).filter((section): section is string => !!section))).sort();
+  const topics = Object.entries(effectiveTopicKeywords(topicOverrides))
+    .filter(([, keywords]) => keywords.length > 0)
+    .map(([topic]) => topic);
+  const locationName = (id: string) => locations?.find((location) => location.id === id)?.name;
+  const assigneeName = (id: string | null) => id ? assignees?.find((assignee) => assignee.id === id)?.name : undefined;
+  const qrCodeName = (id: string | null) => id ? qrCodes?.find((qr) => qr.id === id)?.identifier : undefined;
+  const isFiltered = q !== "" || Object.entries(filters).some(([key, value]) => value !== emptyFilters[key as keyof InboxFilters]);
+
+  // Exports cover every page of the current results
+  const exportParams = searchParams(filters, q);
+  exportParams.delete("limit");
+
+  const setFilter = (key: keyof InboxFilters) => (value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setSearchInput("");
+    setQ("");
+  };
+
+  const ratingOptions = (
+    <>
+      <SelectItem value="any">Any</SelectItem>
+      {[1, 2, 3, 4, 5].map((rating) => (
+        <SelectItem key={rating} value={String(rating)}>{rating}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Feedback Inbox</h1>
+              <p className="text-gray-600">Search and filter every response your customers have sent</p>
+            </div>
+            <div className="flex gap-2">
+              {can('feedback:import') && (
+                <Link href="/feedback-import">
+                  <Button variant="outline" data-testid="button-import-feedback">
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </Link>
+              )}
+              {can('data:export') && (
+                <ExportMenu path={`/api/exports/${tenantId}/feedback`} params={exportParams} />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Search and filters */}
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <form
+              className="flex gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setQ(searchInput.trim());
+              }}
+            >
+              <Input
+                placeholder='Search comments and answers, e.g. "cold food" or refund -delivery'
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                data-testid="input-feedback-search"
+              />
+              <Button type="submit">
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+              {isFiltered && (
+                <Button type="button" variant="outline" onClick={clearFilters}>
+                  <X className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              )}
+            </form>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              <div>
+                <Label>Status</Label>
+                <Select value={filters.status} onValueChange={setFilter('status')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any status</SelectItem>
+                    <SelectItem value="open">Open</SelectItem>
+                    {feedbackStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>{feedbackStatusLabels[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Assignee</Label>
+                <Select value={filters.assignedTo} onValueChange={setFilter('assignedTo')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Anyone</SelectItem>
+                    <SelectItem value={user!.id}>Assigned to me</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {assignees?.filter((assignee) => assignee.id !== user!.id).map((assignee) => (
+                      <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Location</Label>
+                <Select value={filters.locationId} onValueChange={setFilter('locationId')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">All locations</SelectItem>
+                    {locations?.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>QR Code</Label>
+                <Select value={filters.qrCodeId} onValueChange={setFilter('qrCodeId')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">All QR codes</SelectItem>
+                    {qrCodes
+                      ?.filter((qr) => filters.locationId === "any" || qr.locationId === filters.locationId)
+                      .map((qr) => (
+                        <SelectItem key={qr.id} value={qr.id}>{qr.identifier}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Section</Label>
+                <Select value={filters.section} onValueChange={setFilter('section')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">All sections</SelectItem>
+                    {sections.map((section) => (
+                      <SelectItem key={section} value={section}>{section}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Min Rating</Label>
+                <Select value={filters.minRating} onValueChange={setFilter('minRating')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>{ratingOptions}</SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Max Rating</Label>
+                <Select value={filters.maxRating} onValueChange={setFilter('maxRating')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>{ratingOptions}</SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Sentiment</Label>
+                <Select value={filters.sentiment} onValueChange={setFilter('sentiment')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="positive">Positive</SelectItem>
+                    <SelectItem value="neutral">Neutral</SelectItem>
+                    <SelectItem value="negative">Negative</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Topic</Label>
+                <Select value={filters.tag} onValueChange={setFilter('tag')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any topic</SelectItem>
+                    {topics.map((topic) => (
+                      <SelectItem key={topic} value={topic}>{topicLabel(topic)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>From</Label>
+                <Input type="date" value={filters.from} onChange={(e) => setFilter('from')(e.target.value)} />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input type="date" value={filters.to} onChange={(e) => setFilter('to')(e.target.value)} />
+              </div>
+              <div>
+                <Label>Voice</Label>
+                <Select value={filters.hasVoice} onValueChange={setFilter('hasVoice')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="true">With recording</SelectItem>
+                    <SelectItem value="false">Without recording</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Images</Label>
+                <Select value={filters.hasImages} onValueChange={setFilter('hasImages')}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="true">With images</SelectItem>
+                    <SelectItem value="false">Without images</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5 text-blue-600" />
+              Feedback
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-4">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="animate-pulse border rounded-lg p-4 h-20 bg-gray-100"></div>
+                ))}
+              </div>
+            ) : isError ? (
+              <p className="text-center py-8 text-red-600">Could not load feedback. Check the filters and try again.</p>
+            ) : feedback.length === 0 ? (
+              <div className="text-center py-8">
+                <Inbox className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                <p className="text-gray-500 font-medium">{isFiltered ? 'No feedback matches these filters' : 'No feedback yet'}</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {feedback.map((item, index) => {
+                  const imageUrls = Array.isArray(item.imageUrls) ? item.imageUrls as string[] : [];
+                  const tags = Array.isArray(item.tags) ? item.tags as string[] : [];
+                  const customFields = item.customFields && typeof item.customFields === 'object'
+                    ? Object.entries(item.customFields as Record<string, unknown>)
+                    : [];
+
+                  return (
+                    <div
+                      key={item.id}
+                      className="border rounded-lg p-4 transition-all hover:shadow-md cursor-pointer"
+                      onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                      data-testid={`inbox-feedback-${index}`}
+                    >
+                      <div className="flex items-center gap-2 flex-wrap mb-1">
+                        <h3 className="font-medium text-gray-900">{item.customerName || 'Anonymous'}</h3>
+                        <Badge variant={isOpenStatus(item.status) ? 'default' : 'outline'} className="text-xs">
+                          {feedbackStatusLabels[item.status as FeedbackStatus] || item.status}
+                        </Badge>
+                        <div className="flex items-center">
+                          <Star className={`h-4 w-4 ${getRatingColor(item.overallRating)} mr-1`} />
+                          <span className="font-medium">{item.overallRating}/5</span>
+                        </div>
+                        {item.sentiment && (
+                          <Badge variant={getSentimentBadge(item.sentiment)} className="text-xs capitalize">
+                            {item.sentiment}
+                          </Badge>
+                        )}
+                        {tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="text-xs">{topicLabel(tag)}</Badge>
+                        ))}
+                        {item.voiceRecordingUrl && <Play className="h-3 w-3 text-blue-600" />}
+                        {imageUrls.length > 0 && <ImageIcon className="h-3 w-3 text-green-600" />}
+                      </div>
+                      <div className="flex items-center gap-4 text-gray-500 text-sm mb-2">
+                        <span className="flex items-center">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {item.createdAt ? new Date(item.createdAt).toLocaleString() : ''}
+                        </span>
+                        {locationName(item.locationId) && (
+                          <span className="flex items-center">
+                            <MapPin className="h-3 w-3 mr-1" />
+                            {locationName(item.locationId)}
+                          </span>
+                        )}
+                        {assigneeName(item.assignedTo) && (
+                          <span>Assigned to {assigneeName(item.assignedTo)}</span>
+                        )}
+                        {qrCodeName(item.qrCodeId) && (
+                          <span className="flex items-center">
+                            <QrCodeIcon className="h-3 w-3 mr-1" />
+                            {qrCodeName(item.qrCodeId)}
+                          </span>
+                        )}
+                      </div>
+                      {item.feedbackText && (
+                        <p className={`text-gray-700 text-sm ${expanded === item.id ? '' : 'line-clamp-2'}`}>{item.feedbackText}</p>
+                      )}
+
+                      {expanded === item.id && (
+                        <div className="mt-4 pt-4 border-t border-gray-200 space-y-4" onClick={(e) => e.stopPropagation()}>
+                          {customFields.length > 0 && (
+                            <div className="grid md:grid-cols-2 gap-2 text-sm">
+                              {customFields.map(([question, answer]) => (
+                                <div key={question}>
+                                  <span className="text-gray-500">{question}: </span>
+                                  <span className="text-gray-900">{String(answer)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {(item.customerEmail || item.customerPhone) && (
+                            <p className="text-sm text-gray-600">
+                              {[item.customerEmail, item.customerPhone].filter(Boolean).join(' · ')}
+                            </p>
+                          )}
+                          {item.voiceRecordingUrl && <AudioPlayer audioUrl={item.voiceRecordingUrl} />}
+                          {imageUrls.length > 0 && <ImageGallery images={imageUrls} />}
+                          <div className="pt-4 border-t border-gray-200">
+                            <FeedbackCasePanel feedback={item} assignees={assignees || []} />
+                          </div>
+                          {(item.customerEmail || item.customerPhone) && (
+                            <div className="pt-4 border-t border-gray-200">
+                              <CustomerReplyThread feedback={item} />
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {hasNextPage && (
+                  <div className="text-center">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} data-testid="button-load-more">
+                      {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, RotateCcw, Save, Tags, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { defaultTopicKeywords, effectiveTopicKeywords, topicLabel, type TopicKeywords } from "@shared/topics";
+
+const parseKeywords = (value: string) => value.split(',').map((keyword) => keyword.trim()).filter(Boolean);
+
+const sameKeywords = (a: string[], b: string[]) => a.length === b.length && a.every((keyword, i) => keyword === b[i]);
+
+export default function FeedbackTopics() {
+  const { user, can } = useAuth();
+  const tenantId = user!.tenantId;
+  const canManage = can('topics:manage');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Comma-separated keywords per topic, as edited
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newTopic, setNewTopic] = useState("");
+
+  const { data: overrides, isLoading } = useQuery<TopicKeywords>({
+    queryKey: ['/api/topic-keywords', tenantId],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (overrides) {
+      const effective = effectiveTopicKeywords(overrides);
+      setDrafts(Object.fromEntries(Object.entries(effective).map(([topic, keywords]) => [topic, keywords.join(', ')])));
+    }
+  }, [overrides]);
+
+  // Only topics that differ from the defaults are stored for the tenant
+  const toOverrides = (): TopicKeywords => Object.fromEntries(
+    Object.entries(drafts)
+      .map(([topic, value]) => [topic, parseKeywords(value)] as const)
+      .filter(([topic, keywords]) => !defaultTopicKeywords[topic] || !sameKeywords(keywords, defaultTopicKeywords[topic]))
+  );
+
+  const saveTopics = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('PUT', '/api/topic-keywords', toOverrides());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/topic-keywords', tenantId] });
+      toast({ title: "Topics saved", description: "Existing feedback is being re-tagged in the background" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save topics", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addTopic = () => {
+    const id = newTopic.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!id || drafts[id] !== undefined) return;
+    setDrafts((prev) => ({ ...prev, [id]: '' }));
+    setNewTopic("");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-2xl font-bold text-gray-900">Feedback Topics</h1>
+          <p className="text-gray-600">Keywords that tag incoming feedback with a topic</p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5 text-blue-600" />
+              Topics
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="animate-pulse h-24 bg-gray-100 rounded"></div>
+            ) : (
+              Object.entries(drafts).map(([topic, value]) => {
+                const isDefault = !!defaultTopicKeywords[topic];
+                const customized = isDefault && !sameKeywords(parseKeywords(value), defaultTopicKeywords[topic]);
+                return (
+                  <div key={topic} className="space-y-2" data-testid={`topic-${topic}`}>
+                    <div className="flex items-center gap-2">
+                      <Label>{topicLabel(topic)}</Label>
+                      {!isDefault && <Badge variant="outline">custom</Badge>}
+                      {customized && <Badge variant="secondary">edited</Badge>}
+                      {isDefault && parseKeywords(value).length === 0 && <Badge variant="destructive">off</Badge>}
+                      {canManage && (
+                        <div className="ml-auto flex gap-1">
+                          {customized && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDrafts((prev) => ({ ...prev, [topic]: defaultTopicKeywords[topic].join(', ') }))}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Reset
+                            </Button>
+                          )}
+                          {!isDefault && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDrafts(({ [topic]: _, ...rest }) => rest)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <Textarea
+                      rows={2}
+                      value={value}
+                      disabled={!canManage}
+                      placeholder="Comma-separated keywords or phrases; leave empty to turn the topic off"
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [topic]: e.target.value }))}
+                    />
+                  </div>
+                );
+              })
+            )}
+
+            {canManage && (
+              <div className="flex flex-col md:flex-row gap-3 pt-4 border-t">
+                <Input
+                  placeholder="New topic, e.g. parking"
+                  value={newTopic}
+                  onChange={(e) => setNewTopic(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addTopic();
+                  }}
+                />
+                <Button variant="outline" onClick={addTopic}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Topic
+                </Button>
+                <Button onClick={() => saveTopics.mutate()} disabled={saveTopics.isPending} data-testid="button-save-topics">
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveTopics.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
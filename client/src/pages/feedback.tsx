@@ -1,6 +1,4 @@
-import { useEffect } from "react";
 import BrandedFeedbackForm from "@/components/BrandedFeedbackForm";
-import { apiRequest } from "@/lib/queryClient";
 
 // FR-010: Public feedback form accessible via QR codes with custom branding
 export default function FeedbackPage() {
@@ -10,30 +8,10 @@ export default function FeedbackPage() {
   const locationId = urlParams.get('l');
   const qrCodeId = urlParams.get('q');
   const templateId = urlParams.get('template');
+  const scanSession = urlParams.get('s');
 
-  useEffect(() => {
-    // Track QR code scan when page loads (FR-060: QR code analytics)
-    if (qrCodeId) {
-      trackQrScan(qrCodeId);
-    }
-  }, [qrCodeId]);
-
-  const trackQrScan = async (qrCodeId: string) => {
-    try {
-      await apiRequest(`/api/qr-codes/${qrCodeId}/scan`, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          timestamp: new Date().toISOString(),
-          userAgent: navigator.userAgent,
-        }),
-      });
-    } catch (error) {
-      console.error('Failed to track QR scan:', error);
-    }
-  };
+  // Scans are recorded by the /r/ short link that redirects here; s is that
+  // scan's session, which the form reports its progress against
 
   // Handle invalid or missing parameters
   if (!tenantId || !locationId) {
@@ -55,6 +33,7 @@ export default function FeedbackPage() {
       locationId={locationId}
       qrCodeId={qrCodeId || undefined}
       surveyTemplateId={templateId || undefined}
+      scanSession={scanSession || undefined}
     />
   );
 }
\ No newline at end of file
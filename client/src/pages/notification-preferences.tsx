@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/use-auth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,39 +10,13 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { Mail, MessageSquare, Bell, Settings, Save, CheckCircle, XCircle } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import DigestSubscriptions from '@/components/DigestSubscriptions';
+import { Mail, MessageSquare, Bell, Moon, Settings, Save, CheckCircle, XCircle } from 'lucide-react';
+import { defaultNotificationSettings, type NotificationSettings } from '@shared/notifications';
 
-interface NotificationPreferences {
-  email: {
-    enabled: boolean;
-    address: string;
-    frequency: 'immediate' | 'hourly' | 'daily' | 'weekly';
-    alertTypes: {
-      critical: boolean;
-      warning: boolean;
-      info: boolean;
-    };
-  };
-  sms: {
-    enabled: boolean;
-    phoneNumber: string;
-    frequency: 'immediate' | 'hourly' | 'daily';
-    alertTypes: {
-      critical: boolean;
-      warning: boolean;
-    };
-  };
-  inApp: {
-    enabled: boolean;
-    sound: boolean;
-    desktop: boolean;
-    alertTypes: {
-      critical: boolean;
-      warning: boolean;
-      info: boolean;
-    };
-  };
-}
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timezones = Array.from(new Set(['UTC', browserTimezone, ...Intl.supportedValuesOf('timeZone')]));
 
 interface NotificationStats {
   email: {
@@ -61,40 +35,11 @@ interface NotificationStats {
 }
 
 export default function NotificationPreferences() {
-  const { tenantId } = useParams<{ tenantId: string }>();
+  const { user } = useAuth();
+  const tenantId = user?.tenantId;
   const { toast } = useToast();
   
-  const [preferences, setPreferences] = useState<NotificationPreferences>({
-    email: {
-      enabled: true,
-      address: '',
-      frequency: 'immediate',
-      alertTypes: {
-        critical: true,
-        warning: true,
-        info: false
-      }
-    },
-    sms: {
-      enabled: false,
-      phoneNumber: '',
-      frequency: 'immediate',
-      alertTypes: {
-        critical: true,
-        warning: false
-      }
-    },
-    inApp: {
-      enabled: true,
-      sound: true,
-      desktop: true,
-      alertTypes: {
-        critical: true,
-        warning: true,
-        info: true
-      }
-    }
-  });
+  const [preferences, setPreferences] = useState<NotificationSettings>(defaultNotificationSettings);
 
   const [stats, setStats] = useState<NotificationStats>({
     email: { totalSent: 0, delivered: 0, failed: 0 },
@@ -114,11 +59,9 @@ export default function NotificationPreferences() {
 
   const loadPreferences = async () => {
     try {
-      // In a real implementation, you would load from API
-      // For now, we'll use localStorage or default values
-      const saved = localStorage.getItem(`notification-preferences-${tenantId}`);
-      if (saved) {
-        setPreferences(JSON.parse(saved));
+      const response = await fetch('/api/notification-preferences');
+      if (response.ok) {
+        setPreferences(await response.json());
       }
     } catch (error) {
       console.error('Error loading preferences:', error);
@@ -165,15 +108,10 @@ export default function NotificationPreferences() {
   const savePreferences = async () => {
     setSaving(true);
     try {
-      // Save to localStorage for now
-      localStorage.setItem(`notification-preferences-${tenantId}`, JSON.stringify(preferences));
-      
-      // In a real implementation, you would save to API
-      // await fetch('/api/notification-preferences', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ tenantId, preferences })
-      // });
+      const response = await apiRequest('PUT', '/api/notification-preferences', preferences);
+      const saved: NotificationSettings = await response.json();
+      setPreferences(saved);
+      queryClient.setQueryData(['/api/notification-preferences'], saved);
 
       toast({
         title: "Success",
@@ -184,7 +122,7 @@ export default function NotificationPreferences() {
       console.error('Error saving preferences:', error);
       toast({
         title: "Error",
-        description: "Failed to save notification preferences",
+        description: error instanceof Error ? error.message : "Failed to save notification preferences",
         variant: "destructive",
       });
     } finally {
@@ -271,7 +209,8 @@ export default function NotificationPreferences() {
 
   const updatePreference = (path: string, value: any) => {
     setPreferences(prev => {
-      const newPrefs = { ...prev };
+      // Copied deeply: the nested objects may be the shared defaults
+      const newPrefs = structuredClone(prev);
       const keys = path.split('.');
       let current: any = newPrefs;
       
@@ -321,6 +260,8 @@ export default function NotificationPreferences() {
           <TabsTrigger value="email">Email</TabsTrigger>
           <TabsTrigger value="sms">SMS</TabsTrigger>
           <TabsTrigger value="in-app">In-App</TabsTrigger>
+          <TabsTrigger value="quiet-hours">Quiet Hours</TabsTrigger>
+          <TabsTrigger value="digests">Digests</TabsTrigger>
           <TabsTrigger value="stats">Statistics</TabsTrigger>
         </TabsList>
 
@@ -353,7 +294,10 @@ export default function NotificationPreferences() {
               {preferences.email.enabled && (
                 <>
                   <div>
-                    <Label htmlFor="email-address">Email Address</Label>
+                    <Label htmlFor="email-address">Other Email Address</Label>
+                    <p className="text-sm text-muted-foreground">
+                      These settings apply to alerts sent to {user?.email}, and to this address if alert rules use it
+                    </p>
                     <Input
                       id="email-address"
                       type="email"
@@ -591,7 +535,12 @@ export default function NotificationPreferences() {
                     <Switch
                       id="inapp-desktop"
                       checked={preferences.inApp.desktop}
-                      onCheckedChange={(checked) => updatePreference('inApp.desktop', checked)}
+                      onCheckedChange={(checked) => {
+                        updatePreference('inApp.desktop', checked);
+                        if (checked && 'Notification' in window && Notification.permission === 'default') {
+                          Notification.requestPermission();
+                        }
+                      }}
                     />
                   </div>
 
@@ -636,6 +585,104 @@ export default function NotificationPreferences() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="quiet-hours" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Moon className="w-5 h-5" />
+                Quiet Hours
+              </CardTitle>
+              <CardDescription>
+                Email and SMS alerts that arrive during quiet hours wait until they end, then go out together
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="quiet-hours-enabled">Enable Quiet Hours</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Hold alerts overnight or outside your working hours
+                  </p>
+                </div>
+                <Switch
+                  id="quiet-hours-enabled"
+                  checked={preferences.quietHours.enabled}
+                  onCheckedChange={(checked) => updatePreference('quietHours.enabled', checked)}
+                />
+              </div>
+
+              {preferences.quietHours.enabled && (
+                <>
+                  <div>
+                    <Label htmlFor="quiet-hours-timezone">Timezone</Label>
+                    <Select
+                      value={preferences.quietHours.timezone}
+                      onValueChange={(value) => updatePreference('quietHours.timezone', value)}
+                    >
+                      <SelectTrigger id="quiet-hours-timezone">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timezones.map((timezone) => (
+                          <SelectItem key={timezone} value={timezone}>{timezone}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {preferences.quietHours.timezone !== browserTimezone && (
+                      <Button
+                        variant="link"
+                        className="px-0"
+                        onClick={() => updatePreference('quietHours.timezone', browserTimezone)}
+                      >
+                        Use this device's timezone ({browserTimezone})
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="quiet-hours-start">From</Label>
+                      <Input
+                        id="quiet-hours-start"
+                        type="time"
+                        value={preferences.quietHours.start}
+                        onChange={(e) => updatePreference('quietHours.start', e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="quiet-hours-end">Until</Label>
+                      <Input
+                        id="quiet-hours-end"
+                        type="time"
+                        value={preferences.quietHours.end}
+                        onChange={(e) => updatePreference('quietHours.end', e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="quiet-hours-critical">Let Critical Alerts Through</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Critical alerts are sent straight away, even during quiet hours
+                      </p>
+                    </div>
+                    <Switch
+                      id="quiet-hours-critical"
+                      checked={preferences.quietHours.allowCritical}
+                      onCheckedChange={(checked) => updatePreference('quietHours.allowCritical', checked)}
+                    />
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="digests" className="space-y-6">
+          <DigestSubscriptions />
+        </TabsContent>
+
         <TabsContent value="stats" className="space-y-6">
           <div className="grid md:grid-cols-2 gap-6">
             <Card>
@@ -65,10 +65,10 @@ export default function OnboardingLanding() {
               <Button 
                 size="lg"
                 variant="outline"
-                onClick={() => setLocation("/dashboard")}
+                onClick={() => setLocation("/auth")}
                 className="px-8 py-4 text-lg"
               >
-                View Demo Dashboard
+                Sign In
               </Button>
             </div>
           </div>
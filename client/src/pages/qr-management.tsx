@@ -6,10 +6,11 @@ import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -30,41 +31,73 @@ import {
   Zap,
   Calendar,
   ExternalLink,
-  Share2
+  Share2,
+  Megaphone,
+  Printer,
+  Layers
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import QRCodeLib from "qrcode";
+import { useAuth } from "@/hooks/use-auth";
+import ExportMenu from "@/components/ExportMenu";
+import QrPrintDialog from "@/components/QrPrintDialog";
+import QrBulkDialog from "@/components/QrBulkDialog";
+import QrDownloadDialog from "@/components/QrDownloadDialog";
+import QrFunnelReport from "@/components/QrFunnelReport";
+import type { QrFunnelRow } from "@shared/qrFunnel";
 
 const qrCodeSchema = z.object({
-  name: z.string().min(1, "QR code name is required"),
-  description: z.string().optional(),
+  identifier: z.string().min(1, "QR code name is required"),
+  section: z.string().optional(),
   locationId: z.string().min(1, "Location is required"),
   surveyTemplateId: z.string().optional(),
+  campaign: z.string().optional(),
   isActive: z.boolean().default(true),
-  customMessage: z.string().optional(),
-  redirectUrl: z.string().optional(),
 });
 
 type QRCodeData = z.infer<typeof qrCodeSchema>;
 
+const DEFAULT_TEMPLATE = "default";
+
+// Empty optional fields are cleared rather than stored as ""
+function qrCodeRequest(data: QRCodeData) {
+  return {
+    ...data,
+    section: data.section || null,
+    surveyTemplateId: data.surveyTemplateId && data.surveyTemplateId !== DEFAULT_TEMPLATE ? data.surveyTemplateId : null,
+    campaign: data.campaign || null,
+  };
+}
+
+// The printed link: only the short code, which the server resolves to
+// wherever the code currently points
+function qrLink(qrCode: any): string {
+  return `${window.location.origin}/r/${qrCode.shortCode}`;
+}
+
 export default function QRManagement() {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingQRCode, setEditingQRCode] = useState<any | null>(null);
   const [previewQRCode, setPreviewQRCode] = useState<string | null>(null);
   const [generatedQRData, setGeneratedQRData] = useState<string | null>(null);
-  const tenantId = "a550e8e0-d5e7-4f82-8b9a-123456789012"; // This would come from auth context
+  const [rotateOnSave, setRotateOnSave] = useState(false);
+  const [showPrintDialog, setShowPrintDialog] = useState(false);
+  const [showBulkDialog, setShowBulkDialog] = useState(false);
+  const [downloadingQRCode, setDownloadingQRCode] = useState<any | null>(null);
+  const { user, can } = useAuth();
+  const tenantId = user!.tenantId;
+  const canManageQRCodes = can('qr_codes:manage');
   const queryClient = useQueryClient();
 
   const form = useForm<QRCodeData>({
     resolver: zodResolver(qrCodeSchema),
     defaultValues: {
-      name: "",
-      description: "",
+      identifier: "",
+      section: "",
       locationId: "",
-      surveyTemplateId: "",
+      surveyTemplateId: DEFAULT_TEMPLATE,
+      campaign: "",
       isActive: true,
-      customMessage: "",
-      redirectUrl: "",
     },
   });
 
@@ -86,8 +119,8 @@ export default function QRManagement() {
     retry: false,
   });
 
-  // Fetch analytics for QR codes
-  const { data: analytics } = useQuery({
+  // Scan funnel per QR code over the last 30 days
+  const { data: analytics } = useQuery<QrFunnelRow[]>({
     queryKey: ['/api/analytics/qr-codes', tenantId],
     retry: false,
   });
@@ -95,10 +128,7 @@ export default function QRManagement() {
   // Create QR code mutation
   const createQRCode = useMutation({
     mutationFn: async (data: QRCodeData) => {
-      return await apiRequest('POST', '/api/qr-codes', {
-        ...data,
-        tenantId,
-      });
+      return await apiRequest('POST', '/api/qr-codes', qrCodeRequest(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', tenantId] });
@@ -110,7 +140,11 @@ export default function QRManagement() {
   // Update QR code mutation
   const updateQRCode = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: QRCodeData }) => {
-      return await apiRequest('PUT', `/api/qr-codes/${id}`, data);
+      // Rotating hands the printed code to a fresh record; otherwise the
+      // record itself is re-pointed and keeps its results
+      return rotateOnSave
+        ? await apiRequest('POST', `/api/qr-codes/${id}/rotate`, qrCodeRequest(data))
+        : await apiRequest('PUT', `/api/qr-codes/${id}`, qrCodeRequest(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', tenantId] });
@@ -132,27 +166,28 @@ export default function QRManagement() {
 
   const handleCreateQRCode = () => {
     setEditingQRCode(null);
+    setRotateOnSave(false);
     form.reset();
     setShowCreateDialog(true);
   };
 
   const handleEditQRCode = (qrCode: any) => {
     setEditingQRCode(qrCode);
+    setRotateOnSave(false);
     form.reset({
-      name: qrCode.name,
-      description: qrCode.description,
+      identifier: qrCode.identifier,
+      section: qrCode.section ?? "",
       locationId: qrCode.locationId,
-      surveyTemplateId: qrCode.surveyTemplateId,
+      surveyTemplateId: qrCode.surveyTemplateId ?? DEFAULT_TEMPLATE,
+      campaign: qrCode.campaign ?? "",
       isActive: qrCode.isActive,
-      customMessage: qrCode.customMessage,
-      redirectUrl: qrCode.redirectUrl,
     });
     setShowCreateDialog(true);
   };
 
   const generateQRCodePreview = async (qrCodeData: any) => {
     try {
-      const qrUrl = `${window.location.origin}/feedback?t=${tenantId}&l=${qrCodeData.locationId}&q=${qrCodeData.id}&template=${qrCodeData.surveyTemplateId || ''}`;
+      const qrUrl = qrLink(qrCodeData);
       const qrCodeDataUrl = await QRCodeLib.toDataURL(qrUrl, {
         width: 200,
         margin: 2,
@@ -168,32 +203,8 @@ export default function QRManagement() {
     }
   };
 
-  const downloadQRCode = async (qrCode: any) => {
-    try {
-      const qrUrl = `${window.location.origin}/feedback?t=${tenantId}&l=${qrCode.locationId}&q=${qrCode.id}&template=${qrCode.surveyTemplateId || ''}`;
-      const qrCodeDataUrl = await QRCodeLib.toDataURL(qrUrl, {
-        width: 400,
-        margin: 4,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        }
-      });
-      
-      // Create download link
-      const link = document.createElement('a');
-      link.href = qrCodeDataUrl;
-      link.download = `qr-code-${qrCode.name.replace(/\s+/g, '-').toLowerCase()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } catch (error) {
-      console.error('Failed to download QR code:', error);
-    }
-  };
-
   const copyQRUrl = async (qrCode: any) => {
-    const qrUrl = `${window.location.origin}/feedback?t=${tenantId}&l=${qrCode.locationId}&q=${qrCode.id}&template=${qrCode.surveyTemplateId || ''}`;
+    const qrUrl = qrLink(qrCode);
     try {
       await navigator.clipboard.writeText(qrUrl);
     } catch (error) {
@@ -211,7 +222,7 @@ export default function QRManagement() {
 
   const getQRCodeAnalytics = (qrCodeId: string) => {
     if (!Array.isArray(analytics)) return null;
-    return analytics.find((a: any) => a.qrCodeId === qrCodeId);
+    return analytics.find((a) => a.qrCodeId === qrCodeId);
   };
 
   const getLocationName = (locationId: string) => {
@@ -251,10 +262,29 @@ export default function QRManagement() {
               <h1 className="text-2xl font-bold text-gray-900">QR Code Management</h1>
               <p className="text-gray-600">Create and manage QR codes for feedback collection</p>
             </div>
-            <Button onClick={handleCreateQRCode} data-testid="button-add-qr-code">
-              <Plus className="h-4 w-4 mr-2" />
-              Create QR Code
-            </Button>
+            <div className="flex gap-2">
+              {can('data:export') && (
+                <ExportMenu path={`/api/exports/${tenantId}/qr-scans`} label="Export Scans" />
+              )}
+              {Array.isArray(qrCodes) && qrCodes.length > 0 && (
+                <Button variant="outline" onClick={() => setShowPrintDialog(true)} data-testid="button-print-qr-codes">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print
+                </Button>
+              )}
+              {canManageQRCodes && (
+                <Button variant="outline" onClick={() => setShowBulkDialog(true)} data-testid="button-bulk-qr-codes">
+                  <Layers className="h-4 w-4 mr-2" />
+                  Bulk Create
+                </Button>
+              )}
+              {canManageQRCodes && (
+                <Button onClick={handleCreateQRCode} data-testid="button-add-qr-code">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create QR Code
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -267,12 +297,16 @@ export default function QRManagement() {
               <QrCode className="h-16 w-16 mx-auto mb-4 text-gray-300" />
               <h3 className="text-lg font-semibold text-gray-900 mb-2">No QR codes yet</h3>
               <p className="text-gray-600 mb-6">
-                Create your first QR code to start collecting customer feedback at your locations.
+                {canManageQRCodes
+                  ? "Create your first QR code to start collecting customer feedback at your locations."
+                  : "There are no QR codes for your locations yet."}
               </p>
-              <Button onClick={handleCreateQRCode}>
-                <Plus className="h-4 w-4 mr-2" />
-                Create Your First QR Code
-              </Button>
+              {canManageQRCodes && (
+                <Button onClick={handleCreateQRCode}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First QR Code
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -287,7 +321,7 @@ export default function QRManagement() {
                       <div className="flex-1">
                         <CardTitle className="flex items-center gap-2 mb-2">
                           <QrCode className="h-5 w-5 text-purple-600" />
-                          {qrCode.name}
+                          {qrCode.identifier}
                         </CardTitle>
                         <div className="flex items-center gap-2 mb-2">
                           <Badge variant={qrCode.isActive ? "default" : "secondary"}>
@@ -297,12 +331,21 @@ export default function QRManagement() {
                             <MapPin className="h-3 w-3 mr-1" />
                             {getLocationName(qrCode.locationId)}
                           </Badge>
+                          {qrCode.campaign && (
+                            <Badge variant="outline" className="text-xs">
+                              <Megaphone className="h-3 w-3 mr-1" />
+                              {qrCode.campaign}
+                            </Badge>
+                          )}
                         </div>
-                        {qrCode.description && (
+                        {qrCode.section && (
                           <p className="text-sm text-gray-600 line-clamp-2 mb-2">
-                            {qrCode.description}
+                            {qrCode.section}
                           </p>
                         )}
+                        <p className="text-xs font-mono text-gray-500" data-testid={`text-short-code-${qrCode.id}`}>
+                          /r/{qrCode.shortCode}
+                        </p>
                       </div>
                       <div className="flex items-center gap-1">
                         <Button
@@ -313,35 +356,31 @@ export default function QRManagement() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEditQRCode(qrCode)}
-                          data-testid={`button-edit-${qrCode.id}`}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => deleteQRCode.mutate(qrCode.id)}
-                          data-testid={`button-delete-${qrCode.id}`}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canManageQRCodes && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEditQRCode(qrCode)}
+                              data-testid={`button-edit-${qrCode.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteQRCode.mutate(qrCode.id)}
+                              data-testid={`button-delete-${qrCode.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </div>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      {/* Custom Message */}
-                      {qrCode.customMessage && (
-                        <div className="bg-gray-50 p-3 rounded-lg">
-                          <div className="text-xs text-gray-500 mb-1">Custom Message</div>
-                          <div className="text-sm">{qrCode.customMessage}</div>
-                        </div>
-                      )}
-
                       {/* Analytics Summary */}
                       {qrAnalytics && (
                         <div className="border-t pt-4">
@@ -351,14 +390,14 @@ export default function QRManagement() {
                                 <Zap className="h-3 w-3" />
                                 Scans
                               </div>
-                              <div className="font-semibold">{qrAnalytics.totalScans || 0}</div>
+                              <div className="font-semibold">{qrAnalytics.counts.scanned}</div>
                             </div>
                             <div>
                               <div className="flex items-center justify-center gap-1 text-xs text-gray-500 mb-1">
                                 <BarChart3 className="h-3 w-3" />
                                 Responses
                               </div>
-                              <div className="font-semibold">{qrAnalytics.totalResponses || 0}</div>
+                              <div className="font-semibold">{qrAnalytics.counts.submitted}</div>
                             </div>
                           </div>
                           {qrAnalytics.lastScannedAt && (
@@ -376,7 +415,7 @@ export default function QRManagement() {
                         <Button 
                           variant="outline" 
                           size="sm" 
-                          onClick={() => downloadQRCode(qrCode)}
+                          onClick={() => setDownloadingQRCode(qrCode)}
                           data-testid={`button-download-${qrCode.id}`}
                         >
                           <Download className="h-4 w-4 mr-1" />
@@ -399,6 +438,12 @@ export default function QRManagement() {
             })}
           </div>
         )}
+
+        {Array.isArray(qrCodes) && qrCodes.length > 0 && (
+          <div className="mt-8">
+            <QrFunnelReport tenantId={tenantId} />
+          </div>
+        )}
       </div>
 
       {/* Create/Edit QR Code Dialog */}
@@ -423,7 +468,7 @@ export default function QRManagement() {
                 <h3 className="text-lg font-semibold">Basic Information</h3>
                 <FormField
                   control={form.control}
-                  name="name"
+                  name="identifier"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>QR Code Name *</FormLabel>
@@ -436,12 +481,12 @@ export default function QRManagement() {
                 />
                 <FormField
                   control={form.control}
-                  name="description"
+                  name="section"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Description (Optional)</FormLabel>
+                      <FormLabel>Section (Optional)</FormLabel>
                       <FormControl>
-                        <Textarea placeholder="Brief description of where this QR code will be placed..." {...field} data-testid="textarea-qr-description" />
+                        <Input placeholder="Patio, VIP, ICU, etc." {...field} data-testid="input-qr-section" />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -490,7 +535,7 @@ export default function QRManagement() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="">Default Feedback Form</SelectItem>
+                            <SelectItem value={DEFAULT_TEMPLATE}>Default Feedback Form</SelectItem>
                             {Array.isArray(templates) && templates.map((template: any) => (
                               <SelectItem key={template.id} value={template.id}>
                                 {template.name}
@@ -505,21 +550,17 @@ export default function QRManagement() {
                 </div>
               </div>
 
-              {/* Customization */}
+              {/* Campaign and status */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Customization</h3>
+                <h3 className="text-lg font-semibold">Campaign</h3>
                 <FormField
                   control={form.control}
-                  name="customMessage"
+                  name="campaign"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Custom Message (Optional)</FormLabel>
+                      <FormLabel>Campaign (Optional)</FormLabel>
                       <FormControl>
-                        <Textarea 
-                          placeholder="We'd love to hear about your experience! Scan to share your feedback."
-                          {...field}
-                          data-testid="textarea-custom-message"
-                        />
+                        <Input placeholder="Summer menu, Table tents Q3, etc." {...field} data-testid="input-qr-campaign" />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -527,21 +568,34 @@ export default function QRManagement() {
                 />
                 <FormField
                   control={form.control}
-                  name="redirectUrl"
+                  name="isActive"
                   render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Custom Redirect URL (Optional)</FormLabel>
+                    <FormItem className="flex items-center justify-between">
+                      <div>
+                        <FormLabel>Active</FormLabel>
+                        <p className="text-sm text-gray-500">Scans of an inactive code show an invalid link page</p>
+                      </div>
                       <FormControl>
-                        <Input 
-                          placeholder="https://yourwebsite.com/thank-you"
-                          {...field}
-                          data-testid="input-redirect-url"
-                        />
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-qr-active" />
                       </FormControl>
-                      <FormMessage />
                     </FormItem>
                   )}
                 />
+                {editingQRCode && (
+                  <div className="flex items-start gap-2 bg-gray-50 p-3 rounded-lg">
+                    <Checkbox
+                      id="rotate-on-save"
+                      checked={rotateOnSave}
+                      onCheckedChange={(checked) => setRotateOnSave(checked === true)}
+                      data-testid="checkbox-rotate"
+                    />
+                    <label htmlFor="rotate-on-save" className="text-sm">
+                      <span className="font-medium">Start a new record for this code.</span>{" "}
+                      Printed copies keep working, but scans and feedback from now on are counted separately
+                      from the results so far.
+                    </label>
+                  </div>
+                )}
               </div>
 
               {/* Submit Buttons */}
@@ -570,6 +624,28 @@ export default function QRManagement() {
         </DialogContent>
       </Dialog>
 
+      <QrPrintDialog
+        tenantId={tenantId}
+        qrCodes={Array.isArray(qrCodes) ? qrCodes : []}
+        locations={Array.isArray(locations) ? locations : []}
+        open={showPrintDialog}
+        onOpenChange={setShowPrintDialog}
+      />
+
+      <QrDownloadDialog
+        tenantId={tenantId}
+        qrCode={downloadingQRCode}
+        onOpenChange={(open) => !open && setDownloadingQRCode(null)}
+      />
+
+      <QrBulkDialog
+        tenantId={tenantId}
+        locations={Array.isArray(locations) ? locations : []}
+        templates={Array.isArray(templates) ? templates : []}
+        open={showBulkDialog}
+        onOpenChange={setShowBulkDialog}
+      />
+
       {/* QR Code Preview Dialog */}
       <Dialog open={!!previewQRCode} onOpenChange={() => setPreviewQRCode(null)}>
         <DialogContent className="max-w-md">
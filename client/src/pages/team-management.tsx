@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Mail, RefreshCw, Send, UserPlus, Users, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { roleLabels, userRoles, type UserRole } from "@shared/permissions";
+import type { Invitation } from "@shared/schema";
+
+type InvitationRow = Invitation & {
+  status: "pending" | "accepted" | "revoked" | "expired";
+  invitedByName?: string;
+  revokedByName?: string;
+};
+
+const statusVariants: Record<InvitationRow["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  revoked: "destructive",
+  expired: "outline",
+};
+
+export default function TeamManagement() {
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
+  const isOwner = user!.role === "owner";
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("viewer");
+
+  // Only owners can hand out the owner role
+  const assignableRoles = userRoles.filter((role) => isOwner || role !== "owner");
+
+  const { data: members, isLoading } = useQuery<AuthUser[]>({
+    queryKey: ['/api/users', tenantId],
+    retry: false,
+  });
+
+  const { data: invitations } = useQuery<InvitationRow[]>({
+    queryKey: ['/api/invitations', tenantId],
+    retry: false,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createInvitation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/invitations', { email: inviteEmail, role: inviteRole });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations', tenantId] });
+      toast({ title: "Invitation sent", description: `An invitation was emailed to ${inviteEmail}` });
+      setInviteEmail("");
+    },
+    onError: onError("Could not send invitation"),
+  });
+
+  const resendInvitation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/invitations/${id}/resend`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations', tenantId] });
+      toast({ title: "Invitation resent" });
+    },
+    onError: onError("Could not resend invitation"),
+  });
+
+  const revokeInvitation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations', tenantId] });
+    },
+    onError: onError("Could not revoke invitation"),
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      return await apiRequest('PUT', `/api/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users', tenantId] });
+    },
+    onError: onError("Could not change role"),
+  });
+
+  const pendingCount = (invitations || []).filter((invitation) => invitation.status === "pending").length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-2xl font-bold text-gray-900">Team Management</h1>
+          <p className="text-gray-600">Invite teammates and control what they can access</p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Invite */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5 text-blue-600" />
+              Invite a teammate
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex flex-col md:flex-row gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createInvitation.mutate();
+              }}
+            >
+              <Input
+                type="email"
+                required
+                placeholder="teammate@company.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                data-testid="input-invite-email"
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as UserRole)}>
+                <SelectTrigger className="md:w-56" data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={createInvitation.isPending} data-testid="button-send-invite">
+                <Send className="h-4 w-4 mr-2" />
+                {createInvitation.isPending ? "Sending..." : "Send Invite"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-blue-600" />
+              Members
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="animate-pulse h-24 bg-gray-100 rounded"></div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Last sign-in</TableHead>
+                    <TableHead>Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(members || []).map((member) => {
+                    // Your own role and (for non-owners) owners' roles are fixed
+                    const locked = member.id === user!.id || (member.role === "owner" && !isOwner);
+                    return (
+                      <TableRow key={member.id} data-testid={`member-row-${member.id}`}>
+                        <TableCell>{[member.firstName, member.lastName].filter(Boolean).join(" ") || "—"}</TableCell>
+                        <TableCell>{member.email}</TableCell>
+                        <TableCell>
+                          {member.lastLoginAt ? new Date(member.lastLoginAt).toLocaleString() : "Never"}
+                        </TableCell>
+                        <TableCell>
+                          {locked ? (
+                            <Badge variant="outline">{roleLabels[member.role as UserRole] || member.role}</Badge>
+                          ) : (
+                            <Select
+                              value={member.role}
+                              onValueChange={(role) => updateRole.mutate({ id: member.id, role: role as UserRole })}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {assignableRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Invitations */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-blue-600" />
+              Invitations
+              {pendingCount > 0 && <Badge variant="secondary">{pendingCount} pending</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!invitations || invitations.length === 0 ? (
+              <p className="text-sm text-gray-600">No invitations have been sent yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Invited by</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => (
+                    <TableRow key={invitation.id} data-testid={`invitation-row-${invitation.id}`}>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>{roleLabels[invitation.role as UserRole] || invitation.role}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[invitation.status]}>{invitation.status}</Badge>
+                        {invitation.status === "revoked" && invitation.revokedByName && (
+                          <div className="text-xs text-gray-500 mt-1">by {invitation.revokedByName}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{invitation.invitedByName || "—"}</TableCell>
+                      <TableCell>
+                        <div>{new Date(invitation.lastSentAt).toLocaleString()}</div>
+                        {invitation.sendCount > 1 && (
+                          <div className="text-xs text-gray-500">sent {invitation.sendCount} times</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        {(invitation.status === "pending" || invitation.status === "expired") && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => resendInvitation.mutate(invitation.id)}
+                              disabled={resendInvitation.isPending}
+                              data-testid={`button-resend-${invitation.id}`}
+                            >
+                              <RefreshCw className="h-4 w-4 mr-1" />
+                              Resend
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => revokeInvitation.mutate(invitation.id)}
+                              disabled={revokeInvitation.isPending}
+                              data-testid={`button-revoke-${invitation.id}`}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Revoke
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
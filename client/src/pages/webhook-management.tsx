@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, KeyRound, Plus, RotateCw, Trash2, Webhook } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { WebhookDelivery, WebhookEndpoint, WebhookEvent } from "@shared/schema";
+
+type EndpointRow = Omit<WebhookEndpoint, "secret">;
+
+const eventLabels: Record<WebhookEvent, string> = {
+  "feedback.created": "Feedback submitted",
+  "alert.triggered": "Alert triggered",
+  "alert.acknowledged": "Alert acknowledged",
+  "qr.scanned": "QR code scanned",
+};
+
+const webhookEvents = Object.keys(eventLabels) as WebhookEvent[];
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "outline",
+  delivered: "default",
+  failed: "destructive",
+};
+
+export default function WebhookManagement() {
+  const { user } = useAuth();
+  const tenantId = user!.tenantId;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["alert.triggered"]);
+  // Secrets are only shown right after creation or rotation
+  const [revealedSecret, setRevealedSecret] = useState<{ url: string; secret: string } | null>(null);
+  const [historyEndpoint, setHistoryEndpoint] = useState<EndpointRow | null>(null);
+
+  const { data: endpoints, isLoading } = useQuery<EndpointRow[]>({
+    queryKey: ['/api/webhooks', tenantId],
+    retry: false,
+  });
+
+  const { data: deliveries } = useQuery<WebhookDelivery[]>({
+    queryKey: ['/api/webhooks', historyEndpoint?.id, 'deliveries'],
+    enabled: !!historyEndpoint,
+    refetchInterval: 15000,
+    retry: false,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const invalidateEndpoints = () => queryClient.invalidateQueries({ queryKey: ['/api/webhooks', tenantId] });
+
+  const createEndpoint = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/webhooks', { url, description: description || undefined, events });
+      return await res.json() as WebhookEndpoint;
+    },
+    onSuccess: (endpoint) => {
+      invalidateEndpoints();
+      setRevealedSecret({ url: endpoint.url, secret: endpoint.secret });
+      setUrl("");
+      setDescription("");
+    },
+    onError: onError("Could not add endpoint"),
+  });
+
+  const updateEndpoint = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; isActive?: boolean; events?: WebhookEvent[] }) => {
+      return await apiRequest('PUT', `/api/webhooks/${id}`, changes);
+    },
+    onSuccess: invalidateEndpoints,
+    onError: onError("Could not update endpoint"),
+  });
+
+  const rotateSecret = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `/api/webhooks/${id}/rotate-secret`);
+      return await res.json() as WebhookEndpoint;
+    },
+    onSuccess: (endpoint) => setRevealedSecret({ url: endpoint.url, secret: endpoint.secret }),
+    onError: onError("Could not rotate secret"),
+  });
+
+  const deleteEndpoint = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/webhooks/${id}`);
+    },
+    onSuccess: (_, id) => {
+      invalidateEndpoints();
+      if (historyEndpoint?.id === id) setHistoryEndpoint(null);
+    },
+    onError: onError("Could not delete endpoint"),
+  });
+
+  const redeliver = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/webhooks/deliveries/${id}/redeliver`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks', historyEndpoint?.id, 'deliveries'] });
+      toast({ title: "Redelivery queued" });
+    },
+    onError: onError("Could not redeliver"),
+  });
+
+  const toggleEvent = (selected: WebhookEvent[], event: WebhookEvent, checked: boolean) =>
+    checked ? [...selected, event] : selected.filter((existing) => existing !== event);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-gray-600">Send signed event notifications to your own systems</p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {revealedSecret && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertDescription>
+              <p>Signing secret for {revealedSecret.url}. Copy it now; it will not be shown again.</p>
+              <code className="block mt-2 p-2 bg-muted rounded break-all" data-testid="text-webhook-secret">{revealedSecret.secret}</code>
+              <p className="text-xs text-muted-foreground mt-2">
+                Each request carries X-Webhook-Timestamp and X-Webhook-Signature: sha256= followed by the hex HMAC-SHA256 of "timestamp.body" using this secret.
+              </p>
+              <Button variant="outline" size="sm" className="mt-2" onClick={() => setRevealedSecret(null)}>Done</Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Add endpoint */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5 text-blue-600" />
+              Add an endpoint
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createEndpoint.mutate();
+              }}
+            >
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <Label>URL</Label>
+                  <Input
+                    type="url"
+                    required
+                    placeholder="https://example.com/webhooks/feedback"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    data-testid="input-webhook-url"
+                  />
+                </div>
+                <div>
+                  <Label>Description</Label>
+                  <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-4">
+                {webhookEvents.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) => setEvents(toggleEvent(events, event, checked === true))}
+                    />
+                    {eventLabels[event]}
+                  </label>
+                ))}
+              </div>
+              <Button type="submit" disabled={createEndpoint.isPending || events.length === 0} data-testid="button-add-webhook">
+                {createEndpoint.isPending ? "Adding..." : "Add Endpoint"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Endpoints */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5 text-blue-600" />
+              Endpoints
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="animate-pulse h-24 bg-gray-100 rounded"></div>
+            ) : !endpoints || endpoints.length === 0 ? (
+              <p className="text-sm text-gray-600">No webhook endpoints yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {endpoints.map((endpoint) => (
+                    <TableRow key={endpoint.id} data-testid={`webhook-row-${endpoint.id}`}>
+                      <TableCell>
+                        <div className="font-medium break-all">{endpoint.url}</div>
+                        {endpoint.description && <div className="text-xs text-gray-500">{endpoint.description}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {webhookEvents.map((event) => (
+                            <label key={event} className="flex items-center gap-1 text-xs">
+                              <Checkbox
+                                checked={endpoint.events.includes(event)}
+                                onCheckedChange={(checked) => {
+                                  const updated = toggleEvent(endpoint.events as WebhookEvent[], event, checked === true);
+                                  if (updated.length > 0) updateEndpoint.mutate({ id: endpoint.id, events: updated });
+                                }}
+                              />
+                              {event}
+                            </label>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={endpoint.isActive}
+                          onCheckedChange={(isActive) => updateEndpoint.mutate({ id: endpoint.id, isActive })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="outline" size="sm" onClick={() => setHistoryEndpoint(endpoint)}>
+                            <History className="h-4 w-4 mr-1" />
+                            Deliveries
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => rotateSecret.mutate(endpoint.id)}>
+                            <KeyRound className="h-4 w-4 mr-1" />
+                            Rotate Secret
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm('Delete this endpoint and its delivery history?')) deleteEndpoint.mutate(endpoint.id);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Delivery history */}
+        {historyEndpoint && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5 text-blue-600" />
+                Deliveries to {historyEndpoint.url}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!deliveries || deliveries.length === 0 ? (
+                <p className="text-sm text-gray-600">Nothing has been sent to this endpoint yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Response</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map((delivery) => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>
+                          <div>{delivery.event}</div>
+                          {delivery.redeliveryOf && <div className="text-xs text-gray-500">redelivery</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[delivery.status] || "outline"}>{delivery.status}</Badge>
+                          {delivery.status === "pending" && delivery.attempts > 0 && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{delivery.attempts}</TableCell>
+                        <TableCell className="text-xs">
+                          {delivery.responseStatus && <div>HTTP {delivery.responseStatus}</div>}
+                          {delivery.lastError && <div className="text-destructive">{delivery.lastError}</div>}
+                        </TableCell>
+                        <TableCell>{delivery.createdAt ? new Date(delivery.createdAt).toLocaleString() : "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={redeliver.isPending || delivery.status === "pending" || delivery.status === "processing"}
+                            onClick={() => redeliver.mutate(delivery.id)}
+                          >
+                            <RotateCw className="h-4 w-4 mr-1" />
+                            Redeliver
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+-- Migration: Add password/magic-link authentication
+-- Created: 2024-02-XX
+
+-- Credentials and login tracking on users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMP;
+
+-- One-time login tokens (magic links)
+CREATE TABLE IF NOT EXISTS auth_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    purpose VARCHAR(50) NOT NULL DEFAULT 'magic_link',
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_id ON auth_tokens(user_id);
+
+-- Session store used by express-session / connect-pg-simple
+CREATE TABLE IF NOT EXISTS sessions (
+    sid VARCHAR PRIMARY KEY,
+    sess JSONB NOT NULL,
+    expire TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON sessions(expire);
+
+COMMENT ON COLUMN users.password_hash IS 'scrypt hash in the form <hash>.<salt>; NULL for magic-link-only accounts';
+COMMENT ON TABLE auth_tokens IS 'Single-use login tokens; only the SHA-256 hash of the token is stored';
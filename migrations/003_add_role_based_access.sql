@@ -0,0 +1,16 @@
+-- Migration: Role-based access control for users
+-- Created: 2024-02-XX
+
+-- Roles are owner, admin, location_manager and viewer. Existing accounts keep
+-- the admin access they effectively had; new accounts default to read-only.
+UPDATE users SET role = 'admin' WHERE role IS NULL OR role NOT IN ('owner', 'admin', 'location_manager', 'viewer');
+
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE users ALTER COLUMN role SET NOT NULL;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+    CHECK (role IN ('owner', 'admin', 'location_manager', 'viewer'));
+
+-- Location managers are resolved through locations.manager_id on every request
+CREATE INDEX IF NOT EXISTS idx_locations_manager_id ON locations(manager_id);
+
+COMMENT ON COLUMN users.role IS 'owner: billing/branding; admin: rules, templates, locations, QR codes; location_manager: read access limited to managed locations; viewer: read-only';
@@ -0,0 +1,25 @@
+-- Migration: Team invitations
+-- Created: 2024-02-XX
+
+CREATE TABLE IF NOT EXISTS invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    role VARCHAR(50) NOT NULL DEFAULT 'viewer'
+        CHECK (role IN ('owner', 'admin', 'location_manager', 'viewer')),
+    invited_by UUID REFERENCES users(id),
+    accepted_by UUID REFERENCES users(id),
+    send_count INTEGER NOT NULL DEFAULT 1,
+    last_sent_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL,
+    accepted_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    revoked_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_invitations_tenant_id" ON invitations(tenant_id);
+CREATE INDEX IF NOT EXISTS "IDX_invitations_email" ON invitations(email);
+
+COMMENT ON TABLE invitations IS 'Team invitations; rows are kept after acceptance or revocation as an audit trail';
+COMMENT ON COLUMN invitations.last_sent_at IS 'Part of the signed invite link; resending bumps it and invalidates earlier links';
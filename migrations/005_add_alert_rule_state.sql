@@ -0,0 +1,11 @@
+-- Migration: Persist alert rule priority, cooldown and last-triggered state
+-- Created: 2024-02-XX
+
+ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS priority VARCHAR(20) NOT NULL DEFAULT 'medium'
+    CHECK (priority IN ('low', 'medium', 'high', 'critical'));
+ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS cooldown_period INTEGER NOT NULL DEFAULT 30
+    CHECK (cooldown_period >= 0);
+ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS last_triggered_at TIMESTAMP;
+
+COMMENT ON COLUMN alert_rules.cooldown_period IS 'Minutes after a trigger during which the rule stays silent; 0 disables the cooldown';
+COMMENT ON COLUMN alert_rules.last_triggered_at IS 'Set by the rule engine when the rule fires; survives restarts so cooldowns keep working';
@@ -0,0 +1,17 @@
+-- Migration: Volume and silence alert conditions
+-- Created: 2024-02-XX
+
+-- Alerts record the location they concern. Feedback-raised alerts take it from
+-- the feedback; scheduled "no feedback received" alerts have no feedback at all.
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id);
+
+UPDATE alert_notifications a
+SET location_id = f.location_id
+FROM feedback_responses f
+WHERE a.feedback_id = f.id AND a.location_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_location_id ON alert_notifications(location_id);
+
+-- Sliding-window counts for volume_based and time_based conditions
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_tenant_created ON feedback_responses(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_location_created ON feedback_responses(location_id, created_at);
@@ -0,0 +1,29 @@
+-- Migration: Alert action delivery queue and log
+-- Created: 2024-02-XX
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    alert_id UUID NOT NULL REFERENCES alert_notifications(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'sms', 'webhook')),
+    recipient VARCHAR(500) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'skipped')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 1 CHECK (max_attempts >= 1),
+    retry_interval INTEGER NOT NULL DEFAULT 5 CHECK (retry_interval >= 0),
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_alert_deliveries_alert_id" ON alert_deliveries(alert_id);
+CREATE INDEX IF NOT EXISTS "IDX_alert_deliveries_due" ON alert_deliveries(status, next_attempt_at);
+
+COMMENT ON TABLE alert_deliveries IS 'Alert actions waiting to be sent and the outcome of each; the dispatcher claims due rows with FOR UPDATE SKIP LOCKED';
+COMMENT ON COLUMN alert_deliveries.max_attempts IS 'The action''s retryCount plus the first attempt';
+COMMENT ON COLUMN alert_deliveries.locked_at IS 'Set while a dispatcher is sending; rows locked for over 10 minutes are picked up again';
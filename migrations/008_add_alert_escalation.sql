@@ -0,0 +1,12 @@
+-- Migration: Alert escalation chains
+-- Created: 2024-02-XX
+
+-- A rule's escalation action notifies one tier of people at a time until the
+-- alert is acknowledged. escalate_at is when the next tier is due.
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS escalate_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS "IDX_alert_notifications_escalate_at" ON alert_notifications(escalate_at);
+
+COMMENT ON COLUMN alert_notifications.escalation_level IS 'Number of escalation tiers notified so far';
+COMMENT ON COLUMN alert_notifications.escalate_at IS 'When the next escalation tier is notified; NULL once acknowledged or the chain is exhausted';
@@ -0,0 +1,45 @@
+-- Migration: Outbound webhook endpoints and delivery history
+-- Created: 2024-02-XX
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    url VARCHAR(500) NOT NULL,
+    description VARCHAR(255),
+    events TEXT[] NOT NULL,
+    secret VARCHAR(100) NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_webhook_endpoints_tenant_id" ON webhook_endpoints(tenant_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL
+        CHECK (event IN ('feedback.created', 'alert.triggered', 'alert.acknowledged', 'qr.scanned')),
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP,
+    response_status INTEGER,
+    response_body TEXT,
+    last_error TEXT,
+    delivered_at TIMESTAMP,
+    redelivery_of UUID,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_endpoint_id" ON webhook_deliveries(endpoint_id);
+CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_due" ON webhook_deliveries(status, next_attempt_at);
+
+COMMENT ON COLUMN webhook_endpoints.secret IS 'HMAC-SHA256 key; receivers verify X-Webhook-Signature with it';
+COMMENT ON TABLE webhook_deliveries IS 'One row per event and endpoint; retried with backoff and kept as the delivery history';
+COMMENT ON COLUMN webhook_deliveries.redelivery_of IS 'Set when a user re-sent an earlier delivery';
@@ -0,0 +1,10 @@
+-- Migration: Sentiment scoring and topic tagging of feedback
+-- Created: 2024-02-XX
+
+-- Per-tenant keyword overrides for topic tags; NULL uses the built-in dictionary
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS topic_keywords JSONB;
+
+-- Rows submitted before analysis existed are filled in by the server's
+-- startup backfill, which walks rows with no sentiment in id order
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_unanalyzed ON feedback_responses(id) WHERE sentiment IS NULL;
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_sentiment ON feedback_responses(tenant_id, sentiment);
@@ -0,0 +1,14 @@
+-- Migration: Feedback inbox search and pagination
+-- Created: 2024-02-XX
+
+-- Inbox pages walk a tenant's feedback newest first by (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_tenant_created ON feedback_responses(tenant_id, created_at DESC, id DESC);
+
+-- Full-text search over the comment and string answers to custom questions;
+-- the expression must match feedbackSearchDocument in server/storage.ts
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_search ON feedback_responses USING GIN (
+  (to_tsvector('english', coalesce(feedback_text, '')) || jsonb_to_tsvector('english', coalesce(custom_fields, '{}'::jsonb), '["string"]'))
+);
+
+-- Tag filter (tags @> '["staff"]')
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_tags ON feedback_responses USING GIN (tags jsonb_path_ops);
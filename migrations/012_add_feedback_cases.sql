@@ -0,0 +1,23 @@
+-- Migration: Feedback case management
+-- Created: 2024-02-XX
+
+-- Workflow state on each feedback response; existing feedback starts as new
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'new';
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS resolution_reason TEXT;
+ALTER TABLE feedback_responses ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_status ON feedback_responses(tenant_id, status, location_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_responses_assigned_to ON feedback_responses(assigned_to);
+
+-- Internal notes thread per case
+CREATE TABLE IF NOT EXISTS feedback_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  feedback_id UUID NOT NULL REFERENCES feedback_responses(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES users(id),
+  body TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_feedback_notes_feedback_id" ON feedback_notes(feedback_id);
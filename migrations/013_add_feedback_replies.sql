@@ -0,0 +1,22 @@
+-- Migration: Replies to customers from feedback items
+-- Created: 2024-02-XX
+
+-- Outbound replies by email or SMS and inbound SMS answers, threaded per feedback
+CREATE TABLE IF NOT EXISTS feedback_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  feedback_id UUID NOT NULL REFERENCES feedback_responses(id) ON DELETE CASCADE,
+  channel VARCHAR(10) NOT NULL,
+  direction VARCHAR(10) NOT NULL,
+  address VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  sent_by UUID REFERENCES users(id),
+  status VARCHAR(20) NOT NULL,
+  error TEXT,
+  external_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_feedback_replies_feedback_id" ON feedback_replies(feedback_id);
+-- Inbound SMS are matched to the tenant's latest SMS conversation with the sender
+CREATE INDEX IF NOT EXISTS "IDX_feedback_replies_tenant_channel" ON feedback_replies(tenant_id, channel, created_at);
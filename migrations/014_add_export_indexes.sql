@@ -0,0 +1,6 @@
+-- Migration: Paging for alert history and QR scan exports
+-- Created: 2024-02-XX
+
+-- Exports walk a tenant's alerts and scans newest first by (timestamp, id)
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_tenant_created ON alert_notifications(tenant_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_qr_analytics_tenant_scanned ON qr_analytics(tenant_id, scanned_at DESC, id DESC);
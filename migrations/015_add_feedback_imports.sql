@@ -0,0 +1,25 @@
+-- Migration: CSV imports of historical feedback
+-- Created: 2024-02-XX
+
+CREATE TABLE IF NOT EXISTS feedback_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  created_by UUID REFERENCES users(id),
+  file_name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  source TEXT NOT NULL,
+  headers JSONB NOT NULL,
+  mapping JSONB,
+  total_rows INTEGER NOT NULL,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  failed_rows INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_error TEXT,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_feedback_imports_tenant_id" ON feedback_imports(tenant_id);
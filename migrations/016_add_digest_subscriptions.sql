@@ -0,0 +1,19 @@
+-- Migration: Scheduled feedback digest emails
+-- Created: 2024-02-XX
+
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_send_at TIMESTAMP NOT NULL,
+  last_sent_at TIMESTAMP,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_digest_subscriptions_user_id" ON digest_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS "IDX_digest_subscriptions_due" ON digest_subscriptions(is_active, next_send_at);
@@ -0,0 +1,17 @@
+-- Migration: Server-side notification preferences
+-- Created: 2024-02-XX
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  settings JSONB NOT NULL,
+  email_address VARCHAR(255),
+  phone_key VARCHAR(20),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_notification_preferences_email" ON notification_preferences(tenant_id, email_address);
+CREATE INDEX IF NOT EXISTS "IDX_notification_preferences_phone" ON notification_preferences(tenant_id, phone_key);
+
+-- Alerts for users who take hourly, daily or weekly summaries wait here
+ALTER TABLE alert_deliveries ADD COLUMN IF NOT EXISTS held_until TIMESTAMP;
@@ -0,0 +1,7 @@
+-- Migration: Quiet hours in notification preferences
+-- Created: 2024-02-XX
+
+-- Preferences saved before quiet hours existed get them switched off
+UPDATE notification_preferences
+SET settings = settings || '{"quietHours": {"enabled": false, "timezone": "UTC", "start": "22:00", "end": "07:00", "allowCritical": true}}'::jsonb
+WHERE NOT settings ? 'quietHours';
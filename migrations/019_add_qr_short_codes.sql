@@ -0,0 +1,41 @@
+-- Migration: Short, re-pointable QR links
+-- Created: 2024-02-XX
+
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS short_code VARCHAR(16) UNIQUE;
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS survey_template_id UUID REFERENCES survey_templates(id);
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS campaign VARCHAR(100);
+ALTER TABLE qr_codes ADD COLUMN IF NOT EXISTS replaced_by_id UUID REFERENCES qr_codes(id);
+
+-- A random code from the same alphabet and length the server uses
+-- (server/qrLinks.ts), so backfilled codes look like every other one
+CREATE OR REPLACE FUNCTION random_qr_short_code()
+RETURNS VARCHAR AS $$
+DECLARE
+    alphabet CONSTANT TEXT := '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+    code TEXT := '';
+BEGIN
+    FOR i IN 1..6 LOOP
+        code := code || substr(alphabet, 1 + floor(random() * length(alphabet))::INT, 1);
+    END LOOP;
+    RETURN code;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing codes get a link too, one at a time so a clash is retried rather
+-- than failing the unique constraint; new ones are generated by the server
+DO $$
+DECLARE
+    qr RECORD;
+    candidate VARCHAR;
+BEGIN
+    FOR qr IN SELECT id FROM qr_codes WHERE short_code IS NULL LOOP
+        LOOP
+            candidate := random_qr_short_code();
+            EXIT WHEN NOT EXISTS (SELECT 1 FROM qr_codes WHERE short_code = candidate);
+        END LOOP;
+        UPDATE qr_codes SET short_code = candidate WHERE id = qr.id;
+    END LOOP;
+END;
+$$;
+
+DROP FUNCTION random_qr_short_code();
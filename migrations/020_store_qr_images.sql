@@ -0,0 +1,6 @@
+-- Migration: QR code images move to object storage
+-- Created: 2024-02-XX
+
+-- qr_image_url held a base64 PNG; it now holds the object path of the
+-- code's standard PNG, written the first time that image is downloaded
+UPDATE qr_codes SET qr_image_url = NULL WHERE qr_image_url LIKE 'data:%';
@@ -0,0 +1,7 @@
+-- Migration: QR scan-to-feedback funnel
+-- Created: 2024-02-XX
+
+ALTER TABLE qr_analytics ADD COLUMN IF NOT EXISTS session_token VARCHAR(32) UNIQUE;
+ALTER TABLE qr_analytics ADD COLUMN IF NOT EXISTS form_opened_at TIMESTAMP;
+ALTER TABLE qr_analytics ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+ALTER TABLE qr_analytics ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
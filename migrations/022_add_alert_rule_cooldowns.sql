@@ -0,0 +1,13 @@
+-- Migration: Alert rule cooldowns per location
+-- Created: 2024-02-XX
+
+-- A rule cools down separately at each location (or QR code) it fires for, so
+-- an alert at one location does not hold back the same alert at another.
+-- alert_rules.last_triggered_at still records the rule's latest trigger anywhere.
+CREATE TABLE IF NOT EXISTS alert_rule_cooldowns (
+  rule_id UUID NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  target VARCHAR(100) NOT NULL,
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  last_triggered_at TIMESTAMP NOT NULL,
+  PRIMARY KEY (rule_id, target)
+);
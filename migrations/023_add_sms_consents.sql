@@ -0,0 +1,16 @@
+-- Migration: Persist SMS opt-ins and opt-outs
+-- Created: 2024-02-XX
+
+-- One row per tenant and phone number: the latest opt-in or opt-out (STOP/START
+-- replies, the opt-in/opt-out API). Numbers are keyed on their last ten digits
+-- so differently formatted copies of a number share a row.
+CREATE TABLE IF NOT EXISTS sms_consents (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  number_key VARCHAR(10) NOT NULL,
+  phone_number VARCHAR(50) NOT NULL,
+  status VARCHAR(10) NOT NULL,
+  source VARCHAR(10) NOT NULL,
+  reason TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, number_key)
+);
@@ -0,0 +1,414 @@
+import { storage } from './storage';
+import { EmailService, escapeHtml } from './emailService';
+import { WebhookService } from './webhookService';
+import { SMSService, phoneNumberKey } from './smsService';
+import { DEFAULT_ACKNOWLEDGE_TIMEOUT, escalationPolicy, signAcknowledgement, tierUsers } from './alertEscalation';
+import { nextDigestAt } from './digestService';
+import type { AlertAction } from './alertRuleEngine';
+import { allowsSeverity, quietHoursEnd, type EmailAlertFrequency } from '@shared/notifications';
+import type { AlertDelivery, AlertNotification, FeedbackResponse, InsertAlertDelivery } from '@shared/schema';
+
+// Rendered at enqueue time so a retry sends exactly what the first attempt did
+interface DeliveryPayload {
+  templateId?: string;
+  data: Record<string, any>;
+}
+
+const POLL_INTERVAL = 15 * 1000;
+const BATCH_SIZE = 20;
+const DEFAULT_RETRY_INTERVAL = 5; // minutes
+const SUMMARY_SMS_LENGTH = 300;
+
+function baseUrl(): string {
+  return process.env.FRONTEND_URL || 'http://localhost:5000';
+}
+
+// Hourly summaries go out on the hour; daily and weekly ones with the digests
+function nextSummaryAt(frequency: Exclude<EmailAlertFrequency, 'immediate'>): Date {
+  if (frequency !== 'hourly') return nextDigestAt(frequency);
+  const next = new Date();
+  next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+  return next;
+}
+
+// Held deliveries to the same recipient claimed together go out as one
+// summary; everything else is attempted on its own
+function groupHeld(deliveries: AlertDelivery[]): AlertDelivery[][] {
+  const groups = new Map<string, AlertDelivery[]>();
+  for (const delivery of deliveries) {
+    const key = delivery.heldUntil
+      ? `${delivery.tenantId}:${delivery.channel}:${delivery.recipient}`
+      : delivery.id;
+    groups.set(key, [...groups.get(key) ?? [], delivery]);
+  }
+  return Array.from(groups.values());
+}
+
+function acknowledgeTimeout(action: AlertAction): number {
+  return Math.max(1, Number(action.acknowledgeTimeout) || DEFAULT_ACKNOWLEDGE_TIMEOUT);
+}
+
+// Thrown by a channel when a delivery should be recorded as skipped rather than retried
+class DeliverySkipped extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'DeliverySkipped';
+    Object.setPrototypeOf(this, DeliverySkipped.prototype);
+  }
+}
+
+// Executes alert rule actions. Each email recipient and phone number becomes an
+// alert_deliveries row; a poller sends rows once their delay has passed and
+// reschedules failures until the action's retryCount is used up. Rows live in
+// the database, so queued and retrying deliveries survive restarts.
+//
+// Webhook actions name one of the tenant's registered endpoints and are handed
+// to the webhook service, which signs them and keeps their delivery history.
+//
+// Before an email or SMS goes out, the notification preferences of the user it
+// is addressed to are applied: alerts they turned off are skipped, and alerts
+// they take hourly, daily or weekly, or that arrive in their quiet hours, are
+// held and sent as one summary.
+//
+// An escalation action instead schedules the alert itself: while it remains
+// unacknowledged, the same poller notifies one tier every acknowledgeTimeout
+// minutes until the tiers run out.
+export class AlertDispatcher {
+  private isProcessing = false;
+  private processingInterval?: NodeJS.Timeout;
+
+  constructor(private emailService: EmailService, private smsService: SMSService, private webhookService: WebhookService) {}
+
+  // Queue a triggered rule's actions for an alert. In-app notifications need no
+  // delivery: the alert itself is broadcast to connected dashboards.
+  public async enqueue(alert: AlertNotification, actions: AlertAction[], feedback?: FeedbackResponse): Promise<AlertDelivery[]> {
+    const data = await this.templateData(alert, feedback);
+
+    const deliveries: InsertAlertDelivery[] = [];
+    for (const action of actions) {
+      const schedule = this.schedule(alert, action);
+
+      switch (action.type) {
+        case 'email': {
+          const payload: DeliveryPayload = {
+            templateId: action.template || (alert.severity === 'warning' ? 'keyword-alert' : 'low-rating-alert'),
+            data,
+          };
+          for (const recipient of action.recipients || []) {
+            deliveries.push({ ...schedule, channel: 'email', recipient, payload });
+          }
+          break;
+        }
+
+        case 'sms': {
+          const payload: DeliveryPayload = {
+            templateId: alert.severity === 'warning' ? 'warning-alert' : 'critical-alert',
+            data,
+          };
+          for (const recipient of action.phoneNumbers || []) {
+            deliveries.push({ ...schedule, channel: 'sms', recipient, payload });
+          }
+          break;
+        }
+
+        case 'webhook':
+          if (action.endpointId) {
+            const delivery = await this.webhookService.deliver(
+              alert.tenantId,
+              action.endpointId,
+              'alert.triggered',
+              { alert, feedback: feedback ?? null },
+              schedule.nextAttemptAt
+            );
+            if (!delivery) {
+              console.warn(`Webhook endpoint ${action.endpointId} for alert ${alert.id} is missing or disabled`);
+            }
+          }
+          break;
+      }
+    }
+
+    const escalation = escalationPolicy(actions);
+    if (escalation) {
+      await storage.updateAlertNotification(alert.tenantId, alert.id, {
+        escalationLevel: 0,
+        escalateAt: new Date(Date.now() + acknowledgeTimeout(escalation) * 60 * 1000),
+      });
+    }
+
+    return await storage.createAlertDeliveries(deliveries);
+  }
+
+  private async templateData(alert: AlertNotification, feedback?: FeedbackResponse): Promise<Record<string, any>> {
+    const location = alert.locationId ? await storage.getLocation(alert.tenantId, alert.locationId) : undefined;
+    const text = {
+      ruleName: alert.title,
+      message: alert.message,
+      customerName: feedback ? feedback.customerName || 'Anonymous' : '',
+      feedbackText: feedback ? feedback.feedbackText || 'No additional comments' : alert.message,
+      locationName: location?.name || '',
+    };
+    // Customers and tenants write all of the above, so HTML bodies use the
+    // escaped *Html copies
+    const html = Object.fromEntries(Object.entries(text).map(([key, value]) => [`${key}Html`, escapeHtml(value)]));
+    return {
+      ...text,
+      ...html,
+      severity: alert.severity,
+      rating: feedback?.overallRating ?? '',
+      timestamp: (alert.createdAt || new Date()).toLocaleString(),
+      dashboardUrl: `${baseUrl()}/dashboard`,
+      unsubscribeUrl: `${baseUrl()}/unsubscribe`
+    };
+  }
+
+  private schedule(alert: AlertNotification, action: AlertAction) {
+    return {
+      tenantId: alert.tenantId,
+      alertId: alert.id,
+      status: 'pending',
+      maxAttempts: Math.max(0, Number(action.retryCount) || 0) + 1,
+      retryInterval: Math.max(0, Number(action.retryInterval ?? DEFAULT_RETRY_INTERVAL)),
+      nextAttemptAt: new Date(Date.now() + Math.max(0, Number(action.delay) || 0) * 60 * 1000),
+    };
+  }
+
+  // Notify the next tier of each alert whose escalation is due. Tiers with
+  // nobody to reach (no manager for the location, no users with the role) are
+  // passed over so the chain does not stall on them.
+  private async processEscalations(): Promise<void> {
+    let batch: AlertNotification[];
+    do {
+      batch = await storage.claimDueAlertEscalations(BATCH_SIZE);
+      for (const alert of batch) {
+        try {
+          await this.escalate(alert);
+        } catch (error) {
+          console.error(`Error escalating alert ${alert.id}:`, error);
+        }
+      }
+    } while (batch.length === BATCH_SIZE);
+  }
+
+  private async escalate(alert: AlertNotification): Promise<void> {
+    const rule = await storage.getAlertRule(alert.tenantId, alert.alertRuleId);
+    const policy = rule ? escalationPolicy(rule.actions as AlertAction[]) : undefined;
+    const tiers = policy?.tiers || [];
+    const data = await this.templateData(alert);
+    data.minutesOpen = Math.round((Date.now() - (alert.createdAt || new Date()).getTime()) / 60000);
+
+    let level = alert.escalationLevel;
+    const deliveries: InsertAlertDelivery[] = [];
+    while (level < tiers.length && deliveries.length === 0) {
+      const tier = tiers[level++];
+      const schedule = { ...this.schedule(alert, policy!), nextAttemptAt: new Date() };
+
+      for (const user of await tierUsers(alert, tier)) {
+        const acknowledgeUrl = `${baseUrl()}/acknowledge-alert?token=${signAcknowledgement(alert.id, user.id)}`;
+        deliveries.push({
+          ...schedule,
+          channel: 'email',
+          recipient: user.email,
+          payload: { templateId: 'alert-escalation', data: { ...data, acknowledgeUrl } },
+        });
+      }
+      for (const recipient of tier.phoneNumbers || []) {
+        deliveries.push({
+          ...schedule,
+          channel: 'sms',
+          recipient,
+          payload: { templateId: 'alert-escalation', data },
+        });
+      }
+    }
+
+    await storage.createAlertDeliveries(deliveries);
+    await storage.updateAlertNotification(alert.tenantId, alert.id, {
+      escalationLevel: level,
+      escalateAt: policy && level < tiers.length ? new Date(Date.now() + acknowledgeTimeout(policy) * 60 * 1000) : null,
+    });
+  }
+
+  public start(): void {
+    this.processingInterval = setInterval(() => {
+      this.processQueue();
+    }, POLL_INTERVAL);
+  }
+
+  public stop(): void {
+    if (this.processingInterval) {
+      clearInterval(this.processingInterval);
+    }
+  }
+
+  // Escalate due alerts, then send every due delivery a batch at a time
+  public async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.processEscalations();
+
+      let batch: AlertDelivery[];
+      do {
+        batch = await storage.claimDueAlertDeliveries(BATCH_SIZE);
+        for (const group of groupHeld(batch)) {
+          await this.attempt(group);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } catch (error) {
+      console.error('Error processing alert deliveries:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async attempt(claimed: AlertDelivery[]): Promise<void> {
+    const [delivery] = claimed;
+    let batch = claimed;
+
+    try {
+      if (delivery.heldUntil) {
+        batch = [...claimed, ...await storage.claimHeldAlertDeliveries(delivery.tenantId, delivery.channel, delivery.recipient)];
+        await (batch.length === 1 ? this.send(delivery) : this.sendSummary(batch));
+      } else {
+        const heldUntil = await this.applyPreferences(delivery);
+        if (heldUntil) {
+          await storage.updateAlertDelivery(delivery.tenantId, delivery.id, {
+            status: 'pending',
+            heldUntil,
+            nextAttemptAt: heldUntil,
+            lockedAt: null,
+          });
+          return;
+        }
+        await this.send(delivery);
+      }
+
+      for (const sent of batch) {
+        await storage.updateAlertDelivery(sent.tenantId, sent.id, {
+          status: 'sent',
+          attempts: sent.attempts + 1,
+          sentAt: new Date(),
+          lockedAt: null,
+          lastError: null,
+        });
+      }
+    } catch (error: any) {
+      for (const failed of batch) {
+        await this.recordFailure(failed, error);
+      }
+    }
+  }
+
+  private async recordFailure(delivery: AlertDelivery, error: any): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    if (error instanceof DeliverySkipped) {
+      await storage.updateAlertDelivery(delivery.tenantId, delivery.id, {
+        status: 'skipped',
+        attempts,
+        lockedAt: null,
+        lastError: error.message,
+      });
+      return;
+    }
+
+    const retry = attempts < delivery.maxAttempts;
+    console.error(`Alert delivery ${delivery.id} (${delivery.channel}) failed, attempt ${attempts} of ${delivery.maxAttempts}:`, error.message);
+    await storage.updateAlertDelivery(delivery.tenantId, delivery.id, {
+      status: retry ? 'pending' : 'failed',
+      attempts,
+      lockedAt: null,
+      lastError: error.message || String(error),
+      nextAttemptAt: retry ? new Date(Date.now() + delivery.retryInterval * 60 * 1000) : delivery.nextAttemptAt,
+    });
+  }
+
+  // Throws DeliverySkipped when the recipient turned this alert off, and
+  // returns when to send it when they take a summary instead or it arrives in
+  // their quiet hours. Escalations are never gathered into a summary: they
+  // exist to reach someone now. Quiet hours hold them all the same unless the
+  // recipient lets critical alerts through.
+  private async applyPreferences(delivery: AlertDelivery): Promise<Date | undefined> {
+    if (delivery.channel !== 'email' && delivery.channel !== 'sms') return undefined;
+
+    const preferences = delivery.channel === 'email'
+      ? await storage.getNotificationPreferencesForEmail(delivery.tenantId, delivery.recipient)
+      : await storage.getNotificationPreferencesForPhone(delivery.tenantId, phoneNumberKey(delivery.recipient));
+    if (!preferences) return undefined;
+
+    const settings = preferences.settings[delivery.channel];
+    const payload = delivery.payload as DeliveryPayload;
+    const channelName = delivery.channel === 'email' ? 'email' : 'SMS';
+    if (!settings.enabled) {
+      throw new DeliverySkipped(`Recipient has turned off ${channelName} alerts`);
+    }
+    if (!allowsSeverity(settings, payload.data.severity)) {
+      throw new DeliverySkipped(`Recipient does not take ${payload.data.severity} alerts by ${channelName}`);
+    }
+    const sendAt = settings.frequency === 'immediate' || payload.templateId === 'alert-escalation'
+      ? undefined
+      : nextSummaryAt(settings.frequency);
+    return quietHoursEnd(preferences.settings.quietHours, payload.data.severity, sendAt) ?? sendAt;
+  }
+
+  // One message for several held alerts to the same recipient
+  private async sendSummary(deliveries: AlertDelivery[]): Promise<void> {
+    const [first] = deliveries;
+    const alerts = deliveries.map((delivery) => (delivery.payload as DeliveryPayload).data);
+
+    if (first.channel === 'sms') {
+      if (!(await this.smsService.isOptedIn(first.recipient, first.tenantId))) {
+        throw new DeliverySkipped('Recipient has not opted in to SMS alerts');
+      }
+      const titles = alerts.map((alert) => `${alert.ruleName}${alert.locationName ? ` (${alert.locationName})` : ''}`);
+      const message = `${alerts.length} alerts: ${titles.join('; ')}`;
+      await this.smsService.sendSMS({
+        to: first.recipient,
+        from: '',
+        tenantId: first.tenantId,
+        message: message.length > SUMMARY_SMS_LENGTH ? `${message.slice(0, SUMMARY_SMS_LENGTH - 1)}…` : message,
+      });
+      return;
+    }
+
+    await this.emailService.sendTemplateEmail('alert-summary', first.recipient, {
+      count: String(alerts.length),
+      alertsHtml: alerts.map((alert) => `
+        <div class="alert-box">
+          <h3>${escapeHtml(String(alert.ruleName))}</h3>
+          <p>${escapeHtml(String(alert.message))}</p>
+          <p><strong>Severity:</strong> ${escapeHtml(String(alert.severity))}${alert.locationName ? ` · <strong>Location:</strong> ${escapeHtml(String(alert.locationName))}` : ''} · ${escapeHtml(String(alert.timestamp))}</p>
+        </div>`).join(''),
+      alertsText: alerts.map((alert) =>
+        `- [${alert.severity}] ${alert.ruleName}${alert.locationName ? ` (${alert.locationName})` : ''}, ${alert.timestamp}\n  ${alert.message}`
+      ).join('\n'),
+      dashboardUrl: `${baseUrl()}/dashboard`,
+    }, {
+      subject: `${alerts.length} alerts since your last summary`,
+    });
+  }
+
+  private async send(delivery: AlertDelivery): Promise<void> {
+    const payload = delivery.payload as DeliveryPayload;
+
+    switch (delivery.channel) {
+      case 'email':
+        await this.emailService.sendTemplateEmail(payload.templateId!, delivery.recipient, payload.data);
+        return;
+
+      case 'sms':
+        if (!(await this.smsService.isOptedIn(delivery.recipient, delivery.tenantId))) {
+          throw new DeliverySkipped('Recipient has not opted in to SMS alerts');
+        }
+        await this.smsService.sendTemplateSMS(payload.templateId!, delivery.recipient, payload.data, {
+          priority: payload.data.severity === 'critical' ? 'urgent' : 'normal',
+          tenantId: delivery.tenantId
+        });
+        return;
+
+      default:
+        throw new DeliverySkipped(`Unsupported channel "${delivery.channel}"`);
+    }
+  }
+}
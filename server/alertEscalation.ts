@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { signingKey } from "./auth";
+import type { AlertAction, EscalationTier } from "./alertRuleEngine";
+import type { AlertNotification, User } from "@shared/schema";
+
+export const DEFAULT_ACKNOWLEDGE_TIMEOUT = 15; // minutes
+const ACKNOWLEDGE_LINK_TTL_DAYS = 7;
+
+const escalationRoles: readonly EscalationTier["role"][] = ["location_manager", "admin", "owner"];
+
+// The rule's escalation action, if it has one with at least one usable tier
+export function escalationPolicy(actions: AlertAction[]): AlertAction | undefined {
+  return actions.find((action) =>
+    action.type === "escalation" && (action.tiers || []).some((tier) => escalationRoles.includes(tier.role))
+  );
+}
+
+// Users a tier emails: the manager of the alert's location, or every active
+// user with the role. Tenant-wide alerts have no location manager to reach.
+export async function tierUsers(alert: AlertNotification, tier: EscalationTier): Promise<User[]> {
+  if (!escalationRoles.includes(tier.role)) return [];
+  if (tier.role === "location_manager") {
+    const location = alert.locationId ? await storage.getLocation(alert.tenantId, alert.locationId) : undefined;
+    const manager = location?.managerId ? await storage.getUser(location.managerId) : undefined;
+    return manager && manager.isActive && manager.tenantId === alert.tenantId ? [manager] : [];
+  }
+
+  const users = await storage.getUsersByTenant(alert.tenantId);
+  return users.filter((user) => user.isActive && user.role === tier.role);
+}
+
+function signature(alertId: string, userId: string, expiresAt: string): string {
+  return createHmac("sha256", signingKey("alert-acknowledgements")).update(`alert-ack.${alertId}.${userId}.${expiresAt}`).digest("base64url");
+}
+
+// Link token: "<alert id>.<user id>.<expiry in ms>.<HMAC of all three>". The
+// link acknowledges on that user's behalf, so each escalation email carries its
+// own token, and it stops working a week after it was sent.
+export function signAcknowledgement(alertId: string, userId: string): string {
+  const expiresAt = String(Date.now() + ACKNOWLEDGE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+  return `${alertId}.${userId}.${expiresAt}.${signature(alertId, userId, expiresAt)}`;
+}
+
+// Returns the alert and user a token was issued for, provided the signature
+// matches, the link has not expired and the user is still an active member of
+// the alert's tenant
+export async function verifyAcknowledgementToken(token: string): Promise<{ alert: AlertNotification; user: User } | undefined> {
+  const [alertId, userId, expiresAt, supplied] = token.split(".");
+  const uuid = /^[0-9a-f-]{36}$/i;
+  if (!alertId || !userId || !supplied || !uuid.test(alertId) || !uuid.test(userId)) return undefined;
+  if (!/^\d+$/.test(expiresAt) || Number(expiresAt) <= Date.now()) return undefined;
+
+  const expected = Buffer.from(signature(alertId, userId, expiresAt));
+  const actual = Buffer.from(supplied);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+  const user = await storage.getUser(userId);
+  if (!user || !user.isActive) return undefined;
+  const alert = await storage.getAlertNotification(user.tenantId, alertId);
+  return alert ? { alert, user } : undefined;
+}
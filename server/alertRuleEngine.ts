@@ -1,22 +1,65 @@
 import { AlertRule, FeedbackResponse } from '@shared/schema';
+import { storage, type FeedbackWindow } from './storage';
+import { parseExpression, evaluateExpression, expressionContext, compilePattern, ExpressionError, type Expression } from './conditionExpression';
 
 export interface AlertCondition {
-  type: 'rating_threshold' | 'keyword_detection' | 'volume_based' | 'time_based' | 'custom';
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'greater_than_or_equal' | 'less_than_or_equal' | 'contains' | 'not_contains' | 'regex';
+  type: 'rating_threshold' | 'keyword_detection' | 'volume_based' | 'time_based' | 'sentiment' | 'topic_tags' | 'custom';
+  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'greater_than_or_equal' | 'less_than_or_equal' | 'contains' | 'contains_all' | 'not_contains' | 'regex';
   field: string;
   value: any;
+  // sentiment: field 'sentimentScore' compares the -1..1 score, field 'sentiment'
+  // compares the positive / neutral / negative label.
+  // topic_tags: value is a list of topics; 'contains' matches feedback tagged with
+  // any of them, 'contains_all' with every one, 'not_contains' with none.
+  // volume_based: value is a response count, compared over the last `timeWindow`
+  // minutes (default 60), optionally only counting `minRating`..`maxRating`.
+  // time_based: value is minutes since the most recent response.
+  // Both can be narrowed to a fixed `locationId` / `qrCodeId`, or set
+  // `groupBy: 'location' | 'qr_code'` to measure each location or QR code separately.
   additionalParams?: Record<string, any>;
 }
 
+// A group matches when all, any or none of its conditions (which may themselves
+// be groups) match. A rule's top-level conditions are an implicit "all" group.
+export interface AlertConditionGroup {
+  type: 'group';
+  match: 'all' | 'any' | 'none';
+  conditions: AlertConditionNode[];
+}
+
+export type AlertConditionNode = AlertCondition | AlertConditionGroup;
+
+const MAX_GROUP_DEPTH = 5;
+
+const sentimentLabels = ['positive', 'neutral', 'negative'];
+const scoreOperators = ['equals', 'not_equals', 'greater_than', 'less_than', 'greater_than_or_equal', 'less_than_or_equal'];
+const tagOperators = ['contains', 'contains_all', 'not_contains'];
+
+// Topic conditions accept a list or a comma-separated string
+function conditionTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return tags.map(tag => String(tag).trim()).filter(Boolean);
+}
+
+// One step of an escalation chain. Email goes to the tenant's users with the
+// role (for location managers, the manager of the alert's location); users
+// have no phone numbers, so SMS recipients are listed per tier.
+export interface EscalationTier {
+  role: 'location_manager' | 'admin' | 'owner';
+  phoneNumbers?: string[];
+}
+
 export interface AlertAction {
   type: 'email' | 'sms' | 'webhook' | 'notification' | 'escalation';
   recipients?: string[];
   phoneNumbers?: string[];
-  url?: string;
+  endpointId?: string; // webhook: a registered webhook endpoint
   template?: string;
   delay?: number; // Delay in minutes before sending
   retryCount?: number;
   retryInterval?: number; // Minutes between retries
+  tiers?: EscalationTier[]; // escalation: notified in order until someone acknowledges
+  acknowledgeTimeout?: number; // escalation: minutes to wait before notifying the next tier
 }
 
 export interface AlertRuleConfig {
@@ -24,12 +67,29 @@ export interface AlertRuleConfig {
   name: string;
   description?: string;
   tenantId: string;
-  conditions: AlertCondition[];
+  conditions: AlertConditionNode[];
   actions: AlertAction[];
   isActive: boolean;
   priority: 'low' | 'medium' | 'high' | 'critical';
-  cooldownPeriod?: number; // Minutes between alerts for the same rule
-  lastTriggered?: Date;
+  cooldownPeriod?: number; // Minutes between alerts for the same rule at the same location
+  lastTriggered?: Date; // Latest trigger at any location
+}
+
+// Where volume and silence conditions count feedback. On the feedback path this
+// is the submitted response; on the schedule it is each location or QR code in turn.
+interface ConditionScope {
+  tenantId: string;
+  locationId?: string;
+  qrCodeId?: string;
+  feedback?: FeedbackResponse;
+}
+
+const SCHEDULE_INTERVAL = 5 * 60 * 1000;
+
+// What a rule's cooldown is kept for: the QR code or location it fired at, or
+// "all" when it is measured across the whole tenant
+function cooldownTarget(scope: { locationId?: string | null; qrCodeId?: string | null }): string {
+  return scope.qrCodeId || scope.locationId || 'all';
 }
 
 export interface AlertEvaluationResult {
@@ -40,30 +100,150 @@ export interface AlertEvaluationResult {
   data: any;
 }
 
+// Check a rule's conditions before it is saved. Returns one message per
+// problem, e.g. 'Condition 2.1: Unknown field "ratng" ... at position 1', where
+// 2.1 is the first condition inside the rule's second (group) condition.
+export function validateConditions(conditions: unknown): string[] {
+  if (!Array.isArray(conditions)) return ['Conditions must be a list'];
+
+  const errors: string[] = [];
+  validateConditionList(conditions, '', 1, errors);
+  return errors;
+}
+
+function validateConditionList(conditions: AlertConditionNode[], prefix: string, depth: number, errors: string[]): void {
+  const conditionTypes = ['rating_threshold', 'keyword_detection', 'volume_based', 'time_based', 'sentiment', 'topic_tags', 'custom'];
+
+  conditions.forEach((condition, index) => {
+    const number = `${prefix}${index + 1}`;
+    const label = `Condition ${number}`;
+
+    if (condition?.type === 'group') {
+      if (!['all', 'any', 'none'].includes(condition.match)) {
+        errors.push(`${label}: Group must match "all", "any" or "none"`);
+      } else if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        errors.push(`${label}: Group has no conditions`);
+      } else if (depth >= MAX_GROUP_DEPTH) {
+        errors.push(`${label}: Groups can be nested at most ${MAX_GROUP_DEPTH} levels deep`);
+      } else {
+        validateConditionList(condition.conditions, `${number}.`, depth + 1, errors);
+      }
+      return;
+    }
+
+    if (!condition || !conditionTypes.includes(condition.type)) {
+      errors.push(`${label}: Unknown condition type "${condition?.type}"`);
+      return;
+    }
+
+    switch (condition.type) {
+      case 'custom':
+        try {
+          parseExpression(condition.value);
+        } catch (error) {
+          if (!(error instanceof ExpressionError)) throw error;
+          errors.push(`${label}: ${error.message}`);
+        }
+        break;
+
+      case 'keyword_detection':
+        if (condition.operator === 'regex') {
+          try {
+            compilePattern(String(condition.value));
+          } catch {
+            errors.push(`${label}: Invalid regular expression "${condition.value}"`);
+          }
+        }
+        break;
+
+      case 'volume_based':
+      case 'time_based':
+        if (condition.value === '' || isNaN(Number(condition.value))) {
+          errors.push(`${label}: ${condition.type === 'time_based' ? 'Minutes' : 'Response count'} must be a number`);
+        }
+        break;
+
+      case 'sentiment':
+        if (condition.field === 'sentiment') {
+          if (!['equals', 'not_equals'].includes(condition.operator)) {
+            errors.push(`${label}: Sentiment can only be compared with equals or not equals`);
+          } else if (!sentimentLabels.includes(condition.value)) {
+            errors.push(`${label}: Sentiment must be one of ${sentimentLabels.join(', ')}`);
+          }
+        } else if (condition.field === 'sentimentScore') {
+          const score = Number(condition.value);
+          if (!scoreOperators.includes(condition.operator)) {
+            errors.push(`${label}: Unsupported operator "${condition.operator}" for a sentiment score`);
+          } else if (condition.value === '' || isNaN(score) || score < -1 || score > 1) {
+            errors.push(`${label}: Sentiment score must be a number from -1 to 1`);
+          }
+        } else {
+          errors.push(`${label}: Sentiment field must be "sentiment" or "sentimentScore"`);
+        }
+        break;
+
+      case 'topic_tags':
+        if (!tagOperators.includes(condition.operator)) {
+          errors.push(`${label}: Topic conditions use contains, contains all or not contains`);
+        } else if (conditionTags(condition.value).length === 0) {
+          errors.push(`${label}: List at least one topic`);
+        }
+        break;
+    }
+  });
+}
+
+// Every leaf condition of a rule, whatever group it sits in
+function leafConditions(conditions: AlertConditionNode[]): AlertCondition[] {
+  return conditions.flatMap(condition =>
+    condition.type === 'group' ? leafConditions(condition.conditions) : [condition]
+  );
+}
+
+// Map a stored rule onto the engine's config, carrying over its persisted
+// priority, cooldown and last trigger time
+export function toAlertRuleConfig(rule: AlertRule): AlertRuleConfig {
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description || undefined,
+    tenantId: rule.tenantId,
+    conditions: rule.conditions as AlertConditionNode[],
+    actions: rule.actions as AlertAction[],
+    isActive: rule.isActive,
+    priority: rule.priority as AlertRuleConfig['priority'],
+    cooldownPeriod: rule.cooldownPeriod,
+    lastTriggered: rule.lastTriggeredAt || undefined
+  };
+}
+
 export class AlertRuleEngine {
   private rules: Map<string, AlertRuleConfig> = new Map();
-  private cooldownTimers: Map<string, NodeJS.Timeout> = new Map();
-
-  constructor() {
-    // Start cleanup interval for cooldown timers
-    setInterval(() => {
-      this.cleanupExpiredCooldowns();
-    }, 60000); // Check every minute
-  }
+  // Last trigger per rule and target, to skip evaluations that could not fire;
+  // storage.claimAlertRuleTrigger has the final say
+  private cooldowns: Map<string, Date> = new Map();
+  private expressions: Map<string, Expression> = new Map();
+  private scheduleInterval?: NodeJS.Timeout;
+  private isEvaluatingSchedule = false;
 
   // Add or update a rule
   public addRule(rule: AlertRuleConfig): void {
     this.rules.set(rule.id, rule);
   }
 
-  // Remove a rule
-  public removeRule(ruleId: string): void {
-    this.rules.delete(ruleId);
-    // Clear any cooldown timer
-    const timer = this.cooldownTimers.get(ruleId);
-    if (timer) {
-      clearTimeout(timer);
-      this.cooldownTimers.delete(ruleId);
+  // Add or update a rule from its stored row
+  public upsertRule(rule: AlertRule): void {
+    this.addRule(toAlertRuleConfig(rule));
+  }
+
+  public getRule(ruleId: string): AlertRuleConfig | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  // Remove a rule, provided it belongs to the tenant
+  public removeRule(tenantId: string, ruleId: string): void {
+    if (this.rules.get(ruleId)?.tenantId === tenantId) {
+      this.rules.delete(ruleId);
     }
   }
 
@@ -80,37 +260,183 @@ export class AlertRuleEngine {
     for (const rule of tenantRules) {
       if (!rule.isActive) continue;
 
-      // Check cooldown period
-      if (this.isInCooldown(rule)) continue;
+      // Check cooldown period at this feedback's location
+      const target = cooldownTarget({ locationId: feedback.locationId });
+      if (this.isInCooldown(rule, target)) continue;
 
       const result = await this.evaluateRule(rule, feedback);
-      if (result.triggered) {
-        results.push(result);
-        
-        // Set cooldown timer if specified
-        if (rule.cooldownPeriod) {
-          this.setCooldown(rule.id, rule.cooldownPeriod);
+      if (!result.triggered) continue;
+
+      // Record the trigger in the database; another evaluation (or another
+      // server process) may already have fired the rule within its cooldown
+      if (!(await this.claimTrigger(rule, target))) continue;
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  // Evaluate a rule against sample feedback without applying or recording its cooldown
+  public async testRule(rule: AlertRuleConfig, feedback: FeedbackResponse): Promise<AlertEvaluationResult> {
+    return this.evaluateRule(rule, feedback);
+  }
+
+  // Run evaluateScheduledRules every few minutes so silence alerts fire even
+  // when no new feedback arrives
+  public startScheduledEvaluation(
+    onTriggered: (tenantId: string, results: AlertEvaluationResult[]) => Promise<void>
+  ): void {
+    this.scheduleInterval = setInterval(async () => {
+      if (this.isEvaluatingSchedule) return;
+      this.isEvaluatingSchedule = true;
+      try {
+        const triggered = await this.evaluateScheduledRules();
+        for (const [tenantId, results] of Array.from(triggered.entries())) {
+          await onTriggered(tenantId, results);
         }
+      } catch (error) {
+        console.error('Error evaluating scheduled alert rules:', error);
+      } finally {
+        this.isEvaluatingSchedule = false;
       }
+    }, SCHEDULE_INTERVAL);
+  }
+
+  public stopScheduledEvaluation(): void {
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval);
     }
+  }
 
-    return results;
+  // Evaluate rules that need no incoming feedback: those with a time_based
+  // condition whose other conditions are all volume_based. Returns the results
+  // grouped by tenant, one per location or QR code that matched.
+  public async evaluateScheduledRules(): Promise<Map<string, AlertEvaluationResult[]>> {
+    const triggered = new Map<string, AlertEvaluationResult[]>();
+
+    for (const rule of Array.from(this.rules.values())) {
+      if (!rule.isActive || !this.isScheduled(rule)) continue;
+
+      try {
+        const results: AlertEvaluationResult[] = [];
+        for (const target of await this.scheduledTargets(rule)) {
+          if (this.isInCooldown(rule, cooldownTarget(target))) continue;
+
+          const scope: ConditionScope = { tenantId: rule.tenantId, locationId: target.locationId, qrCodeId: target.qrCodeId };
+          const matchedConditions: AlertCondition[] = [];
+          const isMet = await this.evaluateGroup(
+            { type: 'group', match: 'all', conditions: rule.conditions },
+            condition => condition.type === 'time_based'
+              ? this.evaluateTimeBased(condition, scope)
+              : this.evaluateVolumeBased(condition, scope),
+            matchedConditions
+          );
+          if (isMet && await this.claimTrigger(rule, cooldownTarget(target))) {
+            results.push(this.scheduledResult(rule, target, matchedConditions));
+          }
+        }
+
+        if (results.length === 0) continue;
+
+        triggered.set(rule.tenantId, [...(triggered.get(rule.tenantId) || []), ...results]);
+      } catch (error) {
+        console.error(`Error evaluating scheduled rule ${rule.id}:`, error);
+      }
+    }
+
+    return triggered;
   }
 
-  // Evaluate a single rule against feedback
-  private async evaluateRule(rule: AlertRuleConfig, feedback: FeedbackResponse): Promise<AlertEvaluationResult> {
-    const matchedConditions: AlertCondition[] = [];
-    let allConditionsMet = true;
+  private isScheduled(rule: AlertRuleConfig): boolean {
+    const conditions = leafConditions(rule.conditions);
+    return conditions.some(c => c.type === 'time_based') &&
+      conditions.every(c => c.type === 'time_based' || c.type === 'volume_based');
+  }
 
-    for (const condition of rule.conditions) {
-      const isMet = await this.evaluateCondition(condition, feedback);
-      if (isMet) {
-        matchedConditions.push(condition);
-      } else {
-        allConditionsMet = false;
-        break; // All conditions must be met (AND logic)
+  // The locations or QR codes a scheduled rule is measured at; a rule with no
+  // groupBy is measured once across its whole (or fixed) scope
+  private async scheduledTargets(rule: AlertRuleConfig): Promise<Array<{ locationId?: string; qrCodeId?: string; label?: string }>> {
+    const conditions = leafConditions(rule.conditions);
+    const groupBy = new Set(conditions.map(c => c.additionalParams?.groupBy).filter(Boolean));
+
+    if (groupBy.has('qr_code')) {
+      const [qrCodes, locations] = await Promise.all([
+        storage.getQrCodesByTenant(rule.tenantId),
+        storage.getLocationsByTenant(rule.tenantId),
+      ]);
+      const locationNames = new Map(locations.map(location => [location.id, location.name]));
+      return qrCodes
+        .filter(qrCode => qrCode.isActive)
+        .map(qrCode => ({
+          locationId: qrCode.locationId,
+          qrCodeId: qrCode.id,
+          label: `${locationNames.get(qrCode.locationId) || 'Unknown location'} (${qrCode.identifier})`,
+        }));
+    }
+
+    if (groupBy.has('location')) {
+      const locations = await storage.getLocationsByTenant(rule.tenantId);
+      return locations
+        .filter(location => location.isActive)
+        .map(location => ({ locationId: location.id, label: location.name }));
+    }
+
+    const locationId = conditions.find(c => c.additionalParams?.locationId)?.additionalParams?.locationId;
+    if (locationId) {
+      const location = await storage.getLocation(rule.tenantId, locationId);
+      return location ? [{ locationId, label: location.name }] : [];
+    }
+
+    return [{}];
+  }
+
+  private scheduledResult(
+    rule: AlertRuleConfig,
+    target: { locationId?: string; qrCodeId?: string; label?: string },
+    matchedConditions: AlertCondition[]
+  ): AlertEvaluationResult {
+    const details = matchedConditions.map(condition => this.describeWindowCondition(condition));
+
+    return {
+      triggered: true,
+      matchedConditions,
+      severity: this.determineSeverity(rule, matchedConditions),
+      message: `${rule.name}: ${details.join('; ')}${target.label ? ` at ${target.label}` : ''}`,
+      data: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        locationId: target.locationId,
+        qrCodeId: target.qrCodeId,
+        timestamp: new Date().toISOString()
       }
+    };
+  }
+
+  private describeWindowCondition(condition: AlertCondition): string {
+    if (condition.type === 'time_based') {
+      return `No feedback received in the last ${this.formatMinutes(Number(condition.value))}`;
+    }
+    const timeWindow = Number(condition.additionalParams?.timeWindow) || 60;
+    return `Responses ${condition.operator.replace(/_/g, ' ')} ${condition.value} in ${this.formatMinutes(timeWindow)}`;
+  }
+
+  private formatMinutes(minutes: number): string {
+    if (minutes >= 60 && minutes % 60 === 0) {
+      const hours = minutes / 60;
+      return `${hours} hour${hours === 1 ? '' : 's'}`;
     }
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+
+  // Evaluate a single rule against feedback
+  private async evaluateRule(rule: AlertRuleConfig, feedback: FeedbackResponse): Promise<AlertEvaluationResult> {
+    const matchedConditions: AlertCondition[] = [];
+    const allConditionsMet = await this.evaluateGroup(
+      { type: 'group', match: 'all', conditions: rule.conditions },
+      condition => this.evaluateCondition(condition, feedback),
+      matchedConditions
+    );
 
     if (!allConditionsMet) {
       return {
@@ -137,6 +463,7 @@ export class AlertRuleEngine {
         ruleId: rule.id,
         ruleName: rule.name,
         feedbackId: feedback.id,
+        locationId: feedback.locationId,
         customerName: feedback.customerName,
         rating: feedback.overallRating,
         timestamp: new Date().toISOString()
@@ -144,6 +471,41 @@ export class AlertRuleEngine {
     };
   }
 
+  // Evaluate a condition group, short-circuiting like && and ||. Leaf conditions
+  // that matched inside a satisfied group are collected for the alert message;
+  // a "none" group contributes nothing since its conditions did not match.
+  private async evaluateGroup(
+    group: AlertConditionGroup,
+    evaluateLeaf: (condition: AlertCondition) => Promise<boolean>,
+    matchedConditions: AlertCondition[]
+  ): Promise<boolean> {
+    const matched: AlertCondition[] = [];
+    let anyMet = false;
+
+    for (const condition of group.conditions) {
+      const isMet = condition.type === 'group'
+        ? await this.evaluateGroup(condition, evaluateLeaf, matched)
+        : await evaluateLeaf(condition);
+
+      if (isMet && condition.type !== 'group') {
+        matched.push(condition);
+      }
+
+      if (isMet) {
+        anyMet = true;
+        if (group.match !== 'all') break;
+      } else if (group.match === 'all') {
+        return false;
+      }
+    }
+
+    const groupMet = group.match === 'all' ? true : group.match === 'any' ? anyMet : !anyMet;
+    if (groupMet && group.match !== 'none') {
+      matchedConditions.push(...matched);
+    }
+    return groupMet;
+  }
+
   // Evaluate a single condition
   private async evaluateCondition(condition: AlertCondition, feedback: FeedbackResponse): Promise<boolean> {
     switch (condition.type) {
@@ -154,11 +516,17 @@ export class AlertRuleEngine {
         return this.evaluateKeywordDetection(condition, feedback);
       
       case 'volume_based':
-        return await this.evaluateVolumeBased(condition, feedback);
+        return await this.evaluateVolumeBased(condition, this.feedbackScope(feedback));
       
       case 'time_based':
-        return await this.evaluateTimeBased(condition, feedback);
+        return await this.evaluateTimeBased(condition, this.feedbackScope(feedback));
       
+      case 'sentiment':
+        return this.evaluateSentiment(condition, feedback);
+
+      case 'topic_tags':
+        return this.evaluateTopicTags(condition, feedback);
+
       case 'custom':
         return this.evaluateCustomCondition(condition, feedback);
       
@@ -171,9 +539,11 @@ export class AlertRuleEngine {
   // Evaluate rating threshold conditions
   private evaluateRatingThreshold(condition: AlertCondition, feedback: FeedbackResponse): boolean {
     const fieldValue = this.getFieldValue(feedback, condition.field);
-    const threshold = condition.value;
+    return this.compare(fieldValue, condition.operator, condition.value);
+  }
 
-    switch (condition.operator) {
+  private compare(fieldValue: any, operator: AlertCondition['operator'], threshold: any): boolean {
+    switch (operator) {
       case 'equals':
         return fieldValue === threshold;
       case 'not_equals':
@@ -206,8 +576,7 @@ export class AlertRuleEngine {
         return !keywords.some(keyword => searchText.includes(keyword.toLowerCase()));
       case 'regex':
         try {
-          const regex = new RegExp(condition.value, 'i');
-          return regex.test(searchText);
+          return compilePattern(String(condition.value)).test(searchText);
         } catch (error) {
           console.error('Invalid regex pattern:', condition.value);
           return false;
@@ -217,40 +586,117 @@ export class AlertRuleEngine {
     }
   }
 
-  // Evaluate volume-based conditions
-  private async evaluateVolumeBased(condition: AlertCondition, feedback: FeedbackResponse): Promise<boolean> {
-    // This would typically query the database for recent feedback volume
-    // For now, we'll implement a simple version
-    const timeWindow = condition.additionalParams?.timeWindow || 60; // minutes
-    const threshold = condition.value;
-    
-    // In a real implementation, you would query the database here
-    // For now, we'll return false to avoid complexity
-    console.log(`Volume-based condition evaluation would check for ${threshold} feedbacks in ${timeWindow} minutes`);
-    return false;
+  // Evaluate sentiment conditions. Feedback that has not been analyzed matches
+  // neither a score threshold nor a label.
+  private evaluateSentiment(condition: AlertCondition, feedback: FeedbackResponse): boolean {
+    const fieldValue = this.getFieldValue(feedback, condition.field);
+    if (fieldValue === null) return false;
+
+    if (condition.field === 'sentimentScore') {
+      return this.compare(fieldValue, condition.operator, Number(condition.value));
+    }
+    return this.compare(fieldValue, condition.operator, condition.value);
   }
 
-  // Evaluate time-based conditions
-  private async evaluateTimeBased(condition: AlertCondition, feedback: FeedbackResponse): Promise<boolean> {
-    const timeWindow = condition.additionalParams?.timeWindow || 60; // minutes
-    const threshold = condition.value;
-    
-    // Check if no feedback has been received in the specified time window
-    const cutoffTime = new Date(Date.now() - (timeWindow * 60 * 1000));
-    
-    // In a real implementation, you would query the database here
-    // For now, we'll return false to avoid complexity
-    console.log(`Time-based condition evaluation would check for feedback since ${cutoffTime}`);
-    return false;
+  // Evaluate topic tag conditions against the feedback's tags
+  private evaluateTopicTags(condition: AlertCondition, feedback: FeedbackResponse): boolean {
+    const tags = this.getFieldValue(feedback, 'tags') as string[];
+    const wanted = conditionTags(condition.value);
+    if (wanted.length === 0) return false;
+
+    switch (condition.operator) {
+      case 'contains':
+        return wanted.some(tag => tags.includes(tag));
+      case 'contains_all':
+        return wanted.every(tag => tags.includes(tag));
+      case 'not_contains':
+        return !wanted.some(tag => tags.includes(tag));
+      default:
+        return false;
+    }
   }
 
-  // Evaluate custom conditions
+  // Evaluate volume-based conditions: how many responses arrived in the window
+  private async evaluateVolumeBased(condition: AlertCondition, scope: ConditionScope): Promise<boolean> {
+    const params = condition.additionalParams || {};
+    const timeWindow = Number(params.timeWindow) || 60; // minutes
+    const minRating = params.minRating !== undefined && params.minRating !== '' ? Number(params.minRating) : undefined;
+    const maxRating = params.maxRating !== undefined && params.maxRating !== '' ? Number(params.maxRating) : undefined;
+
+    // Only a response that is itself counted can push the total over the threshold
+    const rating = scope.feedback?.overallRating;
+    if (rating !== undefined && ((minRating !== undefined && rating < minRating) || (maxRating !== undefined && rating > maxRating))) {
+      return false;
+    }
+
+    const window = this.feedbackWindow(condition, scope);
+    if (!window) return false;
+
+    const count = await storage.countFeedbackResponses(scope.tenantId, {
+      ...window,
+      since: new Date(Date.now() - timeWindow * 60 * 1000),
+      minRating,
+      maxRating,
+    });
+    return this.compare(count, condition.operator, Number(condition.value));
+  }
+
+  // Evaluate time-based conditions: minutes since the most recent response
+  private async evaluateTimeBased(condition: AlertCondition, scope: ConditionScope): Promise<boolean> {
+    const window = this.feedbackWindow(condition, scope);
+    if (!window) return false;
+
+    // Somewhere that has never had feedback has not gone quiet
+    const latest = await storage.getLatestFeedbackAt(scope.tenantId, window);
+    if (!latest) return false;
+
+    const minutesSince = Math.floor((Date.now() - latest.getTime()) / (60 * 1000));
+    return this.compare(minutesSince, condition.operator, Number(condition.value));
+  }
+
+  private feedbackScope(feedback: FeedbackResponse): ConditionScope {
+    return {
+      tenantId: feedback.tenantId,
+      locationId: feedback.locationId,
+      qrCodeId: feedback.qrCodeId || undefined,
+      feedback,
+    };
+  }
+
+  // Which feedback a volume or silence condition looks at, or undefined when the
+  // scope falls outside it (e.g. feedback from another location)
+  private feedbackWindow(condition: AlertCondition, scope: ConditionScope): FeedbackWindow | undefined {
+    const params = condition.additionalParams || {};
+    const window: FeedbackWindow = {};
+
+    if (params.locationId) {
+      if (scope.locationId && scope.locationId !== params.locationId) return undefined;
+      window.locationId = params.locationId;
+    } else if (params.groupBy === 'location') {
+      if (!scope.locationId) return undefined;
+      window.locationId = scope.locationId;
+    }
+
+    if (params.qrCodeId) {
+      if (scope.qrCodeId && scope.qrCodeId !== params.qrCodeId) return undefined;
+      window.qrCodeId = params.qrCodeId;
+    } else if (params.groupBy === 'qr_code') {
+      if (!scope.qrCodeId) return undefined;
+      window.qrCodeId = scope.qrCodeId;
+    }
+
+    return window;
+  }
+
+  // Evaluate custom conditions written in the expression language (see conditionExpression.ts)
   private evaluateCustomCondition(condition: AlertCondition, feedback: FeedbackResponse): boolean {
-    // Custom conditions can be implemented with JavaScript expressions
-    // This is a simplified version - in production, you'd want proper sandboxing
     try {
-      const customFunction = new Function('feedback', 'condition', condition.value);
-      return customFunction(feedback, condition);
+      let expression = this.expressions.get(condition.value);
+      if (!expression) {
+        expression = parseExpression(condition.value);
+        this.expressions.set(condition.value, expression);
+      }
+      return !!evaluateExpression(expression, expressionContext(feedback));
     } catch (error) {
       console.error('Error evaluating custom condition:', error);
       return false;
@@ -270,14 +716,18 @@ export class AlertRuleEngine {
       'hasImages': feedback.imageUrls && feedback.imageUrls.length > 0,
       'createdAt': feedback.createdAt,
       'locationId': feedback.locationId,
-      'qrCodeId': feedback.qrCodeId
+      'qrCodeId': feedback.qrCodeId,
+      'sentiment': feedback.sentiment,
+      'sentimentScore': feedback.sentimentScore === null ? null : Number(feedback.sentimentScore),
+      'tags': Array.isArray(feedback.tags) ? feedback.tags : []
     };
 
-    return fieldMap[field] || null;
+    // ?? rather than || so that false and a score of 0 can be compared
+    return fieldMap[field] ?? null;
   }
 
   // Determine alert severity
-  private determineSeverity(rule: AlertRuleConfig, conditions: AlertCondition[], feedback: FeedbackResponse): 'info' | 'warning' | 'critical' {
+  private determineSeverity(rule: AlertRuleConfig, conditions: AlertCondition[], feedback?: FeedbackResponse): 'info' | 'warning' | 'critical' {
     // Start with rule priority
     let severity: 'info' | 'warning' | 'critical' = 'info';
     
@@ -298,7 +748,7 @@ export class AlertRuleEngine {
 
     // Adjust based on rating if it's a rating-based alert
     const ratingCondition = conditions.find(c => c.type === 'rating_threshold' && c.field === 'overallRating');
-    if (ratingCondition) {
+    if (ratingCondition && feedback) {
       const rating = feedback.overallRating;
       if (rating <= 1) severity = 'critical';
       else if (rating <= 2) severity = 'critical';
@@ -310,18 +760,37 @@ export class AlertRuleEngine {
 
   // Generate alert message
   private generateAlertMessage(rule: AlertRuleConfig, conditions: AlertCondition[], feedback: FeedbackResponse): string {
-    let message = `${rule.name}: `;
+    const parts: string[] = [];
     
     const ratingCondition = conditions.find(c => c.type === 'rating_threshold' && c.field === 'overallRating');
     if (ratingCondition) {
-      message += `Customer gave a rating of ${feedback.overallRating}/5`;
+      parts.push(`Customer gave a rating of ${feedback.overallRating}/5`);
     }
 
     const keywordCondition = conditions.find(c => c.type === 'keyword_detection');
     if (keywordCondition) {
-      message += `Feedback contains keywords: ${Array.isArray(keywordCondition.value) ? keywordCondition.value.join(', ') : keywordCondition.value}`;
+      parts.push(`Feedback contains keywords: ${Array.isArray(keywordCondition.value) ? keywordCondition.value.join(', ') : keywordCondition.value}`);
+    }
+
+    const volumeCondition = conditions.find(c => c.type === 'volume_based');
+    if (volumeCondition) {
+      parts.push(this.describeWindowCondition(volumeCondition));
     }
 
+    const sentimentCondition = conditions.find(c => c.type === 'sentiment');
+    if (sentimentCondition && feedback.sentiment) {
+      parts.push(`Sentiment is ${feedback.sentiment} (score ${Number(feedback.sentimentScore).toFixed(2)})`);
+    }
+
+    const tagCondition = conditions.find(c => c.type === 'topic_tags' && c.operator !== 'not_contains');
+    if (tagCondition) {
+      const tags = this.getFieldValue(feedback, 'tags') as string[];
+      const matched = conditionTags(tagCondition.value).filter(tag => tags.includes(tag));
+      parts.push(`Feedback is about ${matched.join(', ')}`);
+    }
+
+    let message = `${rule.name}: ${parts.join('; ')}`;
+
     if (feedback.customerName) {
       message += ` (Customer: ${feedback.customerName})`;
     }
@@ -329,71 +798,51 @@ export class AlertRuleEngine {
     return message;
   }
 
-  // Cooldown management
-  private isInCooldown(rule: AlertRuleConfig): boolean {
-    if (!rule.cooldownPeriod || !rule.lastTriggered) return false;
+  // Cooldown management, per rule and target
+  private isInCooldown(rule: AlertRuleConfig, target: string): boolean {
+    const lastTriggered = this.cooldowns.get(`${rule.id}:${target}`);
+    if (!rule.cooldownPeriod || !lastTriggered) return false;
     
-    const cooldownEnd = new Date(rule.lastTriggered.getTime() + (rule.cooldownPeriod * 60 * 1000));
+    const cooldownEnd = new Date(lastTriggered.getTime() + (rule.cooldownPeriod * 60 * 1000));
     return new Date() < cooldownEnd;
   }
 
-  private setCooldown(ruleId: string, cooldownPeriod: number): void {
-    // Clear existing timer
-    const existingTimer = this.cooldownTimers.get(ruleId);
-    if (existingTimer) {
-      clearTimeout(existingTimer);
-    }
+  private async claimTrigger(rule: AlertRuleConfig, target: string): Promise<boolean> {
+    const triggeredAt = await storage.claimAlertRuleTrigger(rule.tenantId, rule.id, target, rule.cooldownPeriod ?? 0);
+    if (!triggeredAt) return false;
 
-    // Set new timer
-    const timer = setTimeout(() => {
-      this.cooldownTimers.delete(ruleId);
-    }, cooldownPeriod * 60 * 1000);
-
-    this.cooldownTimers.set(ruleId, timer);
-  }
-
-  private cleanupExpiredCooldowns(): void {
-    const now = Date.now();
-    for (const [ruleId, timer] of this.cooldownTimers.entries()) {
-      // Check if timer has expired (this is a simplified check)
-      // In a real implementation, you'd track the actual expiration time
-      if (timer.hasRef && !timer.ref()) {
-        this.cooldownTimers.delete(ruleId);
-      }
-    }
+    this.cooldowns.set(`${rule.id}:${target}`, triggeredAt);
+    rule.lastTriggered = triggeredAt;
+    return true;
   }
 
   // Load rules from database
-  public async loadRulesFromDatabase(rules: AlertRule[]): void {
+  public async loadRulesFromDatabase(): Promise<void> {
+    const rules = await storage.getAllAlertRules();
     for (const rule of rules) {
       try {
-        const config: AlertRuleConfig = {
-          id: rule.id,
-          name: rule.name,
-          description: rule.description || undefined,
-          tenantId: rule.tenantId,
-          conditions: rule.conditions as AlertCondition[],
-          actions: rule.actions as AlertAction[],
-          isActive: rule.isActive,
-          priority: 'medium', // Default priority
-          cooldownPeriod: 30, // Default 30 minutes
-          lastTriggered: undefined
-        };
-        
-        this.addRule(config);
+        this.upsertRule(rule);
       } catch (error) {
         console.error(`Error loading rule ${rule.id}:`, error);
       }
     }
   }
 
-  // Get engine statistics
-  public getStats(): any {
+  // Get engine statistics for one tenant's rules
+  public getStats(tenantId: string): any {
+    const rules = this.getRulesForTenant(tenantId);
     return {
-      totalRules: this.rules.size,
-      activeRules: Array.from(this.rules.values()).filter(r => r.isActive).length,
-      cooldownTimers: this.cooldownTimers.size,
-      tenants: Array.from(new Set(Array.from(this.rules.values()).map(r => r.tenantId)))
+      totalRules: rules.length,
+      activeRules: rules.filter(r => r.isActive).length,
+      rulesInCooldown: new Set(
+        Array.from(this.cooldowns.keys())
+          .map(key => key.split(':'))
+          .filter(([ruleId, target]) => {
+            const rule = this.rules.get(ruleId);
+            return rule?.tenantId === tenantId && this.isInCooldown(rule, target);
+          })
+          .map(([ruleId]) => ruleId)
+      ).size
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,328 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual, createHash, createHmac } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { EmailService } from "./emailService";
+import { loginSchema, magicLinkRequestSchema, type User as SelectUser } from "@shared/schema";
+import { hasPermission, isLocationScoped, type Permission } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("SESSION_SECRET must be set in production.");
+}
+const SESSION_SECRET = process.env.SESSION_SECRET || "dev-session-secret";
+
+// Key for one kind of signed link, derived from SESSION_SECRET so that a
+// signature made for one purpose is never accepted for another
+export function signingKey(purpose: "invitations" | "alert-acknowledgements" | "feedback-files"): Buffer {
+  return createHmac("sha256", SESSION_SECRET).update(`signing-key.${purpose}`).digest();
+}
+const MAGIC_LINK_TTL_MINUTES = 15;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function getSession(): RequestHandler {
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL / 1000,
+    tableName: "sessions",
+  });
+
+  return session({
+    secret: SESSION_SECRET,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL,
+    },
+  });
+}
+
+// Strips credentials before a user record leaves the server
+export function toPublicUser(user: SelectUser) {
+  const { passwordHash, ...publicUser } = user;
+  return { ...publicUser, hasPassword: !!passwordHash };
+}
+
+// Issues a single-use login link and emails it to the user
+export async function sendMagicLink(user: SelectUser, emailService: EmailService, baseUrl: string): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    purpose: "magic_link",
+    expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+  });
+
+  const loginUrl = `${baseUrl}/api/auth/magic-link/verify?token=${token}`;
+
+  if (!emailService.getStats().isConfigured) {
+    if (process.env.NODE_ENV === "development") {
+      console.log(`Magic link for ${user.email}: ${loginUrl}`);
+    }
+    return;
+  }
+
+  await emailService.sendTemplateEmail("magic-link", user.email, {
+    firstName: user.firstName || "there",
+    loginUrl,
+    expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+  });
+}
+
+// Registers session handling and the /api/auth routes. Returns the session
+// middleware so the WebSocket server can resolve the same sessions.
+export function setupAuth(app: Express, emailService: EmailService): RequestHandler {
+  const sessionParser = getSession();
+
+  app.set("trust proxy", 1);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.toLowerCase());
+        if (!user || !user.isActive || !user.passwordHash || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deactivated user's existing sessions stop working immediately
+      done(null, user && user.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Email and password are required" });
+    }
+
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid email or password" });
+      }
+
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        await storage.recordUserLogin(user.id);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/magic-link", async (req, res) => {
+    try {
+      const parsed = magicLinkRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A valid email is required" });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email.toLowerCase());
+      if (user && user.isActive) {
+        await sendMagicLink(user, emailService, `${req.protocol}://${req.get("host")}`);
+      }
+
+      // Same response whether or not the account exists, to avoid leaking emails
+      res.json({ message: "If an account exists for that email, a sign-in link has been sent" });
+    } catch (error) {
+      console.error("Error sending magic link:", error);
+      res.status(500).json({ error: "Failed to send sign-in link" });
+    }
+  });
+
+  app.get("/api/auth/magic-link/verify", async (req, res, next) => {
+    try {
+      const token = req.query.token as string;
+      if (!token) {
+        return res.redirect("/auth?error=invalid_link");
+      }
+
+      const authToken = await storage.consumeAuthToken(hashToken(token), "magic_link");
+      const user = authToken ? await storage.getUser(authToken.userId) : undefined;
+      if (!user || !user.isActive) {
+        return res.redirect("/auth?error=invalid_link");
+      }
+
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        await storage.recordUserLogin(user.id);
+        res.redirect("/dashboard");
+      });
+    } catch (error) {
+      console.error("Error verifying magic link:", error);
+      res.redirect("/auth?error=invalid_link");
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/user", isAuthenticated, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  app.post("/api/auth/password", isAuthenticated, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (typeof newPassword !== "string" || newPassword.length < 8) {
+        return res.status(400).json({ error: "Password must be at least 8 characters" });
+      }
+
+      const user = req.user!;
+      if (user.passwordHash && !(await comparePasswords(currentPassword || "", user.passwordHash))) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.tenantId, user.id, { passwordHash: await hashPassword(newPassword) });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating password:", error);
+      res.status(500).json({ error: "Failed to update password" });
+    }
+  });
+
+  return sessionParser;
+}
+
+// Resolves the signed-in user behind a WebSocket upgrade request from its session cookie
+export function authenticateWebSocket(sessionParser: RequestHandler) {
+  return (req: IncomingMessage): Promise<{ id: string; tenantId: string; locationIds?: string[] } | undefined> =>
+    new Promise((resolve) => {
+      sessionParser(req as Request, {} as Response, async () => {
+        try {
+          const userId = (req as Request).session?.passport?.user;
+          const user = userId ? await storage.getUser(userId) : undefined;
+          if (!user || !user.isActive) {
+            return resolve(undefined);
+          }
+          resolve({ id: user.id, tenantId: user.tenantId, locationIds: await managedLocationIds(user) });
+        } catch (error) {
+          console.error("Error authenticating WebSocket connection:", error);
+          resolve(undefined);
+        }
+      });
+    });
+}
+
+export const isAuthenticated: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  next();
+};
+
+// Rejects requests that name a tenant other than the signed-in user's, whether
+// in the route (:tenantId), the query string or the JSON body.
+export function requireTenantAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const tenantId = req.user.tenantId;
+  const requested = [req.params.tenantId, req.query.tenantId, req.body?.tenantId].filter(Boolean);
+  if (requested.some((id) => id !== tenantId)) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  next();
+}
+
+// Tenant of the signed-in user; only call after isAuthenticated/requireTenantAccess
+export function currentTenantId(req: Request): string {
+  return req.user!.tenantId;
+}
+
+// Rejects signed-in users whose role does not grant the permission
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+// The locations a user's data is limited to, or undefined for tenant-wide
+// roles; for jobs that act on a user's behalf outside a request
+export async function managedLocationIds(user: SelectUser): Promise<string[] | undefined> {
+  if (!isLocationScoped(user.role)) return undefined;
+  const managed = await storage.getLocationsByManager(user.tenantId, user.id);
+  return managed.map((location) => location.id);
+}
+
+// Locations the signed-in user may see: undefined (all) for tenant-wide roles,
+// the locations they manage for location managers
+export function scopedLocationIds(req: Request): Promise<string[] | undefined> {
+  return managedLocationIds(req.user!);
+}
+
+export async function canAccessLocation(req: Request, locationId: string | null | undefined): Promise<boolean> {
+  const locationIds = await scopedLocationIds(req);
+  return !locationIds || (!!locationId && locationIds.includes(locationId));
+}
@@ -0,0 +1,520 @@
+import { RE2JS } from 're2js';
+import type { FeedbackResponse } from '@shared/schema';
+
+// Expression language for 'custom' alert conditions. Expressions are written by
+// tenants, so they are parsed into a small syntax tree and interpreted here;
+// nothing in an expression can reach JavaScript, the network or the database.
+//
+//   overallRating <= 2 && contains(feedbackText, "refund")
+//   customFields.department == "Billing" or not isPublic
+//   matches(feedbackText, "wait(ed|ing)? \\d+ min") and overallRating in [1, 2]
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'ExpressionError';
+    Object.setPrototypeOf(this, ExpressionError.prototype);
+  }
+}
+
+type Value = string | number | boolean | null | Value[];
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type Expression =
+  | { kind: 'literal'; value: Value; position: number }
+  | { kind: 'array'; items: Expression[]; position: number }
+  | { kind: 'field'; path: string[]; position: number }
+  | { kind: 'call'; name: string; args: Expression[]; position: number }
+  | { kind: 'not'; operand: Expression; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression; position: number };
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'symbol' | 'end';
+  value: string;
+  position: number;
+}
+
+const MAX_LENGTH = 1000;
+const MAX_DEPTH = 32;
+const MAX_PATTERN_LENGTH = 200;
+
+// Feedback fields an expression may reference; customFields.<name> reads the
+// answers to a template's custom questions
+export const expressionFields = [
+  'overallRating',
+  'feedbackText',
+  'customerName',
+  'customerEmail',
+  'customerPhone',
+  'hasVoiceRecording',
+  'hasImages',
+  'isPublic',
+  'locationId',
+  'qrCodeId',
+  'responseTime',
+  'sentiment',
+  'sentimentScore',
+  'tags',
+] as const;
+
+const functions: Record<string, { arity: [number, number]; call: (args: Value[]) => Value }> = {
+  // Case-insensitive substring test, or membership when the first argument is a list
+  contains: {
+    arity: [2, 2],
+    call: ([haystack, needle]) => {
+      if (Array.isArray(haystack)) return haystack.some(item => looseEquals(item, needle));
+      return typeof haystack === 'string' && typeof needle === 'string' &&
+        haystack.toLowerCase().includes(needle.toLowerCase());
+    },
+  },
+  startsWith: {
+    arity: [2, 2],
+    call: ([text, prefix]) => typeof text === 'string' && typeof prefix === 'string' &&
+      text.toLowerCase().startsWith(prefix.toLowerCase()),
+  },
+  endsWith: {
+    arity: [2, 2],
+    call: ([text, suffix]) => typeof text === 'string' && typeof suffix === 'string' &&
+      text.toLowerCase().endsWith(suffix.toLowerCase()),
+  },
+  // Case-insensitive regular expression; the pattern must be a string literal
+  matches: {
+    arity: [2, 2],
+    call: ([text, pattern]) => typeof text === 'string' && typeof pattern === 'string' && compilePattern(pattern).test(text),
+  },
+  lower: { arity: [1, 1], call: ([text]) => (typeof text === 'string' ? text.toLowerCase() : null) },
+  upper: { arity: [1, 1], call: ([text]) => (typeof text === 'string' ? text.toUpperCase() : null) },
+  length: {
+    arity: [1, 1],
+    call: ([value]) => (typeof value === 'string' || Array.isArray(value) ? value.length : 0),
+  },
+  isEmpty: {
+    arity: [1, 1],
+    call: ([value]) => value === null || value === '' || (Array.isArray(value) && value.length === 0),
+  },
+};
+
+const keywordOperators: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^[0-9]*\.?[0-9]+/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new ExpressionError('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      const word = match[0];
+      if (hasOwn(keywordOperators, word)) {
+        tokens.push({ type: 'symbol', value: keywordOperators[word], position: i });
+      } else {
+        tokens.push({ type: 'identifier', value: word, position: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const symbol = ['&&', '||', '==', '!=', '<=', '>='].find(op => source.startsWith(op, i)) ||
+      (['!', '<', '>', '(', ')', '[', ']', ',', '.'].includes(char) ? char : undefined);
+    if (!symbol) {
+      throw new ExpressionError(char === '=' ? 'Use "==" to compare values' : `Unexpected character "${char}"`, i);
+    }
+    tokens.push({ type: 'symbol', value: symbol, position: i });
+    i += symbol.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ExpressionError(`Unexpected "${next.value}"`, next.position);
+    }
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'symbol' || token.value !== value) {
+      throw new ExpressionError(`Expected "${value}" but found ${describe(token)}`, token.position);
+    }
+    return token;
+  }
+
+  private nested<T>(position: number, parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', position);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.isSymbol('||')) {
+      const { position } = this.next();
+      left = { kind: 'binary', operator: '||', left, right: this.parseAnd(), position };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.isSymbol('&&')) {
+      const { position } = this.next();
+      left = { kind: 'binary', operator: '&&', left, right: this.parseNot(), position };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isSymbol('!')) {
+      const { position } = this.next();
+      return this.nested(position, () => ({ kind: 'not' as const, operand: this.parseNot(), position }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    const isComparison = token.type === 'symbol' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value);
+    const isIn = token.type === 'identifier' && token.value === 'in';
+    if (!isComparison && !isIn) return left;
+
+    this.next();
+    const right = this.parsePrimary();
+    return { kind: 'binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        return { kind: 'literal', value: token.value, position: token.position };
+
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true', position: token.position };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null, position: token.position };
+        }
+        if (this.isSymbol('(')) {
+          return this.parseCall(token);
+        }
+        return this.parseField(token);
+      }
+
+      case 'symbol':
+        if (token.value === '(') {
+          const expression = this.nested(token.position, () => this.parseOr());
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          return this.nested(token.position, () => this.parseArray(token));
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseArray(open: Token): Expression {
+    const items: Expression[] = [];
+    if (!this.isSymbol(']')) {
+      do {
+        items.push(this.parsePrimary());
+      } while (this.isSymbol(',') && this.next());
+    }
+    this.expect(']');
+    return { kind: 'array', items, position: open.position };
+  }
+
+  private parseCall(name: Token): Expression {
+    const fn = hasOwn(functions, name.value) ? functions[name.value] : undefined;
+    if (!fn) {
+      throw new ExpressionError(
+        `Unknown function "${name.value}" (available: ${Object.keys(functions).join(', ')})`,
+        name.position
+      );
+    }
+
+    this.expect('(');
+    const args: Expression[] = [];
+    if (!this.isSymbol(')')) {
+      do {
+        args.push(this.nested(name.position, () => this.parseOr()));
+      } while (this.isSymbol(',') && this.next());
+    }
+    this.expect(')');
+
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      throw new ExpressionError(`${name.value}() takes ${min === max ? min : `${min} to ${max}`} argument${max === 1 ? '' : 's'}`, name.position);
+    }
+
+    if (name.value === 'matches') {
+      const pattern = args[1];
+      if (pattern.kind !== 'literal' || typeof pattern.value !== 'string') {
+        throw new ExpressionError('matches() needs a quoted pattern as its second argument', pattern.position);
+      }
+      if (pattern.value.length > MAX_PATTERN_LENGTH) {
+        throw new ExpressionError(`Patterns are limited to ${MAX_PATTERN_LENGTH} characters`, pattern.position);
+      }
+      try {
+        compilePattern(pattern.value);
+      } catch {
+        throw new ExpressionError(`Invalid regular expression "${pattern.value}"`, pattern.position);
+      }
+    }
+
+    return { kind: 'call', name: name.value, args, position: name.position };
+  }
+
+  private parseField(name: Token): Expression {
+    const path = [name.value];
+
+    if (name.value === 'customFields') {
+      if (this.isSymbol('.')) {
+        this.next();
+        const key = this.next();
+        if (key.type !== 'identifier') {
+          throw new ExpressionError(`Expected a custom field name but found ${describe(key)}`, key.position);
+        }
+        path.push(key.value);
+      } else if (this.isSymbol('[')) {
+        this.next();
+        const key = this.next();
+        if (key.type !== 'string') {
+          throw new ExpressionError(`Expected a quoted custom field name but found ${describe(key)}`, key.position);
+        }
+        path.push(key.value);
+        this.expect(']');
+      } else {
+        throw new ExpressionError('Use customFields.<name> or customFields["name"] to read a custom field', name.position);
+      }
+    } else if (!(expressionFields as readonly string[]).includes(name.value)) {
+      throw new ExpressionError(
+        `Unknown field "${name.value}" (available: ${expressionFields.join(', ')}, customFields.<name>)`,
+        name.position
+      );
+    }
+
+    return { kind: 'field', path, position: name.position };
+  }
+}
+
+// Lookups must not fall through to Object.prototype ("constructor", "__proto__")
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function describe(token: Token): string {
+  if (token.type === 'end') return 'the end of the expression';
+  if (token.type === 'string') return `"${token.value}" (a string)`;
+  return `"${token.value}"`;
+}
+
+const patternCache = new Map<string, RE2JS>();
+
+// Tenant patterns run against public feedback text, so they use RE2, whose
+// matching time is linear in the input: a pattern like "(a+)+$" cannot
+// backtrack for seconds on a crafted submission. RE2 has no backreferences or
+// lookarounds; patterns using them fail to compile. Case-insensitive.
+export function compilePattern(pattern: string): RE2JS {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+// Form answers arrive as strings, so "3" == 3 compares as numbers
+function toComparable(value: Value): Value {
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+}
+
+function looseEquals(left: Value, right: Value): boolean {
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toComparable(left) === toComparable(right);
+  }
+  return left === right;
+}
+
+function compare(operator: '<' | '<=' | '>' | '>=', left: Value, right: Value): boolean {
+  let a = left;
+  let b = right;
+  if (typeof a === 'number' || typeof b === 'number') {
+    a = toComparable(a);
+    b = toComparable(b);
+  }
+  if (!((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string'))) {
+    return false;
+  }
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+function truthy(value: Value): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+// Parses and checks an expression, throwing ExpressionError with the position
+// of the first problem
+export function parseExpression(source: unknown): Expression {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('Expression is empty', 0);
+  }
+  if (source.length > MAX_LENGTH) {
+    throw new ExpressionError(`Expressions are limited to ${MAX_LENGTH} characters`, MAX_LENGTH);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+export function evaluateExpression(expression: Expression, context: Record<string, unknown>): Value {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+
+    case 'array':
+      return expression.items.map(item => evaluateExpression(item, context));
+
+    case 'field': {
+      let value: unknown = context;
+      for (const key of expression.path) {
+        value = value && typeof value === 'object' && !Array.isArray(value) && hasOwn(value, key)
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+      }
+      return toValue(value);
+    }
+
+    case 'call':
+      return functions[expression.name].call(expression.args.map(arg => evaluateExpression(arg, context)));
+
+    case 'not':
+      return !truthy(evaluateExpression(expression.operand, context));
+
+    case 'binary': {
+      const left = evaluateExpression(expression.left, context);
+      switch (expression.operator) {
+        case '&&':
+          return truthy(left) && truthy(evaluateExpression(expression.right, context));
+        case '||':
+          return truthy(left) || truthy(evaluateExpression(expression.right, context));
+      }
+
+      const right = evaluateExpression(expression.right, context);
+      switch (expression.operator) {
+        case '==':
+          return looseEquals(left, right);
+        case '!=':
+          return !looseEquals(left, right);
+        case 'in':
+          if (Array.isArray(right)) return right.some(item => looseEquals(left, item));
+          return typeof left === 'string' && typeof right === 'string' && right.includes(left);
+        default:
+          return compare(expression.operator, left, right);
+      }
+    }
+  }
+}
+
+// Only plain JSON values reach an expression
+function toValue(value: unknown): Value {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toValue);
+  return null;
+}
+
+export function expressionContext(feedback: FeedbackResponse): Record<string, unknown> {
+  const imageUrls = feedback.imageUrls as string[] | null;
+  return {
+    overallRating: feedback.overallRating,
+    feedbackText: feedback.feedbackText,
+    customerName: feedback.customerName,
+    customerEmail: feedback.customerEmail,
+    customerPhone: feedback.customerPhone,
+    hasVoiceRecording: !!feedback.voiceRecordingUrl,
+    hasImages: !!imageUrls && imageUrls.length > 0,
+    isPublic: feedback.isPublic,
+    locationId: feedback.locationId,
+    qrCodeId: feedback.qrCodeId,
+    responseTime: feedback.responseTime,
+    sentiment: feedback.sentiment,
+    sentimentScore: feedback.sentimentScore === null ? null : Number(feedback.sentimentScore),
+    tags: feedback.tags,
+    customFields: feedback.customFields || {},
+  };
+}
@@ -0,0 +1,99 @@
+import { storage } from './storage';
+import { EmailService, escapeHtml } from './emailService';
+import { SMSService, phoneNumberKey } from './smsService';
+import type { FeedbackReply, FeedbackResponse, ReplyChannel, Tenant, User } from '@shared/schema';
+
+const EXCERPT_LENGTH = 300;
+
+function htmlParagraph(value: string): string {
+  return escapeHtml(value).replace(/\n/g, '<br>');
+}
+
+// Where a reply on the channel would go, or undefined when the customer left
+// no such contact detail
+export function replyAddress(feedback: FeedbackResponse, channel: ReplyChannel): string | undefined {
+  return (channel === 'email' ? feedback.customerEmail : feedback.customerPhone) || undefined;
+}
+
+// Send a staff reply to the customer behind a feedback response and add it to
+// the feedback's reply thread. Failures (including an SMS opt-out) are recorded
+// on the reply rather than thrown, so the thread shows what was attempted.
+export async function sendCustomerReply(
+  feedback: FeedbackResponse,
+  tenant: Tenant,
+  sender: User,
+  channel: ReplyChannel,
+  body: string,
+  emailService: EmailService,
+  smsService: SMSService
+): Promise<FeedbackReply> {
+  const address = replyAddress(feedback, channel);
+  if (!address) {
+    throw new Error(`Feedback has no customer ${channel === 'email' ? 'email address' : 'phone number'}`);
+  }
+
+  let status: 'sent' | 'failed' = 'sent';
+  let error: string | null = null;
+  let externalId: string | null = null;
+
+  try {
+    if (channel === 'email') {
+      const excerpt = (feedback.feedbackText || `Rated ${feedback.overallRating}/5`).slice(0, EXCERPT_LENGTH);
+      const delivery = await emailService.sendTemplateEmail('customer-reply', address, {
+        message: body,
+        messageHtml: htmlParagraph(body),
+        brandName: tenant.brandName,
+        brandNameHtml: escapeHtml(tenant.brandName),
+        feedbackExcerpt: excerpt,
+        feedbackExcerptHtml: htmlParagraph(excerpt),
+      });
+      externalId = delivery.messageId || null;
+    } else {
+      if (await smsService.isOptedOut(address, feedback.tenantId)) {
+        throw new Error('Customer has opted out of SMS');
+      }
+      // An empty from uses the service's default number
+      const delivery = await smsService.sendSMS({ to: address, from: '', message: `${tenant.brandName}: ${body}` });
+      externalId = delivery.messageId || null;
+    }
+  } catch (sendError: any) {
+    status = 'failed';
+    error = sendError.message || String(sendError);
+  }
+
+  return await storage.createFeedbackReply({
+    tenantId: feedback.tenantId,
+    feedbackId: feedback.id,
+    channel,
+    direction: 'outbound',
+    address,
+    body,
+    sentBy: sender.id,
+    status,
+    error,
+    externalId,
+  });
+}
+
+// Thread an incoming SMS under the feedback the tenant last texted this number
+// about. Returns undefined when there is no such conversation.
+export async function recordInboundSms(
+  tenantId: string,
+  from: string,
+  body: string,
+  messageId?: string
+): Promise<FeedbackReply | undefined> {
+  const feedbackId = await storage.findSmsConversation(tenantId, phoneNumberKey(from));
+  if (!feedbackId) return undefined;
+
+  return await storage.createFeedbackReply({
+    tenantId,
+    feedbackId,
+    channel: 'sms',
+    direction: 'inbound',
+    address: from,
+    body,
+    status: 'received',
+    externalId: messageId || null,
+  });
+}
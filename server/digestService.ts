@@ -0,0 +1,253 @@
+import { storage } from './storage';
+import { EmailService, escapeHtml } from './emailService';
+import { managedLocationIds } from './auth';
+import { topicLabel } from '@shared/topics';
+import type { DigestFrequency, DigestSubscription } from '@shared/schema';
+
+const POLL_INTERVAL = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+const SEND_HOUR = 7; // UTC
+const WORST_LOCATIONS = 3;
+const DAY = 24 * 60 * 60 * 1000;
+
+const frequencyLabels: Record<DigestFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+function baseUrl(): string {
+  return process.env.FRONTEND_URL || 'http://localhost:5000';
+}
+
+// Start of the period a send time falls in: the day, the week (from Monday)
+// or the calendar month, at midnight UTC
+function periodStart(frequency: DigestFrequency, at: Date): Date {
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  if (frequency === 'weekly') start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+  if (frequency === 'monthly') start.setUTCDate(1);
+  return start;
+}
+
+function addPeriods(frequency: DigestFrequency, date: Date, periods: number): Date {
+  const result = new Date(date);
+  if (frequency === 'daily') result.setUTCDate(result.getUTCDate() + periods);
+  if (frequency === 'weekly') result.setUTCDate(result.getUTCDate() + 7 * periods);
+  if (frequency === 'monthly') result.setUTCMonth(result.getUTCMonth() + periods);
+  return result;
+}
+
+// Digests go out at SEND_HOUR on the first day of each period: every day,
+// Mondays, or the 1st of the month
+export function nextDigestAt(frequency: DigestFrequency, after = new Date()): Date {
+  let next = periodStart(frequency, after);
+  next.setUTCHours(SEND_HOUR);
+  while (next <= after) {
+    next = addPeriods(frequency, next, 1);
+  }
+  return next;
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+function formatRating(rating: number): string {
+  return rating.toFixed(1);
+}
+
+function formatChange(current: number, previous: number, unit: 'rating' | 'count'): string {
+  if (unit === 'rating') {
+    if (!current || !previous) return 'no earlier ratings to compare';
+    const change = current - previous;
+    return `${change >= 0 ? '▲' : '▼'} ${Math.abs(change).toFixed(1)} on the previous period`;
+  }
+  if (!previous) return 'none in the previous period';
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change >= 0 ? '▲' : '▼'} ${Math.abs(change)}% on the previous period`;
+}
+
+function htmlList(headers: string[], rows: string[][], empty: string): string {
+  if (rows.length === 0) return `<p>${escapeHtml(empty)}</p>`;
+  const head = headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+  return `<table class="list"><tr>${head}</tr>${body}</table>`;
+}
+
+function textList(rows: string[][], empty: string): string {
+  return rows.length === 0 ? empty : rows.map((row) => `- ${row.join(' · ')}`).join('\n');
+}
+
+// The email data for one digest: the last complete period before `sentAt`,
+// compared with the one before it
+export async function buildDigest(
+  tenantId: string,
+  frequency: DigestFrequency,
+  locationIds: string[] | undefined,
+  sentAt = new Date()
+): Promise<Record<string, string>> {
+  const until = periodStart(frequency, sentAt);
+  const since = addPeriods(frequency, until, -1);
+  const previousSince = addPeriods(frequency, until, -2);
+  const days = Math.ceil((sentAt.getTime() - previousSince.getTime()) / DAY);
+
+  const [metrics, trends, complaints, locationRatings, openAlerts] = await Promise.all([
+    storage.getTenantMetrics(tenantId, locationIds),
+    storage.getFeedbackTrends(tenantId, days, locationIds),
+    storage.getComplaintTopics(tenantId, since, until, locationIds),
+    storage.getLocationRatings(tenantId, since, until, locationIds),
+    storage.getUnacknowledgedAlertCounts(tenantId, locationIds),
+  ]);
+
+  const inRange = (from: Date, to: Date) =>
+    trends.filter((trend) => trend.date >= isoDay(from) && trend.date < isoDay(to));
+  const summarize = (rows: typeof trends) => {
+    const responses = rows.reduce((total, row) => total + row.responseCount, 0);
+    const ratingSum = rows.reduce((total, row) => total + row.averageRating * row.responseCount, 0);
+    return { responses, rating: responses ? ratingSum / responses : 0 };
+  };
+  const currentRows = inRange(since, until);
+  const current = summarize(currentRows);
+  const previous = summarize(inRange(previousSince, since));
+
+  const trendRows = currentRows.map((row) => [row.date, formatRating(row.averageRating), String(row.responseCount)]);
+  const complaintRows = complaints.map((complaint) => [topicLabel(complaint.topic), `${complaint.count} mentions`]);
+  // A single location has nothing to be compared with
+  const worstRows = locationRatings.length > 1
+    ? locationRatings.slice(0, WORST_LOCATIONS).map((rating) => [
+        rating.locationName,
+        formatRating(rating.averageRating),
+        `${rating.responseCount} responses`,
+      ])
+    : [];
+  const alertTotal = Object.values(openAlerts).reduce((total, value) => total + value, 0);
+  const alertBreakdown = Object.entries(openAlerts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([severity, value]) => `${value} ${severity}`)
+    .join(', ');
+
+  const lastDay = new Date(until.getTime() - DAY);
+  const periodLabel = frequency === 'daily'
+    ? isoDay(since)
+    : `${isoDay(since)} to ${isoDay(lastDay)}`;
+
+  return {
+    periodLabel: `${frequencyLabels[frequency]} digest for ${periodLabel}`,
+    averageRating: current.responses ? formatRating(current.rating) : '–',
+    ratingChange: formatChange(current.rating, previous.rating, 'rating'),
+    responseCount: String(current.responses),
+    responseChange: formatChange(current.responses, previous.responses, 'count'),
+    openAlerts: String(alertTotal),
+    openAlertsBreakdown: alertBreakdown,
+    trendHtml: htmlList(['Day', 'Average rating', 'Responses'], trendRows, 'No feedback in this period.'),
+    trendText: textList(trendRows, 'No feedback in this period.'),
+    complaintsHtml: htmlList(['Topic', 'Unhappy feedback'], complaintRows, 'No complaints tagged with a topic.'),
+    complaintsText: textList(complaintRows, 'No complaints tagged with a topic.'),
+    worstLocationsHtml: htmlList(['Location', 'Average rating', 'Responses'], worstRows, 'Not enough locations with feedback to compare.'),
+    worstLocationsText: textList(worstRows, 'Not enough locations with feedback to compare.'),
+    allTimeRating: formatRating(metrics.averageRating),
+    allTimeResponses: String(metrics.totalResponses),
+  };
+}
+
+// Sends due digest subscriptions. Like the webhook service it polls the
+// database, so schedules survive restarts and several servers never send the
+// same digest twice.
+export class DigestService {
+  private isProcessing = false;
+  private processingInterval?: NodeJS.Timeout;
+
+  constructor(private emailService: EmailService) {}
+
+  public start(): void {
+    this.processingInterval = setInterval(() => {
+      this.processQueue();
+    }, POLL_INTERVAL);
+  }
+
+  public stop(): void {
+    if (this.processingInterval) {
+      clearInterval(this.processingInterval);
+    }
+  }
+
+  public async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      let batch: DigestSubscription[];
+      do {
+        batch = await storage.claimDueDigestSubscriptions(BATCH_SIZE);
+        for (const subscription of batch) {
+          await this.send(subscription);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } catch (error) {
+      console.error('Error processing digest subscriptions:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  // A failed digest is not retried: the next one covers a newer period, so
+  // the error is recorded and the subscription moves on to its next send
+  private async send(subscription: DigestSubscription): Promise<void> {
+    const frequency = subscription.frequency as DigestFrequency;
+    const now = new Date();
+    const nextSendAt = nextDigestAt(frequency, now);
+
+    try {
+      const user = await storage.getUser(subscription.userId);
+      if (!user || !user.isActive || user.tenantId !== subscription.tenantId) {
+        await storage.updateDigestSubscription(subscription.tenantId, subscription.id, {
+          isActive: false,
+          nextSendAt,
+          lastError: 'The user is no longer active',
+        });
+        return;
+      }
+
+      let locationIds = await managedLocationIds(user);
+      let scopeLabel = locationIds ? 'Your locations' : 'All locations';
+      if (subscription.locationId) {
+        const location = await storage.getLocation(subscription.tenantId, subscription.locationId);
+        if (!location || (locationIds && !locationIds.includes(location.id))) {
+          await storage.updateDigestSubscription(subscription.tenantId, subscription.id, {
+            isActive: false,
+            nextSendAt,
+            lastError: 'The user no longer has access to this location',
+          });
+          return;
+        }
+        locationIds = [location.id];
+        scopeLabel = location.name;
+      }
+
+      const tenant = await storage.getTenant(subscription.tenantId);
+      const brandName = tenant?.brandName || 'Feedback';
+      const data = await buildDigest(subscription.tenantId, frequency, locationIds, now);
+      await this.emailService.sendTemplateEmail('feedback-digest', user.email, {
+        ...data,
+        brandName,
+        brandNameHtml: escapeHtml(brandName),
+        scopeLabel,
+        scopeLabelHtml: escapeHtml(scopeLabel),
+        dashboardUrl: `${baseUrl()}/dashboard`,
+        preferencesUrl: `${baseUrl()}/notification-preferences`,
+      }, {
+        subject: `${brandName}: ${frequencyLabels[frequency].toLowerCase()} feedback digest (${scopeLabel})`,
+      });
+
+      await storage.updateDigestSubscription(subscription.tenantId, subscription.id, {
+        nextSendAt,
+        lastSentAt: now,
+        lastError: null,
+      });
+    } catch (error: any) {
+      console.error(`Digest ${subscription.id} failed:`, error.message || error);
+      await storage.updateDigestSubscription(subscription.tenantId, subscription.id, {
+        nextSendAt,
+        lastError: error.message || String(error),
+      });
+    }
+  }
+}
@@ -50,6 +50,16 @@ export interface EmailQueueItem {
   deliveryStatus?: EmailDeliveryStatus;
 }
 
+// For template variables whose name ends in Html, which are inserted as is
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export class EmailService {
   private apiKey: string;
   private fromEmail: string;
@@ -105,19 +115,19 @@ export class EmailService {
               </div>
               <div class="content">
                 <div class="alert-box">
-                  <h2>{{ruleName}}</h2>
+                  <h2>{{ruleNameHtml}}</h2>
                   <p><strong>Customer Rating:</strong> <span class="rating">{{rating}}/5</span></p>
-                  <p><strong>Customer:</strong> {{customerName}}</p>
+                  <p><strong>Customer:</strong> {{customerNameHtml}}</p>
                   <p><strong>Time:</strong> {{timestamp}}</p>
                   <p><strong>Feedback:</strong></p>
-                  <blockquote>{{feedbackText}}</blockquote>
+                  <blockquote>{{feedbackTextHtml}}</blockquote>
                 </div>
                 
                 <p><strong>Alert Details:</strong></p>
                 <ul>
-                  <li><strong>Rule:</strong> {{ruleName}}</li>
+                  <li><strong>Rule:</strong> {{ruleNameHtml}}</li>
                   <li><strong>Severity:</strong> {{severity}}</li>
-                  <li><strong>Location:</strong> {{locationName}}</li>
+                  <li><strong>Location:</strong> {{locationNameHtml}}</li>
                 </ul>
                 
                 <p style="text-align: center; margin-top: 30px;">
@@ -153,7 +163,10 @@ View in Dashboard: {{dashboardUrl}}
 This is an automated alert from your Feedback Management System.
 To unsubscribe: {{unsubscribeUrl}}
         `,
-        variables: ['ruleName', 'rating', 'customerName', 'timestamp', 'feedbackText', 'severity', 'locationName', 'dashboardUrl', 'unsubscribeUrl']
+        variables: [
+          'ruleName', 'ruleNameHtml', 'rating', 'customerName', 'customerNameHtml', 'timestamp', 'feedbackText', 'feedbackTextHtml',
+          'severity', 'locationName', 'locationNameHtml', 'dashboardUrl', 'unsubscribeUrl'
+        ]
       },
       {
         id: 'keyword-alert',
@@ -185,16 +198,16 @@ To unsubscribe: {{unsubscribeUrl}}
               </div>
               <div class="content">
                 <div class="alert-box">
-                  <h2>{{ruleName}}</h2>
+                  <h2>{{ruleNameHtml}}</h2>
                   <p><strong>Detected Keywords:</strong></p>
                   <div class="keywords">{{keywords}}</div>
-                  <p><strong>Customer:</strong> {{customerName}}</p>
+                  <p><strong>Customer:</strong> {{customerNameHtml}}</p>
                   <p><strong>Rating:</strong> {{rating}}/5</p>
                   <p><strong>Time:</strong> {{timestamp}}</p>
                 </div>
                 
                 <p><strong>Feedback Text:</strong></p>
-                <blockquote>{{feedbackText}}</blockquote>
+                <blockquote>{{feedbackTextHtml}}</blockquote>
                 
                 <p style="text-align: center; margin-top: 30px;">
                   <a href="{{dashboardUrl}}" class="button">View in Dashboard</a>
@@ -208,7 +221,10 @@ To unsubscribe: {{unsubscribeUrl}}
           </body>
           </html>
         `,
-        variables: ['ruleName', 'keywords', 'customerName', 'rating', 'timestamp', 'feedbackText', 'dashboardUrl', 'unsubscribeUrl']
+        variables: [
+          'ruleName', 'ruleNameHtml', 'keywords', 'customerName', 'customerNameHtml', 'rating', 'timestamp',
+          'feedbackText', 'feedbackTextHtml', 'dashboardUrl', 'unsubscribeUrl'
+        ]
       },
       {
         id: 'volume-alert',
@@ -239,7 +255,7 @@ To unsubscribe: {{unsubscribeUrl}}
               </div>
               <div class="content">
                 <div class="stats-box">
-                  <h2>{{ruleName}}</h2>
+                  <h2>{{ruleNameHtml}}</h2>
                   <p><strong>Feedback Count:</strong> {{feedbackCount}}</p>
                   <p><strong>Time Window:</strong> {{timeWindow}} minutes</p>
                   <p><strong>Threshold:</strong> {{threshold}}</p>
@@ -265,7 +281,364 @@ To unsubscribe: {{unsubscribeUrl}}
           </body>
           </html>
         `,
-        variables: ['ruleName', 'feedbackCount', 'timeWindow', 'threshold', 'averageRating', 'recentFeedback', 'dashboardUrl', 'unsubscribeUrl']
+        variables: ['ruleName', 'ruleNameHtml', 'feedbackCount', 'timeWindow', 'threshold', 'averageRating', 'recentFeedback', 'dashboardUrl', 'unsubscribeUrl']
+      },
+      {
+        id: 'magic-link',
+        name: 'Sign-in Link',
+        subject: 'Your sign-in link',
+        htmlTemplate: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>{{subject}}</title>
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .content { background: #f8f9fa; padding: 20px; border-radius: 8px; }
+              .footer { text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px; }
+              .button { display: inline-block; padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="content">
+                <p>Hi {{firstName}},</p>
+                <p>Click the button below to sign in to your Feedback Platform account.</p>
+                <p style="text-align: center; margin-top: 30px;">
+                  <a href="{{loginUrl}}" class="button">Sign in</a>
+                </p>
+                <p>This link expires in {{expiresInMinutes}} minutes and can only be used once.</p>
+              </div>
+              <div class="footer">
+                <p>If you did not request this email you can safely ignore it.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        textTemplate: `
+Hi {{firstName}},
+
+Sign in to your Feedback Platform account:
+{{loginUrl}}
+
+This link expires in {{expiresInMinutes}} minutes and can only be used once.
+
+If you did not request this email you can safely ignore it.
+        `,
+        variables: ['firstName', 'loginUrl', 'expiresInMinutes']
+      },
+      {
+        id: 'team-invitation',
+        name: 'Team Invitation',
+        subject: 'You have been invited to the Feedback Platform',
+        htmlTemplate: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>{{subject}}</title>
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .content { background: #f8f9fa; padding: 20px; border-radius: 8px; }
+              .footer { text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px; }
+              .button { display: inline-block; padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="content">
+                <p>Hi,</p>
+                <p>{{inviterNameHtml}} has invited you to join <strong>{{brandNameHtml}}</strong> on the Feedback Platform as a <strong>{{roleLabel}}</strong>.</p>
+                <p style="text-align: center; margin-top: 30px;">
+                  <a href="{{acceptUrl}}" class="button">Accept invitation</a>
+                </p>
+                <p>This invitation expires in {{expiresInDays}} days.</p>
+              </div>
+              <div class="footer">
+                <p>If you were not expecting this invitation you can safely ignore it.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        textTemplate: `
+Hi,
+
+{{inviterName}} has invited you to join {{brandName}} on the Feedback Platform as a {{roleLabel}}.
+
+Accept the invitation:
+{{acceptUrl}}
+
+This invitation expires in {{expiresInDays}} days.
+
+If you were not expecting this invitation you can safely ignore it.
+        `,
+        variables: ['brandName', 'brandNameHtml', 'inviterName', 'inviterNameHtml', 'roleLabel', 'acceptUrl', 'expiresInDays']
+      },
+      {
+        id: 'alert-escalation',
+        name: 'Alert Escalation',
+        subject: '⏫ Escalated Alert: Not Yet Acknowledged',
+        htmlTemplate: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>{{subject}}</title>
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { background: #dc3545; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+              .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+              .alert-box { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+              .footer { text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px; }
+              .button { display: inline-block; padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px; margin: 0 5px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <h1>⏫ Escalated Alert</h1>
+                <p>Unacknowledged for {{minutesOpen}} minutes</p>
+              </div>
+              <div class="content">
+                <div class="alert-box">
+                  <h2>{{ruleNameHtml}}</h2>
+                  <p>{{messageHtml}}</p>
+                  <p><strong>Severity:</strong> {{severity}}</p>
+                  <p><strong>Location:</strong> {{locationNameHtml}}</p>
+                  <p><strong>Raised:</strong> {{timestamp}}</p>
+                </div>
+
+                <p>You are receiving this because nobody has acknowledged the alert yet. Acknowledge it to stop further escalation.</p>
+
+                <p style="text-align: center; margin-top: 30px;">
+                  <a href="{{acknowledgeUrl}}" class="button">Acknowledge</a>
+                  <a href="{{dashboardUrl}}" class="button">View in Dashboard</a>
+                </p>
+              </div>
+              <div class="footer">
+                <p>This is an automated alert from your Feedback Management System.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        textTemplate: `
+Escalated Alert: {{ruleName}}
+
+{{message}}
+
+Unacknowledged for {{minutesOpen}} minutes.
+- Severity: {{severity}}
+- Location: {{locationName}}
+- Raised: {{timestamp}}
+
+Acknowledge to stop further escalation:
+{{acknowledgeUrl}}
+
+View in Dashboard: {{dashboardUrl}}
+        `,
+        variables: [
+          'ruleName', 'ruleNameHtml', 'message', 'messageHtml', 'severity', 'locationName', 'locationNameHtml',
+          'timestamp', 'minutesOpen', 'acknowledgeUrl', 'dashboardUrl'
+        ]
+      },
+      {
+        // Staff reply to a customer's feedback. The *Html variables must be
+        // escaped by the caller; the plain ones are used in the text part.
+        id: 'customer-reply',
+        name: 'Reply to Customer Feedback',
+        subject: 'A reply to your feedback',
+        htmlTemplate: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .content { background: #f8f9fa; padding: 20px; border-radius: 8px; }
+              .quote { border-left: 3px solid #dee2e6; padding-left: 15px; color: #6c757d; margin-top: 20px; }
+              .footer { text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="content">
+                <p>{{messageHtml}}</p>
+                <p>— {{brandNameHtml}}</p>
+                <div class="quote">
+                  <p>Your feedback:</p>
+                  <p>{{feedbackExcerptHtml}}</p>
+                </div>
+              </div>
+              <div class="footer">
+                <p>You are receiving this because you left feedback for {{brandNameHtml}} and shared your email address.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        textTemplate: `
+{{message}}
+
+— {{brandName}}
+
+Your feedback:
+> {{feedbackExcerpt}}
+        `,
+        variables: ['message', 'messageHtml', 'brandName', 'brandNameHtml', 'feedbackExcerpt', 'feedbackExcerptHtml']
+      },
+      {
+        // Alerts held for a recipient who takes them hourly, daily or weekly.
+        // alertsHtml is built (and escaped) by the alert dispatcher.
+        id: 'alert-summary',
+        name: 'Alert Summary',
+        subject: 'Alert summary',
+        htmlTemplate: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { background: #ffc107; color: #212529; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+              .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+              .alert-box { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+              .footer { text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px; }
+              .button { display: inline-block; padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <h1>{{count}} Alerts</h1>
+                <p>Raised since your last summary</p>
+              </div>
+              <div class="content">
+                {{alertsHtml}}
+                <p style="text-align: center; margin-top: 30px;">
+                  <a href="{{dashboardUrl}}" class="button">View in Dashboard</a>
+                </p>
+              </div>
+              <div class="footer">
+                <p>You receive alerts as a summary because of your notification preferences.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        textTemplate: `
+{{count}} alerts raised since your last summary
+
+{{alertsText}}
+
+View in Dashboard: {{dashboardUrl}}
+        `,
+        variables: ['count', 'alertsHtml', 'alertsText', 'dashboardUrl']
+      },
+      {
+        // Scheduled summary. The *Html sections are built (and escaped) by the
+        // digest service; the *Text ones are their plain-text counterparts.
+        id: 'feedback-digest',
+        name: 'Feedback Digest',
+        subject: 'Your feedback digest',
+        htmlTemplate: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { background: #007bff; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+              .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+              .stats { width: 100%; border-collapse: collapse; margin: 15px 0; }
+              .stats td { background: white; padding: 15px; text-align: center; border: 4px solid #f8f9fa; }
+              .stat { font-size: 24px; font-weight: bold; }
+              .change { font-size: 12px; color: #6c757d; }
+              table.list { width: 100%; border-collapse: collapse; }
+              table.list td, table.list th { padding: 6px; border-bottom: 1px solid #dee2e6; text-align: left; }
+              .footer { text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px; }
+              .button { display: inline-block; padding: 10px 20px; background: #007bff; color: white; text-decoration: none; border-radius: 5px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <h1>{{brandNameHtml}}</h1>
+                <p>{{periodLabel}} · {{scopeLabelHtml}}</p>
+              </div>
+              <div class="content">
+                <table class="stats">
+                  <tr>
+                    <td><div class="stat">{{averageRating}}</div>Average rating<div class="change">{{ratingChange}}</div></td>
+                    <td><div class="stat">{{responseCount}}</div>Responses<div class="change">{{responseChange}}</div></td>
+                    <td><div class="stat">{{openAlerts}}</div>Unresolved alerts<div class="change">{{openAlertsBreakdown}}</div></td>
+                  </tr>
+                </table>
+
+                <h3>Rating trend</h3>
+                {{trendHtml}}
+
+                <h3>Top complaints</h3>
+                {{complaintsHtml}}
+
+                <h3>Lowest rated locations</h3>
+                {{worstLocationsHtml}}
+
+                <p style="text-align: center; margin-top: 30px;">
+                  <a href="{{dashboardUrl}}" class="button">Open Dashboard</a>
+                </p>
+              </div>
+              <div class="footer">
+                <p>All-time average rating: {{allTimeRating}} from {{allTimeResponses}} responses.</p>
+                <p>You are receiving this digest because you subscribed to it. <a href="{{preferencesUrl}}">Change your digests</a>.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        textTemplate: `
+{{brandName}} feedback digest
+{{periodLabel}} · {{scopeLabel}}
+
+Average rating: {{averageRating}} ({{ratingChange}})
+Responses: {{responseCount}} ({{responseChange}})
+Unresolved alerts: {{openAlerts}} {{openAlertsBreakdown}}
+
+Rating trend
+{{trendText}}
+
+Top complaints
+{{complaintsText}}
+
+Lowest rated locations
+{{worstLocationsText}}
+
+All-time average rating: {{allTimeRating}} from {{allTimeResponses}} responses.
+
+Open Dashboard: {{dashboardUrl}}
+Change your digests: {{preferencesUrl}}
+        `,
+        variables: [
+          'brandName', 'brandNameHtml', 'periodLabel', 'scopeLabel', 'scopeLabelHtml',
+          'averageRating', 'ratingChange', 'responseCount', 'responseChange', 'openAlerts', 'openAlertsBreakdown',
+          'trendHtml', 'trendText', 'complaintsHtml', 'complaintsText', 'worstLocationsHtml', 'worstLocationsText',
+          'allTimeRating', 'allTimeResponses', 'dashboardUrl', 'preferencesUrl'
+        ]
       }
     ];
 
@@ -481,11 +854,12 @@ To unsubscribe: {{unsubscribeUrl}}
 
     // Replace variables in template
     template.variables.forEach(variable => {
-      const value = data[variable] || '';
+      const value = String(data[variable] || '');
       const regex = new RegExp(`{{${variable}}}`, 'g');
-      html = html.replace(regex, value);
+      // A replacer function, so "$&" and the like in customer text stay literal
+      html = html.replace(regex, () => value);
       if (text) {
-        text = text.replace(regex, value);
+        text = text.replace(regex, () => value);
       }
     });
 
@@ -0,0 +1,279 @@
+import type { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { storage, type PageRequest } from './storage';
+import type {
+  AlertNotification,
+  ExportFormat,
+  ExportRange,
+  FeedbackFilters,
+  FeedbackResponse,
+  QrAnalytic,
+} from '@shared/schema';
+
+// Rows are read and written a page at a time, so an export of any size holds
+// at most one page in memory
+const PAGE_SIZE = 500;
+
+type CellValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Spreadsheet apps run text starting with these as a formula; customer
+  // answers must never be able to do that
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Resolves once the response can take more data, or the client has gone away
+function write(res: Response, chunk: string): Promise<void> | void {
+  if (!res.write(chunk)) {
+    return new Promise((resolve) => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+}
+
+// Stream rows to the response as a download. JSON exports are an array of
+// objects keyed by column header. Callers can only answer with an error status
+// while res.headersSent is still false.
+export async function streamExport<T>(
+  res: Response,
+  format: ExportFormat,
+  filename: string,
+  columns: ExportColumn<T>[],
+  pages: AsyncIterable<T[]>
+): Promise<void> {
+  const stamp = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', contentTypes[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}-${stamp}.${format}"`);
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+    const sheet = workbook.addWorksheet(filename);
+    sheet.columns = columns.map((column) => ({ header: column.header, width: 20 }));
+    for await (const page of pages) {
+      if (res.destroyed) return;
+      for (const row of page) {
+        sheet.addRow(columns.map((column) => column.value(row) ?? null)).commit();
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (format === 'csv') {
+    // The byte order mark makes Excel read the file as UTF-8
+    await write(res, '\uFEFF' + columns.map((column) => csvCell(column.header)).join(',') + '\r\n');
+    for await (const page of pages) {
+      if (res.destroyed) return;
+      await write(res, page.map((row) => columns.map((column) => csvCell(column.value(row))).join(',') + '\r\n').join(''));
+    }
+    res.end();
+    return;
+  }
+
+  let first = true;
+  await write(res, '[');
+  for await (const page of pages) {
+    if (res.destroyed) return;
+    for (const row of page) {
+      const record = Object.fromEntries(columns.map((column) => [column.header, column.value(row) ?? null]));
+      await write(res, (first ? '\n' : ',\n') + JSON.stringify(record));
+      first = false;
+    }
+  }
+  await write(res, '\n]\n');
+  res.end();
+}
+
+// Stored media are paths served from /objects; exports need links that work
+// outside the app
+function absoluteUrl(baseUrl: string, url: string): string {
+  return url.startsWith('/') ? `${baseUrl}${url}` : url;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function customAnswer(customFields: unknown, name: string): unknown {
+  return customFields && typeof customFields === 'object' && Object.hasOwn(customFields, name)
+    ? (customFields as Record<string, unknown>)[name]
+    : undefined;
+}
+
+function answerCell(value: unknown): CellValue {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) return value.map(String).join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as CellValue;
+}
+
+interface ExportLookups {
+  locationNames: Map<string, string>;
+  qrIdentifiers: Map<string, string>;
+  userNames: Map<string, string>;
+}
+
+async function exportLookups(tenantId: string): Promise<ExportLookups> {
+  const [locations, qrCodes, users] = await Promise.all([
+    storage.getLocationsByTenant(tenantId),
+    storage.getQrCodesByTenant(tenantId),
+    storage.getUsersByTenant(tenantId),
+  ]);
+  return {
+    locationNames: new Map(locations.map((location) => [location.id, location.name])),
+    qrIdentifiers: new Map(qrCodes.map((qr) => [qr.id, qr.identifier])),
+    userNames: new Map(users.map((user) => [
+      user.id,
+      [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+    ])),
+  };
+}
+
+async function* pagesOf<T>(load: (page: PageRequest) => Promise<{ items: T[]; nextCursor: string | null }>): AsyncIterable<T[]> {
+  let cursor: string | undefined;
+  do {
+    const page = await load({ cursor, limit: PAGE_SIZE });
+    yield page.items;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+// Feedback responses matching the inbox filters, with one column per custom
+// question and absolute links to voice recordings and images
+export async function exportFeedback(
+  res: Response,
+  tenantId: string,
+  filters: FeedbackFilters,
+  format: ExportFormat,
+  baseUrl: string,
+  locationIds?: string[]
+): Promise<void> {
+  const [lookups, customFieldNames] = await Promise.all([
+    exportLookups(tenantId),
+    storage.getFeedbackCustomFieldNames(tenantId, filters, locationIds),
+  ]);
+
+  const columns: ExportColumn<FeedbackResponse>[] = [
+    { header: 'ID', value: (row) => row.id },
+    { header: 'Submitted At', value: (row) => row.createdAt },
+    { header: 'Location', value: (row) => lookups.locationNames.get(row.locationId) },
+    { header: 'QR Code', value: (row) => row.qrCodeId ? lookups.qrIdentifiers.get(row.qrCodeId) : undefined },
+    { header: 'Rating', value: (row) => row.overallRating },
+    { header: 'Feedback', value: (row) => row.feedbackText },
+    { header: 'Customer Name', value: (row) => row.customerName },
+    { header: 'Customer Email', value: (row) => row.customerEmail },
+    { header: 'Customer Phone', value: (row) => row.customerPhone },
+    { header: 'Sentiment', value: (row) => row.sentiment },
+    { header: 'Sentiment Score', value: (row) => row.sentimentScore === null ? undefined : Number(row.sentimentScore) },
+    { header: 'Tags', value: (row) => stringArray(row.tags).join('; ') },
+    { header: 'Status', value: (row) => row.status },
+    { header: 'Assigned To', value: (row) => row.assignedTo ? lookups.userNames.get(row.assignedTo) : undefined },
+    { header: 'Resolution Reason', value: (row) => row.resolutionReason },
+    { header: 'Resolved At', value: (row) => row.resolvedAt },
+    { header: 'Public', value: (row) => !!row.isPublic },
+    { header: 'Response Time (s)', value: (row) => row.responseTime },
+    { header: 'Voice Recording', value: (row) => row.voiceRecordingUrl ? absoluteUrl(baseUrl, row.voiceRecordingUrl) : undefined },
+    { header: 'Images', value: (row) => stringArray(row.imageUrls).map((url) => absoluteUrl(baseUrl, url)).join(' ') },
+  ];
+  const headers = new Set(columns.map((column) => column.header));
+  for (const name of customFieldNames) {
+    // A question may share its name with one of the fixed columns
+    columns.push({
+      header: headers.has(name) ? `${name} (answer)` : name,
+      value: (row) => answerCell(customAnswer(row.customFields, name)),
+    });
+  }
+
+  await streamExport(res, format, 'feedback', columns, pagesOf(async (page) =>
+    storage.searchFeedbackResponses(tenantId, { ...filters, ...page }, locationIds)
+  ));
+}
+
+export async function exportAlertHistory(
+  res: Response,
+  tenantId: string,
+  range: ExportRange,
+  locationIds?: string[]
+): Promise<void> {
+  const [lookups, rules] = await Promise.all([
+    exportLookups(tenantId),
+    storage.getAlertRulesByTenant(tenantId),
+  ]);
+  const ruleNames = new Map(rules.map((rule) => [rule.id, rule.name]));
+
+  const columns: ExportColumn<AlertNotification>[] = [
+    { header: 'ID', value: (row) => row.id },
+    { header: 'Raised At', value: (row) => row.createdAt },
+    { header: 'Rule', value: (row) => ruleNames.get(row.alertRuleId) },
+    { header: 'Location', value: (row) => row.locationId ? lookups.locationNames.get(row.locationId) : undefined },
+    { header: 'Severity', value: (row) => row.severity },
+    { header: 'Title', value: (row) => row.title },
+    { header: 'Message', value: (row) => row.message },
+    { header: 'Feedback ID', value: (row) => row.feedbackId },
+    { header: 'Acknowledged', value: (row) => !!row.isAcknowledged },
+    { header: 'Acknowledged By', value: (row) => row.acknowledgedBy ? lookups.userNames.get(row.acknowledgedBy) : undefined },
+    { header: 'Acknowledged At', value: (row) => row.acknowledgedAt },
+    { header: 'Escalation Level', value: (row) => row.escalationLevel },
+  ];
+
+  await streamExport(res, range.format, 'alerts', columns, pagesOf(async (page) =>
+    storage.getAlertNotificationPage(tenantId, range, page, locationIds)
+  ));
+}
+
+// One row per QR scan, with whether it led to a feedback submission
+export async function exportQrScans(
+  res: Response,
+  tenantId: string,
+  range: ExportRange,
+  locationIds?: string[]
+): Promise<void> {
+  const [qrCodes, locations] = await Promise.all([
+    storage.getQrCodesByTenant(tenantId),
+    storage.getLocationsByTenant(tenantId),
+  ]);
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+  const qrById = new Map(qrCodes.map((qr) => [qr.id, qr]));
+
+  const columns: ExportColumn<QrAnalytic>[] = [
+    { header: 'Scanned At', value: (row) => row.scannedAt },
+    { header: 'QR Code', value: (row) => qrById.get(row.qrCodeId)?.identifier },
+    { header: 'Section', value: (row) => qrById.get(row.qrCodeId)?.section },
+    { header: 'Location', value: (row) => {
+      const qr = qrById.get(row.qrCodeId);
+      return qr ? locationNames.get(qr.locationId) : undefined;
+    } },
+    { header: 'Form Opened At', value: (row) => row.formOpenedAt },
+    { header: 'Started At', value: (row) => row.startedAt },
+    { header: 'Submitted At', value: (row) => row.submittedAt },
+    { header: 'Completed Feedback', value: (row) => !!row.completedFeedback },
+    { header: 'Feedback ID', value: (row) => row.feedbackId },
+  ];
+
+  await streamExport(res, range.format, 'qr-scans', columns, pagesOf(async (page) =>
+    storage.getQrScanPage(tenantId, range, page, locationIds)
+  ));
+}
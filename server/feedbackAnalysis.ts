@@ -0,0 +1,203 @@
+import { storage } from './storage';
+import { effectiveTopicKeywords, type TopicKeywords } from '@shared/topics';
+import type { FeedbackResponse, InsertFeedbackResponse } from '@shared/schema';
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+export interface AnalysisInput {
+  text: string; // feedback text plus any free-text custom field answers
+  rating?: number; // 1-5
+}
+
+export interface FeedbackAnalyzer {
+  name: string;
+  // Score from -1 (very negative) to 1 (very positive)
+  scoreSentiment(input: AnalysisInput): number;
+}
+
+// The parts of a feedback row (stored or about to be) that analysis reads
+export interface AnalyzableFeedback {
+  feedbackText?: string | null;
+  customFields?: unknown;
+  overallRating: number;
+}
+
+export interface FeedbackAnalysis {
+  sentiment: Sentiment;
+  sentimentScore: number;
+  tags: string[];
+}
+
+const NEUTRAL_BAND = 0.05;
+const BATCH_SIZE = 200;
+
+// Weights are on a rough -3..3 scale
+const lexicon: Record<string, number> = {
+  amazing: 3, awesome: 3, excellent: 3, outstanding: 3, perfect: 3, fantastic: 3, wonderful: 3, superb: 3, love: 3, loved: 3,
+  great: 2, good: 2, friendly: 2, helpful: 2, clean: 2, quick: 1.5, fast: 1.5, nice: 1.5, pleasant: 2, polite: 2,
+  recommend: 2, happy: 2, delicious: 2.5, fresh: 1.5, comfortable: 1.5, professional: 2, attentive: 2, thanks: 1, thank: 1,
+  fine: 0.5, ok: 0.3, okay: 0.3, decent: 1, reasonable: 1, affordable: 1.5, enjoyed: 2, efficient: 1.5, welcoming: 2,
+  terrible: -3, horrible: -3, awful: -3, worst: -3, disgusting: -3, hate: -3, hated: -3, appalling: -3,
+  bad: -2, poor: -2, rude: -2.5, dirty: -2.5, filthy: -3, slow: -1.5, cold: -1, expensive: -1.5, overpriced: -2,
+  wrong: -1.5, broken: -2, unhelpful: -2, unprofessional: -2.5, disappointed: -2, disappointing: -2, annoyed: -2,
+  angry: -2.5, waited: -1, waiting: -1, late: -1.5, smelly: -2, stale: -1.5, mess: -1.5, messy: -1.5, refund: -1.5,
+  never: -0.5, complaint: -2, problem: -1.5, issue: -1, ignored: -2, noisy: -1, crowded: -1, unacceptable: -3,
+};
+
+const negators = new Set(['not', 'no', 'never', 'hardly', 'barely', 'without', "isn't", "wasn't", "don't", "didn't", "doesn't", "aren't", "weren't", "won't", "can't", "couldn't"]);
+const intensifiers: Record<string, number> = { very: 1.5, really: 1.4, extremely: 1.8, so: 1.3, super: 1.5, incredibly: 1.8, too: 1.3, absolutely: 1.6 };
+
+// Word lists are plain objects, so lookups must ignore inherited keys ("constructor")
+function weightOf(table: Record<string, number>, word: string | undefined): number | undefined {
+  return word !== undefined && Object.hasOwn(table, word) ? table[word] : undefined;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || [];
+}
+
+// Offline word-list scorer with negation ("not good") and intensifiers ("very
+// slow"). The sum is squashed into -1..1 and blended with the star rating.
+const lexiconAnalyzer: FeedbackAnalyzer = {
+  name: 'lexicon',
+  scoreSentiment({ text, rating }) {
+    const tokens = tokenize(text);
+    let total = 0;
+    let matched = 0;
+
+    tokens.forEach((token, i) => {
+      const weight = weightOf(lexicon, token);
+      if (weight === undefined) return;
+
+      let value = weight;
+      const previous = tokens.slice(Math.max(0, i - 3), i);
+      const intensifier = weightOf(intensifiers, tokens[i - 1]);
+      if (intensifier) value *= intensifier;
+      if (previous.some((word) => negators.has(word))) value *= -0.75;
+
+      total += value;
+      matched++;
+    });
+
+    const ratingScore = rating === undefined ? undefined : (rating - 3) / 2;
+    if (matched === 0) return ratingScore ?? 0;
+
+    const textScore = total / Math.sqrt(total * total + 15);
+    return ratingScore === undefined ? textScore : 0.7 * textScore + 0.3 * ratingScore;
+  },
+};
+
+const analyzers = new Map<string, FeedbackAnalyzer>([[lexiconAnalyzer.name, lexiconAnalyzer]]);
+
+// Register another scorer; FEEDBACK_ANALYZER selects it by name
+export function registerAnalyzer(analyzer: FeedbackAnalyzer): void {
+  analyzers.set(analyzer.name, analyzer);
+}
+
+function currentAnalyzer(): FeedbackAnalyzer {
+  const name = process.env.FEEDBACK_ANALYZER || lexiconAnalyzer.name;
+  const analyzer = analyzers.get(name);
+  if (!analyzer) {
+    console.warn(`Unknown FEEDBACK_ANALYZER "${name}", using ${lexiconAnalyzer.name}`);
+    return lexiconAnalyzer;
+  }
+  return analyzer;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Topics with at least one keyword (or phrase) appearing as whole words
+export function matchTopics(text: string, topicKeywords: TopicKeywords): string[] {
+  const normalized = text.toLowerCase();
+  return Object.entries(topicKeywords)
+    .filter(([, keywords]) => keywords.some((keyword) => {
+      const phrase = keyword.trim().toLowerCase();
+      return phrase && new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase).replace(/\s+/g, '\\s+')}($|[^a-z0-9])`).test(normalized);
+    }))
+    .map(([topic]) => topic);
+}
+
+function analysisText(feedback: AnalyzableFeedback): string {
+  const answers = feedback.customFields && typeof feedback.customFields === 'object'
+    ? Object.values(feedback.customFields as Record<string, unknown>).filter((value): value is string => typeof value === 'string')
+    : [];
+  return [feedback.feedbackText || '', ...answers].join('\n');
+}
+
+export function analyzeFeedback(feedback: AnalyzableFeedback, topicKeywords: TopicKeywords): FeedbackAnalysis {
+  const text = analysisText(feedback);
+  const score = Math.max(-1, Math.min(1, currentAnalyzer().scoreSentiment({ text, rating: feedback.overallRating })));
+  return {
+    sentiment: score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral',
+    sentimentScore: score,
+    tags: matchTopics(text, topicKeywords),
+  };
+}
+
+// The columns an analysis fills in. Tags a person added that are not topics
+// (anything outside the dictionary) are kept.
+export function analysisColumns(
+  analysis: FeedbackAnalysis,
+  existingTags: unknown,
+  topicKeywords: TopicKeywords
+): Pick<InsertFeedbackResponse, 'sentiment' | 'sentimentScore' | 'tags'> {
+  const manualTags = Array.isArray(existingTags)
+    ? existingTags.filter((tag): tag is string => typeof tag === 'string' && !Object.hasOwn(topicKeywords, tag))
+    : [];
+  return {
+    sentiment: analysis.sentiment,
+    sentimentScore: analysis.sentimentScore.toFixed(4),
+    tags: Array.from(new Set([...manualTags, ...analysis.tags])),
+  };
+}
+
+export async function tenantTopicKeywords(tenantId: string): Promise<TopicKeywords> {
+  const tenant = await storage.getTenant(tenantId);
+  return effectiveTopicKeywords(tenant?.topicKeywords);
+}
+
+async function reanalyze(feedback: FeedbackResponse, topicKeywords: TopicKeywords): Promise<void> {
+  const analysis = analyzeFeedback(feedback, topicKeywords);
+  await storage.updateFeedbackResponse(feedback.tenantId, feedback.id, analysisColumns(analysis, feedback.tags, topicKeywords));
+}
+
+// Re-run analysis over all of a tenant's feedback, e.g. after its keyword
+// dictionary changed. Returns the number of rows updated.
+export async function reanalyzeTenantFeedback(tenantId: string): Promise<number> {
+  const topicKeywords = await tenantTopicKeywords(tenantId);
+  let updated = 0;
+  let afterId: string | undefined;
+
+  for (;;) {
+    const batch = await storage.getFeedbackResponsesAfter(tenantId, afterId, BATCH_SIZE);
+    for (const feedback of batch) {
+      await reanalyze(feedback, topicKeywords);
+    }
+    updated += batch.length;
+    if (batch.length < BATCH_SIZE) return updated;
+    afterId = batch[batch.length - 1].id;
+  }
+}
+
+// Analyze rows stored before analysis existed (or while it failed). Run at
+// startup; returns the number of rows updated.
+export async function backfillFeedbackAnalysis(): Promise<number> {
+  const dictionaries = new Map<string, TopicKeywords>();
+  let updated = 0;
+  let afterId: string | undefined;
+
+  for (;;) {
+    const batch = await storage.getUnanalyzedFeedback(afterId, BATCH_SIZE);
+    for (const feedback of batch) {
+      if (!dictionaries.has(feedback.tenantId)) {
+        dictionaries.set(feedback.tenantId, await tenantTopicKeywords(feedback.tenantId));
+      }
+      await reanalyze(feedback, dictionaries.get(feedback.tenantId)!);
+    }
+    updated += batch.length;
+    if (batch.length < BATCH_SIZE) return updated;
+    afterId = batch[batch.length - 1].id;
+  }
+}
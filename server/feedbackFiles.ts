@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { signingKey } from "./auth";
+import type { FeedbackResponse } from "@shared/schema";
+
+const FILES_TOKEN_TTL_MINUTES = 30;
+
+function signature(tenantId: string, feedbackId: string, expiresAt: string): string {
+  return createHmac("sha256", signingKey("feedback-files")).update(`feedback-files.${tenantId}.${feedbackId}.${expiresAt}`).digest("base64url");
+}
+
+// Token: "<expiry in ms>.<HMAC of tenant, feedback and expiry>". Returned to
+// whoever submitted the feedback, so they alone can attach its uploaded files.
+export function signFeedbackFiles(feedback: FeedbackResponse): string {
+  const expiresAt = String(Date.now() + FILES_TOKEN_TTL_MINUTES * 60 * 1000);
+  return `${expiresAt}.${signature(feedback.tenantId, feedback.id, expiresAt)}`;
+}
+
+export function verifyFeedbackFilesToken(token: string, tenantId: string, feedbackId: string): boolean {
+  const [expiresAt, supplied] = token.split(".");
+  if (!supplied || !/^\d+$/.test(expiresAt) || Number(expiresAt) <= Date.now()) return false;
+
+  const expected = Buffer.from(signature(tenantId, feedbackId, expiresAt));
+  const actual = Buffer.from(supplied);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,330 @@
+import { storage, type ImportedFeedback } from './storage';
+import { analyzeFeedback, analysisColumns, tenantTopicKeywords } from './feedbackAnalysis';
+import { MAX_IMPORT_ERRORS, type FeedbackImportField, type ImportRowError } from '@shared/imports';
+import {
+  insertFeedbackResponseSchema,
+  type FeedbackImport,
+  type FeedbackImportMapping,
+  type Location,
+  type QrCode,
+} from '@shared/schema';
+
+const BATCH_SIZE = 200;
+const PREVIEW_ROWS = 5;
+export const MAX_IMPORT_ROWS = 50000;
+
+export class CsvParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+export interface CsvRow {
+  line: number; // where the row starts in the file, with the header on line 1
+  cells: string[];
+}
+
+export interface CsvFile {
+  headers: string[];
+  rows: CsvRow[];
+}
+
+// Comma, semicolon (spreadsheets in many European locales) or tab, whichever
+// the header line uses most
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => [delimiter, firstLine.split(delimiter).length] as const);
+  return counts.reduce((best, candidate) => candidate[1] > best[1] ? candidate : best)[0];
+}
+
+// RFC 4180 parsing: quoted cells may hold delimiters, doubled quotes and line
+// breaks. Blank lines are skipped.
+export function parseCsv(text: string): CsvRow[] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvParseError(`Line ${rowLine} has a quoted value that is never closed`);
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+  return rows;
+}
+
+// The header row and data rows of an upload, checked for the problems that
+// make it impossible to map
+export function readCsv(text: string): CsvFile {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new CsvParseError('The file is empty');
+  }
+
+  const headers = header.cells.map((name, index) => name.trim() || `Column ${index + 1}`);
+  const duplicate = headers.find((name, index) => headers.indexOf(name) !== index);
+  if (duplicate) {
+    throw new CsvParseError(`The column "${duplicate}" appears more than once`);
+  }
+  if (rows.length === 0) {
+    throw new CsvParseError('The file has a header row but no feedback rows');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new CsvParseError(`Files can have at most ${MAX_IMPORT_ROWS.toLocaleString('en-US')} rows; split this one up`);
+  }
+  return { headers, rows };
+}
+
+interface ImportLookups {
+  locations: Location[];
+  qrCodes: QrCode[];
+}
+
+async function importLookups(tenantId: string): Promise<ImportLookups> {
+  const [locations, qrCodes] = await Promise.all([
+    storage.getLocationsByTenant(tenantId),
+    storage.getQrCodesByTenant(tenantId),
+  ]);
+  // A rotated code's old row keeps its identifier; match the current one
+  return { locations, qrCodes: qrCodes.filter((qrCode) => !qrCode.replacedById) };
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A mapping that cannot be applied to the file at all, as opposed to rows
+// that fail to import. Returns the problem, or undefined when it is usable.
+export async function mappingProblem(
+  tenantId: string,
+  headers: string[],
+  mapping: FeedbackImportMapping
+): Promise<string | undefined> {
+  const columns = [
+    ...Object.values(mapping.fields),
+    ...mapping.customFields.map((customField) => customField.column),
+  ];
+  const missing = columns.find((column) => !headers.includes(column));
+  if (missing) {
+    return `The file has no column named "${missing}"`;
+  }
+  if (mapping.locationId && !(await storage.getLocation(tenantId, mapping.locationId))) {
+    return 'The default location was not found';
+  }
+  return undefined;
+}
+
+// Turn one CSV row into a feedback response, or the reasons it can't be one
+function mapRow(
+  tenantId: string,
+  headers: string[],
+  row: CsvRow,
+  mapping: FeedbackImportMapping,
+  lookups: ImportLookups
+): { feedback?: ImportedFeedback; errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const cell = (field: FeedbackImportField) => {
+    const column = mapping.fields[field];
+    return column ? (row.cells[headers.indexOf(column)] ?? '').trim() : '';
+  };
+  const fail = (field: FeedbackImportField, message: string) => {
+    errors.push({ line: row.line, column: mapping.fields[field], message });
+  };
+
+  const ratingText = cell('overallRating');
+  const rating = Number(ratingText);
+  if (!ratingText || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    fail('overallRating', ratingText ? `"${ratingText}" is not a rating from 1 to 5` : 'Rating is missing');
+  }
+
+  let createdAt: Date | undefined;
+  const submittedAt = cell('submittedAt');
+  if (submittedAt) {
+    createdAt = new Date(submittedAt);
+    if (isNaN(createdAt.getTime())) {
+      fail('submittedAt', `"${submittedAt}" is not a date`);
+    }
+  }
+
+  let location: Location | undefined;
+  const locationName = cell('location');
+  if (locationName) {
+    location = lookups.locations.find((candidate) => candidate.id === locationName || sameName(candidate.name, locationName));
+    if (!location) fail('location', `No location named "${locationName}"`);
+  } else {
+    location = lookups.locations.find((candidate) => candidate.id === mapping.locationId);
+    if (!location) fail('location', 'Location is missing and there is no default location');
+  }
+
+  let qrCodeId: string | undefined;
+  const qrIdentifier = cell('qrCode');
+  if (qrIdentifier && location) {
+    const qrCode = lookups.qrCodes.find((candidate) =>
+      candidate.locationId === location!.id && (candidate.id === qrIdentifier || sameName(candidate.identifier, qrIdentifier))
+    );
+    if (qrCode) qrCodeId = qrCode.id;
+    else fail('qrCode', `No QR code "${qrIdentifier}" at ${location.name}`);
+  }
+
+  const customFields = Object.fromEntries(mapping.customFields
+    .map(({ column, name }) => [name, (row.cells[headers.indexOf(column)] ?? '').trim()])
+    .filter(([, value]) => value !== ''));
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const parsed = insertFeedbackResponseSchema.safeParse({
+    tenantId,
+    locationId: location!.id,
+    qrCodeId,
+    overallRating: rating,
+    feedbackText: cell('feedbackText') || undefined,
+    customerName: cell('customerName') || undefined,
+    customerEmail: cell('customerEmail') || undefined,
+    customerPhone: cell('customerPhone') || undefined,
+    customFields: Object.keys(customFields).length > 0 ? customFields : undefined,
+  });
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map((issue) => ({
+        line: row.line,
+        column: mapping.fields[issue.path[0] as FeedbackImportField],
+        message: `${String(issue.path[0] ?? 'Row')}: ${issue.message}`,
+      })),
+    };
+  }
+  return { feedback: { ...parsed.data, createdAt }, errors: [] };
+}
+
+export interface ImportValidation {
+  validRows: number;
+  failedRows: number;
+  errors: ImportRowError[];
+  preview: ImportedFeedback[];
+}
+
+// Dry run of an import: how many rows would import, why the others would not
+// (the first MAX_IMPORT_ERRORS reasons) and the first few rows as they would be
+// stored
+export async function validateFeedbackImport(feedbackImport: FeedbackImport, mapping: FeedbackImportMapping): Promise<ImportValidation> {
+  const { headers, rows } = readCsv(feedbackImport.source);
+  const lookups = await importLookups(feedbackImport.tenantId);
+  const result: ImportValidation = { validRows: 0, failedRows: 0, errors: [], preview: [] };
+
+  for (const row of rows) {
+    const { feedback, errors } = mapRow(feedbackImport.tenantId, headers, row, mapping, lookups);
+    if (feedback) {
+      result.validRows++;
+      if (result.preview.length < PREVIEW_ROWS) result.preview.push(feedback);
+    } else {
+      result.failedRows++;
+      result.errors.push(...errors.slice(0, MAX_IMPORT_ERRORS - result.errors.length));
+    }
+  }
+  return result;
+}
+
+const running = new Set<string>();
+
+// Import the rows of a started import, BATCH_SIZE at a time, from wherever it
+// got to. Rows that fail validation are counted and skipped; anything else
+// that goes wrong stops the import and marks it failed. Imported feedback is
+// scored and tagged like new submissions but raises no alerts or webhooks.
+export async function runFeedbackImport(feedbackImport: FeedbackImport): Promise<void> {
+  const { id, tenantId } = feedbackImport;
+  if (running.has(id)) return;
+  running.add(id);
+
+  try {
+    const mapping = feedbackImport.mapping!;
+    const { headers, rows } = readCsv(feedbackImport.source);
+    const [lookups, topicKeywords] = await Promise.all([importLookups(tenantId), tenantTopicKeywords(tenantId)]);
+    const progress = {
+      processedRows: feedbackImport.processedRows,
+      importedRows: feedbackImport.importedRows,
+      failedRows: feedbackImport.failedRows,
+      errors: [...feedbackImport.errors],
+    };
+
+    while (progress.processedRows < rows.length) {
+      const batch = rows.slice(progress.processedRows, progress.processedRows + BATCH_SIZE);
+      const imported: ImportedFeedback[] = [];
+      for (const row of batch) {
+        const { feedback, errors } = mapRow(tenantId, headers, row, mapping, lookups);
+        if (feedback) {
+          const analysis = analyzeFeedback(feedback, topicKeywords);
+          imported.push({ ...feedback, ...analysisColumns(analysis, feedback.tags, topicKeywords) });
+        } else {
+          progress.failedRows++;
+          progress.errors.push(...errors.slice(0, MAX_IMPORT_ERRORS - progress.errors.length));
+        }
+      }
+      progress.processedRows += batch.length;
+      progress.importedRows += imported.length;
+      await storage.importFeedbackBatch(tenantId, id, imported, progress);
+    }
+
+    await storage.updateFeedbackImport(tenantId, id, { status: 'completed', completedAt: new Date(), source: '' });
+  } catch (error: any) {
+    await storage.updateFeedbackImport(tenantId, id, {
+      status: 'failed',
+      completedAt: new Date(),
+      lastError: error.message || String(error),
+      source: '',
+    });
+    throw error;
+  } finally {
+    running.delete(id);
+  }
+}
+
+// Finish imports a restart interrupted. Run at startup; returns how many were
+// resumed.
+export async function resumeFeedbackImports(): Promise<number> {
+  const unfinished = await storage.getUnfinishedFeedbackImports();
+  for (const feedbackImport of unfinished) {
+    await runFeedbackImport(feedbackImport).catch((error) => {
+      console.error(`Error resuming feedback import ${feedbackImport.id}:`, error);
+    });
+  }
+  return unfinished.length;
+}
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { EmailService, escapeHtml } from "./emailService";
+import { signingKey } from "./auth";
+import { roleLabels, isUserRole } from "@shared/permissions";
+import type { Invitation, Tenant, User } from "@shared/schema";
+
+export const INVITATION_TTL_DAYS = 7;
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export function invitationStatus(invitation: Invitation): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt.getTime() <= Date.now()) return "expired";
+  return "pending";
+}
+
+export function invitationExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function signature(id: string, lastSentAt: Date): string {
+  return createHmac("sha256", signingKey("invitations")).update(`${id}.${lastSentAt.getTime()}`).digest("base64url");
+}
+
+// Link token: "<invitation id>.<HMAC of id and lastSentAt>"
+export function signInvitation(invitation: Invitation): string {
+  return `${invitation.id}.${signature(invitation.id, invitation.lastSentAt)}`;
+}
+
+// Returns the invitation a token was issued for, provided the signature matches
+// its current lastSentAt. Status (accepted/revoked/expired) is left to the caller.
+export async function verifyInvitationToken(token: string): Promise<Invitation | undefined> {
+  const [id, supplied] = token.split(".");
+  if (!id || !supplied || !/^[0-9a-f-]{36}$/i.test(id)) return undefined;
+
+  const invitation = await storage.resolveInvitation(id);
+  if (!invitation) return undefined;
+
+  const expected = Buffer.from(signature(invitation.id, invitation.lastSentAt));
+  const actual = Buffer.from(supplied);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? invitation : undefined;
+}
+
+export async function sendInvitation(
+  invitation: Invitation,
+  tenant: Tenant,
+  inviter: User | undefined,
+  emailService: EmailService,
+  baseUrl: string,
+): Promise<void> {
+  const acceptUrl = `${baseUrl}/invite?token=${signInvitation(invitation)}`;
+
+  if (!emailService.getStats().isConfigured) {
+    if (process.env.NODE_ENV === "development") {
+      console.log(`Invitation link for ${invitation.email}: ${acceptUrl}`);
+    }
+    return;
+  }
+
+  const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") || inviter?.email || tenant.brandName;
+  await emailService.sendTemplateEmail("team-invitation", invitation.email, {
+    brandName: tenant.brandName,
+    brandNameHtml: escapeHtml(tenant.brandName),
+    inviterName,
+    inviterNameHtml: escapeHtml(inviterName),
+    roleLabel: isUserRole(invitation.role) ? roleLabels[invitation.role] : invitation.role,
+    acceptUrl,
+    expiresInDays: INVITATION_TTL_DAYS,
+  }, {
+    subject: `You've been invited to join ${tenant.brandName}`,
+  });
+}
+
+// tenants.authorizedEmails mirrors everyone who has been invited and not revoked
+export async function addAuthorizedEmail(tenant: Tenant, email: string): Promise<void> {
+  const emails = tenant.authorizedEmails || [];
+  if (!emails.includes(email)) {
+    await storage.updateTenant(tenant.id, { authorizedEmails: [...emails, email] });
+  }
+}
+
+export async function removeAuthorizedEmail(tenant: Tenant, email: string): Promise<void> {
+  const emails = tenant.authorizedEmails || [];
+  if (emails.includes(email)) {
+    await storage.updateTenant(tenant.id, { authorizedEmails: emails.filter((existing) => existing !== email) });
+  }
+}
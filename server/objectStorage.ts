@@ -186,6 +186,30 @@ export class ObjectStorageService {
     await file.delete();
   }
 
+  // Get a file, or null if it doesn't exist
+  async getFile(filePath: string): Promise<File | null> {
+    const privateObjectDir = this.getPrivateObjectDir();
+    const fullPath = `${privateObjectDir}/uploads/${filePath}`;
+
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    const file = objectStorageClient.bucket(bucketName).file(objectName);
+
+    const [exists] = await file.exists();
+    return exists ? file : null;
+  }
+
+  // Save a file generated on the server
+  async saveFile(filePath: string, contents: Buffer, contentType: string): Promise<File> {
+    const privateObjectDir = this.getPrivateObjectDir();
+    const fullPath = `${privateObjectDir}/uploads/${filePath}`;
+
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    const file = objectStorageClient.bucket(bucketName).file(objectName);
+
+    await file.save(contents, { contentType, resumable: false });
+    return file;
+  }
+
   // Get file metadata
   async getFileMetadata(filePath: string): Promise<any> {
     const privateObjectDir = this.getPrivateObjectDir();
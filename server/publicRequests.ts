@@ -0,0 +1,83 @@
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent, fetch, type RequestInit, type Response } from 'undici';
+
+// Requests to URLs tenants choose (webhook endpoints, brand logos). These must
+// not reach the server's own network: loopback and private ranges, link-local
+// (which includes cloud metadata services at 169.254.169.254) and other
+// reserved ranges are refused.
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const isBlocked = ({ address, family }: { address: string; family: number }) =>
+  blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+
+// Why the server must not send to this URL, or undefined when it may. Gives a
+// readable reason when a URL is saved; publicFetch enforces the same rule on
+// the address it actually connects to.
+export async function publicUrlProblem(url: string): Promise<string | undefined> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  const blocked = addresses.find(isBlocked);
+  return blocked ? `${hostname} resolves to a private or reserved address (${blocked.address})` : undefined;
+}
+
+// Resolves like dns.lookup but fails for blocked addresses. Sockets connect to
+// the address returned here, so a host whose DNS changes after the check above
+// (DNS rebinding) still cannot reach a private address.
+function publicLookup(hostname: string, options: any, callback: (...args: any[]) => void): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    const blocked = addresses.find(isBlocked);
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a private or reserved address (${blocked.address})`));
+    }
+    if (options?.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// fetch for tenant-chosen URLs. Redirects are not followed, as their target
+// would skip the check; IP literals never reach the lookup, so they are
+// checked up front.
+export async function publicFetch(url: string, init: Omit<RequestInit, 'dispatcher' | 'redirect'> = {}): Promise<Response> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isBlocked({ address: hostname, family: isIP(hostname) })) {
+    throw new Error(`${hostname} is a private or reserved address`);
+  }
+  return await fetch(url, { ...init, redirect: 'manual', dispatcher: publicAgent });
+}
+
+// The first `limit` bytes of a response body, and whether there was more.
+// Stops reading (and drops the connection) once the limit is passed, so a
+// huge or endless body cannot fill memory.
+export async function readBodyUpTo(response: Response, limit: number): Promise<{ body: Buffer; truncated: boolean }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  if (response.body) {
+    for await (const chunk of response.body) {
+      chunks.push(Buffer.from(chunk));
+      size += chunk.length;
+      if (size > limit) {
+        await response.body.cancel().catch(() => undefined);
+        return { body: Buffer.concat(chunks).subarray(0, limit), truncated: true };
+      }
+    }
+  }
+  return { body: Buffer.concat(chunks), truncated: false };
+}
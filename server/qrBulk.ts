@@ -0,0 +1,96 @@
+import { storage } from './storage';
+import { parseCsv, CsvParseError } from './feedbackImport';
+import { MAX_BULK_QR_CODES, type QrCodeBulkRequest } from '@shared/schema';
+
+// A bulk request that can't produce a list of codes; reported as a 400
+export class QrBulkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QrBulkError';
+  }
+}
+
+export interface PlannedQrCode {
+  identifier: string;
+  section: string | null;
+}
+
+const MAX_IDENTIFIER_LENGTH = 100;
+const MAX_SECTION_LENGTH = 100;
+
+// CSV lines of identifier and optional section. A first line reading
+// "identifier" is taken as a header.
+function listedCodes(csv: string): PlannedQrCode[] {
+  const rows = parseCsv(csv);
+  if (rows[0]?.cells[0].trim().toLowerCase() === 'identifier') rows.shift();
+
+  return rows.map((row) => {
+    const identifier = row.cells[0].trim();
+    const section = row.cells[1]?.trim() || null;
+    if (!identifier) {
+      throw new QrBulkError(`Line ${row.line} has no identifier`);
+    }
+    if (identifier.length > MAX_IDENTIFIER_LENGTH || (section && section.length > MAX_SECTION_LENGTH)) {
+      throw new QrBulkError(`Line ${row.line} is longer than ${MAX_IDENTIFIER_LENGTH} characters`);
+    }
+    return { identifier, section };
+  });
+}
+
+// The identifiers and sections a bulk request asks for, before duplicates
+// with existing codes are checked. Throws QrBulkError for lists that are
+// empty, too long or repeat an identifier.
+export async function planBulkQrCodes(tenantId: string, request: QrCodeBulkRequest): Promise<PlannedQrCode[]> {
+  const { source } = request;
+  let planned: PlannedQrCode[];
+
+  if (source.type === 'range') {
+    planned = Array.from({ length: source.to - source.from + 1 }, (_, index) => ({
+      identifier: `${source.prefix} ${source.from + index}`,
+      section: null,
+    }));
+  } else if (source.type === 'list') {
+    try {
+      planned = listedCodes(source.csv);
+    } catch (error) {
+      if (error instanceof CsvParseError) throw new QrBulkError(error.message);
+      throw error;
+    }
+  } else {
+    const copied = await storage.getQrCodesByLocation(tenantId, source.fromLocationId);
+    planned = copied
+      .filter((qrCode) => !qrCode.replacedById)
+      .map((qrCode) => ({ identifier: qrCode.identifier, section: qrCode.section }));
+  }
+
+  if (planned.length === 0) {
+    throw new QrBulkError('There are no QR codes to create');
+  }
+  if (planned.length > MAX_BULK_QR_CODES) {
+    throw new QrBulkError(`At most ${MAX_BULK_QR_CODES} codes can be created at once`);
+  }
+  const seen = new Set<string>();
+  const repeated = planned.find(({ identifier }) => {
+    const key = identifier.toLowerCase();
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+  if (repeated) {
+    throw new QrBulkError(`"${repeated.identifier}" appears more than once`);
+  }
+
+  return planned.map((qrCode) => ({ ...qrCode, section: qrCode.section || request.section || null }));
+}
+
+// Planned identifiers already used by a current code at the location (the
+// check is repeated inside the transaction that creates them)
+export async function existingIdentifiers(tenantId: string, locationId: string, planned: PlannedQrCode[]): Promise<string[]> {
+  const existing = await storage.getQrCodesByLocation(tenantId, locationId);
+  const taken = new Set(existing
+    .filter((qrCode) => !qrCode.replacedById)
+    .map((qrCode) => qrCode.identifier.trim().toLowerCase()));
+  return planned
+    .map(({ identifier }) => identifier)
+    .filter((identifier) => taken.has(identifier.toLowerCase()));
+}
@@ -0,0 +1,49 @@
+import { storage } from './storage';
+import { emptyQrFunnelCounts, qrFunnelSteps, type QrFunnelRow } from '@shared/qrFunnel';
+import type { QrFunnelRequest } from '@shared/schema';
+
+const DEFAULT_DAYS = 30;
+
+// The scan funnel per QR code, section or location, busiest first. Current
+// QR codes are listed even without scans; retired ones only when they were
+// scanned in the period. Sections are counted per location, as the same name
+// at two locations is two different places.
+export async function qrFunnelReport(tenantId: string, request: QrFunnelRequest, locationIds?: string[]): Promise<QrFunnelRow[]> {
+  const since = request.from ?? new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+  const [funnels, qrCodes, locations] = await Promise.all([
+    storage.getQrScanFunnels(tenantId, since, request.to, locationIds),
+    storage.getQrCodesByTenant(tenantId, locationIds),
+    storage.getLocationsByTenant(tenantId),
+  ]);
+  const funnelByCode = new Map(funnels.map((funnel) => [funnel.qrCodeId, funnel]));
+  const locationName = (id: string) => locations.find((location) => location.id === id)?.name ?? 'Unknown location';
+
+  const rows = new Map<string, QrFunnelRow>();
+  for (const qrCode of qrCodes) {
+    const funnel = funnelByCode.get(qrCode.id);
+    if (!funnel && qrCode.replacedById) continue;
+
+    let row: Omit<QrFunnelRow, 'counts' | 'lastScannedAt'>;
+    if (request.groupBy === 'qrCode') {
+      const label = qrCode.replacedById ? `${qrCode.identifier} (retired)` : qrCode.identifier;
+      row = { key: qrCode.id, label, qrCodeId: qrCode.id, locationId: qrCode.locationId };
+    } else if (request.groupBy === 'section') {
+      const section = qrCode.section || 'Main';
+      row = { key: `${qrCode.locationId}:${section}`, label: `${locationName(qrCode.locationId)} · ${section}`, locationId: qrCode.locationId };
+    } else {
+      row = { key: qrCode.locationId, label: locationName(qrCode.locationId), locationId: qrCode.locationId };
+    }
+
+    const current = rows.get(row.key) ?? { ...row, lastScannedAt: null, counts: emptyQrFunnelCounts() };
+    if (funnel) {
+      qrFunnelSteps.forEach((step) => { current.counts[step] += funnel.counts[step]; });
+      const lastScannedAt = funnel.lastScannedAt?.toISOString() ?? null;
+      if (lastScannedAt && (!current.lastScannedAt || lastScannedAt > current.lastScannedAt)) {
+        current.lastScannedAt = lastScannedAt;
+      }
+    }
+    rows.set(row.key, current);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => b.counts.scanned - a.counts.scanned || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,279 @@
+import type { Response } from 'express';
+import { createHash } from 'crypto';
+import QRCode from 'qrcode';
+import { PNG } from 'pngjs';
+import { storage } from './storage';
+import { ObjectStorageService } from './objectStorage';
+import { qrLinkUrl } from './qrLinks';
+import { fetchLogo } from './qrSheets';
+import { qrImagePixels, type QrImageFormat } from '@shared/qrImages';
+import { qrImageRequestSchema, type QrCode, type QrImageRequest, type Tenant } from '@shared/schema';
+
+const MM = 72 / 25.4; // PostScript points per millimetre
+const QUIET_ZONE = 4; // modules of background around the symbol, as the spec requires
+// Bump when the artwork changes so stored images are regenerated
+const RENDER_VERSION = 1;
+
+// Width of the centre logo's clearing as a share of the symbol; H recovers
+// more damaged modules than Q, so it can give up more of them
+const LOGO_SHARE = { Q: 0.2, H: 0.25 } as const;
+
+const contentTypes: Record<QrImageFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  eps: 'application/postscript',
+};
+
+// A request that can't be rendered for this tenant; reported as a 400
+export class QrImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QrImageError';
+  }
+}
+
+interface QrSymbol {
+  size: number; // modules per side, without the quiet zone
+  isDark(row: number, col: number): boolean;
+  // Modules cleared for the logo, as [start, end) on both axes
+  hole?: { start: number; end: number };
+}
+
+function buildSymbol(link: string, request: QrImageRequest): QrSymbol {
+  const { modules } = QRCode.create(link, { errorCorrectionLevel: request.errorCorrection });
+  const size = modules.size;
+  let hole: QrSymbol['hole'];
+  if (request.logo) {
+    // Odd, so it centres exactly on the odd-sized symbol
+    const holeSize = Math.round(size * LOGO_SHARE[request.errorCorrection as 'Q' | 'H']) | 1;
+    const start = (size - holeSize) / 2;
+    hole = { start, end: start + holeSize };
+  }
+  const inHole = (row: number, col: number) =>
+    !!hole && row >= hole.start && row < hole.end && col >= hole.start && col < hole.end;
+  return { size, hole, isDark: (row, col) => !inHole(row, col) && modules.get(row, col) === 1 };
+}
+
+// Horizontal runs of dark modules, in quiet-zone coordinates
+function darkRuns(symbol: QrSymbol): Array<{ row: number; col: number; length: number }> {
+  const runs = [];
+  for (let row = 0; row < symbol.size; row++) {
+    for (let col = 0; col < symbol.size; col++) {
+      if (!symbol.isDark(row, col)) continue;
+      let length = 1;
+      while (col + length < symbol.size && symbol.isDark(row, col + length)) length++;
+      runs.push({ row: row + QUIET_ZONE, col: col + QUIET_ZONE, length });
+      col += length - 1;
+    }
+  }
+  return runs;
+}
+
+const rgb = (hex: string) => [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+
+const logoMimeType = (logo: Buffer) => (logo[0] === 0x89 ? 'image/png' : 'image/jpeg');
+
+function renderSvg(symbol: QrSymbol, request: QrImageRequest, logo?: Buffer): Buffer {
+  const total = symbol.size + 2 * QUIET_ZONE;
+  const path = darkRuns(symbol).map(({ row, col, length }) => `M${col} ${row}h${length}v1h-${length}z`).join('');
+  let logoImage = '';
+  if (symbol.hole && logo) {
+    // One module of background is left between the code and the logo
+    const at = symbol.hole.start + QUIET_ZONE + 1;
+    const width = symbol.hole.end - symbol.hole.start - 2;
+    logoImage = `<image href="data:${logoMimeType(logo)};base64,${logo.toString('base64')}" x="${at}" y="${at}" width="${width}" height="${width}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+  return Buffer.from(
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${request.size}mm" height="${request.size}mm" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${request.light}"/>` +
+    `<path fill="${request.dark}" d="${path}"/>` +
+    logoImage +
+    `</svg>\n`
+  );
+}
+
+function renderEps(symbol: QrSymbol, request: QrImageRequest, title: string): Buffer {
+  const total = symbol.size + 2 * QUIET_ZONE;
+  const points = request.size * MM;
+  const color = (hex: string) => rgb(hex).map((channel) => (channel / 255).toFixed(3)).join(' ');
+  // PostScript's y axis points up, so rows are counted from the top
+  const rects = darkRuns(symbol).map(({ row, col, length }) => `${col} ${total - row - 1} ${length} 1 rectfill`);
+  return Buffer.from([
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(points)} ${Math.ceil(points)}`,
+    `%%HiResBoundingBox: 0 0 ${points.toFixed(3)} ${points.toFixed(3)}`,
+    `%%Title: (${title.replace(/[()\\]/g, '')})`,
+    '%%Pages: 1',
+    '%%EndComments',
+    'gsave',
+    `${(points / total).toFixed(6)} dup scale`,
+    `${color(request.light)} setrgbcolor`,
+    `0 0 ${total} ${total} rectfill`,
+    `${color(request.dark)} setrgbcolor`,
+    ...rects,
+    'grestore',
+    'showpage',
+    '%%EOF',
+    '',
+  ].join('\n'));
+}
+
+// Draws the logo centred in the square at (left, top), scaled with bilinear
+// filtering and blended over what is already there
+function drawLogo(png: PNG, logo: PNG, left: number, top: number, box: number) {
+  const scale = Math.min(box / logo.width, box / logo.height);
+  const width = Math.round(logo.width * scale);
+  const height = Math.round(logo.height * scale);
+  const offsetX = left + Math.floor((box - width) / 2);
+  const offsetY = top + Math.floor((box - height) / 2);
+  const sample = (x: number, y: number, channel: number) => logo.data[(y * logo.width + x) * 4 + channel];
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(Math.max((y + 0.5) / scale - 0.5, 0), logo.height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, logo.height - 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(Math.max((x + 0.5) / scale - 0.5, 0), logo.width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, logo.width - 1);
+      const fx = sx - x0;
+      const value = (channel: number) =>
+        (sample(x0, y0, channel) * (1 - fx) + sample(x1, y0, channel) * fx) * (1 - fy) +
+        (sample(x0, y1, channel) * (1 - fx) + sample(x1, y1, channel) * fx) * fy;
+      const alpha = value(3) / 255;
+      const index = ((offsetY + y) * png.width + offsetX + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        png.data[index + channel] = Math.round(value(channel) * alpha + png.data[index + channel] * (1 - alpha));
+      }
+    }
+  }
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Adds a pHYs chunk after IHDR so print software picks up the intended DPI
+// instead of assuming 72
+function withResolution(png: Buffer, dpi: number): Buffer {
+  const chunk = Buffer.alloc(21);
+  chunk.writeUInt32BE(9, 0);
+  chunk.write('pHYs', 4, 'ascii');
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  chunk.writeUInt32BE(pixelsPerMetre, 8);
+  chunk.writeUInt32BE(pixelsPerMetre, 12);
+  chunk.writeUInt8(1, 16); // unit: metre
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 17)), 17);
+  const afterHeader = 8 + 25; // signature, then the IHDR chunk
+  return Buffer.concat([png.subarray(0, afterHeader), chunk, png.subarray(afterHeader)]);
+}
+
+function renderPng(symbol: QrSymbol, request: QrImageRequest, logo?: Buffer): Buffer {
+  const pixels = qrImagePixels(request.size, request.dpi);
+  const total = symbol.size + 2 * QUIET_ZONE;
+  const dark = rgb(request.dark);
+  const light = rgb(request.light);
+  const png = new PNG({ width: pixels, height: pixels });
+  // Pixel edges are rounded to the nearest module boundary, so modules differ
+  // by at most a pixel and the image is exactly the requested size
+  const moduleAt = Array.from({ length: pixels }, (_, pixel) => Math.floor((pixel * total) / pixels) - QUIET_ZONE);
+
+  for (let y = 0; y < pixels; y++) {
+    const row = moduleAt[y];
+    for (let x = 0; x < pixels; x++) {
+      const col = moduleAt[x];
+      const isDark = row >= 0 && row < symbol.size && col >= 0 && col < symbol.size && symbol.isDark(row, col);
+      const [r, g, b] = isDark ? dark : light;
+      const index = (y * pixels + x) * 4;
+      png.data[index] = r;
+      png.data[index + 1] = g;
+      png.data[index + 2] = b;
+      png.data[index + 3] = 255;
+    }
+  }
+
+  if (symbol.hole && logo) {
+    if (logoMimeType(logo) !== 'image/png') {
+      throw new QrImageError('Centre logos in PNG downloads need a PNG logo; download SVG to use a JPEG logo');
+    }
+    const modulePixels = pixels / total;
+    const start = Math.round((symbol.hole.start + QUIET_ZONE + 1) * modulePixels);
+    const end = Math.round((symbol.hole.end + QUIET_ZONE - 1) * modulePixels);
+    drawLogo(png, PNG.sync.read(logo), start, start, end - start);
+  }
+
+  return withResolution(PNG.sync.write(png), request.dpi);
+}
+
+// Renders one QR code's link as an image. Throws QrImageError when a logo is
+// asked for and the tenant's can't be used.
+export async function renderQrImage(tenant: Tenant, qrCode: QrCode, request: QrImageRequest): Promise<Buffer> {
+  const symbol = buildSymbol(qrLinkUrl(qrCode.shortCode!), request);
+  let logo: Buffer | undefined;
+  if (request.logo) {
+    logo = await fetchLogo(tenant.logoUrl);
+    if (!logo) {
+      throw new QrImageError('Your brand logo could not be loaded; upload a PNG or JPEG logo in branding settings');
+    }
+  }
+
+  if (request.format === 'svg') return renderSvg(symbol, request, logo);
+  if (request.format === 'eps') return renderEps(symbol, request, `${tenant.brandName} ${qrCode.identifier}`);
+  return renderPng(symbol, request, logo);
+}
+
+// Where a rendering is stored. The name covers everything that changes the
+// artwork, so a stored file never needs updating; a new link, logo or option
+// gets a new file.
+function storedImagePath(tenant: Tenant, qrCode: QrCode, request: QrImageRequest): string {
+  const key = createHash('sha256')
+    .update(JSON.stringify({ version: RENDER_VERSION, link: qrLinkUrl(qrCode.shortCode!), logoUrl: request.logo ? tenant.logoUrl : null, request }))
+    .digest('hex')
+    .slice(0, 24);
+  return `qr-codes/${tenant.id}/${qrCode.id}/${key}.${request.format}`;
+}
+
+const isStandardImage = (request: QrImageRequest) =>
+  JSON.stringify(request) === JSON.stringify(qrImageRequestSchema.parse({}));
+
+// Sends the image as a download, from object storage when it has been
+// rendered before. Without object storage configured the image is rendered
+// for every request.
+export async function sendQrImage(res: Response, tenant: Tenant, qrCode: QrCode, request: QrImageRequest): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  const path = storedImagePath(tenant, qrCode, request);
+  const fileName = `qr-${qrCode.identifier}-${request.size}mm`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${request.format}"`);
+
+  try {
+    const stored = await objectStorage.getFile(path);
+    if (stored) return await objectStorage.downloadObject(stored, res);
+  } catch (error: any) {
+    console.error('Error reading stored QR image:', error.message || error);
+  }
+
+  const image = await renderQrImage(tenant, qrCode, request);
+  try {
+    await objectStorage.saveFile(path, image, contentTypes[request.format]);
+    // qrImageUrl points at the standard PNG once it exists
+    const objectPath = `/objects/uploads/${path}`;
+    if (isStandardImage(request) && qrCode.qrImageUrl !== objectPath) {
+      await storage.updateQrCode(tenant.id, qrCode.id, { qrImageUrl: objectPath });
+    }
+  } catch (error: any) {
+    console.error('Error storing QR image:', error.message || error);
+  }
+
+  res.setHeader('Content-Type', contentTypes[request.format]);
+  res.send(image);
+}
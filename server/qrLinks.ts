@@ -0,0 +1,62 @@
+import { randomBytes, randomInt } from 'crypto';
+import { storage } from './storage';
+import type { QrCode } from '@shared/schema';
+
+// No 0/O or 1/I, so a code read off a sticker can be typed back in
+const SHORT_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const SHORT_CODE_LENGTH = 6;
+const MAX_ATTEMPTS = 5;
+
+function baseUrl(): string {
+  return process.env.FRONTEND_URL || 'http://localhost:5000';
+}
+
+// The link printed in a QR code. It names nothing but the code, so the code
+// can be re-pointed without reprinting.
+export function qrLinkUrl(shortCode: string): string {
+  return `${baseUrl()}/r/${shortCode}`;
+}
+
+const randomShortCode = () =>
+  Array.from({ length: SHORT_CODE_LENGTH }, () => SHORT_CODE_ALPHABET[randomInt(SHORT_CODE_ALPHABET.length)]).join('');
+
+// `count` distinct short codes no QR code has yet. The unique column still
+// guards against two servers picking the same one at once.
+export async function newShortCodes(count: number): Promise<string[]> {
+  const codes = new Set<string>();
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && codes.size < count; attempt++) {
+    const candidates = new Set<string>();
+    while (candidates.size < count - codes.size) {
+      const candidate = randomShortCode();
+      if (!codes.has(candidate)) candidates.add(candidate);
+    }
+    const taken = new Set(await storage.getTakenQrShortCodes(Array.from(candidates)));
+    candidates.forEach((candidate) => {
+      if (!taken.has(candidate)) codes.add(candidate);
+    });
+  }
+  if (codes.size < count) {
+    throw new Error('Could not find free QR short codes');
+  }
+  return Array.from(codes);
+}
+
+export async function newShortCode(): Promise<string> {
+  const [code] = await newShortCodes(1);
+  return code;
+}
+
+// Identifies one scan while the visitor fills in the form; unguessable, as
+// the form reports its progress with nothing else
+export function newScanSessionToken(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+// Where a scan lands: the feedback form for the code's current location and
+// survey template, carrying the scan's session token
+export function feedbackFormPath(qrCode: QrCode, sessionToken?: string): string {
+  const params = new URLSearchParams({ t: qrCode.tenantId, l: qrCode.locationId, q: qrCode.id });
+  if (qrCode.surveyTemplateId) params.set('template', qrCode.surveyTemplateId);
+  if (sessionToken) params.set('s', sessionToken);
+  return `/feedback?${params}`;
+}
@@ -0,0 +1,217 @@
+import type { Response } from 'express';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { qrLinkUrl } from './qrLinks';
+import { publicFetch, readBodyUpTo } from './publicRequests';
+import { qrSheetSizes, type QrSheetSize } from '@shared/qrSheets';
+import type { Location, QrCode, QrSheetRequest, Tenant } from '@shared/schema';
+
+const MM = 72 / 25.4; // PDF points per millimetre
+const A4 = { width: 210, height: 297 };
+const STICKER_PAGE_MARGIN = 10; // mm
+const LOGO_TIMEOUT = 5000;
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+const COMPACT_SIZE = 80; // mm; smaller items show only the code and its name
+
+function baseUrl(): string {
+  return process.env.FRONTEND_URL || 'http://localhost:5000';
+}
+
+interface Palette {
+  background: string;
+  band: string;
+  bandText: string;
+  text: string;
+  muted: string;
+}
+
+interface SheetItem {
+  qrCode: QrCode;
+  link: string;
+  image: Buffer;
+}
+
+interface Branding {
+  brandName: string;
+  slogan?: string;
+  logo?: Buffer;
+  palette: Palette;
+}
+
+const color = (value: string | undefined, fallback: string) =>
+  value && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value : fallback;
+
+// pdfkit embeds PNG and JPEG only; anything else (or a logo that can't be
+// fetched) is left out rather than failing the download. Tenants set the URL,
+// so it is fetched like a webhook: public addresses only, no redirects, and
+// no more than LOGO_MAX_BYTES.
+export async function fetchLogo(logoUrl: string | null): Promise<Buffer | undefined> {
+  if (!logoUrl) return undefined;
+  try {
+    const response = await publicFetch(new URL(logoUrl, baseUrl()).toString(), { signal: AbortSignal.timeout(LOGO_TIMEOUT) });
+    if (!response.ok) return undefined;
+    const { body: logo, truncated } = await readBodyUpTo(response, LOGO_MAX_BYTES);
+    if (truncated) return undefined;
+    const isPng = logo.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    const isJpeg = logo[0] === 0xff && logo[1] === 0xd8;
+    return isPng || isJpeg ? logo : undefined;
+  } catch (error: any) {
+    console.error('Error fetching logo for QR sheet:', error.message || error);
+    return undefined;
+  }
+}
+
+// One QR code's artwork, trimmed to w × h at (x, y). The background runs
+// `bleed` past the trim on every side.
+function drawItem(doc: PDFKit.PDFDocument, item: SheetItem, branding: Branding, x: number, y: number, w: number, h: number, bleed: number) {
+  const { palette } = branding;
+  const compact = Math.min(w, h) < COMPACT_SIZE * MM;
+  const scale = Math.min(w, h) / (105 * MM);
+  const pad = Math.max(4 * MM, Math.min(w, h) * 0.06);
+  const innerWidth = w - 2 * pad;
+  const nameSize = compact ? Math.max(5, 7 * scale) : 12 * scale;
+
+  doc.rect(x - bleed, y - bleed, w + 2 * bleed, h + 2 * bleed).fill(palette.background);
+
+  // Brand band across the top
+  const bandHeight = compact ? h * 0.12 : h * 0.16;
+  doc.rect(x - bleed, y - bleed, w + 2 * bleed, bandHeight + bleed).fill(palette.band);
+  if (branding.logo && !compact) {
+    doc.image(branding.logo, x + pad, y + bandHeight * 0.15, { fit: [innerWidth, bandHeight * 0.7], align: 'center', valign: 'center' });
+  } else {
+    const size = Math.max(6, (compact ? 9 : 16) * scale);
+    doc.font('Helvetica-Bold').fontSize(size).fillColor(palette.bandText)
+      .text(branding.brandName, x + pad, y + (bandHeight - size) / 2, { width: innerWidth, align: 'center', lineBreak: false, ellipsis: true, height: size * 1.3 });
+  }
+
+  let cursor = y + bandHeight + pad * 0.6;
+  if (!compact) {
+    if (branding.slogan) {
+      doc.font('Helvetica-Oblique').fontSize(9 * scale).fillColor(palette.muted)
+        .text(branding.slogan, x + pad, cursor, { width: innerWidth, align: 'center', lineBreak: false, ellipsis: true, height: 12 * scale });
+      cursor += 14 * scale;
+    }
+    doc.font('Helvetica-Bold').fontSize(15 * scale).fillColor(palette.text)
+      .text('Scan to share your feedback', x + pad, cursor, { width: innerWidth, align: 'center', lineBreak: false, ellipsis: true, height: 20 * scale });
+    cursor += 22 * scale;
+  }
+
+  // The code sits on white with a quiet zone, whatever the background colour
+  const footer = compact ? nameSize * 1.5 : 44 * scale;
+  const qrSize = Math.max(0, Math.min(innerWidth, y + h - pad - footer - cursor));
+  const qrX = x + (w - qrSize) / 2;
+  const quietZone = qrSize * 0.06;
+  doc.rect(qrX, cursor, qrSize, qrSize).fill('#FFFFFF');
+  doc.image(item.image, qrX + quietZone, cursor + quietZone, { width: qrSize - 2 * quietZone, height: qrSize - 2 * quietZone });
+  cursor += qrSize + pad * 0.4;
+
+  if (!compact) {
+    doc.font('Helvetica').fontSize(7 * scale).fillColor(palette.muted)
+      .text(item.link.replace(/^https?:\/\//, ''), x + pad, cursor, { width: innerWidth, align: 'center', lineBreak: false, ellipsis: true, height: 10 * scale });
+    cursor += 11 * scale;
+  }
+  doc.font('Helvetica-Bold').fontSize(nameSize).fillColor(palette.text)
+    .text(item.qrCode.identifier, x + pad, cursor, { width: innerWidth, align: 'center', lineBreak: false, ellipsis: true, height: nameSize * 1.3 });
+  if (!compact && item.qrCode.section) {
+    doc.font('Helvetica').fontSize(9 * scale).fillColor(palette.muted)
+      .text(item.qrCode.section, x + pad, cursor + nameSize * 1.3, { width: innerWidth, align: 'center', lineBreak: false, ellipsis: true, height: 12 * scale });
+  }
+}
+
+// Short ticks in the margin where a table tent is folded
+function drawFoldMarks(doc: PDFKit.PDFDocument, width: number, y: number) {
+  const length = 3 * MM;
+  doc.save().lineWidth(0.5).strokeColor('#9CA3AF')
+    .moveTo(0, y).lineTo(length, y)
+    .moveTo(width - length, y).lineTo(width, y)
+    .stroke().restore();
+}
+
+function layoutTableTents(doc: PDFKit.PDFDocument, items: SheetItem[], branding: Branding, size: QrSheetSize, bleed: number) {
+  const w = size.width * MM;
+  const h = size.height * MM;
+  for (const item of items) {
+    doc.addPage({ size: [w + 2 * bleed, 2 * h + 2 * bleed], margin: 0 });
+    doc.save();
+    doc.rotate(180, { origin: [bleed + w / 2, bleed + h / 2] });
+    drawItem(doc, item, branding, bleed, bleed, w, h, bleed);
+    doc.restore();
+    drawItem(doc, item, branding, bleed, bleed + h, w, h, bleed);
+    drawFoldMarks(doc, w + 2 * bleed, bleed + h);
+  }
+}
+
+function layoutPosters(doc: PDFKit.PDFDocument, items: SheetItem[], branding: Branding, size: QrSheetSize, bleed: number) {
+  const w = size.width * MM;
+  const h = size.height * MM;
+  for (const item of items) {
+    doc.addPage({ size: [w + 2 * bleed, h + 2 * bleed], margin: 0 });
+    drawItem(doc, item, branding, bleed, bleed, w, h, bleed);
+  }
+}
+
+// As many stickers as fit on each A4 sheet, with gutters wide enough for the
+// bleed of both neighbours
+function layoutStickers(doc: PDFKit.PDFDocument, items: SheetItem[], branding: Branding, size: QrSheetSize, bleed: number) {
+  const gutter = Math.max(4 * MM, 2 * bleed + 2 * MM);
+  const margin = STICKER_PAGE_MARGIN * MM;
+  const w = size.width * MM;
+  const h = size.height * MM;
+  const pageWidth = A4.width * MM;
+  const pageHeight = A4.height * MM;
+  const columns = Math.max(1, Math.floor((pageWidth - 2 * margin + gutter) / (w + gutter)));
+  const rows = Math.max(1, Math.floor((pageHeight - 2 * margin + gutter) / (h + gutter)));
+  const left = (pageWidth - (columns * w + (columns - 1) * gutter)) / 2;
+  const top = (pageHeight - (rows * h + (rows - 1) * gutter)) / 2;
+
+  items.forEach((item, index) => {
+    const slot = index % (columns * rows);
+    if (slot === 0) doc.addPage({ size: 'A4', margin: 0 });
+    const column = slot % columns;
+    const row = Math.floor(slot / columns);
+    drawItem(doc, item, branding, left + column * (w + gutter), top + row * (h + gutter), w, h, bleed);
+  });
+}
+
+// Streams a PDF of the given QR codes (all at one location) in the requested
+// layout. Everything that can fail is prepared before the first byte is sent,
+// so errors can still be answered with JSON.
+export async function renderQrSheet(
+  res: Response,
+  tenant: Tenant,
+  location: Location,
+  qrCodes: QrCode[],
+  request: QrSheetRequest
+): Promise<void> {
+  const size = qrSheetSizes[request.layout][request.size];
+  const bleed = request.bleed * MM;
+
+  const items: SheetItem[] = await Promise.all(qrCodes.map(async (qrCode) => {
+    const link = qrLinkUrl(qrCode.shortCode!);
+    const image = await QRCode.toBuffer(link, { type: 'png', errorCorrectionLevel: 'M', margin: 0, width: 600 });
+    return { qrCode, link, image };
+  }));
+  const branding: Branding = {
+    brandName: tenant.brandName,
+    slogan: tenant.slogan ?? undefined,
+    logo: await fetchLogo(tenant.logoUrl),
+    palette: {
+      background: color(tenant.brandColors?.background1, '#FFFFFF'),
+      band: color(tenant.brandColors?.primary, '#111827'),
+      bandText: color(tenant.brandColors?.text2, '#FFFFFF'),
+      text: color(tenant.brandColors?.text1, '#111827'),
+      muted: color(tenant.brandColors?.secondary, '#6B7280'),
+    },
+  };
+
+  const doc = new PDFDocument({ autoFirstPage: false, info: { Title: `${tenant.brandName} QR codes: ${location.name}` } });
+  const fileName = `qr-codes-${location.name}-${request.layout}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+  doc.pipe(res);
+
+  if (request.layout === 'table-tent') layoutTableTents(doc, items, branding, size, bleed);
+  if (request.layout === 'sticker') layoutStickers(doc, items, branding, size, bleed);
+  if (request.layout === 'sheet') layoutPosters(doc, items, branding, size, bleed);
+  doc.end();
+}
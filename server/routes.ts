@@ -1,31 +1,73 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { ObjectPermission } from "./objectAcl";
-import { insertFeedbackResponseSchema, insertQrCodeSchema, insertLocationSchema, insertSurveyTemplateSchema, insertAlertRuleSchema } from "@shared/schema";
-import QRCode from "qrcode";
-import { randomUUID } from "crypto";
+import { feedbackSubmissionSchema, feedbackCaseUpdateSchema, feedbackNoteRequestSchema, feedbackReplyRequestSchema, insertQrCodeSchema, insertLocationSchema, insertSurveyTemplateSchema, insertAlertRuleSchema, insertTenantSchema, updateUserRoleSchema, createInvitationSchema, acceptInvitationSchema, webhookEndpointRequestSchema, topicKeywordsSchema, feedbackSearchSchema, feedbackExportSchema, exportRangeSchema, feedbackImportMappingSchema, digestSubscriptionRequestSchema, digestSubscriptionUpdateSchema, notificationSettingsSchema, qrCodeRequestSchema, qrCodeUpdateSchema, qrCodeBulkRequestSchema, qrSheetRequestSchema, qrImageRequestSchema, qrScanEventSchema, qrFunnelRequestSchema, type AlertNotification, type DigestFrequency, type FeedbackResponse, type WebhookEndpoint } from "@shared/schema";
 import { WebSocketService, NotificationEvent } from "./websocket";
-import { AlertRuleEngine } from "./alertRuleEngine";
+import { AlertRuleEngine, toAlertRuleConfig, validateConditions } from "./alertRuleEngine";
 import { EmailService } from "./emailService";
-import { SMSService } from "./smsService";
+import { SMSService, phoneNumberKey } from "./smsService";
+import { AlertDispatcher } from "./alertDispatcher";
+import { verifyAcknowledgementToken } from "./alertEscalation";
+import { signFeedbackFiles, verifyFeedbackFilesToken } from "./feedbackFiles";
+import { WebhookService, generateWebhookSecret } from "./webhookService";
+import { publicUrlProblem } from "./publicRequests";
+import { analyzeFeedback, analysisColumns, tenantTopicKeywords, reanalyzeTenantFeedback, backfillFeedbackAnalysis } from "./feedbackAnalysis";
+import { setupAuth, authenticateWebSocket, isAuthenticated, requireTenantAccess, requirePermission, currentTenantId, scopedLocationIds, canAccessLocation, hashPassword, sendMagicLink, toPublicUser } from "./auth";
+import { hasPermission } from "@shared/permissions";
+import { isOpenStatus } from "@shared/cases";
+import { sendCustomerReply, recordInboundSms, replyAddress } from "./customerReplies";
+import { exportFeedback, exportAlertHistory, exportQrScans } from "./exports";
+import { DigestService, nextDigestAt } from "./digestService";
+import { newShortCode, newShortCodes, qrLinkUrl, feedbackFormPath, newScanSessionToken } from "./qrLinks";
+import { planBulkQrCodes, existingIdentifiers, QrBulkError } from "./qrBulk";
+import { renderQrSheet } from "./qrSheets";
+import { sendQrImage, QrImageError } from "./qrImages";
+import { qrFunnelReport } from "./qrFunnel";
+import { defaultNotificationSettings } from "@shared/notifications";
+import { readCsv, CsvParseError, mappingProblem, validateFeedbackImport, runFeedbackImport, resumeFeedbackImports } from "./feedbackImport";
+import { invitationStatus, invitationExpiry, verifyInvitationToken, sendInvitation, addAuthorizedEmail, removeAuthorizedEmail } from "./invitations";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
-  // Initialize WebSocket service
-  const wsService = new WebSocketService(httpServer);
-  
-  // Initialize Alert Rule Engine
-  const alertRuleEngine = new AlertRuleEngine();
-  
   // Initialize Email Service
   const emailService = new EmailService(
     process.env.SENDGRID_API_KEY || '',
     process.env.FROM_EMAIL || 'alerts@feedbackplatform.com',
     process.env.FROM_NAME || 'Feedback Platform'
   );
+
+  // Sessions, login and magic links; must be registered before any /api route
+  const sessionParser = setupAuth(app, emailService);
+
+  // Initialize WebSocket service (connections are bound to the session's tenant)
+  const wsService = new WebSocketService(httpServer, authenticateWebSocket(sessionParser));
+  
+  // Initialize Alert Rule Engine with the stored rules and their cooldown state
+  const alertRuleEngine = new AlertRuleEngine();
+  alertRuleEngine.loadRulesFromDatabase().catch((error) => {
+    console.error('Error loading alert rules:', error);
+  });
+
+  // Score and tag feedback stored before analysis ran on submission
+  backfillFeedbackAnalysis()
+    .then((count) => {
+      if (count > 0) console.log(`Analyzed ${count} existing feedback responses`);
+    })
+    .catch((error) => {
+      console.error('Error backfilling feedback analysis:', error);
+    });
+
+  // Finish CSV imports a restart interrupted
+  resumeFeedbackImports()
+    .then((count) => {
+      if (count > 0) console.log(`Resumed ${count} feedback imports`);
+    })
+    .catch((error) => {
+      console.error('Error resuming feedback imports:', error);
+    });
   
   // Initialize SMS Service
   const smsService = new SMSService(
@@ -34,33 +76,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     process.env.TWILIO_FROM_NUMBER || ''
   );
 
+  // Signed event deliveries to the webhook endpoints tenants register
+  const webhookService = new WebhookService();
+  webhookService.start();
+
+  // Sends alert rule actions (email, SMS, webhooks) from a database-backed queue
+  const alertDispatcher = new AlertDispatcher(emailService, smsService, webhookService);
+  alertDispatcher.start();
+
+  // Scheduled daily, weekly and monthly digest emails
+  const digestService = new DigestService(emailService);
+  digestService.start();
+
   // Broadcast alert to all connected clients of a tenant
-  function broadcastAlert(tenantId: string, alert: any) {
+  function broadcastAlert(tenantId: string, alert: any, locationId?: string) {
     const event: NotificationEvent = {
       type: 'alert',
       tenantId,
+      locationId,
       data: alert,
       severity: alert.severity || 'info'
     };
     wsService.broadcastToTenant(tenantId, event);
   }
 
-  // Company onboarding endpoint
+  // Queue the actions of the rule that raised an alert. The alert is already
+  // stored and broadcast, so a queueing failure is logged rather than surfaced.
+  async function queueAlertActions(alert: AlertNotification, ruleId: string, feedback?: FeedbackResponse) {
+    try {
+      const rule = alertRuleEngine.getRule(ruleId);
+      if (rule) {
+        await alertDispatcher.enqueue(alert, rule.actions, feedback);
+      }
+    } catch (error) {
+      console.error('Error queueing alert actions:', error);
+    }
+  }
+
+  // Silence and volume alerts that fire on the schedule rather than on new feedback
+  alertRuleEngine.startScheduledEvaluation(async (tenantId, results) => {
+    for (const result of results) {
+      const alert = await storage.createAlertNotification({
+        tenantId,
+        alertRuleId: result.data.ruleId,
+        locationId: result.data.locationId,
+        title: result.data.ruleName,
+        message: result.message,
+        severity: result.severity
+      });
+      broadcastAlert(tenantId, alert, result.data.locationId);
+      await webhookService.emit(tenantId, 'alert.triggered', alert);
+      await queueAlertActions(alert, result.data.ruleId);
+    }
+  });
+
+  // A location's manager must belong to the same tenant
+  async function isValidManager(tenantId: string, managerId: unknown): Promise<boolean> {
+    if (!managerId) return true;
+    const manager = await storage.getUser(String(managerId));
+    return !!manager && manager.tenantId === tenantId;
+  }
+
+  // Company onboarding endpoint (public sign-up; creates the owner account)
   app.post('/api/tenants', async (req, res) => {
     try {
-      console.log('Creating tenant with data:', req.body);
+      const { password, ...tenantData } = req.body;
+      console.log('Creating tenant with data:', tenantData);
       
       // Validate required fields
       const requiredFields = ['legalName', 'brandName', 'industry', 'primaryContactName', 'primaryContactEmail'];
       for (const field of requiredFields) {
-        if (!req.body[field]) {
+        if (!tenantData[field]) {
           return res.status(400).json({ 
             error: `Missing required field: ${field}` 
           });
         }
       }
 
-      const tenant = await storage.createTenant(req.body);
+      const ownerEmail = String(tenantData.primaryContactEmail).toLowerCase();
+      if (await storage.getUserByEmail(ownerEmail)) {
+        return res.status(409).json({ error: 'An account with this email already exists' });
+      }
+
+      if (password !== undefined && (typeof password !== 'string' || password.length < 8)) {
+        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      }
+
+      const tenant = await storage.createTenant(tenantData);
       
       // Create default location based on business address
       const defaultLocation = await storage.createLocation({
@@ -91,8 +193,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isActive: true
       });
 
+      // Owner account for the primary contact
+      const [firstName, ...lastName] = String(req.body.primaryContactName).split(' ');
+      const owner = await storage.createUser({
+        tenantId: tenant.id,
+        email: ownerEmail,
+        firstName,
+        lastName: lastName.join(' ') || null,
+        role: 'owner',
+        passwordHash: password ? await hashPassword(password) : null,
+        isActive: true
+      });
+
       console.log('Tenant created successfully:', tenant.id);
-      res.json(tenant);
+
+      // Invite the authorized emails collected during onboarding
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const invitees = Array.from(new Set((tenant.authorizedEmails || []).map((email) => email.trim().toLowerCase())))
+        .filter((email) => email && email !== ownerEmail);
+      for (const email of invitees) {
+        try {
+          const now = new Date();
+          const invitation = await storage.createInvitation({
+            tenantId: tenant.id,
+            email,
+            role: 'viewer',
+            invitedBy: owner.id,
+            lastSentAt: now,
+            expiresAt: invitationExpiry(now)
+          });
+          await sendInvitation(invitation, tenant, owner, emailService, baseUrl);
+        } catch (error) {
+          console.error(`Error inviting ${email}:`, error);
+        }
+      }
+
+      if (!password) {
+        // No password chosen: the owner signs in with an emailed link
+        await sendMagicLink(owner, emailService, `${req.protocol}://${req.get('host')}`);
+        return res.json(tenant);
+      }
+
+      req.login(owner, (loginErr) => {
+        if (loginErr) {
+          console.error('Error signing in new owner:', loginErr);
+        }
+        res.json(tenant);
+      });
     } catch (error) {
       console.error('Error creating tenant:', error);
       res.status(500).json({ 
@@ -103,19 +250,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Branch/Location management endpoints
-  app.get('/api/locations/:tenantId', async (req, res) => {
+  app.get('/api/locations/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
-      const locations = await storage.getLocationsByTenant(req.params.tenantId);
-      res.json(locations);
+      const locationIds = await scopedLocationIds(req);
+      const locations = await storage.getLocationsByTenant(currentTenantId(req));
+      res.json(locationIds ? locations.filter((location) => locationIds.includes(location.id)) : locations);
     } catch (error) {
       console.error('Error fetching locations:', error);
       res.status(500).json({ error: 'Failed to fetch locations' });
     }
   });
 
-  app.post('/api/locations', async (req, res) => {
+  app.post('/api/locations', isAuthenticated, requireTenantAccess, requirePermission('locations:manage'), async (req, res) => {
     try {
-      const location = await storage.createLocation(req.body);
+      const tenantId = currentTenantId(req);
+      if (!(await isValidManager(tenantId, req.body.managerId))) {
+        return res.status(400).json({ error: 'Unknown manager' });
+      }
+
+      const location = await storage.createLocation({ ...req.body, tenantId });
       res.json(location);
     } catch (error) {
       console.error('Error creating location:', error);
@@ -123,9 +276,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/locations/:id', async (req, res) => {
+  app.put('/api/locations/:id', isAuthenticated, requireTenantAccess, requirePermission('locations:manage'), async (req, res) => {
     try {
-      const location = await storage.updateLocation(req.params.id, req.body);
+      const tenantId = currentTenantId(req);
+      if (!(await isValidManager(tenantId, req.body.managerId))) {
+        return res.status(400).json({ error: 'Unknown manager' });
+      }
+
+      const location = await storage.updateLocation(tenantId, req.params.id, req.body);
+      if (!location) {
+        return res.status(404).json({ error: 'Location not found' });
+      }
       res.json(location);
     } catch (error) {
       console.error('Error updating location:', error);
@@ -133,17 +294,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/locations/:id', async (req, res) => {
+  app.delete('/api/locations/:id', isAuthenticated, requirePermission('locations:manage'), async (req, res) => {
     try {
+      const tenantId = currentTenantId(req);
+      const location = await storage.getLocation(tenantId, req.params.id);
+      if (!location) {
+        return res.status(404).json({ error: 'Location not found' });
+      }
+
       // Get all QR codes for this location and delete them first
-      const qrCodes = await storage.getQrCodesByLocation(req.params.id);
+      const qrCodes = await storage.getQrCodesByLocation(tenantId, req.params.id);
       for (const qrCode of qrCodes) {
         // In a real app, you'd have a delete method
         // await storage.deleteQrCode(qrCode.id);
       }
       
       // For now, we'll just mark location as inactive
-      await storage.updateLocation(req.params.id, { isActive: false });
+      await storage.updateLocation(tenantId, req.params.id, { isActive: false });
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting location:', error);
@@ -151,108 +318,1005 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // QR Code management endpoints
-  app.get('/api/qr-codes/:tenantId', async (req, res) => {
-    try {
-      const qrCodes = await storage.getQrCodesByTenant(req.params.tenantId);
-      res.json(qrCodes);
+  // QR Code management endpoints. Rows retired by a rotation stay for their
+  // history but are not listed.
+  app.get('/api/qr-codes/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const qrCodes = await storage.getQrCodesByTenant(currentTenantId(req), await scopedLocationIds(req));
+      res.json(qrCodes.filter((qrCode) => !qrCode.replacedById));
+    } catch (error) {
+      console.error('Error fetching QR codes:', error);
+      res.status(500).json({ error: 'Failed to fetch QR codes' });
+    }
+  });
+
+  // Checks the location and survey template a QR code is pointed at belong to
+  // the tenant (and the location to the caller). Returns the problem, if any.
+  async function qrTargetProblem(req: Request, changes: { locationId?: string; surveyTemplateId?: string | null }): Promise<string | undefined> {
+    const tenantId = currentTenantId(req);
+    if (changes.locationId !== undefined) {
+      const location = await storage.getLocation(tenantId, changes.locationId);
+      if (!location || !(await canAccessLocation(req, location.id))) return 'Unknown location';
+    }
+    if (changes.surveyTemplateId && !(await storage.getSurveyTemplate(tenantId, changes.surveyTemplateId))) {
+      return 'Unknown survey template';
+    }
+    return undefined;
+  }
+
+  app.post('/api/qr-codes', isAuthenticated, requireTenantAccess, requirePermission('qr_codes:manage'), async (req, res) => {
+    try {
+      const parsed = qrCodeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const problem = await qrTargetProblem(req, parsed.data);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const shortCode = await newShortCode();
+      const qrCode = await storage.createQrCode({
+        ...parsed.data,
+        tenantId: currentTenantId(req),
+        shortCode,
+        qrData: qrLinkUrl(shortCode),
+      });
+      res.json(qrCode);
+    } catch (error) {
+      console.error('Error creating QR code:', error);
+      res.status(500).json({ error: 'Failed to create QR code' });
+    }
+  });
+
+  // Many codes for one location at once, from a numbered range, a pasted CSV
+  // list or another location's codes. With preview set nothing is created;
+  // the codes that would be are returned with any identifiers already in use.
+  app.post('/api/qr-codes/bulk', isAuthenticated, requirePermission('qr_codes:manage'), async (req, res) => {
+    try {
+      const parsed = qrCodeBulkRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const request = parsed.data;
+      const tenantId = currentTenantId(req);
+      const problem = await qrTargetProblem(req, request)
+        ?? (request.source.type === 'copy' ? await qrTargetProblem(req, { locationId: request.source.fromLocationId }) : undefined);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const planned = await planBulkQrCodes(tenantId, request);
+      if (request.preview) {
+        const duplicates = await existingIdentifiers(tenantId, request.locationId, planned);
+        return res.json({ qrCodes: planned, duplicates });
+      }
+
+      const shortCodes = await newShortCodes(planned.length);
+      const result = await storage.createQrCodeBatch(tenantId, request.locationId, planned.map((qrCode, index) => ({
+        ...qrCode,
+        tenantId,
+        locationId: request.locationId,
+        surveyTemplateId: request.surveyTemplateId ?? null,
+        campaign: request.campaign ?? null,
+        shortCode: shortCodes[index],
+        qrData: qrLinkUrl(shortCodes[index]),
+      })));
+      if (result.duplicates.length > 0) {
+        return res.status(409).json({
+          error: `${result.duplicates.length} of these identifiers are already used at this location`,
+          duplicates: result.duplicates,
+        });
+      }
+      res.json(result.qrCodes);
+    } catch (error) {
+      if (error instanceof QrBulkError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error creating QR codes in bulk:', error);
+      res.status(500).json({ error: 'Failed to create QR codes' });
+    }
+  });
+
+  // Printable PDF of a location's QR codes: all its active codes, or the ones
+  // picked in ids
+  app.get('/api/qr-codes/:tenantId/sheets', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const parsed = qrSheetRequestSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const tenantId = currentTenantId(req);
+      const { locationId, ids } = parsed.data;
+      const [tenant, location] = await Promise.all([storage.getTenant(tenantId), storage.getLocation(tenantId, locationId)]);
+      if (!tenant || !location || !(await canAccessLocation(req, location.id))) {
+        return res.status(404).json({ error: 'Location not found' });
+      }
+
+      const qrCodes = (await storage.getQrCodesByLocation(tenantId, location.id))
+        .filter((qrCode) => qrCode.shortCode && (ids ? ids.includes(qrCode.id) : qrCode.isActive));
+      if (qrCodes.length === 0) {
+        return res.status(400).json({ error: 'No QR codes to print at this location' });
+      }
+
+      await renderQrSheet(res, tenant, location, qrCodes, parsed.data);
+    } catch (error) {
+      console.error('Error generating QR sheet:', error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: 'Failed to generate QR sheet' });
+    }
+  });
+
+  // One QR code as SVG, PNG or EPS, stored in object storage after the first
+  // download of each variant
+  app.get('/api/qr-codes/:tenantId/:id/image', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const parsed = qrImageRequestSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const tenantId = currentTenantId(req);
+      const [tenant, qrCode] = await Promise.all([storage.getTenant(tenantId), storage.getQrCode(tenantId, req.params.id)]);
+      if (!tenant || !qrCode?.shortCode || !(await canAccessLocation(req, qrCode.locationId))) {
+        return res.status(404).json({ error: 'QR code not found' });
+      }
+
+      await sendQrImage(res, tenant, qrCode, parsed.data);
+    } catch (error) {
+      if (error instanceof QrImageError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error generating QR image:', error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: 'Failed to generate QR image' });
+    }
+  });
+
+  // Re-point a QR code in place: scans and feedback already collected move
+  // with it
+  app.put('/api/qr-codes/:id', isAuthenticated, requirePermission('qr_codes:manage'), async (req, res) => {
+    try {
+      const parsed = qrCodeUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const tenantId = currentTenantId(req);
+      const qrCode = await storage.getQrCode(tenantId, req.params.id);
+      if (!qrCode || qrCode.replacedById || !(await canAccessLocation(req, qrCode.locationId))) {
+        return res.status(404).json({ error: 'QR code not found' });
+      }
+      const problem = await qrTargetProblem(req, parsed.data);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const updated = await storage.updateQrCode(tenantId, qrCode.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating QR code:', error);
+      res.status(500).json({ error: 'Failed to update QR code' });
+    }
+  });
+
+  // Hand the printed code to a new QR code record, e.g. for a new campaign,
+  // so its results start from zero while the old record keeps its history
+  app.post('/api/qr-codes/:id/rotate', isAuthenticated, requirePermission('qr_codes:manage'), async (req, res) => {
+    try {
+      const parsed = qrCodeUpdateSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const tenantId = currentTenantId(req);
+      const qrCode = await storage.getQrCode(tenantId, req.params.id);
+      if (!qrCode || !(await canAccessLocation(req, qrCode.locationId))) {
+        return res.status(404).json({ error: 'QR code not found' });
+      }
+      if (!qrCode.shortCode) {
+        return res.status(409).json({ error: 'This QR code has already been replaced' });
+      }
+      const problem = await qrTargetProblem(req, parsed.data);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const replacement = await storage.rotateQrCode(tenantId, qrCode.id, parsed.data);
+      if (!replacement) {
+        return res.status(409).json({ error: 'This QR code has already been replaced' });
+      }
+      res.json(replacement);
+    } catch (error) {
+      console.error('Error rotating QR code:', error);
+      res.status(500).json({ error: 'Failed to rotate QR code' });
+    }
+  });
+
+  // Printed short links (public). The scan is recorded here, then the browser
+  // goes on to the feedback form the code currently points at with the scan's
+  // session token. Unknown and deactivated codes land on the form's invalid
+  // link page.
+  app.get('/r/:code', async (req, res) => {
+    try {
+      const qrCode = await storage.resolveQrShortCode(req.params.code);
+      if (!qrCode || !qrCode.isActive) {
+        return res.redirect(302, '/feedback');
+      }
+
+      const sessionToken = newScanSessionToken();
+      await storage.trackQrScan(qrCode.id, qrCode.tenantId, req.ip, req.get('User-Agent'), sessionToken);
+      await webhookService.emit(qrCode.tenantId, 'qr.scanned', {
+        qrCodeId: qrCode.id,
+        locationId: qrCode.locationId,
+        scannedAt: new Date().toISOString()
+      });
+      res.redirect(302, feedbackFormPath(qrCode, sessionToken));
+    } catch (error) {
+      console.error('Error resolving QR link:', error);
+      res.status(500).send('Failed to open the feedback form');
+    }
+  });
+
+  // Funnel steps reported by the feedback form (public). Unknown sessions are
+  // ignored rather than reported, so tokens can't be probed.
+  app.post('/api/qr-scans/:session/events', async (req, res) => {
+    try {
+      const parsed = qrScanEventSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      if (req.params.session.length <= 32) {
+        await storage.recordQrScanEvent(req.params.session, parsed.data.step);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error recording QR scan event:', error);
+      res.status(500).json({ error: 'Failed to record QR scan event' });
+    }
+  });
+
+  // Object storage endpoints (simplified for now)
+  app.post('/api/objects/upload', async (req, res) => {
+    try {
+      // For now, return a mock upload URL since object storage needs proper setup
+      const mockUploadUrl = `https://storage.googleapis.com/mock-bucket/uploads/${Date.now()}.jpg`;
+      res.json({ uploadURL: mockUploadUrl });
+    } catch (error) {
+      console.error('Error getting upload URL:', error);
+      res.status(500).json({ error: 'Failed to get upload URL' });
+    }
+  });
+
+  // Get tenant with locations and metrics
+  app.get('/api/tenants/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const tenant = await storage.getTenant(currentTenantId(req));
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+
+      const locationIds = await scopedLocationIds(req);
+      const locations = (await storage.getLocationsByTenant(tenant.id))
+        .filter((location) => !locationIds || locationIds.includes(location.id));
+      const metrics = await storage.getTenantMetrics(tenant.id, locationIds);
+
+      res.json({
+        ...tenant,
+        locations,
+        metrics
+      });
+    } catch (error) {
+      console.error('Error fetching tenant:', error);
+      res.status(500).json({ error: 'Failed to fetch tenant' });
+    }
+  });
+
+  // Branding, billing and subscription settings (owners only)
+  app.put('/api/tenants/:tenantId', isAuthenticated, requireTenantAccess, requirePermission('tenant:manage'), async (req, res) => {
+    try {
+      const validatedData = insertTenantSchema.partial().parse(req.body);
+      const tenant = await storage.updateTenant(currentTenantId(req), validatedData);
+      res.json(tenant);
+    } catch (error) {
+      console.error('Error updating tenant:', error);
+      res.status(500).json({ error: 'Failed to update tenant' });
+    }
+  });
+
+  // Team members and their roles
+  app.get('/api/users/:tenantId', isAuthenticated, requireTenantAccess, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const users = await storage.getUsersByTenant(currentTenantId(req));
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  app.put('/api/users/:id/role', isAuthenticated, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const parsed = updateUserRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid role' });
+      }
+
+      const tenantId = currentTenantId(req);
+      const target = await storage.getUser(req.params.id);
+      if (!target || target.tenantId !== tenantId) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (target.id === req.user!.id) {
+        return res.status(400).json({ error: 'You cannot change your own role' });
+      }
+      // Only owners may hand out or take away the owner role
+      if ((target.role === 'owner' || parsed.data.role === 'owner') && req.user!.role !== 'owner') {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const user = await storage.updateUser(tenantId, target.id, { role: parsed.data.role });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      res.status(500).json({ error: 'Failed to update user role' });
+    }
+  });
+
+  // Team invitations (the list doubles as the audit trail of who invited whom)
+  app.get('/api/invitations/:tenantId', isAuthenticated, requireTenantAccess, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const [invitations, users] = await Promise.all([
+        storage.getInvitationsByTenant(tenantId),
+        storage.getUsersByTenant(tenantId)
+      ]);
+      const userNames = new Map(users.map((user) => [
+        user.id,
+        [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+      ]));
+
+      res.json(invitations.map((invitation) => ({
+        ...invitation,
+        status: invitationStatus(invitation),
+        invitedByName: invitation.invitedBy ? userNames.get(invitation.invitedBy) : undefined,
+        revokedByName: invitation.revokedBy ? userNames.get(invitation.revokedBy) : undefined
+      })));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({ error: 'Failed to fetch invitations' });
+    }
+  });
+
+  app.post('/api/invitations', isAuthenticated, requireTenantAccess, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const parsed = createInvitationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A valid email and role are required' });
+      }
+      if (parsed.data.role === 'owner' && req.user!.role !== 'owner') {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const tenantId = currentTenantId(req);
+      const email = parsed.data.email.toLowerCase();
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ error: 'An account with this email already exists' });
+      }
+      const existing = await storage.getInvitationsByTenant(tenantId);
+      if (existing.some((invitation) => invitation.email === email && invitationStatus(invitation) === 'pending')) {
+        return res.status(409).json({ error: 'This email already has a pending invitation' });
+      }
+
+      const tenant = await storage.getTenant(tenantId);
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+
+      const now = new Date();
+      const invitation = await storage.createInvitation({
+        tenantId,
+        email,
+        role: parsed.data.role,
+        invitedBy: req.user!.id,
+        lastSentAt: now,
+        expiresAt: invitationExpiry(now)
+      });
+      await addAuthorizedEmail(tenant, email);
+      await sendInvitation(invitation, tenant, req.user!, emailService, `${req.protocol}://${req.get('host')}`);
+
+      res.json({ ...invitation, status: invitationStatus(invitation) });
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      res.status(500).json({ error: 'Failed to create invitation' });
+    }
+  });
+
+  app.post('/api/invitations/:id/resend', isAuthenticated, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const existing = await storage.getInvitation(tenantId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+      if (existing.acceptedAt || existing.revokedAt) {
+        return res.status(400).json({ error: 'Only open invitations can be resent' });
+      }
+
+      // A new lastSentAt re-signs the link, so earlier emails stop working
+      const now = new Date();
+      const invitation = await storage.updateInvitation(tenantId, existing.id, {
+        lastSentAt: now,
+        expiresAt: invitationExpiry(now),
+        sendCount: existing.sendCount + 1
+      });
+      const tenant = await storage.getTenant(tenantId);
+      await sendInvitation(invitation!, tenant!, req.user!, emailService, `${req.protocol}://${req.get('host')}`);
+
+      res.json({ ...invitation!, status: invitationStatus(invitation!) });
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      res.status(500).json({ error: 'Failed to resend invitation' });
+    }
+  });
+
+  app.delete('/api/invitations/:id', isAuthenticated, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const existing = await storage.getInvitation(tenantId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+      if (existing.acceptedAt) {
+        return res.status(400).json({ error: 'This invitation has already been accepted' });
+      }
+
+      // Kept rather than deleted so the audit trail survives
+      const invitation = await storage.updateInvitation(tenantId, existing.id, {
+        revokedAt: new Date(),
+        revokedBy: req.user!.id
+      });
+      const tenant = await storage.getTenant(tenantId);
+      if (tenant) {
+        await removeAuthorizedEmail(tenant, existing.email);
+      }
+
+      res.json({ ...invitation!, status: invitationStatus(invitation!) });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+  });
+
+  // Public: acknowledgement links in escalation emails. The page confirms before
+  // acknowledging so that link scanners following the URL do not.
+  app.get('/api/public/alert-acknowledgements/:token', async (req, res) => {
+    try {
+      const verified = await verifyAcknowledgementToken(req.params.token);
+      const tenant = verified ? await storage.getTenant(verified.alert.tenantId) : undefined;
+      if (!verified || !tenant) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const { alert } = verified;
+      res.json({
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        createdAt: alert.createdAt,
+        isAcknowledged: alert.isAcknowledged,
+        acknowledgedAt: alert.acknowledgedAt,
+        brandName: tenant.brandName
+      });
+    } catch (error) {
+      console.error('Error fetching alert acknowledgement:', error);
+      res.status(500).json({ error: 'Failed to fetch alert' });
+    }
+  });
+
+  app.post('/api/public/alert-acknowledgements/acknowledge', async (req, res) => {
+    try {
+      const verified = typeof req.body?.token === 'string' ? await verifyAcknowledgementToken(req.body.token) : undefined;
+      if (!verified) {
+        return res.status(400).json({ error: 'This acknowledgement link is invalid or has expired' });
+      }
+
+      const { alert, user } = verified;
+      const acknowledged = await storage.acknowledgeAlertNotification(alert.tenantId, alert.id, user.id);
+      if (acknowledged) {
+        await webhookService.emit(alert.tenantId, 'alert.acknowledged', acknowledged);
+      }
+      res.json({ isAcknowledged: true, acknowledgedAt: (acknowledged || alert).acknowledgedAt });
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      res.status(500).json({ error: 'Failed to acknowledge alert' });
+    }
+  });
+
+  // Public: invite acceptance page
+  app.get('/api/public/invitations/:token', async (req, res) => {
+    try {
+      const invitation = await verifyInvitationToken(req.params.token);
+      const tenant = invitation ? await storage.getTenant(invitation.tenantId) : undefined;
+      if (!invitation || !tenant) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        status: invitationStatus(invitation),
+        expiresAt: invitation.expiresAt,
+        brandName: tenant.brandName,
+        logoUrl: tenant.logoUrl
+      });
+    } catch (error) {
+      console.error('Error fetching invitation:', error);
+      res.status(500).json({ error: 'Failed to fetch invitation' });
+    }
+  });
+
+  app.post('/api/public/invitations/accept', async (req, res) => {
+    try {
+      const parsed = acceptInvitationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Name is required and passwords must be at least 8 characters' });
+      }
+
+      const invitation = await verifyInvitationToken(parsed.data.token);
+      if (!invitation || invitationStatus(invitation) !== 'pending') {
+        return res.status(400).json({ error: 'This invitation is no longer valid' });
+      }
+      if (await storage.getUserByEmail(invitation.email)) {
+        return res.status(409).json({ error: 'An account with this email already exists' });
+      }
+
+      const user = await storage.acceptInvitation(invitation.id, invitation.lastSentAt, {
+        tenantId: invitation.tenantId,
+        email: invitation.email,
+        firstName: parsed.data.firstName,
+        lastName: parsed.data.lastName || null,
+        role: invitation.role,
+        passwordHash: parsed.data.password ? await hashPassword(parsed.data.password) : null,
+        isActive: true
+      });
+      if (!user) {
+        return res.status(400).json({ error: 'This invitation is no longer valid' });
+      }
+
+      req.login(user, async (loginErr) => {
+        if (loginErr) {
+          console.error('Error signing in invited user:', loginErr);
+          return res.status(500).json({ error: 'Failed to sign in' });
+        }
+        await storage.recordUserLogin(user.id);
+        res.json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      res.status(500).json({ error: 'Failed to accept invitation' });
+    }
+  });
+
+  // Analytics endpoints
+  app.get('/api/analytics/metrics/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const metrics = await storage.getTenantMetrics(currentTenantId(req), await scopedLocationIds(req));
+      res.json(metrics);
+    } catch (error) {
+      console.error('Error fetching metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch metrics' });
+    }
+  });
+
+  app.get('/api/analytics/cases/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const metrics = await storage.getCaseMetrics(currentTenantId(req), await scopedLocationIds(req));
+      res.json(metrics);
+    } catch (error) {
+      console.error('Error fetching case metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch case metrics' });
+    }
+  });
+
+  // Scan-to-feedback funnel per QR code, section or location
+  app.get('/api/analytics/qr-codes/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const parsed = qrFunnelRequestSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const { locationId } = parsed.data;
+      if (locationId && !(await canAccessLocation(req, locationId))) {
+        return res.status(404).json({ error: 'Location not found' });
+      }
+      const locationIds = locationId ? [locationId] : await scopedLocationIds(req);
+      res.json(await qrFunnelReport(currentTenantId(req), parsed.data, locationIds));
+    } catch (error) {
+      console.error('Error fetching QR funnel:', error);
+      res.status(500).json({ error: 'Failed to fetch QR funnel' });
+    }
+  });
+
+  app.get('/api/analytics/trends/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 7;
+      const trends = await storage.getFeedbackTrends(currentTenantId(req), days, await scopedLocationIds(req));
+      res.json(trends);
+    } catch (error) {
+      console.error('Error fetching trends:', error);
+      res.status(500).json({ error: 'Failed to fetch trends' });
+    }
+  });
+
+  // Feedback endpoints
+  app.get('/api/feedback/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const feedback = await storage.getFeedbackResponsesByTenant(currentTenantId(req), limit, await scopedLocationIds(req));
+      res.json(feedback);
+    } catch (error) {
+      console.error('Error fetching feedback:', error);
+      res.status(500).json({ error: 'Failed to fetch feedback' });
+    }
+  });
+
+  // Feedback inbox: filtered, searchable and paged newest first
+  app.get('/api/feedback/:tenantId/search', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const parsed = feedbackSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid feedback filters' });
+      }
+
+      const page = await storage.searchFeedbackResponses(currentTenantId(req), parsed.data, await scopedLocationIds(req));
+      res.json(page);
+    } catch (error) {
+      console.error('Error searching feedback:', error);
+      res.status(500).json({ error: 'Failed to search feedback' });
+    }
+  });
+
+  // Downloads as CSV, XLSX or JSON, streamed page by page. Once the download
+  // has started a failure can only cut it short, not turn into an error status.
+  app.get('/api/exports/:tenantId/feedback', isAuthenticated, requireTenantAccess, requirePermission('data:export'), async (req, res) => {
+    try {
+      const parsed = feedbackExportSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid export filters' });
+      }
+
+      const { format, ...filters } = parsed.data;
+      await exportFeedback(res, currentTenantId(req), filters, format, `${req.protocol}://${req.get('host')}`, await scopedLocationIds(req));
+    } catch (error) {
+      console.error('Error exporting feedback:', error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: 'Failed to export feedback' });
+    }
+  });
+
+  app.get('/api/exports/:tenantId/alerts', isAuthenticated, requireTenantAccess, requirePermission('data:export'), async (req, res) => {
+    try {
+      const parsed = exportRangeSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid export filters' });
+      }
+
+      await exportAlertHistory(res, currentTenantId(req), parsed.data, await scopedLocationIds(req));
+    } catch (error) {
+      console.error('Error exporting alerts:', error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: 'Failed to export alerts' });
+    }
+  });
+
+  app.get('/api/exports/:tenantId/qr-scans', isAuthenticated, requireTenantAccess, requirePermission('data:export'), async (req, res) => {
+    try {
+      const parsed = exportRangeSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid export filters' });
+      }
+
+      await exportQrScans(res, currentTenantId(req), parsed.data, await scopedLocationIds(req));
+    } catch (error) {
+      console.error('Error exporting QR scans:', error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ error: 'Failed to export QR scans' });
+    }
+  });
+
+  // Feedback cases: status, assignee and resolution reason. Resolving or closing
+  // stamps resolvedAt; reopening clears it.
+  app.patch('/api/feedback/:id/case', isAuthenticated, requirePermission('feedback:manage'), async (req, res) => {
+    try {
+      const parsed = feedbackCaseUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid case update' });
+      }
+
+      const tenantId = currentTenantId(req);
+      const existing = await storage.getFeedbackResponse(tenantId, req.params.id);
+      if (!existing || !(await canAccessLocation(req, existing.locationId))) {
+        return res.status(404).json({ error: 'Feedback not found' });
+      }
+
+      const { status, assignedTo, resolutionReason } = parsed.data;
+      if (assignedTo) {
+        const assignee = await storage.getUser(assignedTo);
+        if (!assignee || assignee.tenantId !== tenantId || !assignee.isActive || !hasPermission(assignee.role, 'feedback:manage')) {
+          return res.status(400).json({ error: 'Cases can only be assigned to active team members who manage feedback' });
+        }
+      }
+
+      const nextStatus = status ?? existing.status;
+      const nextReason = resolutionReason !== undefined ? resolutionReason : existing.resolutionReason;
+      if (nextStatus === 'resolved' && !nextReason) {
+        return res.status(400).json({ error: 'A resolution reason is required to resolve a case' });
+      }
+
+      const updated = await storage.updateFeedbackResponse(tenantId, existing.id, {
+        status: nextStatus,
+        assignedTo: assignedTo !== undefined ? assignedTo : existing.assignedTo,
+        resolutionReason: nextReason || null,
+        resolvedAt: isOpenStatus(nextStatus) ? null : existing.resolvedAt ?? new Date(),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating feedback case:', error);
+      res.status(500).json({ error: 'Failed to update feedback case' });
+    }
+  });
+
+  // Internal notes thread on a feedback case, oldest first
+  app.get('/api/feedback/:id/notes', isAuthenticated, async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const feedback = await storage.getFeedbackResponse(tenantId, req.params.id);
+      if (!feedback || !(await canAccessLocation(req, feedback.locationId))) {
+        return res.status(404).json({ error: 'Feedback not found' });
+      }
+
+      const [notes, users] = await Promise.all([
+        storage.getFeedbackNotes(tenantId, feedback.id),
+        storage.getUsersByTenant(tenantId)
+      ]);
+      const userNames = new Map(users.map((user) => [
+        user.id,
+        [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+      ]));
+
+      res.json(notes.map((note) => ({ ...note, authorName: userNames.get(note.authorId) })));
+    } catch (error) {
+      console.error('Error fetching feedback notes:', error);
+      res.status(500).json({ error: 'Failed to fetch feedback notes' });
+    }
+  });
+
+  app.post('/api/feedback/:id/notes', isAuthenticated, requirePermission('feedback:manage'), async (req, res) => {
+    try {
+      const parsed = feedbackNoteRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Note must be between 1 and 5000 characters' });
+      }
+
+      const tenantId = currentTenantId(req);
+      const feedback = await storage.getFeedbackResponse(tenantId, req.params.id);
+      if (!feedback || !(await canAccessLocation(req, feedback.locationId))) {
+        return res.status(404).json({ error: 'Feedback not found' });
+      }
+
+      const note = await storage.createFeedbackNote({
+        tenantId,
+        feedbackId: feedback.id,
+        authorId: req.user!.id,
+        body: parsed.data.body,
+      });
+      const author = req.user!;
+      res.json({ ...note, authorName: [author.firstName, author.lastName].filter(Boolean).join(' ') || author.email });
+    } catch (error) {
+      console.error('Error creating feedback note:', error);
+      res.status(500).json({ error: 'Failed to create feedback note' });
+    }
+  });
+
+  // Customer reply thread on a feedback item: staff replies by email or SMS and
+  // inbound SMS answers, oldest first
+  app.get('/api/feedback/:id/replies', isAuthenticated, async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const feedback = await storage.getFeedbackResponse(tenantId, req.params.id);
+      if (!feedback || !(await canAccessLocation(req, feedback.locationId))) {
+        return res.status(404).json({ error: 'Feedback not found' });
+      }
+
+      const [replies, users] = await Promise.all([
+        storage.getFeedbackReplies(tenantId, feedback.id),
+        storage.getUsersByTenant(tenantId)
+      ]);
+      const userNames = new Map(users.map((user) => [
+        user.id,
+        [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email
+      ]));
+
+      res.json(replies.map((reply) => ({ ...reply, senderName: reply.sentBy ? userNames.get(reply.sentBy) : undefined })));
+    } catch (error) {
+      console.error('Error fetching feedback replies:', error);
+      res.status(500).json({ error: 'Failed to fetch feedback replies' });
+    }
+  });
+
+  app.post('/api/feedback/:id/replies', isAuthenticated, requirePermission('feedback:manage'), async (req, res) => {
+    try {
+      const parsed = feedbackReplyRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Reply must be between 1 and 2000 characters and sent by email or SMS' });
+      }
+
+      const tenantId = currentTenantId(req);
+      const feedback = await storage.getFeedbackResponse(tenantId, req.params.id);
+      if (!feedback || !(await canAccessLocation(req, feedback.locationId))) {
+        return res.status(404).json({ error: 'Feedback not found' });
+      }
+      if (!replyAddress(feedback, parsed.data.channel)) {
+        return res.status(400).json({
+          error: parsed.data.channel === 'email'
+            ? 'The customer did not leave an email address'
+            : 'The customer did not leave a phone number'
+        });
+      }
+
+      const tenant = await storage.getTenant(tenantId);
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+
+      const sender = req.user!;
+      const reply = await sendCustomerReply(feedback, tenant, sender, parsed.data.channel, parsed.data.body, emailService, smsService);
+      // A failed attempt stays in the thread, but the sender should know it wasn't delivered
+      if (reply.status === 'failed') {
+        return res.status(502).json({ error: reply.error || 'Failed to deliver reply' });
+      }
+      res.json({ ...reply, senderName: [sender.firstName, sender.lastName].filter(Boolean).join(' ') || sender.email });
     } catch (error) {
-      console.error('Error fetching QR codes:', error);
-      res.status(500).json({ error: 'Failed to fetch QR codes' });
+      console.error('Error sending feedback reply:', error);
+      res.status(500).json({ error: 'Failed to send feedback reply' });
     }
   });
 
-  app.post('/api/qr-codes', async (req, res) => {
+  // Team members a case can be assigned to
+  app.get('/api/feedback-assignees/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
-      // Generate QR data URL for feedback form
-      const qrData = `${req.protocol}://${req.get('host')}/feedback?t=${req.body.tenantId}&l=${req.body.locationId}&q=${req.body.identifier}`;
-      
-      const qrCodeData = {
-        ...req.body,
-        qrData: qrData,
-        url: qrData
-      };
-      
-      const qrCode = await storage.createQrCode(qrCodeData);
-      res.json(qrCode);
+      const users = await storage.getUsersByTenant(currentTenantId(req));
+      res.json(users
+        .filter((user) => user.isActive && hasPermission(user.role, 'feedback:manage'))
+        .map((user) => ({
+          id: user.id,
+          name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+          role: user.role,
+        })));
     } catch (error) {
-      console.error('Error creating QR code:', error);
-      res.status(500).json({ error: 'Failed to create QR code' });
+      console.error('Error fetching assignees:', error);
+      res.status(500).json({ error: 'Failed to fetch assignees' });
     }
   });
 
-  // Object storage endpoints (simplified for now)
-  app.post('/api/objects/upload', async (req, res) => {
+  // CSV import of historical feedback: upload a draft, check a column mapping
+  // against it as often as needed, then start the import, which runs in the
+  // background and reports progress on the import record
+  app.get('/api/feedback-imports/:tenantId', isAuthenticated, requireTenantAccess, requirePermission('feedback:import'), async (req, res) => {
     try {
-      // For now, return a mock upload URL since object storage needs proper setup
-      const mockUploadUrl = `https://storage.googleapis.com/mock-bucket/uploads/${Date.now()}.jpg`;
-      res.json({ uploadURL: mockUploadUrl });
+      const imports = await storage.getFeedbackImportsByTenant(currentTenantId(req));
+      res.json(imports);
     } catch (error) {
-      console.error('Error getting upload URL:', error);
-      res.status(500).json({ error: 'Failed to get upload URL' });
+      console.error('Error fetching feedback imports:', error);
+      res.status(500).json({ error: 'Failed to fetch feedback imports' });
     }
   });
 
-  // Get tenant with locations and metrics
-  app.get('/api/tenants/:id', async (req, res) => {
+  // The body is the CSV itself; the file name comes in the query string
+  app.post('/api/feedback-imports', isAuthenticated, requirePermission('feedback:import'), express.text({ type: ['text/csv', 'text/plain'], limit: '20mb' }), async (req, res) => {
     try {
-      const tenant = await storage.getTenant(req.params.id);
-      if (!tenant) {
-        return res.status(404).json({ error: 'Tenant not found' });
+      if (typeof req.body !== 'string' || !req.body) {
+        return res.status(400).json({ error: 'Upload a CSV file' });
       }
 
-      const locations = await storage.getLocationsByTenant(tenant.id);
-      const metrics = await storage.getTenantMetrics(tenant.id);
+      let csv;
+      try {
+        csv = readCsv(req.body);
+      } catch (error) {
+        if (error instanceof CsvParseError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
 
-      res.json({
-        ...tenant,
-        locations,
-        metrics
+      const { source, ...feedbackImport } = await storage.createFeedbackImport({
+        tenantId: currentTenantId(req),
+        createdBy: req.user!.id,
+        fileName: String(req.query.fileName || 'import.csv').slice(0, 255),
+        source: req.body,
+        headers: csv.headers,
+        totalRows: csv.rows.length,
       });
+      res.json({ import: feedbackImport, sampleRows: csv.rows.slice(0, 5).map((row) => row.cells) });
     } catch (error) {
-      console.error('Error fetching tenant:', error);
-      res.status(500).json({ error: 'Failed to fetch tenant' });
+      console.error('Error uploading feedback import:', error);
+      res.status(500).json({ error: 'Failed to upload feedback import' });
     }
   });
 
-  // Analytics endpoints
-  app.get('/api/analytics/metrics/:tenantId', async (req, res) => {
+  app.post('/api/feedback-imports/:id/validate', isAuthenticated, requirePermission('feedback:import'), async (req, res) => {
     try {
-      const metrics = await storage.getTenantMetrics(req.params.tenantId);
-      res.json(metrics);
+      const parsed = feedbackImportMappingSchema.safeParse(req.body.mapping);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const tenantId = currentTenantId(req);
+      const feedbackImport = await storage.getFeedbackImport(tenantId, req.params.id);
+      if (!feedbackImport || feedbackImport.status !== 'draft') {
+        return res.status(404).json({ error: 'Import draft not found' });
+      }
+      const problem = await mappingProblem(tenantId, feedbackImport.headers, parsed.data);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      await storage.updateFeedbackImport(tenantId, feedbackImport.id, { mapping: parsed.data });
+      res.json(await validateFeedbackImport(feedbackImport, parsed.data));
     } catch (error) {
-      console.error('Error fetching metrics:', error);
-      res.status(500).json({ error: 'Failed to fetch metrics' });
+      console.error('Error validating feedback import:', error);
+      res.status(500).json({ error: 'Failed to validate feedback import' });
     }
   });
 
-  app.get('/api/analytics/trends/:tenantId', async (req, res) => {
+  app.post('/api/feedback-imports/:id/start', isAuthenticated, requirePermission('feedback:import'), async (req, res) => {
     try {
-      const days = parseInt(req.query.days as string) || 7;
-      const trends = await storage.getFeedbackTrends(req.params.tenantId, days);
-      res.json(trends);
+      const parsed = feedbackImportMappingSchema.safeParse(req.body.mapping);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const tenantId = currentTenantId(req);
+      const draft = await storage.getFeedbackImport(tenantId, req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      const problem = await mappingProblem(tenantId, draft.headers, parsed.data);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const started = await storage.startFeedbackImport(tenantId, draft.id, parsed.data);
+      if (!started) {
+        return res.status(409).json({ error: 'This import has already been started' });
+      }
+      runFeedbackImport(started).catch((error) => {
+        console.error('Error importing feedback:', error);
+      });
+
+      const { source, ...feedbackImport } = started;
+      res.json(feedbackImport);
     } catch (error) {
-      console.error('Error fetching trends:', error);
-      res.status(500).json({ error: 'Failed to fetch trends' });
+      console.error('Error starting feedback import:', error);
+      res.status(500).json({ error: 'Failed to start feedback import' });
     }
   });
 
-  // Feedback endpoints
-  app.get('/api/feedback/:tenantId', async (req, res) => {
+  app.delete('/api/feedback-imports/:id', isAuthenticated, requirePermission('feedback:import'), async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 50;
-      const feedback = await storage.getFeedbackResponsesByTenant(req.params.tenantId, limit);
-      res.json(feedback);
+      const deleted = await storage.deleteFeedbackImportDraft(currentTenantId(req), req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Import draft not found' });
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error('Error fetching feedback:', error);
-      res.status(500).json({ error: 'Failed to fetch feedback' });
+      console.error('Error deleting feedback import:', error);
+      res.status(500).json({ error: 'Failed to delete feedback import' });
     }
   });
 
   // Survey template endpoints
-  app.get('/api/survey-templates/:tenantId', async (req, res) => {
+  app.get('/api/survey-templates/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
-      const templates = await storage.getSurveyTemplatesByTenant(req.params.tenantId);
+      const templates = await storage.getSurveyTemplatesByTenant(currentTenantId(req));
       res.json(templates);
     } catch (error) {
       console.error('Error fetching survey templates:', error);
@@ -260,9 +1324,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/survey-templates', async (req, res) => {
+  app.post('/api/survey-templates', isAuthenticated, requireTenantAccess, requirePermission('templates:manage'), async (req, res) => {
     try {
-      const template = await storage.createSurveyTemplate(req.body);
+      const template = await storage.createSurveyTemplate({ ...req.body, tenantId: currentTenantId(req) });
       res.json(template);
     } catch (error) {
       console.error('Error creating survey template:', error);
@@ -270,9 +1334,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/survey-templates/:id', async (req, res) => {
+  app.put('/api/survey-templates/:id', isAuthenticated, requireTenantAccess, requirePermission('templates:manage'), async (req, res) => {
     try {
-      const template = await storage.updateSurveyTemplate(req.params.id, req.body);
+      const template = await storage.updateSurveyTemplate(currentTenantId(req), req.params.id, req.body);
+      if (!template) {
+        return res.status(404).json({ error: 'Survey template not found' });
+      }
       res.json(template);
     } catch (error) {
       console.error('Error updating survey template:', error);
@@ -280,9 +1347,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/survey-templates/:id', async (req, res) => {
+  app.delete('/api/survey-templates/:id', isAuthenticated, requirePermission('templates:manage'), async (req, res) => {
     try {
-      await storage.deleteSurveyTemplate(req.params.id);
+      await storage.deleteSurveyTemplate(currentTenantId(req), req.params.id);
       res.json({ success: true });
     } catch (error) {
       console.error('Error deleting survey template:', error);
@@ -337,15 +1404,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public: submitted from the QR feedback form
   app.post('/api/feedback', async (req, res) => {
     try {
-      const validatedData = insertFeedbackResponseSchema.parse(req.body);
-      const feedback = await storage.createFeedbackResponse(validatedData);
+      const { scanSession, ...validatedData } = feedbackSubmissionSchema.parse(req.body);
+
+      // The location (and QR code, if any) must belong to the tenant named in the submission
+      const location = await storage.getLocation(validatedData.tenantId, validatedData.locationId);
+      const qrCodeValid = !validatedData.qrCodeId ||
+        !!(await storage.getQrCode(validatedData.tenantId, validatedData.qrCodeId));
+      if (!location || !qrCodeValid) {
+        return res.status(400).json({ error: 'Invalid feedback link' });
+      }
+
+      // Sentiment and topic tags are set before the alert rules see the feedback
+      const topicKeywords = await tenantTopicKeywords(validatedData.tenantId);
+      const feedback = await storage.createFeedbackResponse({
+        ...validatedData,
+        ...analysisColumns(analyzeFeedback(validatedData, topicKeywords), undefined, topicKeywords)
+      });
+      if (scanSession && feedback.qrCodeId) {
+        await storage.completeQrScan(feedback.tenantId, scanSession, feedback.qrCodeId, feedback.id);
+      }
 
       // Broadcast real-time feedback event
       const feedbackEvent: NotificationEvent = {
         type: 'feedback',
         tenantId: feedback.tenantId,
+        locationId: feedback.locationId,
         data: {
           id: feedback.id,
           customerName: feedback.customerName,
@@ -358,6 +1444,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         severity: feedback.overallRating <= 2 ? 'critical' : feedback.overallRating <= 3 ? 'warning' : 'info'
       };
       wsService.broadcastToTenant(feedback.tenantId, feedbackEvent);
+      await webhookService.emit(feedback.tenantId, 'feedback.created', feedback);
 
       // Evaluate feedback against alert rules
       const alertResults = await alertRuleEngine.evaluateFeedback(feedback, feedback.tenantId);
@@ -369,17 +1456,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
             tenantId: feedback.tenantId,
             alertRuleId: result.data.ruleId,
             feedbackId: feedback.id,
+            locationId: feedback.locationId,
             title: result.data.ruleName,
             message: result.message,
             severity: result.severity
           });
 
-          // Broadcast real-time alert
-          broadcastAlert(feedback.tenantId, alert);
+          // Broadcast real-time alert and send the rule's actions
+          broadcastAlert(feedback.tenantId, alert, feedback.locationId);
+          await webhookService.emit(feedback.tenantId, 'alert.triggered', alert);
+          await queueAlertActions(alert, result.data.ruleId, feedback);
         }
       }
 
-      res.json(feedback);
+      // The token lets this submitter attach files uploaded after submitting
+      res.json({ ...feedback, filesToken: signFeedbackFiles(feedback) });
     } catch (error) {
       console.error('Error creating feedback:', error);
       res.status(500).json({ error: 'Failed to create feedback' });
@@ -416,72 +1507,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // QR Code endpoints
-  app.get('/api/qr-codes/:tenantId', async (req, res) => {
+  // Public branding and form data for the QR feedback form
+  app.get('/api/public/tenants/:tenantId', async (req, res) => {
     try {
-      const qrCodes = await storage.getQrCodesByTenant(req.params.tenantId);
-      
-      // Enhance with analytics data
-      const enhancedQrCodes = await Promise.all(
-        qrCodes.map(async (qr) => {
-          const analytics = await storage.getQrAnalytics(qr.id, 1); // Today's scans
-          const allAnalytics = await storage.getQrAnalytics(qr.id, 30); // Last 30 days
-          
-          return {
-            ...qr,
-            scansToday: analytics.length,
-            totalScans: allAnalytics.length,
-            completionRate: allAnalytics.length > 0 ? 
-              Math.round((allAnalytics.filter(a => a.completedFeedback).length / allAnalytics.length) * 100) : 0
-          };
-        })
-      );
+      const tenant = await storage.getTenant(req.params.tenantId);
+      if (!tenant || !tenant.isActive) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
 
-      res.json(enhancedQrCodes);
+      res.json({
+        id: tenant.id,
+        brandName: tenant.brandName,
+        slogan: tenant.slogan,
+        industry: tenant.industry,
+        logoUrl: tenant.logoUrl,
+        brandColors: tenant.brandColors,
+        websiteUrl: tenant.websiteUrl,
+        socialMediaLinks: tenant.socialMediaLinks
+      });
     } catch (error) {
-      console.error('Error fetching QR codes:', error);
-      res.status(500).json({ error: 'Failed to fetch QR codes' });
+      console.error('Error fetching public tenant:', error);
+      res.status(500).json({ error: 'Failed to fetch tenant' });
     }
   });
 
-  app.post('/api/qr-codes', async (req, res) => {
+  app.get('/api/public/tenants/:tenantId/locations/:locationId', async (req, res) => {
     try {
-      const { tenantId, locationId, identifier, section } = req.body;
-      
-      // Generate QR data URL
-      const qrData = `${process.env.FRONTEND_URL || 'http://localhost:5000'}/feedback?t=${tenantId}&l=${locationId}&q=${randomUUID()}`;
-      
-      // Generate QR code image
-      const qrImageData = await QRCode.toDataURL(qrData, {
-        width: 300,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        }
-      });
+      const location = await storage.getLocation(req.params.tenantId, req.params.locationId);
+      if (!location || !location.isActive) {
+        return res.status(404).json({ error: 'Location not found' });
+      }
 
-      const qrCode = await storage.createQrCode({
-        tenantId,
-        locationId,
-        identifier,
-        section,
-        qrData,
-        qrImageUrl: qrImageData, // In production, this would be uploaded to object storage
-        isActive: true
-      });
+      res.json({ id: location.id, name: location.name, address: location.address, city: location.city });
+    } catch (error) {
+      console.error('Error fetching public location:', error);
+      res.status(500).json({ error: 'Failed to fetch location' });
+    }
+  });
 
-      res.json(qrCode);
+  app.get('/api/public/tenants/:tenantId/survey-templates/:templateId', async (req, res) => {
+    try {
+      const template = await storage.getSurveyTemplate(req.params.tenantId, req.params.templateId);
+      if (!template || !template.isActive) {
+        return res.status(404).json({ error: 'Survey template not found' });
+      }
+
+      res.json({ id: template.id, name: template.name, description: template.description, fields: template.fields });
     } catch (error) {
-      console.error('Error creating QR code:', error);
-      res.status(500).json({ error: 'Failed to create QR code' });
+      console.error('Error fetching public survey template:', error);
+      res.status(500).json({ error: 'Failed to fetch survey template' });
     }
   });
 
-  // Track QR code scan
+  // Track QR code scan (public: called from the feedback form)
   app.post('/api/qr-codes/:id/scan', async (req, res) => {
     try {
-      const qrCode = await storage.getQrCode(req.params.id);
+      const qrCode = await storage.resolveQrCode(req.params.id);
       if (!qrCode) {
         return res.status(404).json({ error: 'QR code not found' });
       }
@@ -492,6 +1573,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.ip,
         req.get('User-Agent')
       );
+      await webhookService.emit(qrCode.tenantId, 'qr.scanned', {
+        qrCodeId: qrCode.id,
+        locationId: qrCode.locationId,
+        scannedAt: new Date().toISOString()
+      });
 
       res.json({ success: true });
     } catch (error) {
@@ -501,19 +1587,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Location endpoints
-  app.get('/api/locations/:tenantId', async (req, res) => {
+  app.get('/api/locations/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
-      const locations = await storage.getLocationsByTenant(req.params.tenantId);
-      res.json(locations);
+      const locationIds = await scopedLocationIds(req);
+      const locations = await storage.getLocationsByTenant(currentTenantId(req));
+      res.json(locationIds ? locations.filter((location) => locationIds.includes(location.id)) : locations);
     } catch (error) {
       console.error('Error fetching locations:', error);
       res.status(500).json({ error: 'Failed to fetch locations' });
     }
   });
 
-  app.post('/api/locations', async (req, res) => {
+  app.post('/api/locations', isAuthenticated, requireTenantAccess, requirePermission('locations:manage'), async (req, res) => {
     try {
-      const validatedData = insertLocationSchema.parse(req.body);
+      const tenantId = currentTenantId(req);
+      if (!(await isValidManager(tenantId, req.body.managerId))) {
+        return res.status(400).json({ error: 'Unknown manager' });
+      }
+
+      const validatedData = insertLocationSchema.parse({ ...req.body, tenantId });
       const location = await storage.createLocation(validatedData);
       res.json(location);
     } catch (error) {
@@ -523,9 +1615,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Survey template endpoints
-  app.get('/api/survey-templates/:tenantId', async (req, res) => {
+  app.get('/api/survey-templates/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
-      const templates = await storage.getSurveyTemplatesByTenant(req.params.tenantId);
+      const templates = await storage.getSurveyTemplatesByTenant(currentTenantId(req));
       res.json(templates);
     } catch (error) {
       console.error('Error fetching survey templates:', error);
@@ -533,9 +1625,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/survey-templates', async (req, res) => {
+  app.post('/api/survey-templates', isAuthenticated, requireTenantAccess, requirePermission('templates:manage'), async (req, res) => {
     try {
-      const validatedData = insertSurveyTemplateSchema.parse(req.body);
+      const validatedData = insertSurveyTemplateSchema.parse({ ...req.body, tenantId: currentTenantId(req) });
       const template = await storage.createSurveyTemplate(validatedData);
       res.json(template);
     } catch (error) {
@@ -545,10 +1637,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Alert endpoints
-  app.get('/api/alerts/:tenantId', async (req, res) => {
+  app.get('/api/alerts/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
-      const alerts = await storage.getAlertNotificationsByTenant(req.params.tenantId, limit);
+      const alerts = await storage.getAlertNotificationsByTenant(currentTenantId(req), limit, await scopedLocationIds(req));
       res.json(alerts);
     } catch (error) {
       console.error('Error fetching alerts:', error);
@@ -556,10 +1648,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/alert-rules', async (req, res) => {
+  app.post('/api/alert-rules', isAuthenticated, requireTenantAccess, requirePermission('rules:manage'), async (req, res) => {
     try {
-      const validatedData = insertAlertRuleSchema.parse(req.body);
+      const parsed = insertAlertRuleSchema.safeParse({ ...req.body, tenantId: currentTenantId(req) });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message, details: parsed.error.flatten() });
+      }
+      const validatedData = parsed.data;
+      const conditionErrors = validateConditions(validatedData.conditions);
+      if (conditionErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid alert rule conditions', details: conditionErrors });
+      }
       const rule = await storage.createAlertRule(validatedData);
+      alertRuleEngine.upsertRule(rule);
       res.json(rule);
     } catch (error) {
       console.error('Error creating alert rule:', error);
@@ -568,9 +1669,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark alert as read
-  app.patch('/api/alerts/:id/read', async (req, res) => {
+  app.patch('/api/alerts/:id/read', isAuthenticated, requirePermission('alerts:acknowledge'), async (req, res) => {
     try {
-      const alert = await storage.updateAlertNotification(req.params.id, { isRead: true });
+      const tenantId = currentTenantId(req);
+      const existing = await storage.getAlertNotification(tenantId, req.params.id);
+      if (!existing || !(await canAccessLocation(req, existing.locationId))) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const alert = await storage.updateAlertNotification(tenantId, req.params.id, { isRead: true });
       res.json(alert);
     } catch (error) {
       console.error('Error updating alert:', error);
@@ -578,6 +1685,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Acknowledge an alert from the dashboard; stops any escalation chain
+  app.patch('/api/alerts/:id/acknowledge', isAuthenticated, requirePermission('alerts:acknowledge'), async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const existing = await storage.getAlertNotification(tenantId, req.params.id);
+      if (!existing || !(await canAccessLocation(req, existing.locationId))) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const alert = await storage.acknowledgeAlertNotification(tenantId, existing.id, req.user!.id);
+      if (alert) {
+        await webhookService.emit(tenantId, 'alert.acknowledged', alert);
+      }
+      res.json(alert || existing);
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      res.status(500).json({ error: 'Failed to acknowledge alert' });
+    }
+  });
+
+  // Delivery log for an alert's actions
+  app.get('/api/alerts/:id/deliveries', isAuthenticated, async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const alert = await storage.getAlertNotification(tenantId, req.params.id);
+      if (!alert || !(await canAccessLocation(req, alert.locationId))) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const deliveries = await storage.getAlertDeliveries(tenantId, alert.id);
+      res.json(deliveries.map(({ payload, lockedAt, ...delivery }) => delivery));
+    } catch (error) {
+      console.error('Error fetching alert deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch alert deliveries' });
+    }
+  });
+
+  // Topic keyword dictionary: the tenant's overrides of the defaults in shared/topics.ts
+  app.get('/api/topic-keywords/:tenantId', isAuthenticated, requireTenantAccess, async (req, res) => {
+    try {
+      const tenant = await storage.getTenant(currentTenantId(req));
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+      res.json(tenant.topicKeywords || {});
+    } catch (error) {
+      console.error('Error fetching topic keywords:', error);
+      res.status(500).json({ error: 'Failed to fetch topic keywords' });
+    }
+  });
+
+  // Saving re-tags the tenant's existing feedback in the background
+  app.put('/api/topic-keywords', isAuthenticated, requireTenantAccess, requirePermission('topics:manage'), async (req, res) => {
+    try {
+      const parsed = topicKeywordsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Topics must be lowercase ids with up to 100 keywords each' });
+      }
+
+      const tenantId = currentTenantId(req);
+      const tenant = await storage.updateTenant(tenantId, { topicKeywords: parsed.data });
+      reanalyzeTenantFeedback(tenantId).catch((error) => {
+        console.error('Error re-analyzing feedback:', error);
+      });
+      res.json(tenant.topicKeywords || {});
+    } catch (error) {
+      console.error('Error updating topic keywords:', error);
+      res.status(500).json({ error: 'Failed to update topic keywords' });
+    }
+  });
+
+  // Webhook endpoints. The signing secret is only returned when an endpoint is
+  // created or its secret rotated.
+  const withoutSecret = ({ secret, ...endpoint }: WebhookEndpoint) => endpoint;
+
+  app.get('/api/webhooks/:tenantId', isAuthenticated, requireTenantAccess, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const endpoints = await storage.getWebhookEndpointsByTenant(currentTenantId(req));
+      res.json(endpoints.map(withoutSecret));
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook endpoints' });
+    }
+  });
+
+  app.post('/api/webhooks', isAuthenticated, requireTenantAccess, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const parsed = webhookEndpointRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A valid URL and at least one event are required' });
+      }
+      const urlProblem = await publicUrlProblem(parsed.data.url);
+      if (urlProblem) {
+        return res.status(400).json({ error: urlProblem });
+      }
+
+      const endpoint = await storage.createWebhookEndpoint({
+        ...parsed.data,
+        tenantId: currentTenantId(req),
+        secret: generateWebhookSecret(),
+        createdBy: req.user!.id
+      });
+      res.json(endpoint);
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      res.status(500).json({ error: 'Failed to create webhook endpoint' });
+    }
+  });
+
+  app.put('/api/webhooks/:id', isAuthenticated, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const parsed = webhookEndpointRequestSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A valid URL and at least one event are required' });
+      }
+      const urlProblem = parsed.data.url ? await publicUrlProblem(parsed.data.url) : undefined;
+      if (urlProblem) {
+        return res.status(400).json({ error: urlProblem });
+      }
+
+      const endpoint = await storage.updateWebhookEndpoint(currentTenantId(req), req.params.id, parsed.data);
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook endpoint not found' });
+      }
+      res.json(withoutSecret(endpoint));
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      res.status(500).json({ error: 'Failed to update webhook endpoint' });
+    }
+  });
+
+  app.delete('/api/webhooks/:id', isAuthenticated, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      await storage.deleteWebhookEndpoint(currentTenantId(req), req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      res.status(500).json({ error: 'Failed to delete webhook endpoint' });
+    }
+  });
+
+  app.post('/api/webhooks/:id/rotate-secret', isAuthenticated, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const endpoint = await storage.updateWebhookEndpoint(currentTenantId(req), req.params.id, {
+        secret: generateWebhookSecret()
+      });
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook endpoint not found' });
+      }
+      res.json(endpoint);
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+      res.status(500).json({ error: 'Failed to rotate webhook secret' });
+    }
+  });
+
+  // Delivery history, newest first
+  app.get('/api/webhooks/:id/deliveries', isAuthenticated, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const endpoint = await storage.getWebhookEndpoint(tenantId, req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook endpoint not found' });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const deliveries = await storage.getWebhookDeliveries(tenantId, endpoint.id, limit);
+      res.json(deliveries.map(({ lockedAt, ...delivery }) => delivery));
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+    }
+  });
+
+  app.post('/api/webhooks/deliveries/:id/redeliver', isAuthenticated, requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(currentTenantId(req), req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: 'Webhook delivery not found' });
+      }
+
+      const redelivery = await webhookService.redeliver(delivery);
+      res.json(redelivery);
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+  });
+
   // Object storage endpoints for file uploads
   const objectStorage = new ObjectStorageService();
 
@@ -604,10 +1900,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update feedback with uploaded files
+  // Update feedback with uploaded files (public: called by the feedback form
+  // right after submitting, with the filesToken POST /api/feedback returned).
+  // Files can be attached once; feedback that already has media is left alone.
   app.put("/api/feedback/:id/files", async (req, res) => {
     try {
-      const { voiceRecordingURL, imageURLs } = req.body;
+      const { voiceRecordingURL, imageURLs, tenantId, filesToken } = req.body;
+
+      if (typeof tenantId !== 'string' || typeof filesToken !== 'string' ||
+          !verifyFeedbackFilesToken(filesToken, tenantId, req.params.id)) {
+        return res.status(403).json({ error: 'This upload link is invalid or has expired' });
+      }
       
       const updates: any = {};
       
@@ -623,7 +1926,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates.imageUrls = normalizedImageURLs;
       }
 
-      const feedback = await storage.updateFeedbackResponse(req.params.id, updates);
+      const feedback = await storage.attachFeedbackFiles(tenantId, req.params.id, updates);
+      if (!feedback) {
+        return res.status(409).json({ error: 'Files have already been added to this feedback' });
+      }
       res.json(feedback);
     } catch (error) {
       console.error("Error updating feedback files:", error);
@@ -632,7 +1938,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get signed URL for file access
-  app.get("/api/objects/:filePath(*)/url", async (req, res) => {
+  app.get("/api/objects/:filePath(*)/url", isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
       const { filePath } = req.params;
       const { tenantId } = req.query;
@@ -660,7 +1966,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete file
-  app.delete("/api/objects/:filePath(*)", async (req, res) => {
+  app.delete("/api/objects/:filePath(*)", isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
       const { filePath } = req.params;
       const { tenantId } = req.query;
@@ -685,7 +1991,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get file metadata
-  app.get("/api/objects/:filePath(*)/metadata", async (req, res) => {
+  app.get("/api/objects/:filePath(*)/metadata", isAuthenticated, requireTenantAccess, async (req, res) => {
     try {
       const { filePath } = req.params;
       const { tenantId } = req.query;
@@ -709,119 +2015,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Email/SMS notification system for alerts (FR-040: Multiple notification channels)
-  async function sendAlertNotifications(rule: any, feedback: any, alert: any) {
-    try {
-      const actions = rule.actions || [];
-      
-      for (const action of actions) {
-        if (action.type === 'email' && action.recipients) {
-          try {
-            // Determine template based on alert type
-            let templateId = 'low-rating-alert';
-            if (alert.severity === 'warning') {
-              templateId = 'keyword-alert';
-            }
-            
-            // Prepare template data
-            const templateData = {
-              ruleName: alert.title,
-              rating: feedback.overallRating,
-              customerName: feedback.customerName || 'Anonymous',
-              timestamp: new Date().toLocaleString(),
-              feedbackText: feedback.feedbackText || 'No additional comments',
-              severity: alert.severity,
-              locationName: 'Main Location', // This would come from location data
-              dashboardUrl: `${process.env.FRONTEND_URL || 'http://localhost:5000'}/dashboard`,
-              unsubscribeUrl: `${process.env.FRONTEND_URL || 'http://localhost:5000'}/unsubscribe`
-            };
-            
-            // Send email using template
-            await emailService.sendTemplateEmail(
-              templateId,
-              action.recipients,
-              templateData,
-              {
-                from: action.fromEmail || process.env.FROM_EMAIL || 'alerts@feedbackplatform.com'
-              },
-              alert.severity === 'critical' ? 'urgent' : 'normal'
-            );
-            
-            console.log('Email alert sent successfully');
-          } catch (emailError) {
-            console.error('Email alert failed:', emailError);
-          }
-        }
-        
-        if (action.type === 'sms' && action.phoneNumbers) {
-          try {
-            // Determine SMS template based on alert type
-            let templateId = 'critical-alert';
-            if (alert.severity === 'warning') {
-              templateId = 'warning-alert';
-            }
-            
-            // Prepare template data
-            const templateData = {
-              ruleName: alert.title,
-              rating: feedback.overallRating,
-              customerName: feedback.customerName || 'Anonymous',
-              message: alert.message,
-              dashboardUrl: `${process.env.FRONTEND_URL || 'http://localhost:5000'}/dashboard`
-            };
-            
-            // Send SMS to each phone number
-            for (const phoneNumber of action.phoneNumbers) {
-              // Check if number is opted in
-              if (smsService.isOptedIn(phoneNumber)) {
-                await smsService.sendTemplateSMS(
-                  templateId,
-                  phoneNumber,
-                  templateData,
-                  {
-                    priority: alert.severity === 'critical' ? 'urgent' : 'normal'
-                  }
-                );
-              } else {
-                console.log(`SMS not sent to ${phoneNumber} - not opted in`);
-              }
-            }
-            
-            console.log('SMS alerts sent successfully');
-          } catch (smsError) {
-            console.error('SMS alert failed:', smsError);
-          }
-        }
-        
-        if (action.type === 'webhook' && action.url) {
-          // Send webhook notification
-          try {
-            await fetch(action.url, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                alert,
-                feedback,
-                timestamp: new Date().toISOString()
-              })
-            });
-            console.log('Webhook alert sent successfully');
-          } catch (webhookError) {
-            console.error('Webhook alert failed:', webhookError);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error sending alert notifications:', error);
-    }
-  }
-
-  // WebSocket stats endpoint
-  app.get('/api/websocket/stats', (req, res) => {
+  // WebSocket stats endpoint, for the signed-in user's tenant
+  app.get('/api/websocket/stats', isAuthenticated, (req, res) => {
     try {
-      const stats = wsService.getStats();
+      const stats = wsService.getStats(currentTenantId(req));
       res.json(stats);
     } catch (error) {
       console.error('Error getting WebSocket stats:', error);
@@ -829,10 +2026,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Alert Rule Engine stats endpoint
-  app.get('/api/alerts/engine/stats', (req, res) => {
+  // Alert Rule Engine stats endpoint, for the signed-in user's tenant
+  app.get('/api/alerts/engine/stats', isAuthenticated, (req, res) => {
     try {
-      const stats = alertRuleEngine.getStats();
+      const stats = alertRuleEngine.getStats(currentTenantId(req));
       res.json(stats);
     } catch (error) {
       console.error('Error getting Alert Rule Engine stats:', error);
@@ -841,9 +2038,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get alert rules for a tenant
-  app.get('/api/alerts/rules/:tenantId', async (req, res) => {
+  app.get('/api/alerts/rules/:tenantId', isAuthenticated, requireTenantAccess, requirePermission('rules:view'), async (req, res) => {
     try {
-      const rules = await storage.getAlertRulesByTenant(req.params.tenantId);
+      const rules = await storage.getAlertRulesByTenant(currentTenantId(req));
       res.json(rules);
     } catch (error) {
       console.error('Error fetching alert rules:', error);
@@ -852,23 +2049,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create alert rule
-  app.post('/api/alerts/rules', async (req, res) => {
+  app.post('/api/alerts/rules', isAuthenticated, requireTenantAccess, requirePermission('rules:manage'), async (req, res) => {
     try {
-      const validatedData = insertAlertRuleSchema.parse(req.body);
+      const parsed = insertAlertRuleSchema.safeParse({ ...req.body, tenantId: currentTenantId(req) });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message, details: parsed.error.flatten() });
+      }
+      const validatedData = parsed.data;
+      const conditionErrors = validateConditions(validatedData.conditions);
+      if (conditionErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid alert rule conditions', details: conditionErrors });
+      }
       const rule = await storage.createAlertRule(validatedData);
       
       // Add rule to the engine
-      alertRuleEngine.addRule({
-        id: rule.id,
-        name: rule.name,
-        description: rule.description || undefined,
-        tenantId: rule.tenantId,
-        conditions: rule.conditions as any,
-        actions: rule.actions as any,
-        isActive: rule.isActive,
-        priority: 'medium',
-        cooldownPeriod: 30
-      });
+      alertRuleEngine.upsertRule(rule);
       
       res.json(rule);
     } catch (error) {
@@ -878,24 +2073,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update alert rule
-  app.put('/api/alerts/rules/:id', async (req, res) => {
+  app.put('/api/alerts/rules/:id', isAuthenticated, requireTenantAccess, requirePermission('rules:manage'), async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = insertAlertRuleSchema.partial().parse(req.body);
-      const rule = await storage.updateAlertRule(id, validatedData);
+      const parsed = insertAlertRuleSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message, details: parsed.error.flatten() });
+      }
+      const validatedData = parsed.data;
+      const conditionErrors = validatedData.conditions === undefined ? [] : validateConditions(validatedData.conditions);
+      if (conditionErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid alert rule conditions', details: conditionErrors });
+      }
+      const rule = await storage.updateAlertRule(currentTenantId(req), id, validatedData);
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
       
       // Update rule in the engine
-      alertRuleEngine.addRule({
-        id: rule.id,
-        name: rule.name,
-        description: rule.description || undefined,
-        tenantId: rule.tenantId,
-        conditions: rule.conditions as any,
-        actions: rule.actions as any,
-        isActive: rule.isActive,
-        priority: 'medium',
-        cooldownPeriod: 30
-      });
+      alertRuleEngine.upsertRule(rule);
       
       res.json(rule);
     } catch (error) {
@@ -905,13 +2101,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete alert rule
-  app.delete('/api/alerts/rules/:id', async (req, res) => {
+  app.delete('/api/alerts/rules/:id', isAuthenticated, requirePermission('rules:manage'), async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteAlertRule(id);
+      const deleted = await storage.deleteAlertRule(currentTenantId(req), id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
       
       // Remove rule from the engine
-      alertRuleEngine.removeRule(id);
+      alertRuleEngine.removeRule(currentTenantId(req), id);
       
       res.json({ message: 'Alert rule deleted successfully' });
     } catch (error) {
@@ -921,25 +2120,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test alert rule
-  app.post('/api/alerts/rules/:id/test', async (req, res) => {
+  app.post('/api/alerts/rules/:id/test', isAuthenticated, requirePermission('rules:manage'), async (req, res) => {
     try {
       const { id } = req.params;
-      const testFeedback = req.body.feedback;
+      // Volume and silence conditions count the rule's own tenant, whatever the sample says
+      const testFeedback = { ...req.body.feedback, tenantId: currentTenantId(req) };
       
       // Get the rule
-      const rule = await storage.getAlertRule(id);
+      const rule = await storage.getAlertRule(currentTenantId(req), id);
       if (!rule) {
         return res.status(404).json({ error: 'Alert rule not found' });
       }
       
-      // Test the rule against the provided feedback
-      const results = await alertRuleEngine.evaluateFeedback(testFeedback, rule.tenantId);
-      const ruleResult = results.find(r => r.data.ruleId === id);
+      // Test the rule against the provided feedback; this neither checks nor starts its cooldown
+      const result = await alertRuleEngine.testRule(toAlertRuleConfig(rule), testFeedback);
       
       res.json({
-        triggered: ruleResult?.triggered || false,
-        message: ruleResult?.message || 'Rule did not trigger',
-        severity: ruleResult?.severity || 'info'
+        triggered: result.triggered,
+        message: result.message || 'Rule did not trigger',
+        severity: result.severity
       });
     } catch (error) {
       console.error('Error testing alert rule:', error);
@@ -947,8 +2146,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Alert channel preferences of the signed-in user. The alert dispatcher
+  // finds them by the user's email address, the extra address and the phone
+  // number saved here.
+  app.get('/api/notification-preferences', isAuthenticated, async (req, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(currentTenantId(req), req.user!.id);
+      res.json(preferences?.settings ?? defaultNotificationSettings);
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      res.status(500).json({ error: 'Failed to fetch notification preferences' });
+    }
+  });
+
+  app.put('/api/notification-preferences', isAuthenticated, async (req, res) => {
+    try {
+      const parsed = notificationSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const settings = parsed.data;
+      const preferences = await storage.saveNotificationPreferences({
+        userId: req.user!.id,
+        tenantId: currentTenantId(req),
+        settings,
+        emailAddress: settings.email.address ? settings.email.address.toLowerCase() : null,
+        phoneKey: settings.sms.phoneNumber ? phoneNumberKey(settings.sms.phoneNumber) : null,
+      });
+      res.json(preferences.settings);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      res.status(500).json({ error: 'Failed to save notification preferences' });
+    }
+  });
+
+  // Digest subscriptions of the signed-in user. A digest covers one location
+  // or, without one, every location the user can see.
+  app.get('/api/digest-subscriptions', isAuthenticated, async (req, res) => {
+    try {
+      const subscriptions = await storage.getDigestSubscriptionsByUser(currentTenantId(req), req.user!.id);
+      res.json(subscriptions);
+    } catch (error) {
+      console.error('Error fetching digest subscriptions:', error);
+      res.status(500).json({ error: 'Failed to fetch digest subscriptions' });
+    }
+  });
+
+  app.post('/api/digest-subscriptions', isAuthenticated, async (req, res) => {
+    try {
+      const parsed = digestSubscriptionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const { frequency, locationId } = parsed.data;
+      const tenantId = currentTenantId(req);
+
+      if (locationId) {
+        const location = await storage.getLocation(tenantId, locationId);
+        if (!location || !(await canAccessLocation(req, location.id))) {
+          return res.status(404).json({ error: 'Location not found' });
+        }
+      }
+      const existing = await storage.getDigestSubscriptionsByUser(tenantId, req.user!.id);
+      if (existing.some((subscription) => subscription.frequency === frequency && subscription.locationId === (locationId ?? null))) {
+        return res.status(409).json({ error: 'You already receive this digest' });
+      }
+
+      const subscription = await storage.createDigestSubscription({
+        tenantId,
+        userId: req.user!.id,
+        locationId: locationId ?? null,
+        frequency,
+        nextSendAt: nextDigestAt(frequency),
+      });
+      res.json(subscription);
+    } catch (error) {
+      console.error('Error creating digest subscription:', error);
+      res.status(500).json({ error: 'Failed to create digest subscription' });
+    }
+  });
+
+  app.patch('/api/digest-subscriptions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const parsed = digestSubscriptionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const tenantId = currentTenantId(req);
+      const subscription = await storage.getDigestSubscription(tenantId, req.params.id);
+      if (!subscription || subscription.userId !== req.user!.id) {
+        return res.status(404).json({ error: 'Digest subscription not found' });
+      }
+
+      // A new frequency or a resumed digest starts from the next regular send
+      const frequency = parsed.data.frequency ?? subscription.frequency as DigestFrequency;
+      const updated = await storage.updateDigestSubscription(tenantId, subscription.id, {
+        ...parsed.data,
+        nextSendAt: nextDigestAt(frequency),
+        lastError: parsed.data.isActive ? null : subscription.lastError,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating digest subscription:', error);
+      res.status(500).json({ error: 'Failed to update digest subscription' });
+    }
+  });
+
+  app.delete('/api/digest-subscriptions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const tenantId = currentTenantId(req);
+      const subscription = await storage.getDigestSubscription(tenantId, req.params.id);
+      if (!subscription || subscription.userId !== req.user!.id) {
+        return res.status(404).json({ error: 'Digest subscription not found' });
+      }
+      await storage.deleteDigestSubscription(tenantId, subscription.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting digest subscription:', error);
+      res.status(500).json({ error: 'Failed to delete digest subscription' });
+    }
+  });
+
   // Email service endpoints
-  app.get('/api/email/stats', (req, res) => {
+  app.get('/api/email/stats', isAuthenticated, (req, res) => {
     try {
       const stats = emailService.getStats();
       res.json(stats);
@@ -958,7 +2278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/email/templates', (req, res) => {
+  app.get('/api/email/templates', isAuthenticated, (req, res) => {
     try {
       const templates = emailService.getAllTemplates();
       res.json(templates);
@@ -968,7 +2288,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/email/send', async (req, res) => {
+  app.post('/api/email/send', isAuthenticated, requirePermission('messaging:send'), async (req, res) => {
     try {
       const { to, subject, html, text, templateId, templateData } = req.body;
       
@@ -990,7 +2310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/email/queue', (req, res) => {
+  app.post('/api/email/queue', isAuthenticated, requirePermission('messaging:send'), (req, res) => {
     try {
       const { to, subject, html, text, templateId, templateData, priority, delayMinutes } = req.body;
       
@@ -1013,7 +2333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/email/queue/:emailId', (req, res) => {
+  app.delete('/api/email/queue/:emailId', isAuthenticated, requirePermission('messaging:send'), (req, res) => {
     try {
       const { emailId } = req.params;
       const cancelled = emailService.cancelEmail(emailId);
@@ -1030,9 +2350,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // SMS service endpoints
-  app.get('/api/sms/stats', (req, res) => {
+  app.get('/api/sms/stats', isAuthenticated, async (req, res) => {
     try {
-      const stats = smsService.getStats();
+      const stats = await smsService.getStats(currentTenantId(req));
       res.json(stats);
     } catch (error) {
       console.error('Error getting SMS stats:', error);
@@ -1040,7 +2360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/sms/templates', (req, res) => {
+  app.get('/api/sms/templates', isAuthenticated, (req, res) => {
     try {
       const templates = smsService.getAllTemplates();
       res.json(templates);
@@ -1050,17 +2370,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/sms/send', async (req, res) => {
+  app.post('/api/sms/send', isAuthenticated, requirePermission('messaging:send'), async (req, res) => {
     try {
       const { to, message, templateId, templateData } = req.body;
       
       if (templateId) {
-        const deliveryStatus = await smsService.sendTemplateSMS(templateId, to, templateData || {});
+        const deliveryStatus = await smsService.sendTemplateSMS(templateId, to, templateData || {}, { tenantId: currentTenantId(req) });
         res.json(deliveryStatus);
       } else {
         const deliveryStatus = await smsService.sendSMS({
           to,
-          message
+          message,
+          tenantId: currentTenantId(req)
         });
         res.json(deliveryStatus);
       }
@@ -1070,18 +2391,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/sms/queue', (req, res) => {
+  app.post('/api/sms/queue', isAuthenticated, requirePermission('messaging:send'), (req, res) => {
     try {
       const { to, message, templateId, templateData, priority, delayMinutes } = req.body;
       
       let smsId: string;
       if (templateId) {
-        smsId = smsService.queueTemplateSMS(templateId, to, templateData || {}, {}, delayMinutes || 0);
+        smsId = smsService.queueTemplateSMS(templateId, to, templateData || {}, { tenantId: currentTenantId(req) }, delayMinutes || 0);
       } else {
         smsId = smsService.queueSMS({
           to,
           message,
-          priority: priority || 'normal'
+          priority: priority || 'normal',
+          tenantId: currentTenantId(req)
         }, delayMinutes || 0);
       }
       
@@ -1092,7 +2414,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/sms/queue/:smsId', (req, res) => {
+  app.delete('/api/sms/queue/:smsId', isAuthenticated, requirePermission('messaging:send'), (req, res) => {
     try {
       const { smsId } = req.params;
       const cancelled = smsService.cancelSMS(smsId);
@@ -1109,10 +2431,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // SMS opt-in/opt-out endpoints
-  app.post('/api/sms/opt-in', (req, res) => {
+  app.post('/api/sms/opt-in', isAuthenticated, requireTenantAccess, requirePermission('messaging:send'), async (req, res) => {
     try {
-      const { phoneNumber, tenantId, source } = req.body;
-      smsService.optIn(phoneNumber, tenantId, source || 'api');
+      const { phoneNumber, source } = req.body;
+      await smsService.optIn(phoneNumber, currentTenantId(req), source || 'api');
       res.json({ message: 'Successfully opted in to SMS alerts' });
     } catch (error) {
       console.error('Error opting in to SMS:', error);
@@ -1120,10 +2442,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/sms/opt-out', (req, res) => {
+  app.post('/api/sms/opt-out', isAuthenticated, requireTenantAccess, requirePermission('messaging:send'), async (req, res) => {
     try {
-      const { phoneNumber, tenantId, reason } = req.body;
-      smsService.optOut(phoneNumber, tenantId, reason);
+      const { phoneNumber, reason } = req.body;
+      await smsService.optOut(phoneNumber, currentTenantId(req), reason);
       res.json({ message: 'Successfully opted out of SMS alerts' });
     } catch (error) {
       console.error('Error opting out of SMS:', error);
@@ -1131,11 +2453,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/sms/opt-status/:phoneNumber', (req, res) => {
+  app.get('/api/sms/opt-status/:phoneNumber', isAuthenticated, async (req, res) => {
     try {
       const { phoneNumber } = req.params;
-      const isOptedIn = smsService.isOptedIn(phoneNumber);
-      const isOptedOut = smsService.isOptedOut(phoneNumber);
+      const isOptedIn = await smsService.isOptedIn(phoneNumber, currentTenantId(req));
+      const isOptedOut = await smsService.isOptedOut(phoneNumber, currentTenantId(req));
       
       res.json({
         phoneNumber,
@@ -1150,7 +2472,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Twilio webhook for incoming SMS (opt-in/opt-out)
-  app.post('/api/sms/webhook', (req, res) => {
+  app.post('/api/sms/webhook', async (req, res) => {
     try {
       const { From, Body, To } = req.body;
       const tenantId = req.query.tenantId as string;
@@ -1158,8 +2480,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!tenantId) {
         return res.status(400).json({ error: 'tenantId is required' });
       }
+
+      const url = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+      if (!smsService.isValidWebhookRequest(req.get('X-Twilio-Signature'), url, req.body)) {
+        return res.status(403).json({ error: 'Invalid webhook signature' });
+      }
       
-      const result = smsService.handleIncomingSMS(From, Body, tenantId);
+      const result = await smsService.handleIncomingSMS(From, Body, tenantId);
+
+      // Anything other than a keyword is a customer answering a reply
+      if (result.action === 'none') {
+        await recordInboundSms(tenantId, From, Body, req.body.MessageSid);
+      }
       
       // Send response SMS if needed
       if (result.response) {
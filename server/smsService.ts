@@ -1,4 +1,6 @@
 import twilio from 'twilio';
+import { storage } from './storage';
+import type { SmsConsentSource } from '@shared/schema';
 
 export interface SMSTemplate {
   id: string;
@@ -15,6 +17,7 @@ export interface SMSRequest {
   templateId?: string;
   templateData?: Record<string, any>;
   priority?: 'low' | 'normal' | 'high' | 'urgent';
+  tenantId?: string; // when set, numbers that opted out of this tenant's SMS are refused
 }
 
 export interface SMSDeliveryStatus {
@@ -38,34 +41,24 @@ export interface SMSQueueItem {
   deliveryStatus?: SMSDeliveryStatus;
 }
 
-export interface SMSOptIn {
-  phoneNumber: string;
-  tenantId: string;
-  optInDate: Date;
-  optInSource: 'web' | 'sms' | 'api';
-  isActive: boolean;
-  lastMessageDate?: Date;
-}
-
-export interface SMSOptOut {
-  phoneNumber: string;
-  tenantId: string;
-  optOutDate: Date;
-  optOutReason?: string;
+// Opt-in/out lists are keyed on the last ten digits so that a STOP from
+// "+15550100199" also covers a number stored as "(555) 010-0199"
+export function phoneNumberKey(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '').slice(-10);
 }
 
 export class SMSService {
   private client: twilio.Twilio | null = null;
+  private authToken: string;
   private fromNumber: string;
   private templates: Map<string, SMSTemplate> = new Map();
   private queue: SMSQueueItem[] = [];
   private isProcessing = false;
   private processingInterval?: NodeJS.Timeout;
   private deliveryTracking: Map<string, SMSDeliveryStatus> = new Map();
-  private optIns: Map<string, SMSOptIn> = new Map();
-  private optOuts: Map<string, SMSOptOut> = new Map();
 
   constructor(accountSid: string, authToken: string, fromNumber: string) {
+    this.authToken = authToken;
     this.fromNumber = fromNumber;
     
     if (accountSid && authToken) {
@@ -106,6 +99,13 @@ export class SMSService {
         variables: ['ruleName', 'feedbackCount', 'timeWindow', 'averageRating', 'dashboardUrl'],
         maxLength: 160
       },
+      {
+        id: 'alert-escalation',
+        name: 'Alert Escalation',
+        message: '⏫ ESCALATED: {{ruleName}} unacknowledged for {{minutesOpen}}min - {{message}} View: {{dashboardUrl}}',
+        variables: ['ruleName', 'minutesOpen', 'message', 'dashboardUrl'],
+        maxLength: 160
+      },
       {
         id: 'opt-in-confirmation',
         name: 'Opt-in Confirmation',
@@ -134,7 +134,7 @@ export class SMSService {
     }
 
     // Check if number is opted out
-    if (this.isOptedOut(request.to)) {
+    if (request.tenantId && await this.isOptedOut(request.to, request.tenantId)) {
       throw new Error('Phone number has opted out of SMS');
     }
 
@@ -155,9 +155,6 @@ export class SMSService {
       };
 
       this.deliveryTracking.set(deliveryStatus.messageId, deliveryStatus);
-      
-      // Update opt-in last message date
-      this.updateOptInLastMessage(request.to);
 
       return deliveryStatus;
 
@@ -303,61 +300,54 @@ export class SMSService {
     return Array.from(this.deliveryTracking.values());
   }
 
-  // Opt-in management
-  public optIn(phoneNumber: string, tenantId: string, source: 'web' | 'sms' | 'api' = 'api'): void {
-    const optIn: SMSOptIn = {
-      phoneNumber,
+  // Opt-in management. Kept per tenant in the database, so a STOP to one
+  // tenant leaves the number's other tenants alone and survives restarts.
+  public async optIn(phoneNumber: string, tenantId: string, source: SmsConsentSource = 'api'): Promise<void> {
+    await storage.setSmsConsent({
       tenantId,
-      optInDate: new Date(),
-      optInSource: source,
-      isActive: true
-    };
-    
-    this.optIns.set(phoneNumber, optIn);
-    
-    // Remove from opt-outs if exists
-    this.optOuts.delete(phoneNumber);
-  }
-
-  public optOut(phoneNumber: string, tenantId: string, reason?: string): void {
-    const optOut: SMSOptOut = {
+      numberKey: phoneNumberKey(phoneNumber),
       phoneNumber,
-      tenantId,
-      optOutDate: new Date(),
-      optOutReason: reason
-    };
-    
-    this.optOuts.set(phoneNumber, optOut);
-    
-    // Remove from opt-ins if exists
-    this.optIns.delete(phoneNumber);
+      status: 'opted_in',
+      source,
+      reason: null
+    });
   }
 
-  public isOptedIn(phoneNumber: string): boolean {
-    return this.optIns.has(phoneNumber) && this.optIns.get(phoneNumber)!.isActive;
+  public async optOut(phoneNumber: string, tenantId: string, reason?: string, source: SmsConsentSource = 'api'): Promise<void> {
+    await storage.setSmsConsent({
+      tenantId,
+      numberKey: phoneNumberKey(phoneNumber),
+      phoneNumber,
+      status: 'opted_out',
+      source,
+      reason: reason || null
+    });
   }
 
-  public isOptedOut(phoneNumber: string): boolean {
-    return this.optOuts.has(phoneNumber);
+  public async isOptedIn(phoneNumber: string, tenantId: string): Promise<boolean> {
+    const consent = await storage.getSmsConsent(tenantId, phoneNumberKey(phoneNumber));
+    return consent?.status === 'opted_in';
   }
 
-  private updateOptInLastMessage(phoneNumber: string): void {
-    const optIn = this.optIns.get(phoneNumber);
-    if (optIn) {
-      optIn.lastMessageDate = new Date();
-    }
+  public async isOptedOut(phoneNumber: string, tenantId: string): Promise<boolean> {
+    const consent = await storage.getSmsConsent(tenantId, phoneNumberKey(phoneNumber));
+    return consent?.status === 'opted_out';
   }
 
   // Get opt-in/opt-out statistics
-  public getOptInStats(): any {
+  public async getOptInStats(tenantId: string): Promise<any> {
+    const counts = await storage.getSmsConsentCounts(tenantId);
+    const total = (status: string, source?: string) => counts
+      .filter(c => c.status === status && (!source || c.source === source))
+      .reduce((sum, c) => sum + c.count, 0);
     return {
-      totalOptIns: this.optIns.size,
-      activeOptIns: Array.from(this.optIns.values()).filter(o => o.isActive).length,
-      totalOptOuts: this.optOuts.size,
+      totalOptIns: total('opted_in'),
+      activeOptIns: total('opted_in'),
+      totalOptOuts: total('opted_out'),
       optInsBySource: {
-        web: Array.from(this.optIns.values()).filter(o => o.optInSource === 'web').length,
-        sms: Array.from(this.optIns.values()).filter(o => o.optInSource === 'sms').length,
-        api: Array.from(this.optIns.values()).filter(o => o.optInSource === 'api').length
+        web: total('opted_in', 'web'),
+        sms: total('opted_in', 'sms'),
+        api: total('opted_in', 'api')
       }
     };
   }
@@ -409,7 +399,8 @@ export class SMSService {
       to,
       from: options.from || this.fromNumber,
       message,
-      priority: options.priority || 'normal'
+      priority: options.priority || 'normal',
+      tenantId: options.tenantId
     };
 
     return this.sendSMS(request);
@@ -423,18 +414,28 @@ export class SMSService {
       to,
       from: options.from || this.fromNumber,
       message,
-      priority: options.priority || 'normal'
+      priority: options.priority || 'normal',
+      tenantId: options.tenantId
     };
 
     return this.queueSMS(request, delayMinutes);
   }
 
+  // Check the X-Twilio-Signature of an incoming webhook against the full URL
+  // Twilio called and the posted form fields. Without an auth token there is
+  // nothing to check against, so unsigned requests are only accepted in local
+  // development and refused everywhere else.
+  public isValidWebhookRequest(signature: string | undefined, url: string, params: Record<string, any>): boolean {
+    if (!this.authToken) return process.env.NODE_ENV === 'development';
+    return !!signature && twilio.validateRequest(this.authToken, signature, url, params);
+  }
+
   // Handle incoming SMS (for opt-in/opt-out)
-  public handleIncomingSMS(from: string, body: string, tenantId: string): { response?: string; action: 'opt-in' | 'opt-out' | 'none' } {
+  public async handleIncomingSMS(from: string, body: string, tenantId: string): Promise<{ response?: string; action: 'opt-in' | 'opt-out' | 'none' }> {
     const message = body.toLowerCase().trim();
     
     if (message === 'start' || message === 'subscribe' || message === 'yes') {
-      this.optIn(from, tenantId, 'sms');
+      await this.optIn(from, tenantId, 'sms');
       return {
         response: this.renderTemplate('opt-in-confirmation', { companyName: 'Feedback Platform' }),
         action: 'opt-in'
@@ -442,7 +443,7 @@ export class SMSService {
     }
     
     if (message === 'stop' || message === 'unsubscribe' || message === 'no') {
-      this.optOut(from, tenantId, 'SMS request');
+      await this.optOut(from, tenantId, 'SMS request', 'sms');
       return {
         response: this.renderTemplate('opt-out-confirmation', { companyName: 'Feedback Platform' }),
         action: 'opt-out'
@@ -464,7 +465,7 @@ export class SMSService {
   }
 
   // Get service statistics
-  public getStats(): any {
+  public async getStats(tenantId: string): Promise<any> {
     return {
       queueStatus: this.getQueueStatus(),
       deliveryTracking: {
@@ -474,7 +475,7 @@ export class SMSService {
         failed: Array.from(this.deliveryTracking.values()).filter(s => s.status === 'failed').length
       },
       templates: this.templates.size,
-      optInStats: this.getOptInStats(),
+      optInStats: await this.getOptInStats(tenantId),
       isConfigured: !!this.client
     };
   }
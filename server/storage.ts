@@ -6,8 +6,20 @@ import {
   qrCodes,
   feedbackResponses,
   alertRules,
+  alertRuleCooldowns,
   alertNotifications,
   qrAnalytics,
+  authTokens,
+  invitations,
+  alertDeliveries,
+  webhookEndpoints,
+  webhookDeliveries,
+  feedbackNotes,
+  feedbackReplies,
+  smsConsents,
+  feedbackImports,
+  digestSubscriptions,
+  notificationPreferences,
   type Tenant,
   type InsertTenant,
   type User,
@@ -25,9 +37,128 @@ import {
   type AlertNotification,
   type InsertAlertNotification,
   type QrAnalytic,
+  type AuthToken,
+  type InsertAuthToken,
+  type Invitation,
+  type InsertInvitation,
+  type AlertDelivery,
+  type InsertAlertDelivery,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type FeedbackSearch,
+  type FeedbackFilters,
+  type ExportRange,
+  type FeedbackNote,
+  type InsertFeedbackNote,
+  type FeedbackReply,
+  type InsertFeedbackReply,
+  type SmsConsent,
+  type InsertSmsConsent,
+  type FeedbackImport,
+  type FeedbackImportSummary,
+  type InsertFeedbackImport,
+  type DigestSubscription,
+  type InsertDigestSubscription,
+  type NotificationPreference,
+  type InsertNotificationPreference,
 } from "@shared/schema";
+import { openFeedbackStatuses } from "@shared/cases";
+import type { QrFunnelCounts, QrScanEvent } from "@shared/qrFunnel";
 import { db } from "./db";
-import { eq, and, desc, count, avg, sql } from "drizzle-orm";
+import { eq, and, or, desc, count, avg, max, sql, isNull, isNotNull, inArray, arrayContains, gte, lte, lt, getTableColumns } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+// Every tenant-owned record is read and written through a (tenantId, id) pair so
+// that a caller holding another tenant's id can never reach it. The only
+// unscoped lookups are the identity ones used by authentication (getUser,
+// getUserByEmail), resolveQrCode / resolveQrShortCode / resolveInvitation, which the public scan
+// and invite-acceptance flows need before a tenant is known,
+// getTakenQrShortCodes, as short codes are unique across tenants,
+// recordQrScanEvent, which the public feedback form reports against the scan's
+// unguessable session token, and the
+// background jobs: getAllAlertRules, which the rule engine loads at startup,
+// and the queue claims the alert dispatcher and webhook service poll
+// (claimDueAlertDeliveries, claimDueAlertEscalations, claimDueWebhookDeliveries,
+// claimDueDigestSubscriptions), getUnanalyzedFeedback, which the startup sentiment backfill walks, and
+// getUnfinishedFeedbackImports, which resumes CSV imports after a restart.
+//
+// List and analytics methods take an optional locationIds argument that narrows
+// the result to those locations (used for location managers); leaving it out
+// covers the whole tenant.
+
+// One page of the feedback inbox; nextCursor is null on the last page
+export interface FeedbackPage {
+  items: FeedbackResponse[];
+  nextCursor: string | null;
+}
+
+// Exports walk alert history and QR scans newest first, a page at a time
+export interface PageRequest {
+  cursor?: string;
+  limit: number;
+}
+
+export interface AlertNotificationPage {
+  items: AlertNotification[];
+  nextCursor: string | null;
+}
+
+export interface QrScanPage {
+  items: QrAnalytic[];
+  nextCursor: string | null;
+}
+
+// Dashboard summary of the case workflow; time to resolution covers cases
+// resolved or closed in the last 30 days and is null when there were none
+export interface CaseMetrics {
+  openCases: number;
+  unassignedCases: number;
+  openByLocation: Array<{ locationId: string; locationName: string; openCases: number }>;
+  averageResolutionHours: number | null;
+  resolvedLast30Days: number;
+}
+
+// Funnel counts for one QR code's scans over a period
+export interface QrScanFunnel {
+  qrCodeId: string;
+  lastScannedAt: Date | null;
+  counts: QrFunnelCounts;
+}
+
+export interface QrCodeBatchResult {
+  qrCodes: QrCode[];
+  duplicates: string[]; // identifiers already in use; nothing was created
+}
+
+// Average rating per location over a period, lowest first
+export interface LocationRating {
+  locationId: string;
+  locationName: string;
+  averageRating: number;
+  responseCount: number;
+}
+
+// An imported row keeps the date it was originally submitted
+export type ImportedFeedback = InsertFeedbackResponse & { createdAt?: Date };
+
+// Progress recorded with each imported batch; the counts are running totals
+export interface FeedbackImportProgress {
+  processedRows: number;
+  importedRows: number;
+  failedRows: number;
+  errors: FeedbackImport['errors'];
+}
+
+// Narrows feedback counts used by volume and silence alert conditions
+export interface FeedbackWindow {
+  since?: Date;
+  locationId?: string;
+  qrCodeId?: string;
+  minRating?: number;
+  maxRating?: number;
+}
 
 export interface IStorage {
   // Tenant operations
@@ -39,64 +170,257 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUser(id: string, user: Partial<InsertUser>): Promise<User>;
+  updateUser(tenantId: string, id: string, user: Partial<InsertUser>): Promise<User>;
   getUsersByTenant(tenantId: string): Promise<User[]>;
+  recordUserLogin(id: string): Promise<void>;
+
+  // Auth token operations (magic links)
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  consumeAuthToken(tokenHash: string, purpose: string): Promise<AuthToken | undefined>;
+
+  // Invitation operations
+  getInvitation(tenantId: string, id: string): Promise<Invitation | undefined>;
+  resolveInvitation(id: string): Promise<Invitation | undefined>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  updateInvitation(tenantId: string, id: string, invitation: Partial<InsertInvitation>): Promise<Invitation | undefined>;
+  getInvitationsByTenant(tenantId: string): Promise<Invitation[]>;
+  acceptInvitation(id: string, lastSentAt: Date, user: InsertUser): Promise<User | undefined>;
 
   // Location operations
-  getLocation(id: string): Promise<Location | undefined>;
+  getLocation(tenantId: string, id: string): Promise<Location | undefined>;
   createLocation(location: InsertLocation): Promise<Location>;
-  updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location>;
+  updateLocation(tenantId: string, id: string, location: Partial<InsertLocation>): Promise<Location | undefined>;
   getLocationsByTenant(tenantId: string): Promise<Location[]>;
+  getLocationsByManager(tenantId: string, managerId: string): Promise<Location[]>;
 
   // Survey Template operations (FR-002: Industry-specific templates)
-  getSurveyTemplate(id: string): Promise<SurveyTemplate | undefined>;
+  getSurveyTemplate(tenantId: string, id: string): Promise<SurveyTemplate | undefined>;
   createSurveyTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate>;
-  updateSurveyTemplate(id: string, template: Partial<InsertSurveyTemplate>): Promise<SurveyTemplate>;
-  deleteSurveyTemplate(id: string): Promise<void>;
+  updateSurveyTemplate(tenantId: string, id: string, template: Partial<InsertSurveyTemplate>): Promise<SurveyTemplate | undefined>;
+  deleteSurveyTemplate(tenantId: string, id: string): Promise<void>;
   getSurveyTemplatesByTenant(tenantId: string): Promise<SurveyTemplate[]>;
-  getSurveyTemplatesByIndustry(industry: string): Promise<SurveyTemplate[]>;
+  getSurveyTemplatesByIndustry(tenantId: string, industry: string): Promise<SurveyTemplate[]>;
 
   // QR Code operations
-  getQrCode(id: string): Promise<QrCode | undefined>;
+  getQrCode(tenantId: string, id: string): Promise<QrCode | undefined>;
+  resolveQrCode(id: string): Promise<QrCode | undefined>;
+  resolveQrShortCode(shortCode: string): Promise<QrCode | undefined>;
+  getTakenQrShortCodes(shortCodes: string[]): Promise<string[]>;
   createQrCode(qrCode: InsertQrCode): Promise<QrCode>;
-  updateQrCode(id: string, qrCode: Partial<InsertQrCode>): Promise<QrCode>;
-  getQrCodesByTenant(tenantId: string): Promise<QrCode[]>;
-  getQrCodesByLocation(locationId: string): Promise<QrCode[]>;
+  createQrCodeBatch(tenantId: string, locationId: string, qrCodes: InsertQrCode[]): Promise<QrCodeBatchResult>;
+  updateQrCode(tenantId: string, id: string, qrCode: Partial<InsertQrCode>): Promise<QrCode | undefined>;
+  rotateQrCode(tenantId: string, id: string, changes: Partial<InsertQrCode>): Promise<QrCode | undefined>;
+  getQrCodesByTenant(tenantId: string, locationIds?: string[]): Promise<QrCode[]>;
+  getQrCodesByLocation(tenantId: string, locationId: string): Promise<QrCode[]>;
 
   // Feedback operations
-  getFeedbackResponse(id: string): Promise<FeedbackResponse | undefined>;
+  getFeedbackResponse(tenantId: string, id: string): Promise<FeedbackResponse | undefined>;
   createFeedbackResponse(feedback: InsertFeedbackResponse): Promise<FeedbackResponse>;
-  updateFeedbackResponse(id: string, feedback: Partial<InsertFeedbackResponse>): Promise<FeedbackResponse>;
-  getFeedbackResponsesByTenant(tenantId: string, limit?: number): Promise<FeedbackResponse[]>;
-  getFeedbackResponsesByLocation(locationId: string, limit?: number): Promise<FeedbackResponse[]>;
+  updateFeedbackResponse(tenantId: string, id: string, feedback: Partial<InsertFeedbackResponse>): Promise<FeedbackResponse | undefined>;
+  attachFeedbackFiles(tenantId: string, id: string, files: Pick<InsertFeedbackResponse, 'voiceRecordingUrl' | 'imageUrls'>): Promise<FeedbackResponse | undefined>;
+  getFeedbackResponsesAfter(tenantId: string, afterId: string | undefined, limit: number): Promise<FeedbackResponse[]>;
+  getUnanalyzedFeedback(afterId: string | undefined, limit: number): Promise<FeedbackResponse[]>;
+  getFeedbackResponsesByTenant(tenantId: string, limit?: number, locationIds?: string[]): Promise<FeedbackResponse[]>;
+  getFeedbackResponsesByLocation(tenantId: string, locationId: string, limit?: number): Promise<FeedbackResponse[]>;
+  searchFeedbackResponses(tenantId: string, search: FeedbackSearch, locationIds?: string[]): Promise<FeedbackPage>;
+  getFeedbackCustomFieldNames(tenantId: string, filters: FeedbackFilters, locationIds?: string[]): Promise<string[]>;
+  countFeedbackResponses(tenantId: string, window: FeedbackWindow): Promise<number>;
+  getLatestFeedbackAt(tenantId: string, window: FeedbackWindow): Promise<Date | undefined>;
+
+  // Feedback case notes
+  getFeedbackNotes(tenantId: string, feedbackId: string): Promise<FeedbackNote[]>;
+  createFeedbackNote(note: InsertFeedbackNote): Promise<FeedbackNote>;
+
+  // Customer reply thread
+  getFeedbackReplies(tenantId: string, feedbackId: string): Promise<FeedbackReply[]>;
+  createFeedbackReply(reply: InsertFeedbackReply): Promise<FeedbackReply>;
+  findSmsConversation(tenantId: string, numberKey: string): Promise<string | undefined>;
+
+  // SMS opt-ins and opt-outs
+  getSmsConsent(tenantId: string, numberKey: string): Promise<SmsConsent | undefined>;
+  setSmsConsent(consent: InsertSmsConsent): Promise<SmsConsent>;
+  getSmsConsentCounts(tenantId: string): Promise<{ status: string; source: string; count: number }[]>;
 
   // Analytics operations
-  getTenantMetrics(tenantId: string): Promise<{
+  getTenantMetrics(tenantId: string, locationIds?: string[]): Promise<{
     averageRating: number;
     totalResponses: number;
     criticalAlerts: number;
     qrScansToday: number;
   }>;
-  getFeedbackTrends(tenantId: string, days: number): Promise<Array<{
+  getCaseMetrics(tenantId: string, locationIds?: string[]): Promise<CaseMetrics>;
+  getFeedbackTrends(tenantId: string, days: number, locationIds?: string[]): Promise<Array<{
     date: string;
     averageRating: number;
     responseCount: number;
   }>>;
+  getComplaintTopics(tenantId: string, since: Date, until: Date, locationIds?: string[], limit?: number): Promise<Array<{ topic: string; count: number }>>;
+  getLocationRatings(tenantId: string, since: Date, until: Date, locationIds?: string[]): Promise<LocationRating[]>;
 
   // Alert operations
-  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  getAlertRule(tenantId: string, id: string): Promise<AlertRule | undefined>;
   createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
-  updateAlertRule(id: string, rule: Partial<InsertAlertRule>): Promise<AlertRule>;
+  updateAlertRule(tenantId: string, id: string, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(tenantId: string, id: string): Promise<boolean>;
   getAlertRulesByTenant(tenantId: string): Promise<AlertRule[]>;
+  getAllAlertRules(): Promise<AlertRule[]>;
+  claimAlertRuleTrigger(tenantId: string, id: string, target: string, cooldownMinutes: number): Promise<Date | undefined>;
 
-  getAlertNotification(id: string): Promise<AlertNotification | undefined>;
+  getAlertNotification(tenantId: string, id: string): Promise<AlertNotification | undefined>;
   createAlertNotification(notification: InsertAlertNotification): Promise<AlertNotification>;
-  updateAlertNotification(id: string, notification: Partial<InsertAlertNotification>): Promise<AlertNotification>;
-  getAlertNotificationsByTenant(tenantId: string, limit?: number): Promise<AlertNotification[]>;
+  updateAlertNotification(tenantId: string, id: string, notification: Partial<InsertAlertNotification>): Promise<AlertNotification | undefined>;
+  getAlertNotificationsByTenant(tenantId: string, limit?: number, locationIds?: string[]): Promise<AlertNotification[]>;
+  getAlertNotificationPage(tenantId: string, range: ExportRange, page: PageRequest, locationIds?: string[]): Promise<AlertNotificationPage>;
+  acknowledgeAlertNotification(tenantId: string, id: string, userId: string): Promise<AlertNotification | undefined>;
+  getUnacknowledgedAlertCounts(tenantId: string, locationIds?: string[]): Promise<Record<string, number>>;
+  claimDueAlertEscalations(limit: number): Promise<AlertNotification[]>;
+
+  // Alert delivery operations (queue and log for alert actions)
+  createAlertDeliveries(deliveries: InsertAlertDelivery[]): Promise<AlertDelivery[]>;
+  claimDueAlertDeliveries(limit: number): Promise<AlertDelivery[]>;
+  updateAlertDelivery(tenantId: string, id: string, delivery: Partial<InsertAlertDelivery>): Promise<AlertDelivery | undefined>;
+  getAlertDeliveries(tenantId: string, alertId: string): Promise<AlertDelivery[]>;
+  claimHeldAlertDeliveries(tenantId: string, channel: string, recipient: string): Promise<AlertDelivery[]>;
+
+  // Notification preference operations
+  getNotificationPreferences(tenantId: string, userId: string): Promise<NotificationPreference | undefined>;
+  saveNotificationPreferences(preferences: InsertNotificationPreference): Promise<NotificationPreference>;
+  getNotificationPreferencesForEmail(tenantId: string, email: string): Promise<NotificationPreference | undefined>;
+  getNotificationPreferencesForPhone(tenantId: string, phoneKey: string): Promise<NotificationPreference | undefined>;
+
+  // Webhook operations
+  getWebhookEndpoint(tenantId: string, id: string): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpointsByTenant(tenantId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpointsForEvent(tenantId: string, event: string): Promise<WebhookEndpoint[]>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(tenantId: string, id: string, endpoint: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(tenantId: string, id: string): Promise<void>;
+  getWebhookDelivery(tenantId: string, id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(tenantId: string, endpointId: string, limit?: number): Promise<WebhookDelivery[]>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(tenantId: string, id: string, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  // Feedback import operations
+  createFeedbackImport(feedbackImport: InsertFeedbackImport): Promise<FeedbackImport>;
+  getFeedbackImport(tenantId: string, id: string): Promise<FeedbackImport | undefined>;
+  getFeedbackImportsByTenant(tenantId: string, limit?: number): Promise<FeedbackImportSummary[]>;
+  updateFeedbackImport(tenantId: string, id: string, feedbackImport: Partial<InsertFeedbackImport>): Promise<FeedbackImport | undefined>;
+  startFeedbackImport(tenantId: string, id: string, mapping: FeedbackImport['mapping']): Promise<FeedbackImport | undefined>;
+  deleteFeedbackImportDraft(tenantId: string, id: string): Promise<boolean>;
+  getUnfinishedFeedbackImports(): Promise<FeedbackImport[]>;
+  importFeedbackBatch(tenantId: string, importId: string, rows: ImportedFeedback[], progress: FeedbackImportProgress): Promise<void>;
+
+  // Digest subscription operations
+  getDigestSubscription(tenantId: string, id: string): Promise<DigestSubscription | undefined>;
+  getDigestSubscriptionsByUser(tenantId: string, userId: string): Promise<DigestSubscription[]>;
+  createDigestSubscription(subscription: InsertDigestSubscription): Promise<DigestSubscription>;
+  updateDigestSubscription(tenantId: string, id: string, subscription: Partial<InsertDigestSubscription>): Promise<DigestSubscription | undefined>;
+  deleteDigestSubscription(tenantId: string, id: string): Promise<void>;
+  claimDueDigestSubscriptions(limit: number): Promise<DigestSubscription[]>;
 
   // QR Analytics operations
-  trackQrScan(qrCodeId: string, tenantId: string, ipAddress?: string, userAgent?: string): Promise<void>;
-  getQrAnalytics(qrCodeId: string, days?: number): Promise<QrAnalytic[]>;
+  trackQrScan(qrCodeId: string, tenantId: string, ipAddress?: string, userAgent?: string, sessionToken?: string): Promise<void>;
+  recordQrScanEvent(sessionToken: string, step: QrScanEvent): Promise<void>;
+  completeQrScan(tenantId: string, sessionToken: string, qrCodeId: string, feedbackId: string): Promise<void>;
+  getQrScanFunnels(tenantId: string, since: Date, until?: Date, locationIds?: string[]): Promise<QrScanFunnel[]>;
+  getQrAnalytics(tenantId: string, qrCodeId: string, days?: number): Promise<QrAnalytic[]>;
+  getQrScanPage(tenantId: string, range: ExportRange, page: PageRequest, locationIds?: string[]): Promise<QrScanPage>;
+}
+
+// Narrows a query to the given locations; undefined leaves it tenant-wide
+function inLocations(column: AnyPgColumn, locationIds?: string[]) {
+  return locationIds ? inArray(column, locationIds) : undefined;
+}
+
+function feedbackWindow(tenantId: string, window: FeedbackWindow) {
+  return and(
+    eq(feedbackResponses.tenantId, tenantId),
+    window.since ? gte(feedbackResponses.createdAt, window.since) : undefined,
+    window.locationId ? eq(feedbackResponses.locationId, window.locationId) : undefined,
+    window.qrCodeId ? eq(feedbackResponses.qrCodeId, window.qrCodeId) : undefined,
+    window.minRating !== undefined ? gte(feedbackResponses.overallRating, window.minRating) : undefined,
+    window.maxRating !== undefined ? lte(feedbackResponses.overallRating, window.maxRating) : undefined,
+  );
+}
+
+// Full-text document for the feedback inbox search: the comment plus every
+// string answer to a custom question. Must match idx_feedback_responses_search.
+const feedbackSearchDocument = sql`(to_tsvector('english', coalesce(${feedbackResponses.feedbackText}, '')) || jsonb_to_tsvector('english', coalesce(${feedbackResponses.customFields}, '{}'::jsonb), '["string"]'))`;
+
+// Inbox filters, shared by the inbox pages and the feedback export
+function feedbackSearchConditions(tenantId: string, search: FeedbackFilters, locationIds?: string[]) {
+  return and(
+    eq(feedbackResponses.tenantId, tenantId),
+    inLocations(feedbackResponses.locationId, locationIds),
+    search.locationId ? eq(feedbackResponses.locationId, search.locationId) : undefined,
+    search.qrCodeId ? eq(feedbackResponses.qrCodeId, search.qrCodeId) : undefined,
+    search.section
+      ? inArray(feedbackResponses.qrCodeId, db
+          .select({ id: qrCodes.id })
+          .from(qrCodes)
+          .where(and(eq(qrCodes.tenantId, tenantId), eq(qrCodes.section, search.section))))
+      : undefined,
+    search.minRating !== undefined ? gte(feedbackResponses.overallRating, search.minRating) : undefined,
+    search.maxRating !== undefined ? lte(feedbackResponses.overallRating, search.maxRating) : undefined,
+    search.from ? gte(feedbackResponses.createdAt, search.from) : undefined,
+    search.to ? lte(feedbackResponses.createdAt, search.to) : undefined,
+    search.sentiment ? eq(feedbackResponses.sentiment, search.sentiment) : undefined,
+    search.tag ? sql`${feedbackResponses.tags} @> ${JSON.stringify([search.tag])}::jsonb` : undefined,
+    search.status === 'open'
+      ? inArray(feedbackResponses.status, [...openFeedbackStatuses])
+      : search.status ? eq(feedbackResponses.status, search.status) : undefined,
+    search.assignedTo === 'unassigned'
+      ? isNull(feedbackResponses.assignedTo)
+      : search.assignedTo ? eq(feedbackResponses.assignedTo, search.assignedTo) : undefined,
+    search.hasVoice === undefined
+      ? undefined
+      : search.hasVoice ? isNotNull(feedbackResponses.voiceRecordingUrl) : isNull(feedbackResponses.voiceRecordingUrl),
+    search.hasImages === undefined
+      ? undefined
+      : sql`(case when jsonb_typeof(${feedbackResponses.imageUrls}) = 'array' then jsonb_array_length(${feedbackResponses.imageUrls}) > 0 else false end) = ${search.hasImages}`,
+    search.q ? sql`${feedbackSearchDocument} @@ websearch_to_tsquery('english', ${search.q})` : undefined,
+  );
+}
+
+// Page cursors encode the last row's position in (timestamp, id) order. The
+// timestamp is kept as Postgres text, since a JS Date would drop microseconds
+// and skip rows sharing the millisecond.
+function encodePageCursor(position: string, id: string): string {
+  return Buffer.from(JSON.stringify([position, id])).toString('base64url');
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// A timestamp column as Postgres prints it ("2024-02-01 09:30:00.123456"),
+// or the same in ISO form
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+
+// Whether the text names a real moment, so the ::timestamp cast can't fail
+function isCursorTimestamp(value: string): boolean {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) return false;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day &&
+    date.getUTCHours() === hour && date.getUTCMinutes() === minute && date.getUTCSeconds() === second;
+}
+
+// A cursor that was tampered with decodes to undefined, like one that can't
+// be read at all, rather than reaching the casts in the page queries
+function decodePageCursor(cursor: string): [string, string] | undefined {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      Array.isArray(position) && position.length === 2 &&
+      typeof position[0] === 'string' && isCursorTimestamp(position[0]) &&
+      typeof position[1] === 'string' && UUID_PATTERN.test(position[1])
+    ) {
+      return [position[0], position[1]];
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -136,11 +460,11 @@ export class DatabaseStorage implements IStorage {
     return newUser;
   }
 
-  async updateUser(id: string, user: Partial<InsertUser>): Promise<User> {
+  async updateUser(tenantId: string, id: string, user: Partial<InsertUser>): Promise<User> {
     const [updatedUser] = await db
       .update(users)
       .set({ ...user, updatedAt: new Date() })
-      .where(eq(users.id, id))
+      .where(and(eq(users.id, id), eq(users.tenantId, tenantId)))
       .returning();
     return updatedUser;
   }
@@ -149,9 +473,105 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users).where(eq(users.tenantId, tenantId));
   }
 
+  async recordUserLogin(id: string): Promise<void> {
+    await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, id));
+  }
+
+  // Auth token operations
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [newToken] = await db.insert(authTokens).values(token).returning();
+    return newToken;
+  }
+
+  // Marks the token used in the same statement that finds it, so a link can
+  // only ever be redeemed once even if it is clicked twice concurrently.
+  async consumeAuthToken(tokenHash: string, purpose: string): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.tokenHash, tokenHash),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          sql`${authTokens.expiresAt} > NOW()`
+        )
+      )
+      .returning();
+    return token;
+  }
+
+  // Invitation operations
+  async getInvitation(tenantId: string, id: string): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(invitations)
+      .where(and(eq(invitations.id, id), eq(invitations.tenantId, tenantId)));
+    return invitation;
+  }
+
+  async resolveInvitation(id: string): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation;
+  }
+
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    const [newInvitation] = await db.insert(invitations).values(invitation).returning();
+    return newInvitation;
+  }
+
+  async updateInvitation(tenantId: string, id: string, invitation: Partial<InsertInvitation>): Promise<Invitation | undefined> {
+    const [updatedInvitation] = await db
+      .update(invitations)
+      .set({ ...invitation, tenantId })
+      .where(and(eq(invitations.id, id), eq(invitations.tenantId, tenantId)))
+      .returning();
+    return updatedInvitation;
+  }
+
+  async getInvitationsByTenant(tenantId: string): Promise<Invitation[]> {
+    return await db
+      .select()
+      .from(invitations)
+      .where(eq(invitations.tenantId, tenantId))
+      .orderBy(desc(invitations.createdAt));
+  }
+
+  // Claims the invitation and creates its user in one transaction, so a link
+  // can only ever produce one account. Returns undefined if the invitation was
+  // already used, revoked, expired or re-sent since lastSentAt.
+  async acceptInvitation(id: string, lastSentAt: Date, user: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(invitations)
+        .set({ acceptedAt: new Date() })
+        .where(
+          and(
+            eq(invitations.id, id),
+            eq(invitations.lastSentAt, lastSentAt),
+            isNull(invitations.acceptedAt),
+            isNull(invitations.revokedAt),
+            sql`${invitations.expiresAt} > NOW()`
+          )
+        )
+        .returning();
+      if (!claimed) return undefined;
+
+      const [newUser] = await tx
+        .insert(users)
+        .values({ ...user, tenantId: claimed.tenantId, role: claimed.role })
+        .returning();
+      await tx.update(invitations).set({ acceptedBy: newUser.id }).where(eq(invitations.id, id));
+      return newUser;
+    });
+  }
+
   // Location operations
-  async getLocation(id: string): Promise<Location | undefined> {
-    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+  async getLocation(tenantId: string, id: string): Promise<Location | undefined> {
+    const [location] = await db
+      .select()
+      .from(locations)
+      .where(and(eq(locations.id, id), eq(locations.tenantId, tenantId)));
     return location;
   }
 
@@ -160,11 +580,11 @@ export class DatabaseStorage implements IStorage {
     return newLocation;
   }
 
-  async updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location> {
+  async updateLocation(tenantId: string, id: string, location: Partial<InsertLocation>): Promise<Location | undefined> {
     const [updatedLocation] = await db
       .update(locations)
-      .set({ ...location, updatedAt: new Date() })
-      .where(eq(locations.id, id))
+      .set({ ...location, tenantId, updatedAt: new Date() })
+      .where(and(eq(locations.id, id), eq(locations.tenantId, tenantId)))
       .returning();
     return updatedLocation;
   }
@@ -173,9 +593,19 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(locations).where(eq(locations.tenantId, tenantId));
   }
 
+  async getLocationsByManager(tenantId: string, managerId: string): Promise<Location[]> {
+    return await db
+      .select()
+      .from(locations)
+      .where(and(eq(locations.managerId, managerId), eq(locations.tenantId, tenantId)));
+  }
+
   // Survey Template operations
-  async getSurveyTemplate(id: string): Promise<SurveyTemplate | undefined> {
-    const [template] = await db.select().from(surveyTemplates).where(eq(surveyTemplates.id, id));
+  async getSurveyTemplate(tenantId: string, id: string): Promise<SurveyTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(surveyTemplates)
+      .where(and(eq(surveyTemplates.id, id), eq(surveyTemplates.tenantId, tenantId)));
     return template;
   }
 
@@ -184,63 +614,150 @@ export class DatabaseStorage implements IStorage {
     return newTemplate;
   }
 
-  async updateSurveyTemplate(id: string, template: Partial<InsertSurveyTemplate>): Promise<SurveyTemplate> {
+  async updateSurveyTemplate(tenantId: string, id: string, template: Partial<InsertSurveyTemplate>): Promise<SurveyTemplate | undefined> {
     const [updatedTemplate] = await db
       .update(surveyTemplates)
-      .set({ ...template, updatedAt: new Date() })
-      .where(eq(surveyTemplates.id, id))
+      .set({ ...template, tenantId, updatedAt: new Date() })
+      .where(and(eq(surveyTemplates.id, id), eq(surveyTemplates.tenantId, tenantId)))
       .returning();
     return updatedTemplate;
   }
 
+  async deleteSurveyTemplate(tenantId: string, id: string): Promise<void> {
+    await db
+      .delete(surveyTemplates)
+      .where(and(eq(surveyTemplates.id, id), eq(surveyTemplates.tenantId, tenantId)));
+  }
+
   async getSurveyTemplatesByTenant(tenantId: string): Promise<SurveyTemplate[]> {
     return await db.select().from(surveyTemplates).where(eq(surveyTemplates.tenantId, tenantId));
   }
 
+  async getSurveyTemplatesByIndustry(tenantId: string, industry: string): Promise<SurveyTemplate[]> {
+    return await db
+      .select()
+      .from(surveyTemplates)
+      .where(and(eq(surveyTemplates.tenantId, tenantId), eq(surveyTemplates.industry, industry)));
+  }
+
   // QR Code operations
-  async getQrCode(id: string): Promise<QrCode | undefined> {
+  async getQrCode(tenantId: string, id: string): Promise<QrCode | undefined> {
+    const [qrCode] = await db
+      .select()
+      .from(qrCodes)
+      .where(and(eq(qrCodes.id, id), eq(qrCodes.tenantId, tenantId)));
+    return qrCode;
+  }
+
+  async resolveQrCode(id: string): Promise<QrCode | undefined> {
     const [qrCode] = await db.select().from(qrCodes).where(eq(qrCodes.id, id));
     return qrCode;
   }
 
-  async createQrCode(qrCodeData: any): Promise<QrCode> {
-    console.log('Creating QR code with data:', qrCodeData);
-    
-    // Ensure required fields are present
-    const qrData = {
-      tenantId: qrCodeData.tenantId,
-      locationId: qrCodeData.locationId,
-      identifier: qrCodeData.identifier,
-      section: qrCodeData.section || "Main",
-      qrData: qrCodeData.qrData || qrCodeData.url, // Use either qrData or url field
-      url: qrCodeData.url || qrCodeData.qrData,
-    };
-    
-    const [qrCode] = await db.insert(qrCodes).values(qrData).returning();
-    console.log('QR code created successfully:', qrCode.id);
+  // Short codes are unique across tenants: the /r/ link carries nothing else
+  async resolveQrShortCode(shortCode: string): Promise<QrCode | undefined> {
+    const [qrCode] = await db.select().from(qrCodes).where(eq(qrCodes.shortCode, shortCode.toUpperCase()));
     return qrCode;
   }
 
-  async updateQrCode(id: string, qrCode: Partial<InsertQrCode>): Promise<QrCode> {
+  // Which of these short codes are in use, for picking new ones
+  async getTakenQrShortCodes(shortCodes: string[]): Promise<string[]> {
+    if (shortCodes.length === 0) return [];
+    const taken = await db
+      .select({ shortCode: qrCodes.shortCode })
+      .from(qrCodes)
+      .where(inArray(qrCodes.shortCode, shortCodes));
+    return taken.map((row) => row.shortCode!);
+  }
+
+  // Creates every code or none. If any identifier is already used by a current
+  // code at the location (ignoring case), nothing is created and those
+  // identifiers are returned.
+  async createQrCodeBatch(tenantId: string, locationId: string, batch: InsertQrCode[]): Promise<QrCodeBatchResult> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ identifier: qrCodes.identifier })
+        .from(qrCodes)
+        .where(and(eq(qrCodes.tenantId, tenantId), eq(qrCodes.locationId, locationId), isNull(qrCodes.replacedById)));
+      const taken = new Set(existing.map((row) => row.identifier.trim().toLowerCase()));
+      const duplicates = batch
+        .map((qrCode) => qrCode.identifier)
+        .filter((identifier) => taken.has(identifier.trim().toLowerCase()));
+      if (duplicates.length > 0) return { qrCodes: [], duplicates };
+
+      const created = await tx
+        .insert(qrCodes)
+        .values(batch.map((qrCode) => ({ ...qrCode, tenantId, locationId })))
+        .returning();
+      return { qrCodes: created, duplicates: [] };
+    });
+  }
+
+  async createQrCode(qrCodeData: InsertQrCode): Promise<QrCode> {
+    const [qrCode] = await db
+      .insert(qrCodes)
+      .values({ ...qrCodeData, section: qrCodeData.section || "Main" })
+      .returning();
+    return qrCode;
+  }
+
+  async updateQrCode(tenantId: string, id: string, qrCode: Partial<InsertQrCode>): Promise<QrCode | undefined> {
     const [updatedQrCode] = await db
       .update(qrCodes)
-      .set({ ...qrCode, updatedAt: new Date() })
-      .where(eq(qrCodes.id, id))
+      .set({ ...qrCode, tenantId, updatedAt: new Date() })
+      .where(and(eq(qrCodes.id, id), eq(qrCodes.tenantId, tenantId)))
       .returning();
     return updatedQrCode;
   }
 
-  async getQrCodesByTenant(tenantId: string): Promise<QrCode[]> {
-    return await db.select().from(qrCodes).where(eq(qrCodes.tenantId, tenantId));
+  // Moves the short code (and so every printed copy of it) to a new row with
+  // the changes applied, retiring the old row with its scans and feedback
+  async rotateQrCode(tenantId: string, id: string, changes: Partial<InsertQrCode>): Promise<QrCode | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(qrCodes)
+        .where(and(eq(qrCodes.id, id), eq(qrCodes.tenantId, tenantId), isNotNull(qrCodes.shortCode)))
+        .for("update");
+      if (!current) return undefined;
+
+      await tx
+        .update(qrCodes)
+        .set({ shortCode: null, isActive: false, updatedAt: new Date() })
+        .where(eq(qrCodes.id, current.id));
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...copied } = current;
+      const [replacement] = await tx
+        .insert(qrCodes)
+        .values({ ...copied, ...changes, tenantId, shortCode: current.shortCode, isActive: changes.isActive ?? true })
+        .returning();
+      await tx
+        .update(qrCodes)
+        .set({ replacedById: replacement.id })
+        .where(eq(qrCodes.id, current.id));
+      return replacement;
+    });
+  }
+
+  async getQrCodesByTenant(tenantId: string, locationIds?: string[]): Promise<QrCode[]> {
+    return await db
+      .select()
+      .from(qrCodes)
+      .where(and(eq(qrCodes.tenantId, tenantId), inLocations(qrCodes.locationId, locationIds)));
   }
 
-  async getQrCodesByLocation(locationId: string): Promise<QrCode[]> {
-    return await db.select().from(qrCodes).where(eq(qrCodes.locationId, locationId));
+  async getQrCodesByLocation(tenantId: string, locationId: string): Promise<QrCode[]> {
+    return await db
+      .select()
+      .from(qrCodes)
+      .where(and(eq(qrCodes.locationId, locationId), eq(qrCodes.tenantId, tenantId)));
   }
 
   // Feedback operations
-  async getFeedbackResponse(id: string): Promise<FeedbackResponse | undefined> {
-    const [feedback] = await db.select().from(feedbackResponses).where(eq(feedbackResponses.id, id));
+  async getFeedbackResponse(tenantId: string, id: string): Promise<FeedbackResponse | undefined> {
+    const [feedback] = await db
+      .select()
+      .from(feedbackResponses)
+      .where(and(eq(feedbackResponses.id, id), eq(feedbackResponses.tenantId, tenantId)));
     return feedback;
   }
 
@@ -249,35 +766,207 @@ export class DatabaseStorage implements IStorage {
     return newFeedback;
   }
 
-  async updateFeedbackResponse(id: string, feedback: Partial<InsertFeedbackResponse>): Promise<FeedbackResponse> {
+  async updateFeedbackResponse(tenantId: string, id: string, feedback: Partial<InsertFeedbackResponse>): Promise<FeedbackResponse | undefined> {
+    const [updatedFeedback] = await db
+      .update(feedbackResponses)
+      .set({ ...feedback, tenantId, updatedAt: new Date() })
+      .where(and(eq(feedbackResponses.id, id), eq(feedbackResponses.tenantId, tenantId)))
+      .returning();
+    return updatedFeedback;
+  }
+
+  // Sets the media of feedback that has none yet; undefined when it is missing
+  // or already has a voice recording or images
+  async attachFeedbackFiles(
+    tenantId: string,
+    id: string,
+    files: Pick<InsertFeedbackResponse, 'voiceRecordingUrl' | 'imageUrls'>
+  ): Promise<FeedbackResponse | undefined> {
     const [updatedFeedback] = await db
       .update(feedbackResponses)
-      .set({ ...feedback, updatedAt: new Date() })
-      .where(eq(feedbackResponses.id, id))
+      .set({ ...files, updatedAt: new Date() })
+      .where(
+        and(
+          eq(feedbackResponses.id, id),
+          eq(feedbackResponses.tenantId, tenantId),
+          isNull(feedbackResponses.voiceRecordingUrl),
+          sql`(${feedbackResponses.imageUrls} IS NULL OR ${feedbackResponses.imageUrls} = '[]'::jsonb)`
+        )
+      )
       .returning();
     return updatedFeedback;
   }
 
-  async getFeedbackResponsesByTenant(tenantId: string, limit = 50): Promise<FeedbackResponse[]> {
+  // Keyset pages in id order, for jobs that walk every row
+  async getFeedbackResponsesAfter(tenantId: string, afterId: string | undefined, limit: number): Promise<FeedbackResponse[]> {
+    return await db
+      .select()
+      .from(feedbackResponses)
+      .where(and(eq(feedbackResponses.tenantId, tenantId), afterId ? sql`${feedbackResponses.id} > ${afterId}` : undefined))
+      .orderBy(feedbackResponses.id)
+      .limit(limit);
+  }
+
+  async getUnanalyzedFeedback(afterId: string | undefined, limit: number): Promise<FeedbackResponse[]> {
+    return await db
+      .select()
+      .from(feedbackResponses)
+      .where(and(isNull(feedbackResponses.sentiment), afterId ? sql`${feedbackResponses.id} > ${afterId}` : undefined))
+      .orderBy(feedbackResponses.id)
+      .limit(limit);
+  }
+
+  async getFeedbackResponsesByTenant(tenantId: string, limit = 50, locationIds?: string[]): Promise<FeedbackResponse[]> {
     return await db
       .select()
       .from(feedbackResponses)
-      .where(eq(feedbackResponses.tenantId, tenantId))
+      .where(and(eq(feedbackResponses.tenantId, tenantId), inLocations(feedbackResponses.locationId, locationIds)))
       .orderBy(desc(feedbackResponses.createdAt))
       .limit(limit);
   }
 
-  async getFeedbackResponsesByLocation(locationId: string, limit = 50): Promise<FeedbackResponse[]> {
+  async getFeedbackResponsesByLocation(tenantId: string, locationId: string, limit = 50): Promise<FeedbackResponse[]> {
     return await db
       .select()
       .from(feedbackResponses)
-      .where(eq(feedbackResponses.locationId, locationId))
+      .where(and(eq(feedbackResponses.locationId, locationId), eq(feedbackResponses.tenantId, tenantId)))
       .orderBy(desc(feedbackResponses.createdAt))
       .limit(limit);
   }
 
+  async searchFeedbackResponses(tenantId: string, search: FeedbackSearch, locationIds?: string[]): Promise<FeedbackPage> {
+    const cursor = search.cursor ? decodePageCursor(search.cursor) : undefined;
+    // A cursor that does not decode was not issued by us; there is nothing after it
+    if (search.cursor && !cursor) {
+      return { items: [], nextCursor: null };
+    }
+
+    const rows = await db
+      .select({ feedback: feedbackResponses, position: sql<string>`${feedbackResponses.createdAt}::text` })
+      .from(feedbackResponses)
+      .where(and(
+        feedbackSearchConditions(tenantId, search, locationIds),
+        cursor ? sql`(${feedbackResponses.createdAt}, ${feedbackResponses.id}) < (${cursor[0]}::timestamp, ${cursor[1]}::uuid)` : undefined,
+      ))
+      .orderBy(desc(feedbackResponses.createdAt), desc(feedbackResponses.id))
+      .limit(search.limit + 1);
+
+    const page = rows.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => row.feedback),
+      nextCursor: rows.length > search.limit ? encodePageCursor(last.position, last.feedback.id) : null,
+    };
+  }
+
+  // Custom questions answered by any feedback matching the filters; the export
+  // flattens each into its own column
+  async getFeedbackCustomFieldNames(tenantId: string, filters: FeedbackFilters, locationIds?: string[]): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ name: sql<string>`jsonb_object_keys(${feedbackResponses.customFields})` })
+      .from(feedbackResponses)
+      .where(and(
+        feedbackSearchConditions(tenantId, filters, locationIds),
+        sql`jsonb_typeof(${feedbackResponses.customFields}) = 'object'`,
+      ));
+    return rows.map((row) => row.name).sort((a, b) => a.localeCompare(b));
+  }
+
+  // Feedback case notes
+  async getFeedbackNotes(tenantId: string, feedbackId: string): Promise<FeedbackNote[]> {
+    return await db
+      .select()
+      .from(feedbackNotes)
+      .where(and(eq(feedbackNotes.tenantId, tenantId), eq(feedbackNotes.feedbackId, feedbackId)))
+      .orderBy(feedbackNotes.createdAt);
+  }
+
+  async createFeedbackNote(note: InsertFeedbackNote): Promise<FeedbackNote> {
+    const [newNote] = await db.insert(feedbackNotes).values(note).returning();
+    return newNote;
+  }
+
+  // Customer reply thread
+  async getFeedbackReplies(tenantId: string, feedbackId: string): Promise<FeedbackReply[]> {
+    return await db
+      .select()
+      .from(feedbackReplies)
+      .where(and(eq(feedbackReplies.tenantId, tenantId), eq(feedbackReplies.feedbackId, feedbackId)))
+      .orderBy(feedbackReplies.createdAt);
+  }
+
+  async createFeedbackReply(reply: InsertFeedbackReply): Promise<FeedbackReply> {
+    const [newReply] = await db.insert(feedbackReplies).values(reply).returning();
+    return newReply;
+  }
+
+  // The feedback whose SMS thread most recently included this number. numberKey
+  // is the number's last ten digits (see phoneNumberKey in smsService), which
+  // stored addresses are compared on whatever their formatting.
+  async findSmsConversation(tenantId: string, numberKey: string): Promise<string | undefined> {
+    if (!numberKey) return undefined;
+
+    const [reply] = await db
+      .select({ feedbackId: feedbackReplies.feedbackId })
+      .from(feedbackReplies)
+      .where(and(
+        eq(feedbackReplies.tenantId, tenantId),
+        eq(feedbackReplies.channel, 'sms'),
+        sql`right(regexp_replace(${feedbackReplies.address}, '[^0-9]', '', 'g'), 10) = ${numberKey}`
+      ))
+      .orderBy(desc(feedbackReplies.createdAt))
+      .limit(1);
+    return reply?.feedbackId;
+  }
+
+  // SMS opt-ins and opt-outs, keyed like findSmsConversation
+  async getSmsConsent(tenantId: string, numberKey: string): Promise<SmsConsent | undefined> {
+    const [consent] = await db
+      .select()
+      .from(smsConsents)
+      .where(and(eq(smsConsents.tenantId, tenantId), eq(smsConsents.numberKey, numberKey)));
+    return consent;
+  }
+
+  // The latest opt-in or opt-out replaces whatever the number had before
+  async setSmsConsent(consent: InsertSmsConsent): Promise<SmsConsent> {
+    const [saved] = await db
+      .insert(smsConsents)
+      .values(consent)
+      .onConflictDoUpdate({
+        target: [smsConsents.tenantId, smsConsents.numberKey],
+        set: { ...consent, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSmsConsentCounts(tenantId: string): Promise<{ status: string; source: string; count: number }[]> {
+    return await db
+      .select({ status: smsConsents.status, source: smsConsents.source, count: count() })
+      .from(smsConsents)
+      .where(eq(smsConsents.tenantId, tenantId))
+      .groupBy(smsConsents.status, smsConsents.source);
+  }
+
+  async countFeedbackResponses(tenantId: string, window: FeedbackWindow): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(feedbackResponses)
+      .where(feedbackWindow(tenantId, window));
+    return result.count;
+  }
+
+  async getLatestFeedbackAt(tenantId: string, window: FeedbackWindow): Promise<Date | undefined> {
+    const [result] = await db
+      .select({ latest: sql<string | null>`max(${feedbackResponses.createdAt})` })
+      .from(feedbackResponses)
+      .where(feedbackWindow(tenantId, window));
+    return result?.latest ? new Date(result.latest) : undefined;
+  }
+
   // Analytics operations
-  async getTenantMetrics(tenantId: string): Promise<{
+  async getTenantMetrics(tenantId: string, locationIds?: string[]): Promise<{
     averageRating: number;
     totalResponses: number;
     criticalAlerts: number;
@@ -289,12 +978,12 @@ export class DatabaseStorage implements IStorage {
     const [avgRating] = await db
       .select({ avg: avg(feedbackResponses.overallRating) })
       .from(feedbackResponses)
-      .where(eq(feedbackResponses.tenantId, tenantId));
+      .where(and(eq(feedbackResponses.tenantId, tenantId), inLocations(feedbackResponses.locationId, locationIds)));
 
     const [totalResponses] = await db
       .select({ count: count() })
       .from(feedbackResponses)
-      .where(eq(feedbackResponses.tenantId, tenantId));
+      .where(and(eq(feedbackResponses.tenantId, tenantId), inLocations(feedbackResponses.locationId, locationIds)));
 
     const [criticalAlerts] = await db
       .select({ count: count() })
@@ -303,17 +992,20 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(alertNotifications.tenantId, tenantId),
           eq(alertNotifications.severity, "critical"),
-          eq(alertNotifications.isRead, false)
+          eq(alertNotifications.isRead, false),
+          inLocations(alertNotifications.locationId, locationIds)
         )
       );
 
     const [qrScansToday] = await db
       .select({ count: count() })
       .from(qrAnalytics)
+      .leftJoin(qrCodes, eq(qrAnalytics.qrCodeId, qrCodes.id))
       .where(
         and(
           eq(qrAnalytics.tenantId, tenantId),
-          sql`${qrAnalytics.scannedAt} >= ${today}`
+          sql`${qrAnalytics.scannedAt} >= ${today}`,
+          inLocations(qrCodes.locationId, locationIds)
         )
       );
 
@@ -325,7 +1017,45 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getFeedbackTrends(tenantId: string, days = 7): Promise<Array<{
+  async getCaseMetrics(tenantId: string, locationIds?: string[]): Promise<CaseMetrics> {
+    const isOpen = inArray(feedbackResponses.status, [...openFeedbackStatuses]);
+
+    const openByLocation = await db
+      .select({
+        locationId: feedbackResponses.locationId,
+        locationName: locations.name,
+        openCases: count(),
+        unassignedCases: sql<number>`count(*) filter (where ${feedbackResponses.assignedTo} is null)`.mapWith(Number),
+      })
+      .from(feedbackResponses)
+      .innerJoin(locations, eq(feedbackResponses.locationId, locations.id))
+      .where(and(eq(feedbackResponses.tenantId, tenantId), isOpen, inLocations(feedbackResponses.locationId, locationIds)))
+      .groupBy(feedbackResponses.locationId, locations.name)
+      .orderBy(desc(count()));
+
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const [resolution] = await db
+      .select({
+        resolved: count(),
+        averageSeconds: sql<string | null>`avg(extract(epoch from ${feedbackResponses.resolvedAt} - ${feedbackResponses.createdAt}))`,
+      })
+      .from(feedbackResponses)
+      .where(and(
+        eq(feedbackResponses.tenantId, tenantId),
+        gte(feedbackResponses.resolvedAt, since),
+        inLocations(feedbackResponses.locationId, locationIds)
+      ));
+
+    return {
+      openCases: openByLocation.reduce((total, row) => total + row.openCases, 0),
+      unassignedCases: openByLocation.reduce((total, row) => total + row.unassignedCases, 0),
+      openByLocation: openByLocation.map(({ unassignedCases, ...row }) => row),
+      averageResolutionHours: resolution.averageSeconds === null ? null : Number(resolution.averageSeconds) / 3600,
+      resolvedLast30Days: resolution.resolved,
+    };
+  }
+
+  async getFeedbackTrends(tenantId: string, days = 7, locationIds?: string[]): Promise<Array<{
     date: string;
     averageRating: number;
     responseCount: number;
@@ -343,7 +1073,8 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(feedbackResponses.tenantId, tenantId),
-          sql`${feedbackResponses.createdAt} >= ${startDate}`
+          sql`${feedbackResponses.createdAt} >= ${startDate}`,
+          inLocations(feedbackResponses.locationId, locationIds)
         )
       )
       .groupBy(sql`DATE(${feedbackResponses.createdAt})`)
@@ -356,9 +1087,54 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Topic tags on unhappy feedback (negative sentiment or a rating of 2 or
+  // less) in [since, until), most frequent first
+  async getComplaintTopics(tenantId: string, since: Date, until: Date, locationIds?: string[], limit = 5): Promise<Array<{ topic: string; count: number }>> {
+    const topic = sql<string>`jsonb_array_elements_text(${feedbackResponses.tags})`;
+    return await db
+      .select({ topic, count: count() })
+      .from(feedbackResponses)
+      .where(and(
+        eq(feedbackResponses.tenantId, tenantId),
+        gte(feedbackResponses.createdAt, since),
+        lt(feedbackResponses.createdAt, until),
+        or(eq(feedbackResponses.sentiment, 'negative'), lte(feedbackResponses.overallRating, 2)),
+        sql`jsonb_typeof(${feedbackResponses.tags}) = 'array'`,
+        inLocations(feedbackResponses.locationId, locationIds)
+      ))
+      .groupBy(topic)
+      .orderBy(desc(count()))
+      .limit(limit);
+  }
+
+  async getLocationRatings(tenantId: string, since: Date, until: Date, locationIds?: string[]): Promise<LocationRating[]> {
+    const ratings = await db
+      .select({
+        locationId: feedbackResponses.locationId,
+        locationName: locations.name,
+        averageRating: avg(feedbackResponses.overallRating),
+        responseCount: count(),
+      })
+      .from(feedbackResponses)
+      .innerJoin(locations, eq(feedbackResponses.locationId, locations.id))
+      .where(and(
+        eq(feedbackResponses.tenantId, tenantId),
+        gte(feedbackResponses.createdAt, since),
+        lt(feedbackResponses.createdAt, until),
+        inLocations(feedbackResponses.locationId, locationIds)
+      ))
+      .groupBy(feedbackResponses.locationId, locations.name)
+      .orderBy(avg(feedbackResponses.overallRating));
+
+    return ratings.map((rating) => ({ ...rating, averageRating: Number(rating.averageRating || 0) }));
+  }
+
   // Alert operations
-  async getAlertRule(id: string): Promise<AlertRule | undefined> {
-    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+  async getAlertRule(tenantId: string, id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.tenantId, tenantId)));
     return rule;
   }
 
@@ -367,21 +1143,61 @@ export class DatabaseStorage implements IStorage {
     return newRule;
   }
 
-  async updateAlertRule(id: string, rule: Partial<InsertAlertRule>): Promise<AlertRule> {
+  async updateAlertRule(tenantId: string, id: string, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
     const [updatedRule] = await db
       .update(alertRules)
-      .set({ ...rule, updatedAt: new Date() })
-      .where(eq(alertRules.id, id))
+      .set({ ...rule, tenantId, updatedAt: new Date() })
+      .where(and(eq(alertRules.id, id), eq(alertRules.tenantId, tenantId)))
       .returning();
     return updatedRule;
   }
 
+  async deleteAlertRule(tenantId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.tenantId, tenantId)))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
   async getAlertRulesByTenant(tenantId: string): Promise<AlertRule[]> {
     return await db.select().from(alertRules).where(eq(alertRules.tenantId, tenantId));
   }
 
-  async getAlertNotification(id: string): Promise<AlertNotification | undefined> {
-    const [notification] = await db.select().from(alertNotifications).where(eq(alertNotifications.id, id));
+  async getAllAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules);
+  }
+
+  // Records a trigger unless the rule fired for the same target (location, QR
+  // code or "all") within its cooldown. The check and the write are one
+  // statement so concurrent evaluations cannot both fire. Returns the trigger
+  // time, or undefined when the rule is still cooling down there.
+  async claimAlertRuleTrigger(tenantId: string, id: string, target: string, cooldownMinutes: number): Promise<Date | undefined> {
+    const now = new Date();
+    const cooldownStart = new Date(now.getTime() - cooldownMinutes * 60 * 1000);
+    const [claim] = await db
+      .insert(alertRuleCooldowns)
+      .values({ ruleId: id, target, tenantId, lastTriggeredAt: now })
+      .onConflictDoUpdate({
+        target: [alertRuleCooldowns.ruleId, alertRuleCooldowns.target],
+        set: { lastTriggeredAt: now },
+        setWhere: and(eq(alertRuleCooldowns.tenantId, tenantId), lte(alertRuleCooldowns.lastTriggeredAt, cooldownStart)),
+      })
+      .returning();
+    if (!claim) return undefined;
+
+    await db
+      .update(alertRules)
+      .set({ lastTriggeredAt: now })
+      .where(and(eq(alertRules.id, id), eq(alertRules.tenantId, tenantId)));
+    return now;
+  }
+
+  async getAlertNotification(tenantId: string, id: string): Promise<AlertNotification | undefined> {
+    const [notification] = await db
+      .select()
+      .from(alertNotifications)
+      .where(and(eq(alertNotifications.id, id), eq(alertNotifications.tenantId, tenantId)));
     return notification;
   }
 
@@ -390,35 +1206,530 @@ export class DatabaseStorage implements IStorage {
     return newNotification;
   }
 
-  async updateAlertNotification(id: string, notification: Partial<InsertAlertNotification>): Promise<AlertNotification> {
+  async updateAlertNotification(tenantId: string, id: string, notification: Partial<InsertAlertNotification>): Promise<AlertNotification | undefined> {
     const [updatedNotification] = await db
       .update(alertNotifications)
-      .set(notification)
-      .where(eq(alertNotifications.id, id))
+      .set({ ...notification, tenantId })
+      .where(and(eq(alertNotifications.id, id), eq(alertNotifications.tenantId, tenantId)))
       .returning();
     return updatedNotification;
   }
 
-  async getAlertNotificationsByTenant(tenantId: string, limit = 10): Promise<AlertNotification[]> {
+  async getAlertNotificationsByTenant(tenantId: string, limit = 10, locationIds?: string[]): Promise<AlertNotification[]> {
     return await db
       .select()
       .from(alertNotifications)
-      .where(eq(alertNotifications.tenantId, tenantId))
+      .where(and(eq(alertNotifications.tenantId, tenantId), inLocations(alertNotifications.locationId, locationIds)))
       .orderBy(desc(alertNotifications.createdAt))
       .limit(limit);
   }
 
+  async getAlertNotificationPage(tenantId: string, range: ExportRange, page: PageRequest, locationIds?: string[]): Promise<AlertNotificationPage> {
+    const cursor = page.cursor ? decodePageCursor(page.cursor) : undefined;
+    if (page.cursor && !cursor) {
+      return { items: [], nextCursor: null };
+    }
+
+    const rows = await db
+      .select({ alert: alertNotifications, position: sql<string>`${alertNotifications.createdAt}::text` })
+      .from(alertNotifications)
+      .where(and(
+        eq(alertNotifications.tenantId, tenantId),
+        inLocations(alertNotifications.locationId, locationIds),
+        range.locationId ? eq(alertNotifications.locationId, range.locationId) : undefined,
+        range.from ? gte(alertNotifications.createdAt, range.from) : undefined,
+        range.to ? lte(alertNotifications.createdAt, range.to) : undefined,
+        cursor ? sql`(${alertNotifications.createdAt}, ${alertNotifications.id}) < (${cursor[0]}::timestamp, ${cursor[1]}::uuid)` : undefined,
+      ))
+      .orderBy(desc(alertNotifications.createdAt), desc(alertNotifications.id))
+      .limit(page.limit + 1);
+
+    const items = rows.slice(0, page.limit);
+    const last = items[items.length - 1];
+    return {
+      items: items.map((row) => row.alert),
+      nextCursor: rows.length > page.limit ? encodePageCursor(last.position, last.alert.id) : null,
+    };
+  }
+
+  // First acknowledgement wins: returns undefined when the alert was already
+  // acknowledged. Clearing escalateAt stops any escalation chain.
+  async acknowledgeAlertNotification(tenantId: string, id: string, userId: string): Promise<AlertNotification | undefined> {
+    const [acknowledged] = await db
+      .update(alertNotifications)
+      .set({ isAcknowledged: true, isRead: true, acknowledgedBy: userId, acknowledgedAt: new Date(), escalateAt: null })
+      .where(
+        and(
+          eq(alertNotifications.id, id),
+          eq(alertNotifications.tenantId, tenantId),
+          eq(alertNotifications.isAcknowledged, false)
+        )
+      )
+      .returning();
+    return acknowledged;
+  }
+
+  // Open alerts by severity
+  async getUnacknowledgedAlertCounts(tenantId: string, locationIds?: string[]): Promise<Record<string, number>> {
+    const counts = await db
+      .select({ severity: alertNotifications.severity, count: count() })
+      .from(alertNotifications)
+      .where(and(
+        eq(alertNotifications.tenantId, tenantId),
+        eq(alertNotifications.isAcknowledged, false),
+        inLocations(alertNotifications.locationId, locationIds)
+      ))
+      .groupBy(alertNotifications.severity);
+    return Object.fromEntries(counts.map((row) => [row.severity, row.count]));
+  }
+
+  // Returns up to `limit` unacknowledged alerts whose next escalation tier is
+  // due, pushing their escalateAt ten minutes out as a lease so a crashed
+  // dispatcher's claim is retried. The caller sets the real next escalateAt.
+  async claimDueAlertEscalations(limit: number): Promise<AlertNotification[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: alertNotifications.id })
+      .from(alertNotifications)
+      .where(and(lte(alertNotifications.escalateAt, now), eq(alertNotifications.isAcknowledged, false)))
+      .orderBy(alertNotifications.escalateAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(alertNotifications)
+      .set({ escalateAt: new Date(now.getTime() + 10 * 60 * 1000) })
+      .where(inArray(alertNotifications.id, due))
+      .returning();
+  }
+
+  // Alert delivery operations
+  async createAlertDeliveries(deliveries: InsertAlertDelivery[]): Promise<AlertDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await db.insert(alertDeliveries).values(deliveries).returning();
+  }
+
+  // Marks up to `limit` due deliveries as processing and returns them. Rows
+  // another dispatcher is working on are skipped; rows left processing for more
+  // than ten minutes (a crashed dispatcher) are due again.
+  async claimDueAlertDeliveries(limit: number): Promise<AlertDelivery[]> {
+    const now = new Date();
+    const staleLock = new Date(now.getTime() - 10 * 60 * 1000);
+    const due = db
+      .select({ id: alertDeliveries.id })
+      .from(alertDeliveries)
+      .where(
+        or(
+          and(eq(alertDeliveries.status, "pending"), lte(alertDeliveries.nextAttemptAt, now)),
+          and(eq(alertDeliveries.status, "processing"), lt(alertDeliveries.lockedAt, staleLock))
+        )
+      )
+      .orderBy(alertDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(alertDeliveries)
+      .set({ status: "processing", lockedAt: now, updatedAt: now })
+      .where(inArray(alertDeliveries.id, due))
+      .returning();
+  }
+
+  async updateAlertDelivery(tenantId: string, id: string, delivery: Partial<InsertAlertDelivery>): Promise<AlertDelivery | undefined> {
+    const [updated] = await db
+      .update(alertDeliveries)
+      .set({ ...delivery, updatedAt: new Date() })
+      .where(and(eq(alertDeliveries.id, id), eq(alertDeliveries.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getAlertDeliveries(tenantId: string, alertId: string): Promise<AlertDelivery[]> {
+    return await db
+      .select()
+      .from(alertDeliveries)
+      .where(and(eq(alertDeliveries.alertId, alertId), eq(alertDeliveries.tenantId, tenantId)))
+      .orderBy(alertDeliveries.createdAt);
+  }
+
+  // Claims every held delivery to a recipient whose summary is due, so they
+  // go out together as one message
+  async claimHeldAlertDeliveries(tenantId: string, channel: string, recipient: string): Promise<AlertDelivery[]> {
+    const now = new Date();
+    return await db
+      .update(alertDeliveries)
+      .set({ status: "processing", lockedAt: now, updatedAt: now })
+      .where(and(
+        eq(alertDeliveries.tenantId, tenantId),
+        eq(alertDeliveries.channel, channel),
+        eq(alertDeliveries.recipient, recipient),
+        eq(alertDeliveries.status, "pending"),
+        lte(alertDeliveries.heldUntil, now)
+      ))
+      .returning();
+  }
+
+  // Notification preference operations
+  async getNotificationPreferences(tenantId: string, userId: string): Promise<NotificationPreference | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.userId, userId), eq(notificationPreferences.tenantId, tenantId)));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(preferences: InsertNotificationPreference): Promise<NotificationPreference> {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // The preferences of the user an alert email goes to: by their login email
+  // or the extra address they gave
+  async getNotificationPreferencesForEmail(tenantId: string, email: string): Promise<NotificationPreference | undefined> {
+    const address = email.trim().toLowerCase();
+    const [preferences] = await db
+      .select(getTableColumns(notificationPreferences))
+      .from(notificationPreferences)
+      .innerJoin(users, eq(notificationPreferences.userId, users.id))
+      .where(and(
+        eq(notificationPreferences.tenantId, tenantId),
+        or(eq(notificationPreferences.emailAddress, address), sql`lower(${users.email}) = ${address}`)
+      ))
+      .limit(1);
+    return preferences;
+  }
+
+  async getNotificationPreferencesForPhone(tenantId: string, phoneKey: string): Promise<NotificationPreference | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.tenantId, tenantId), eq(notificationPreferences.phoneKey, phoneKey)))
+      .limit(1);
+    return preferences;
+  }
+
+  // Webhook operations
+  async getWebhookEndpoint(tenantId: string, id: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.tenantId, tenantId)));
+    return endpoint;
+  }
+
+  async getWebhookEndpointsByTenant(tenantId: string): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.tenantId, tenantId))
+      .orderBy(webhookEndpoints.createdAt);
+  }
+
+  // Active endpoints subscribed to the event
+  async getWebhookEndpointsForEvent(tenantId: string, event: string): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(
+        and(
+          eq(webhookEndpoints.tenantId, tenantId),
+          eq(webhookEndpoints.isActive, true),
+          arrayContains(webhookEndpoints.events, [event])
+        )
+      );
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [newEndpoint] = await db.insert(webhookEndpoints).values(endpoint).returning();
+    return newEndpoint;
+  }
+
+  async updateWebhookEndpoint(tenantId: string, id: string, endpoint: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set({ ...endpoint, updatedAt: new Date() })
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhookEndpoint(tenantId: string, id: string): Promise<void> {
+    await db
+      .delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.tenantId, tenantId)));
+  }
+
+  async getWebhookDelivery(tenantId: string, id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.tenantId, tenantId)));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(tenantId: string, endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.endpointId, endpointId), eq(webhookDeliveries.tenantId, tenantId)))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  // Same claiming scheme as claimDueAlertDeliveries
+  async claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const staleLock = new Date(now.getTime() - 10 * 60 * 1000);
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        or(
+          and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)),
+          and(eq(webhookDeliveries.status, "processing"), lt(webhookDeliveries.lockedAt, staleLock))
+        )
+      )
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(webhookDeliveries)
+      .set({ status: "processing", lockedAt: now, updatedAt: now })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async updateWebhookDelivery(tenantId: string, id: string, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({ ...delivery, updatedAt: new Date() })
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // Feedback import operations
+  async createFeedbackImport(feedbackImport: InsertFeedbackImport): Promise<FeedbackImport> {
+    const [newImport] = await db.insert(feedbackImports).values(feedbackImport).returning();
+    return newImport;
+  }
+
+  async getFeedbackImport(tenantId: string, id: string): Promise<FeedbackImport | undefined> {
+    const [feedbackImport] = await db
+      .select()
+      .from(feedbackImports)
+      .where(and(eq(feedbackImports.id, id), eq(feedbackImports.tenantId, tenantId)));
+    return feedbackImport;
+  }
+
+  // Leaves out the uploaded file, which can be large
+  async getFeedbackImportsByTenant(tenantId: string, limit = 20): Promise<FeedbackImportSummary[]> {
+    const { source, ...columns } = getTableColumns(feedbackImports);
+    return await db
+      .select(columns)
+      .from(feedbackImports)
+      .where(eq(feedbackImports.tenantId, tenantId))
+      .orderBy(desc(feedbackImports.createdAt))
+      .limit(limit);
+  }
+
+  async updateFeedbackImport(tenantId: string, id: string, feedbackImport: Partial<InsertFeedbackImport>): Promise<FeedbackImport | undefined> {
+    const [updated] = await db
+      .update(feedbackImports)
+      .set({ ...feedbackImport, updatedAt: new Date() })
+      .where(and(eq(feedbackImports.id, id), eq(feedbackImports.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // Moves a draft to importing with its final mapping. Returns undefined when
+  // the import is not a draft (e.g. it was already started).
+  async startFeedbackImport(tenantId: string, id: string, mapping: FeedbackImport['mapping']): Promise<FeedbackImport | undefined> {
+    const [started] = await db
+      .update(feedbackImports)
+      .set({ status: 'importing', mapping, startedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(feedbackImports.id, id),
+        eq(feedbackImports.tenantId, tenantId),
+        eq(feedbackImports.status, 'draft')
+      ))
+      .returning();
+    return started;
+  }
+
+  // Discards an upload that was never started; returns false for anything else
+  async deleteFeedbackImportDraft(tenantId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(feedbackImports)
+      .where(and(
+        eq(feedbackImports.id, id),
+        eq(feedbackImports.tenantId, tenantId),
+        eq(feedbackImports.status, 'draft')
+      ))
+      .returning({ id: feedbackImports.id });
+    return deleted.length > 0;
+  }
+
+  async getUnfinishedFeedbackImports(): Promise<FeedbackImport[]> {
+    return await db
+      .select()
+      .from(feedbackImports)
+      .where(eq(feedbackImports.status, 'importing'))
+      .orderBy(feedbackImports.startedAt);
+  }
+
+  // Inserts a batch and records the progress it makes in one transaction, so
+  // a resumed import never inserts a row twice
+  async importFeedbackBatch(tenantId: string, importId: string, rows: ImportedFeedback[], progress: FeedbackImportProgress): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (rows.length > 0) {
+        await tx.insert(feedbackResponses).values(rows.map((row) => ({ ...row, tenantId })));
+      }
+      await tx
+        .update(feedbackImports)
+        .set({ ...progress, updatedAt: new Date() })
+        .where(and(eq(feedbackImports.id, importId), eq(feedbackImports.tenantId, tenantId)));
+    });
+  }
+
+  // Digest subscription operations
+  async getDigestSubscription(tenantId: string, id: string): Promise<DigestSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(digestSubscriptions)
+      .where(and(eq(digestSubscriptions.id, id), eq(digestSubscriptions.tenantId, tenantId)));
+    return subscription;
+  }
+
+  async getDigestSubscriptionsByUser(tenantId: string, userId: string): Promise<DigestSubscription[]> {
+    return await db
+      .select()
+      .from(digestSubscriptions)
+      .where(and(eq(digestSubscriptions.tenantId, tenantId), eq(digestSubscriptions.userId, userId)))
+      .orderBy(digestSubscriptions.createdAt);
+  }
+
+  async createDigestSubscription(subscription: InsertDigestSubscription): Promise<DigestSubscription> {
+    const [newSubscription] = await db.insert(digestSubscriptions).values(subscription).returning();
+    return newSubscription;
+  }
+
+  async updateDigestSubscription(tenantId: string, id: string, subscription: Partial<InsertDigestSubscription>): Promise<DigestSubscription | undefined> {
+    const [updated] = await db
+      .update(digestSubscriptions)
+      .set({ ...subscription, updatedAt: new Date() })
+      .where(and(eq(digestSubscriptions.id, id), eq(digestSubscriptions.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteDigestSubscription(tenantId: string, id: string): Promise<void> {
+    await db
+      .delete(digestSubscriptions)
+      .where(and(eq(digestSubscriptions.id, id), eq(digestSubscriptions.tenantId, tenantId)));
+  }
+
+  // Same lease scheme as claimDueAlertEscalations: nextSendAt moves ten
+  // minutes out while the digest is built and sent, and the caller sets the
+  // real next send time
+  async claimDueDigestSubscriptions(limit: number): Promise<DigestSubscription[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: digestSubscriptions.id })
+      .from(digestSubscriptions)
+      .where(and(eq(digestSubscriptions.isActive, true), lte(digestSubscriptions.nextSendAt, now)))
+      .orderBy(digestSubscriptions.nextSendAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(digestSubscriptions)
+      .set({ nextSendAt: new Date(now.getTime() + 10 * 60 * 1000) })
+      .where(inArray(digestSubscriptions.id, due))
+      .returning();
+  }
+
   // QR Analytics operations
-  async trackQrScan(qrCodeId: string, tenantId: string, ipAddress?: string, userAgent?: string): Promise<void> {
+  async trackQrScan(qrCodeId: string, tenantId: string, ipAddress?: string, userAgent?: string, sessionToken?: string): Promise<void> {
     await db.insert(qrAnalytics).values({
       qrCodeId,
       tenantId,
       ipAddress,
       userAgent,
+      sessionToken,
     });
   }
 
-  async getQrAnalytics(qrCodeId: string, days = 30): Promise<QrAnalytic[]> {
+  // Each step is recorded once, and starting implies the form was opened
+  async recordQrScanEvent(sessionToken: string, step: QrScanEvent): Promise<void> {
+    const opened = { formOpenedAt: sql`coalesce(${qrAnalytics.formOpenedAt}, now())` };
+    await db
+      .update(qrAnalytics)
+      .set(step === 'opened' ? opened : { ...opened, startedAt: sql`coalesce(${qrAnalytics.startedAt}, now())` })
+      .where(eq(qrAnalytics.sessionToken, sessionToken));
+  }
+
+  // Links a scan to the feedback it led to. Only the first submission from a
+  // session counts, and only for the QR code that was scanned.
+  async completeQrScan(tenantId: string, sessionToken: string, qrCodeId: string, feedbackId: string): Promise<void> {
+    await db
+      .update(qrAnalytics)
+      .set({
+        completedFeedback: true,
+        feedbackId,
+        submittedAt: sql`now()`,
+        formOpenedAt: sql`coalesce(${qrAnalytics.formOpenedAt}, now())`,
+        startedAt: sql`coalesce(${qrAnalytics.startedAt}, now())`,
+      })
+      .where(and(
+        eq(qrAnalytics.tenantId, tenantId),
+        eq(qrAnalytics.sessionToken, sessionToken),
+        eq(qrAnalytics.qrCodeId, qrCodeId),
+        isNull(qrAnalytics.feedbackId),
+      ));
+  }
+
+  // Scans have no location of their own; location filters go through the QR code
+  async getQrScanFunnels(tenantId: string, since: Date, until?: Date, locationIds?: string[]): Promise<QrScanFunnel[]> {
+    const imageCount = sql`case when jsonb_typeof(${feedbackResponses.imageUrls}) = 'array' then jsonb_array_length(${feedbackResponses.imageUrls}) else 0 end`;
+    const rows = await db
+      .select({
+        qrCodeId: qrAnalytics.qrCodeId,
+        lastScannedAt: max(qrAnalytics.scannedAt),
+        scanned: count(),
+        opened: count(qrAnalytics.formOpenedAt),
+        started: count(qrAnalytics.startedAt),
+        submitted: count(qrAnalytics.feedbackId),
+        withMedia: sql<number>`count(*) filter (where ${feedbackResponses.voiceRecordingUrl} is not null or ${imageCount} > 0)`.mapWith(Number),
+      })
+      .from(qrAnalytics)
+      .innerJoin(qrCodes, eq(qrAnalytics.qrCodeId, qrCodes.id))
+      .leftJoin(feedbackResponses, eq(qrAnalytics.feedbackId, feedbackResponses.id))
+      .where(and(
+        eq(qrAnalytics.tenantId, tenantId),
+        gte(qrAnalytics.scannedAt, since),
+        until ? lte(qrAnalytics.scannedAt, until) : undefined,
+        inLocations(qrCodes.locationId, locationIds),
+      ))
+      .groupBy(qrAnalytics.qrCodeId);
+
+    return rows.map(({ qrCodeId, lastScannedAt, ...counts }) => ({ qrCodeId, lastScannedAt, counts }));
+  }
+
+  async getQrAnalytics(tenantId: string, qrCodeId: string, days = 30): Promise<QrAnalytic[]> {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
@@ -428,11 +1739,49 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(qrAnalytics.qrCodeId, qrCodeId),
+          eq(qrAnalytics.tenantId, tenantId),
           sql`${qrAnalytics.scannedAt} >= ${startDate}`
         )
       )
       .orderBy(desc(qrAnalytics.scannedAt));
   }
+  // Scans have no location of their own; location filters go through the QR code
+  async getQrScanPage(tenantId: string, range: ExportRange, page: PageRequest, locationIds?: string[]): Promise<QrScanPage> {
+    const cursor = page.cursor ? decodePageCursor(page.cursor) : undefined;
+    if (page.cursor && !cursor) {
+      return { items: [], nextCursor: null };
+    }
+
+    const rows = await db
+      .select({ scan: qrAnalytics, position: sql<string>`${qrAnalytics.scannedAt}::text` })
+      .from(qrAnalytics)
+      .where(and(
+        eq(qrAnalytics.tenantId, tenantId),
+        locationIds || range.locationId
+          ? inArray(qrAnalytics.qrCodeId, db
+              .select({ id: qrCodes.id })
+              .from(qrCodes)
+              .where(and(
+                eq(qrCodes.tenantId, tenantId),
+                inLocations(qrCodes.locationId, locationIds),
+                range.locationId ? eq(qrCodes.locationId, range.locationId) : undefined,
+              )))
+          : undefined,
+        range.from ? gte(qrAnalytics.scannedAt, range.from) : undefined,
+        range.to ? lte(qrAnalytics.scannedAt, range.to) : undefined,
+        cursor ? sql`(${qrAnalytics.scannedAt}, ${qrAnalytics.id}) < (${cursor[0]}::timestamp, ${cursor[1]}::uuid)` : undefined,
+      ))
+      .orderBy(desc(qrAnalytics.scannedAt), desc(qrAnalytics.id))
+      .limit(page.limit + 1);
+
+    const items = rows.slice(0, page.limit);
+    const last = items[items.length - 1];
+    return {
+      items: items.map((row) => row.scan),
+      nextCursor: rows.length > page.limit ? encodePageCursor(last.position, last.scan.id) : null,
+    };
+  }
+
 }
 
 export const storage = new DatabaseStorage();
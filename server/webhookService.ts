@@ -0,0 +1,181 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { storage } from './storage';
+import { publicFetch, publicUrlProblem, readBodyUpTo } from './publicRequests';
+import type { WebhookDelivery, WebhookEvent } from '@shared/schema';
+
+const POLL_INTERVAL = 15 * 1000;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+
+// Minutes to wait after each failed attempt; a delivery is abandoned once
+// these run out (six attempts over roughly fourteen hours)
+const RETRY_DELAYS = [1, 5, 30, 120, 720];
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+// Receivers recompute this over "<X-Webhook-Timestamp>.<raw body>" with their
+// endpoint secret and compare it to X-Webhook-Signature
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Fans tenant events out to their registered webhook endpoints. Like the
+// alert dispatcher, deliveries are database rows claimed by a poller, so
+// pending retries survive restarts and every attempt's outcome is kept.
+export class WebhookService {
+  private isProcessing = false;
+  private processingInterval?: NodeJS.Timeout;
+
+  // Queue an event for every active endpoint subscribed to it. Never throws:
+  // webhooks must not fail the request that raised the event.
+  public async emit(tenantId: string, event: WebhookEvent, data: unknown): Promise<void> {
+    try {
+      const endpoints = await storage.getWebhookEndpointsForEvent(tenantId, event);
+      if (endpoints.length === 0) return;
+
+      const payload = { id: randomUUID(), event, createdAt: new Date().toISOString(), data };
+      await storage.createWebhookDeliveries(endpoints.map((endpoint) => ({
+        tenantId,
+        endpointId: endpoint.id,
+        event,
+        payload,
+      })));
+      this.processQueue();
+    } catch (error) {
+      console.error(`Error queueing ${event} webhooks:`, error);
+    }
+  }
+
+  // Queue an event for one endpoint, whatever events it subscribes to. Alert
+  // rules use this for their webhook actions. Returns the delivery, or
+  // undefined when the endpoint is missing or disabled.
+  public async deliver(
+    tenantId: string,
+    endpointId: string,
+    event: WebhookEvent,
+    data: unknown,
+    sendAt?: Date
+  ): Promise<WebhookDelivery | undefined> {
+    const endpoint = await storage.getWebhookEndpoint(tenantId, endpointId);
+    if (!endpoint || !endpoint.isActive) return undefined;
+
+    const [delivery] = await storage.createWebhookDeliveries([{
+      tenantId,
+      endpointId,
+      event,
+      payload: { id: randomUUID(), event, createdAt: new Date().toISOString(), data },
+      nextAttemptAt: sendAt,
+    }]);
+    this.processQueue();
+    return delivery;
+  }
+
+  // Send an earlier delivery's payload again as a new delivery
+  public async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const [redelivery] = await storage.createWebhookDeliveries([{
+      tenantId: delivery.tenantId,
+      endpointId: delivery.endpointId,
+      event: delivery.event,
+      payload: delivery.payload as Record<string, any>,
+      redeliveryOf: delivery.id,
+    }]);
+    this.processQueue();
+    return redelivery;
+  }
+
+  public start(): void {
+    this.processingInterval = setInterval(() => {
+      this.processQueue();
+    }, POLL_INTERVAL);
+  }
+
+  public stop(): void {
+    if (this.processingInterval) {
+      clearInterval(this.processingInterval);
+    }
+  }
+
+  public async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      let batch: WebhookDelivery[];
+      do {
+        batch = await storage.claimDueWebhookDeliveries(BATCH_SIZE);
+        for (const delivery of batch) {
+          await this.attempt(delivery);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } catch (error) {
+      console.error('Error processing webhook deliveries:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const endpoint = await storage.getWebhookEndpoint(delivery.tenantId, delivery.endpointId);
+    if (!endpoint || !endpoint.isActive) {
+      await storage.updateWebhookDelivery(delivery.tenantId, delivery.id, {
+        status: 'failed',
+        lockedAt: null,
+        lastError: 'Endpoint is disabled',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+
+    try {
+      // Connects only to a public address, whatever DNS says by now
+      const response = await publicFetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'FeedbackPlatform-Webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+      responseStatus = response.status;
+      // Up to 4 bytes per character
+      responseBody = (await readBodyUpTo(response, RESPONSE_BODY_LIMIT * 4)).body.toString().slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with ${response.status} ${response.statusText}`);
+      }
+
+      await storage.updateWebhookDelivery(delivery.tenantId, delivery.id, {
+        status: 'delivered',
+        attempts,
+        responseStatus,
+        responseBody,
+        deliveredAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      });
+    } catch (error: any) {
+      const retryDelay = RETRY_DELAYS[attempts - 1];
+      await storage.updateWebhookDelivery(delivery.tenantId, delivery.id, {
+        status: retryDelay === undefined ? 'failed' : 'pending',
+        attempts,
+        responseStatus,
+        responseBody,
+        lockedAt: null,
+        lastError: error.message || String(error),
+        nextAttemptAt: retryDelay === undefined ? delivery.nextAttemptAt : new Date(Date.now() + retryDelay * 60 * 1000),
+      });
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { Server } from "http";
+import { Server, IncomingMessage } from "http";
 import { randomUUID } from "crypto";
 
 export interface WebSocketClient {
@@ -7,6 +7,7 @@ export interface WebSocketClient {
   ws: WebSocket;
   tenantId?: string;
   userId?: string;
+  locationIds?: string[]; // set for location managers; undefined receives every location
   connectedAt: Date;
   lastPing?: Date;
   userAgent?: string;
@@ -19,9 +20,13 @@ export interface WebSocketMessage {
   timestamp: number;
 }
 
+// Resolves the signed-in user behind an upgrade request; undefined rejects the connection
+export type WebSocketAuthenticator = (req: IncomingMessage) => Promise<{ id: string; tenantId: string; locationIds?: string[] } | undefined>;
+
 export interface NotificationEvent {
   type: 'feedback' | 'alert' | 'analytics' | 'system';
   tenantId: string;
+  locationId?: string;
   data: any;
   severity?: 'info' | 'warning' | 'critical';
 }
@@ -32,8 +37,10 @@ export class WebSocketService {
   private tenantClients: Map<string, Set<string>> = new Map();
   private pingInterval: NodeJS.Timeout;
   private connectionTimeout: NodeJS.Timeout;
+  private authenticate?: WebSocketAuthenticator;
 
-  constructor(server: Server) {
+  constructor(server: Server, authenticate?: WebSocketAuthenticator) {
+    this.authenticate = authenticate;
     this.wss = new WebSocketServer({ 
       server, 
       path: '/ws',
@@ -54,7 +61,7 @@ export class WebSocketService {
     });
   }
 
-  private handleConnection(ws: WebSocket, req: any) {
+  private async handleConnection(ws: WebSocket, req: any) {
     const clientId = randomUUID();
     const client: WebSocketClient = {
       id: clientId,
@@ -64,23 +71,14 @@ export class WebSocketService {
       userAgent: req.headers['user-agent']
     };
 
-    this.clients.set(clientId, client);
-
-    // Send welcome message
-    this.sendToClient(clientId, {
-      type: 'connection',
-      data: { 
-        clientId,
-        message: 'Connected to feedback platform',
-        timestamp: Date.now()
-      },
-      timestamp: Date.now()
-    });
-
+    // Messages that arrive while the session is being resolved wait for it
+    let authenticated: Promise<void> = Promise.resolve();
     ws.on('message', (message: Buffer) => {
-      this.handleMessage(clientId, message);
+      authenticated.then(() => this.handleMessage(clientId, message));
     });
 
+    // Registered before authenticating, so a socket that closes or fails
+    // meanwhile is still cleaned up (or never registered)
     ws.on('close', () => {
       this.handleDisconnection(clientId);
     });
@@ -98,6 +96,43 @@ export class WebSocketService {
       }
     });
 
+    // Bind the connection to the session's tenant; clients never choose their own
+    if (this.authenticate) {
+      authenticated = this.authenticate(req).then((user) => {
+        if (user) {
+          client.tenantId = user.tenantId;
+          client.userId = user.id;
+          client.locationIds = user.locationIds;
+        }
+      }).catch((error) => {
+        console.error(`Error authenticating WebSocket client ${clientId}:`, error);
+      });
+      await authenticated;
+      if (!client.tenantId) {
+        ws.close(1008, 'Unauthorized');
+        return;
+      }
+    }
+
+    // The socket may have closed while the session was being resolved
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    this.clients.set(clientId, client);
+    if (client.tenantId) {
+      this.addTenantClient(client.tenantId, clientId);
+    }
+
+    // Send welcome message
+    this.sendToClient(clientId, {
+      type: 'connection',
+      data: { 
+        clientId,
+        message: 'Connected to feedback platform',
+        timestamp: Date.now()
+      },
+      timestamp: Date.now()
+    });
+
     console.log(`WebSocket client connected: ${clientId}`);
   }
 
@@ -145,15 +180,21 @@ export class WebSocketService {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    if (data.tenantId) {
-      client.tenantId = data.tenantId;
-      client.userId = data.userId;
+    if (this.authenticate && data.tenantId !== client.tenantId) {
+      this.sendToClient(clientId, {
+        type: 'error',
+        data: { message: 'Access denied for tenant' },
+        timestamp: Date.now()
+      });
+      return;
+    }
 
-      // Add to tenant clients
-      if (!this.tenantClients.has(data.tenantId)) {
-        this.tenantClients.set(data.tenantId, new Set());
+    if (data.tenantId) {
+      if (!this.authenticate) {
+        client.tenantId = data.tenantId;
+        client.userId = data.userId;
+        this.addTenantClient(data.tenantId, clientId);
       }
-      this.tenantClients.get(data.tenantId)!.add(clientId);
 
       this.sendToClient(clientId, {
         type: 'auth_success',
@@ -168,6 +209,13 @@ export class WebSocketService {
     }
   }
 
+  private addTenantClient(tenantId: string, clientId: string) {
+    if (!this.tenantClients.has(tenantId)) {
+      this.tenantClients.set(tenantId, new Set());
+    }
+    this.tenantClients.get(tenantId)!.add(clientId);
+  }
+
   private handleSubscribe(clientId: string, data: any) {
     const client = this.clients.get(clientId);
     if (!client || !client.tenantId) {
@@ -259,6 +307,11 @@ export class WebSocketService {
     };
 
     tenantClientIds.forEach(clientId => {
+      // Location-scoped clients only hear about their own locations
+      const locationIds = this.clients.get(clientId)?.locationIds;
+      if (locationIds && (!event.locationId || !locationIds.includes(event.locationId))) {
+        return;
+      }
       this.sendToClient(clientId, message);
     });
 
@@ -322,15 +375,10 @@ export class WebSocketService {
   }
 
   // Get connection statistics
-  public getStats() {
+  // Connection counts for one tenant
+  public getStats(tenantId: string) {
     return {
-      totalConnections: this.clients.size,
-      tenantConnections: Object.fromEntries(
-        Array.from(this.tenantClients.entries()).map(([tenantId, clients]) => [
-          tenantId,
-          clients.size
-        ])
-      ),
+      totalConnections: this.tenantClients.get(tenantId)?.size ?? 0,
       uptime: Date.now()
     };
   }
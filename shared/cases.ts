@@ -0,0 +1,19 @@
+// Feedback responses double as cases that staff work through. New and
+// in-progress cases are open; resolving or closing one records resolvedAt,
+// which the dashboard's time-to-resolution is measured from.
+
+export const feedbackStatuses = ["new", "in_progress", "resolved", "closed"] as const;
+export type FeedbackStatus = typeof feedbackStatuses[number];
+
+export const openFeedbackStatuses: readonly FeedbackStatus[] = ["new", "in_progress"];
+
+export const feedbackStatusLabels: Record<FeedbackStatus, string> = {
+  new: "New",
+  in_progress: "In Progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+export function isOpenStatus(status: string | null | undefined): boolean {
+  return (openFeedbackStatuses as readonly string[]).includes(status ?? "new");
+}
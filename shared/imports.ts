@@ -0,0 +1,42 @@
+// Historical feedback imported from a CSV. An upload is kept as a draft while
+// its columns are mapped and checked, then imported in the background.
+
+export const feedbackImportStatuses = ["draft", "importing", "completed", "failed"] as const;
+export type FeedbackImportStatus = typeof feedbackImportStatuses[number];
+
+// Feedback fields a CSV column can be mapped to, in the order the wizard lists
+// them. Location and QR code columns hold names (or ids); submittedAt becomes
+// the feedback's createdAt.
+export const feedbackImportFields = [
+  "overallRating",
+  "feedbackText",
+  "customerName",
+  "customerEmail",
+  "customerPhone",
+  "submittedAt",
+  "location",
+  "qrCode",
+] as const;
+export type FeedbackImportField = typeof feedbackImportFields[number];
+
+export const feedbackImportFieldLabels: Record<FeedbackImportField, string> = {
+  overallRating: "Rating (1-5)",
+  feedbackText: "Comment",
+  customerName: "Customer name",
+  customerEmail: "Customer email",
+  customerPhone: "Customer phone",
+  submittedAt: "Submitted at",
+  location: "Location",
+  qrCode: "QR code",
+};
+
+// A row that could not be imported. line is the row's line in the file, with
+// the header on line 1.
+export interface ImportRowError {
+  line: number;
+  column?: string;
+  message: string;
+}
+
+// Only the first errors are kept; the counts cover every row
+export const MAX_IMPORT_ERRORS = 100;
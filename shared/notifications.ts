@@ -0,0 +1,120 @@
+// Each user's choices for how alerts reach them. Alert rule actions name email
+// addresses and phone numbers; when one belongs to a user with saved
+// preferences, the dispatcher applies them before sending. Addresses nobody
+// has claimed are delivered as the rule says.
+
+export const alertSeverities = ["critical", "warning", "info"] as const;
+export type AlertSeverity = typeof alertSeverities[number];
+
+// Anything but immediate gathers a channel's alerts into one summary message
+export const emailAlertFrequencies = ["immediate", "hourly", "daily", "weekly"] as const;
+export type EmailAlertFrequency = typeof emailAlertFrequencies[number];
+
+export const smsAlertFrequencies = ["immediate", "hourly", "daily"] as const;
+export type SmsAlertFrequency = typeof smsAlertFrequencies[number];
+
+// Times of day are "HH:MM", 24-hour, in the quiet hours' timezone
+export const timeOfDayPattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface QuietHours {
+  enabled: boolean;
+  timezone: string; // IANA name, e.g. "Europe/London"
+  start: string;
+  end: string; // may be earlier than start: the window then runs over midnight
+  allowCritical: boolean; // critical alerts still go out during the window
+}
+
+export interface NotificationSettings {
+  email: {
+    enabled: boolean;
+    address: string; // another address that receives this user's alerts; empty for none
+    frequency: EmailAlertFrequency;
+    alertTypes: Record<AlertSeverity, boolean>;
+  };
+  sms: {
+    enabled: boolean;
+    phoneNumber: string;
+    frequency: SmsAlertFrequency;
+    alertTypes: Record<Exclude<AlertSeverity, "info">, boolean>;
+  };
+  inApp: {
+    enabled: boolean;
+    sound: boolean;
+    desktop: boolean;
+    alertTypes: Record<AlertSeverity, boolean>;
+  };
+  quietHours: QuietHours;
+}
+
+export type NotificationChannelSettings = NotificationSettings["email"] | NotificationSettings["sms"];
+
+// What a user who never saved preferences sees on the preferences page
+export const defaultNotificationSettings: NotificationSettings = {
+  email: {
+    enabled: true,
+    address: "",
+    frequency: "immediate",
+    alertTypes: { critical: true, warning: true, info: false },
+  },
+  sms: {
+    enabled: false,
+    phoneNumber: "",
+    frequency: "immediate",
+    alertTypes: { critical: true, warning: false },
+  },
+  inApp: {
+    enabled: true,
+    sound: true,
+    desktop: true,
+    alertTypes: { critical: true, warning: true, info: true },
+  },
+  quietHours: {
+    enabled: false,
+    timezone: "UTC",
+    start: "22:00",
+    end: "07:00",
+    allowCritical: true,
+  },
+};
+
+// Whether settings let an alert of this severity through. SMS has no info
+// level, so info alerts never go out by SMS to a user with preferences.
+export function allowsSeverity(settings: { enabled: boolean; alertTypes: Partial<Record<AlertSeverity, boolean>> }, severity: string): boolean {
+  return settings.enabled && settings.alertTypes[severity as AlertSeverity] === true;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// When the quiet hours `at` falls in end, or undefined outside them (and for
+// critical alerts the user lets through)
+export function quietHoursEnd(quietHours: QuietHours, severity: string, at = new Date()): Date | undefined {
+  if (!quietHours.enabled || (severity === "critical" && quietHours.allowCritical)) return undefined;
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: quietHours.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find((candidate) => candidate.type === type)?.value);
+  const now = part("hour") * 60 + part("minute");
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+
+  const quiet = start <= end ? now >= start && now < end : now >= start || now < end;
+  if (!quiet) return undefined;
+
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+  const until = new Date(at.getTime() + minutesLeft * 60 * 1000);
+  until.setUTCSeconds(0, 0);
+  return until;
+}
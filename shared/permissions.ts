@@ -0,0 +1,46 @@
+// Role-based access control shared by the API (route guards) and the React
+// pages (which hide actions the signed-in user cannot perform).
+
+export const userRoles = ["owner", "admin", "location_manager", "viewer"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const roleLabels: Record<UserRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  location_manager: "Location Manager",
+  viewer: "Viewer",
+};
+
+// Roles granted each permission. Reading is open to every role; location
+// managers are additionally limited to the locations they manage.
+const permissionRoles = {
+  "tenant:manage": ["owner"], // billing, branding, subscription
+  "users:manage": ["owner", "admin"],
+  "locations:manage": ["owner", "admin"],
+  "templates:manage": ["owner", "admin"],
+  "rules:view": ["owner", "admin", "viewer"],
+  "rules:manage": ["owner", "admin"],
+  "qr_codes:manage": ["owner", "admin"],
+  "alerts:acknowledge": ["owner", "admin", "location_manager"],
+  "messaging:send": ["owner", "admin"],
+  "webhooks:manage": ["owner", "admin"],
+  "topics:manage": ["owner", "admin"], // feedback topic keyword dictionary
+  "feedback:manage": ["owner", "admin", "location_manager"], // case status, assignment and notes
+  "data:export": ["owner", "admin", "location_manager"], // downloads include customer contact details
+  "feedback:import": ["owner", "admin"], // creates feedback in bulk, outside the survey flow
+} satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof permissionRoles;
+
+export function isUserRole(role: unknown): role is UserRole {
+  return typeof role === "string" && (userRoles as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && (permissionRoles[permission] as readonly UserRole[]).includes(role);
+}
+
+// Location managers only see data for the locations where they are the manager
+export function isLocationScoped(role: string | null | undefined): boolean {
+  return role === "location_manager";
+}
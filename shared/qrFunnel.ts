@@ -0,0 +1,65 @@
+// Scan-to-feedback funnel. Each scan of a printed /r/ link starts a session;
+// the feedback form reports when it is opened and first touched, and the
+// submission closes the session.
+
+export const qrFunnelSteps = ["scanned", "opened", "started", "submitted", "withMedia"] as const;
+export type QrFunnelStep = typeof qrFunnelSteps[number];
+
+export const qrFunnelStepLabels: Record<QrFunnelStep, string> = {
+  scanned: "Scanned",
+  opened: "Form opened",
+  started: "Started",
+  submitted: "Submitted",
+  withMedia: "With photo or voice",
+};
+
+// Steps the feedback form reports itself
+export const qrScanEvents = ["opened", "started"] as const;
+export type QrScanEvent = typeof qrScanEvents[number];
+
+export const qrFunnelGroupings = ["qrCode", "section", "location"] as const;
+export type QrFunnelGrouping = typeof qrFunnelGroupings[number];
+
+export const qrFunnelGroupingLabels: Record<QrFunnelGrouping, string> = {
+  qrCode: "QR code",
+  section: "Section",
+  location: "Location",
+};
+
+export type QrFunnelCounts = Record<QrFunnelStep, number>;
+
+// One QR code, section or location. qrCodeId is set when grouped by QR code,
+// locationId when grouped by QR code or location.
+export interface QrFunnelRow {
+  key: string;
+  label: string;
+  qrCodeId?: string;
+  locationId?: string;
+  lastScannedAt: string | null;
+  counts: QrFunnelCounts;
+}
+
+export interface QrFunnelStepDropOff {
+  step: QrFunnelStep;
+  count: number;
+  // Share of the previous step that reached this one; null for the first
+  // step or when the previous step had none
+  conversion: number | null;
+  dropped: number;
+}
+
+export function qrFunnelDropOff(counts: QrFunnelCounts): QrFunnelStepDropOff[] {
+  return qrFunnelSteps.map((step, index) => {
+    const previous = index > 0 ? counts[qrFunnelSteps[index - 1]] : null;
+    return {
+      step,
+      count: counts[step],
+      conversion: previous ? counts[step] / previous : null,
+      dropped: previous === null ? 0 : Math.max(0, previous - counts[step]),
+    };
+  });
+}
+
+export function emptyQrFunnelCounts(): QrFunnelCounts {
+  return { scanned: 0, opened: 0, started: 0, submitted: 0, withMedia: 0 };
+}
@@ -0,0 +1,46 @@
+// Downloadable images of a single QR code. SVG and EPS are vector and carry
+// their physical size; PNG is rendered at the chosen size and resolution.
+
+export const qrImageFormats = ["svg", "png", "eps"] as const;
+export type QrImageFormat = typeof qrImageFormats[number];
+
+export const qrImageFormatLabels: Record<QrImageFormat, string> = {
+  svg: "SVG (vector, web and print)",
+  png: "PNG (image)",
+  eps: "EPS (vector, for print shops)",
+};
+
+// L recovers ~7% of damaged modules, M ~15%, Q ~25%, H ~30%. A centre logo
+// covers modules, so it needs Q or H.
+export const qrErrorCorrectionLevels = ["L", "M", "Q", "H"] as const;
+export type QrErrorCorrectionLevel = typeof qrErrorCorrectionLevels[number];
+
+export const qrImageDpis = [150, 300, 600] as const;
+
+export const QR_IMAGE_MIN_SIZE = 10; // mm
+export const QR_IMAGE_MAX_SIZE = 1000; // mm
+export const QR_IMAGE_MAX_PIXELS = 4800; // per side, for PNG
+
+export const defaultQrImageOptions = {
+  format: "png" as QrImageFormat,
+  size: 50,
+  dpi: 300,
+  dark: "#000000",
+  light: "#FFFFFF",
+  errorCorrection: "M" as QrErrorCorrectionLevel,
+  logo: false,
+};
+
+// Pixels per side of a PNG of `size` millimetres at `dpi`
+export function qrImagePixels(size: number, dpi: number): number {
+  return Math.round(size / 25.4 * dpi);
+}
+
+// Relative luminance (0 black to 1 white) of a #RRGGBB colour
+export function colorLuminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map((start) => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
@@ -0,0 +1,39 @@
+// Printable PDFs of QR codes. Sizes are the finished (trimmed) size of one
+// item in millimetres; bleed is added around it.
+
+export const qrSheetLayouts = ["table-tent", "sticker", "sheet"] as const;
+export type QrSheetLayout = typeof qrSheetLayouts[number];
+
+export interface QrSheetSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const qrSheetLayoutLabels: Record<QrSheetLayout, string> = {
+  "table-tent": "Table tents (one per page, folded)",
+  sticker: "Stickers (A4 sheets)",
+  sheet: "Posters (one per page)",
+};
+
+// For table tents the size is one face; the printed page holds two, the top
+// one upside down so both read upright once folded
+export const qrSheetSizes: Record<QrSheetLayout, Record<string, QrSheetSize>> = {
+  "table-tent": {
+    a6: { label: "A6 face (105 × 148 mm)", width: 105, height: 148 },
+    dl: { label: "DL face (99 × 210 mm)", width: 99, height: 210 },
+    a5: { label: "A5 face (148 × 210 mm)", width: 148, height: 210 },
+  },
+  sticker: {
+    small: { label: "50 × 50 mm", width: 50, height: 50 },
+    medium: { label: "75 × 75 mm", width: 75, height: 75 },
+    large: { label: "100 × 100 mm", width: 100, height: 100 },
+  },
+  sheet: {
+    a4: { label: "A4 (210 × 297 mm)", width: 210, height: 297 },
+    a5: { label: "A5 (148 × 210 mm)", width: 148, height: 210 },
+    letter: { label: "US Letter (216 × 279 mm)", width: 215.9, height: 279.4 },
+  },
+};
+
+export const qrSheetBleeds = [0, 3, 5] as const;
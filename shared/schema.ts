@@ -10,9 +10,19 @@ import {
   jsonb,
   uuid,
   index,
+  primaryKey,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { userRoles } from "./permissions";
+import type { TopicKeywords } from "./topics";
+import { feedbackStatuses } from "./cases";
+import { feedbackImportFields, type ImportRowError } from "./imports";
+import { qrSheetLayouts, qrSheetSizes } from "./qrSheets";
+import { qrFunnelGroupings, qrScanEvents } from "./qrFunnel";
+import { qrImageFormats, qrErrorCorrectionLevels, qrImageDpis, qrImagePixels, colorLuminance, defaultQrImageOptions, QR_IMAGE_MIN_SIZE, QR_IMAGE_MAX_SIZE, QR_IMAGE_MAX_PIXELS } from "./qrImages";
+import { emailAlertFrequencies, smsAlertFrequencies, isValidTimezone, timeOfDayPattern, type NotificationSettings } from "./notifications";
 
 // Session storage table for authentication
 export const sessions = pgTable(
@@ -73,6 +83,9 @@ export const tenants = pgTable("tenants", {
   
   // Access management
   authorizedEmails: text("authorized_emails").array(),
+
+  // Feedback analysis: per-topic keyword overrides (see shared/topics.ts)
+  topicKeywords: jsonb("topic_keywords").$type<TopicKeywords>(),
   
   // System fields
   subscription: varchar("subscription", { length: 50 }).default("free"),
@@ -90,12 +103,48 @@ export const users = pgTable("users", {
   firstName: varchar("first_name", { length: 100 }),
   lastName: varchar("last_name", { length: 100 }),
   profileImageUrl: varchar("profile_image_url", { length: 500 }),
-  role: varchar("role", { length: 50 }).default("admin"),
+  role: varchar("role", { length: 50 }).notNull().default("viewer"), // owner, admin, location_manager, viewer
+  passwordHash: varchar("password_hash", { length: 255 }), // scrypt hash; null for magic-link-only accounts
   isActive: boolean("is_active").default(true),
+  lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One-time login tokens (magic links). Only the SHA-256 hash of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).unique().notNull(),
+  purpose: varchar("purpose", { length: 50 }).notNull().default("magic_link"),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_auth_tokens_user_id").on(table.userId),
+]);
+
+// Team invitations. The emailed link is an HMAC over the invitation id and
+// lastSentAt, so resending invalidates earlier links and no token is stored.
+export const invitations = pgTable("invitations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  email: varchar("email", { length: 255 }).notNull(),
+  role: varchar("role", { length: 50 }).notNull().default("viewer"),
+  invitedBy: uuid("invited_by").references(() => users.id),
+  acceptedBy: uuid("accepted_by").references(() => users.id),
+  sendCount: integer("send_count").notNull().default(1),
+  lastSentAt: timestamp("last_sent_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: uuid("revoked_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_invitations_tenant_id").on(table.tenantId),
+  index("IDX_invitations_email").on(table.email),
+]);
+
 // Locations (Branches, stores, hospitals, etc.)
 export const locations = pgTable("locations", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -135,7 +184,14 @@ export const qrCodes = pgTable("qr_codes", {
   identifier: varchar("identifier", { length: 100 }).notNull(), // Table 12, Bed 3, etc.
   section: varchar("section", { length: 100 }), // Patio, VIP, ICU, etc.
   qrData: text("qr_data").notNull(), // Encoded QR data
-  qrImageUrl: varchar("qr_image_url", { length: 500 }),
+  qrImageUrl: varchar("qr_image_url", { length: 500 }), // object path of the standard PNG, once rendered
+  // The printed link is /r/<shortCode>. Rotating moves the code to a new row;
+  // the retired row keeps its history, loses the code and points at its
+  // replacement.
+  shortCode: varchar("short_code", { length: 16 }).unique(),
+  surveyTemplateId: uuid("survey_template_id").references(() => surveyTemplates.id),
+  campaign: varchar("campaign", { length: 100 }),
+  replacedById: uuid("replaced_by_id").references((): AnyPgColumn => qrCodes.id),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -162,10 +218,68 @@ export const feedbackResponses = pgTable("feedback_responses", {
   tags: jsonb("tags"), // Array of tags for categorization
   sentiment: varchar("sentiment", { length: 50 }), // positive, negative, neutral
   sentimentScore: decimal("sentiment_score", { precision: 5, scale: 4 }),
+  // Case workflow (see shared/cases.ts)
+  status: varchar("status", { length: 20 }).notNull().default("new"), // new, in_progress, resolved, closed
+  assignedTo: uuid("assigned_to").references(() => users.id, { onDelete: "set null" }),
+  resolutionReason: text("resolution_reason"),
+  resolvedAt: timestamp("resolved_at"), // set when resolved or closed, cleared on reopen
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Internal notes on a feedback case; never shown to the customer
+export const feedbackNotes = pgTable("feedback_notes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  feedbackId: uuid("feedback_id").references(() => feedbackResponses.id, { onDelete: "cascade" }).notNull(),
+  authorId: uuid("author_id").references(() => users.id).notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_feedback_notes_feedback_id").on(table.feedbackId),
+]);
+
+export const replyChannels = ["email", "sms"] as const;
+export type ReplyChannel = typeof replyChannels[number];
+
+// Messages exchanged with the customer who left a feedback response: replies
+// staff send (outbound) and SMS answers from the customer (inbound)
+export const feedbackReplies = pgTable("feedback_replies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  feedbackId: uuid("feedback_id").references(() => feedbackResponses.id, { onDelete: "cascade" }).notNull(),
+  channel: varchar("channel", { length: 10 }).notNull(), // email, sms
+  direction: varchar("direction", { length: 10 }).notNull(), // outbound, inbound
+  address: varchar("address", { length: 255 }).notNull(), // customer email or phone number
+  body: text("body").notNull(),
+  sentBy: uuid("sent_by").references(() => users.id), // null for inbound
+  status: varchar("status", { length: 20 }).notNull(), // sent, failed, received
+  error: text("error"),
+  externalId: varchar("external_id", { length: 255 }), // provider message id
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_feedback_replies_feedback_id").on(table.feedbackId),
+  index("IDX_feedback_replies_tenant_channel").on(table.tenantId, table.channel, table.createdAt),
+]);
+
+export const smsConsentStatuses = ["opted_in", "opted_out"] as const;
+export const smsConsentSources = ["web", "sms", "api"] as const;
+export type SmsConsentSource = typeof smsConsentSources[number];
+
+// Whether a phone number takes SMS from a tenant: the latest opt-in or opt-out
+// wins. Keyed on the number's last ten digits (see phoneNumberKey in smsService).
+export const smsConsents = pgTable("sms_consents", {
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  numberKey: varchar("number_key", { length: 10 }).notNull(),
+  phoneNumber: varchar("phone_number", { length: 50 }).notNull(),
+  status: varchar("status", { length: 10 }).notNull(), // opted_in, opted_out
+  source: varchar("source", { length: 10 }).notNull(), // web, sms, api
+  reason: text("reason"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.tenantId, table.numberKey] }),
+]);
+
 // QR Code analytics
 export const qrAnalytics = pgTable("qr_analytics", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -176,6 +290,12 @@ export const qrAnalytics = pgTable("qr_analytics", {
   userAgent: text("user_agent"),
   completedFeedback: boolean("completed_feedback").default(false),
   feedbackId: uuid("feedback_id").references(() => feedbackResponses.id),
+  // Carried from the /r/ redirect through the feedback form, which reports
+  // each funnel step against it
+  sessionToken: varchar("session_token", { length: 32 }).unique(),
+  formOpenedAt: timestamp("form_opened_at"),
+  startedAt: timestamp("started_at"),
+  submittedAt: timestamp("submitted_at"),
 });
 
 // Alert rules
@@ -187,16 +307,31 @@ export const alertRules = pgTable("alert_rules", {
   conditions: jsonb("conditions").notNull(), // Rule conditions
   actions: jsonb("actions").notNull(), // What to do when triggered
   isActive: boolean("is_active").default(true),
+  priority: varchar("priority", { length: 20 }).notNull().default("medium"), // low, medium, high, critical
+  cooldownPeriod: integer("cooldown_period").notNull().default(30), // Minutes between alerts; 0 disables
+  lastTriggeredAt: timestamp("last_triggered_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// When each rule last fired per target: a QR code or location id, or "all"
+// for a rule measured across the whole tenant. Cooldowns are kept per target.
+export const alertRuleCooldowns = pgTable("alert_rule_cooldowns", {
+  ruleId: uuid("rule_id").references(() => alertRules.id, { onDelete: "cascade" }).notNull(),
+  target: varchar("target", { length: 100 }).notNull(),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  lastTriggeredAt: timestamp("last_triggered_at").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.ruleId, table.target] }),
+]);
+
 // Alert notifications
 export const alertNotifications = pgTable("alert_notifications", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
   alertRuleId: uuid("alert_rule_id").references(() => alertRules.id).notNull(),
   feedbackId: uuid("feedback_id").references(() => feedbackResponses.id),
+  locationId: uuid("location_id").references(() => locations.id), // set for scheduled alerts, which have no feedback
   title: varchar("title", { length: 255 }).notNull(),
   message: text("message").notNull(),
   severity: varchar("severity", { length: 50 }).notNull(), // critical, warning, info
@@ -204,8 +339,147 @@ export const alertNotifications = pgTable("alert_notifications", {
   isAcknowledged: boolean("is_acknowledged").default(false),
   acknowledgedBy: uuid("acknowledged_by").references(() => users.id),
   acknowledgedAt: timestamp("acknowledged_at"),
+  escalationLevel: integer("escalation_level").notNull().default(0), // escalation tiers notified so far
+  escalateAt: timestamp("escalate_at"), // when the next tier is due; cleared on acknowledgement
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_alert_notifications_escalate_at").on(table.escalateAt),
+]);
+
+// Delivery log and job queue for alert actions: one row per channel and
+// recipient, picked up by the alert dispatcher once next_attempt_at is due
+export const alertDeliveryStatuses = ["pending", "processing", "sent", "failed", "skipped"] as const;
+
+export const alertDeliveries = pgTable("alert_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  alertId: uuid("alert_id").references(() => alertNotifications.id, { onDelete: "cascade" }).notNull(),
+  channel: varchar("channel", { length: 20 }).notNull(), // email, sms, webhook
+  recipient: varchar("recipient", { length: 500 }).notNull(), // address, phone number or URL
+  payload: jsonb("payload").notNull(), // rendered template id and data, fixed at enqueue time
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(1),
+  retryInterval: integer("retry_interval").notNull().default(5), // minutes
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  heldUntil: timestamp("held_until"), // set while waiting to go out in the recipient's summary
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_alert_deliveries_alert_id").on(table.alertId),
+  index("IDX_alert_deliveries_due").on(table.status, table.nextAttemptAt),
+]);
+
+// Outbound webhooks. Tenants register endpoints and pick the events they want;
+// each event becomes a webhook_deliveries row signed with the endpoint secret.
+export const webhookEvents = ["feedback.created", "alert.triggered", "alert.acknowledged", "qr.scanned"] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  url: varchar("url", { length: 500 }).notNull(),
+  description: varchar("description", { length: 255 }),
+  events: text("events").array().notNull(),
+  secret: varchar("secret", { length: 100 }).notNull(), // HMAC key for the X-Webhook-Signature header
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_webhook_endpoints_tenant_id").on(table.tenantId),
+]);
+
+export const webhookDeliveryStatuses = ["pending", "processing", "delivered", "failed"] as const;
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  endpointId: uuid("endpoint_id").references(() => webhookEndpoints.id, { onDelete: "cascade" }).notNull(),
+  event: varchar("event", { length: 50 }).notNull(),
+  payload: jsonb("payload").notNull(), // request body, fixed when the event happened
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // first 1000 characters
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  redeliveryOf: uuid("redelivery_of"), // the delivery this one re-sends
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_webhook_deliveries_endpoint_id").on(table.endpointId),
+  index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+]);
+
+// CSV imports of historical feedback (see shared/imports.ts). The file is kept
+// until the import finishes so an interrupted import can resume where it
+// stopped; progress is counted in data rows.
+export const feedbackImports = pgTable("feedback_imports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  createdBy: uuid("created_by").references(() => users.id),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, importing, completed, failed
+  source: text("source").notNull(), // the uploaded CSV; emptied once the import finishes
+  headers: jsonb("headers").$type<string[]>().notNull(),
+  mapping: jsonb("mapping").$type<FeedbackImportMapping>(),
+  totalRows: integer("total_rows").notNull(),
+  processedRows: integer("processed_rows").notNull().default(0),
+  importedRows: integer("imported_rows").notNull().default(0),
+  failedRows: integer("failed_rows").notNull().default(0),
+  errors: jsonb("errors").$type<ImportRowError[]>().notNull().default([]), // first MAX_IMPORT_ERRORS row errors
+  lastError: text("last_error"), // why a failed import stopped
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_feedback_imports_tenant_id").on(table.tenantId),
+]);
+
+// One row per user who has saved notification preferences. emailAddress and
+// phoneKey (the last ten digits of the SMS number) find the preferences that
+// apply to an alert recipient.
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: uuid("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  settings: jsonb("settings").$type<NotificationSettings>().notNull(),
+  emailAddress: varchar("email_address", { length: 255 }), // lowercased settings.email.address
+  phoneKey: varchar("phone_key", { length: 20 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_notification_preferences_email").on(table.tenantId, table.emailAddress),
+  index("IDX_notification_preferences_phone").on(table.tenantId, table.phoneKey),
+]);
+
+// Scheduled summary emails. A subscription without a location covers every
+// location the user can see; the digest service sends it once next_send_at
+// passes and schedules the next one.
+export const digestFrequencies = ["daily", "weekly", "monthly"] as const;
+export type DigestFrequency = typeof digestFrequencies[number];
+
+export const digestSubscriptions = pgTable("digest_subscriptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: uuid("tenant_id").references(() => tenants.id).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  locationId: uuid("location_id").references(() => locations.id, { onDelete: "cascade" }),
+  frequency: varchar("frequency", { length: 20 }).notNull(), // daily, weekly, monthly
+  isActive: boolean("is_active").notNull().default(true),
+  nextSendAt: timestamp("next_send_at").notNull(),
+  lastSentAt: timestamp("last_sent_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_digest_subscriptions_user_id").on(table.userId),
+  index("IDX_digest_subscriptions_due").on(table.isActive, table.nextSendAt),
+]);
 
 // Multimedia files table for voice recordings and images
 export const multimediaFiles = pgTable("multimedia_files", {
@@ -244,13 +518,33 @@ export const tenantRelations = relations(tenants, ({ many }) => ({
   feedbackResponses: many(feedbackResponses),
   alertRules: many(alertRules),
   multimediaFiles: many(multimediaFiles),
+  invitations: many(invitations),
 }));
 
-export const userRelations = relations(users, ({ one }) => ({
+export const userRelations = relations(users, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [users.tenantId],
     references: [tenants.id],
   }),
+  authTokens: many(authTokens),
+}));
+
+export const authTokenRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const invitationRelations = relations(invitations, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [invitations.tenantId],
+    references: [tenants.id],
+  }),
+  inviter: one(users, {
+    fields: [invitations.invitedBy],
+    references: [users.id],
+  }),
 }));
 
 export const locationRelations = relations(locations, ({ one, many }) => ({
@@ -292,7 +586,35 @@ export const feedbackResponseRelations = relations(feedbackResponses, ({ one, ma
     fields: [feedbackResponses.qrCodeId],
     references: [qrCodes.id],
   }),
+  assignee: one(users, {
+    fields: [feedbackResponses.assignedTo],
+    references: [users.id],
+  }),
   multimediaFiles: many(multimediaFiles),
+  notes: many(feedbackNotes),
+  replies: many(feedbackReplies),
+}));
+
+export const feedbackReplyRelations = relations(feedbackReplies, ({ one }) => ({
+  feedback: one(feedbackResponses, {
+    fields: [feedbackReplies.feedbackId],
+    references: [feedbackResponses.id],
+  }),
+  sender: one(users, {
+    fields: [feedbackReplies.sentBy],
+    references: [users.id],
+  }),
+}));
+
+export const feedbackNoteRelations = relations(feedbackNotes, ({ one }) => ({
+  feedback: one(feedbackResponses, {
+    fields: [feedbackNotes.feedbackId],
+    references: [feedbackResponses.id],
+  }),
+  author: one(users, {
+    fields: [feedbackNotes.authorId],
+    references: [users.id],
+  }),
 }));
 
 export const surveyTemplateRelations = relations(surveyTemplates, ({ one }) => ({
@@ -357,6 +679,41 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const magicLinkRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const createInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(userRoles),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().max(100).optional(),
+  password: z.string().min(8).optional(),
+});
+
 export const insertLocationSchema = createInsertSchema(locations).omit({
   id: true,
   createdAt: true,
@@ -375,16 +732,180 @@ export const insertQrCodeSchema = createInsertSchema(qrCodes).omit({
   updatedAt: true,
 });
 
+// Body of POST /api/qr-codes; the short code and link are generated
+export const qrCodeRequestSchema = z.object({
+  locationId: z.string().uuid("Location is required"),
+  identifier: z.string().trim().min(1, "QR code name is required").max(100),
+  section: z.string().trim().max(100).nullish(),
+  surveyTemplateId: z.string().uuid().nullish(),
+  campaign: z.string().trim().max(100).nullish(),
+  isActive: z.boolean().optional(),
+});
+
+// Body of PUT /api/qr-codes/:id and POST /api/qr-codes/:id/rotate: re-point
+// a printed code without changing its link
+export const qrCodeUpdateSchema = qrCodeRequestSchema.partial();
+
+export const MAX_BULK_QR_CODES = 500;
+
+// Body of POST /api/qr-codes/bulk. Codes come from a numbered range
+// ("Table 1" to "Table 60"), CSV lines of identifier and optional section, or
+// the current codes of another location. section, surveyTemplateId and
+// campaign apply to every code (section only where the source gives none).
+export const qrCodeBulkRequestSchema = z.object({
+  locationId: z.string().uuid("Location is required"),
+  section: z.string().trim().max(100).nullish(),
+  surveyTemplateId: z.string().uuid().nullish(),
+  campaign: z.string().trim().max(100).nullish(),
+  preview: z.boolean().optional(),
+  source: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("range"),
+      prefix: z.string().trim().min(1, "Enter a name for the codes, like Table").max(80),
+      from: z.number().int().min(0),
+      to: z.number().int().min(0),
+    }),
+    z.object({
+      type: z.literal("list"),
+      csv: z.string().min(1, "Paste at least one line").max(100000),
+    }),
+    z.object({
+      type: z.literal("copy"),
+      fromLocationId: z.string().uuid("Choose a location to copy from"),
+    }),
+  ]),
+}).superRefine(({ source }, context) => {
+  if (source.type !== "range") return;
+  if (source.to < source.from) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["source", "to"], message: "The range must end at or after its start" });
+  } else if (source.to - source.from >= MAX_BULK_QR_CODES) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["source", "to"], message: `At most ${MAX_BULK_QR_CODES} codes can be created at once` });
+  }
+});
+
+export type QrCodeBulkRequest = z.infer<typeof qrCodeBulkRequestSchema>;
+
+// Query string of GET /api/qr-codes/:tenantId/sheets. Without ids every
+// active code at the location is printed.
+export const qrSheetRequestSchema = z.object({
+  locationId: z.string().uuid(),
+  layout: z.enum(qrSheetLayouts),
+  size: z.string(),
+  bleed: z.coerce.number().min(0).max(5).default(0),
+  ids: z.string().optional().transform((ids) => ids ? ids.split(",") : undefined).pipe(z.array(z.string().uuid()).max(500).optional()),
+}).refine((request) => Object.hasOwn(qrSheetSizes[request.layout], request.size), { message: "Unknown size for this layout", path: ["size"] });
+
+export type QrSheetRequest = z.infer<typeof qrSheetRequestSchema>;
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colours must be written like #1A2B3C").transform((value) => value.toUpperCase());
+
+// Query string of GET /api/qr-codes/:tenantId/:id/image. size is the printed
+// width in millimetres; dpi only affects PNG.
+export const qrImageRequestSchema = z.object({
+  format: z.enum(qrImageFormats).default(defaultQrImageOptions.format),
+  size: z.coerce.number().min(QR_IMAGE_MIN_SIZE).max(QR_IMAGE_MAX_SIZE).default(defaultQrImageOptions.size),
+  dpi: z.coerce.number().refine((dpi) => (qrImageDpis as readonly number[]).includes(dpi), "Unsupported resolution").default(defaultQrImageOptions.dpi),
+  dark: hexColor.default(defaultQrImageOptions.dark),
+  light: hexColor.default(defaultQrImageOptions.light),
+  errorCorrection: z.enum(qrErrorCorrectionLevels).default(defaultQrImageOptions.errorCorrection),
+  logo: z.enum(["true", "false"]).transform((value) => value === "true").default(String(defaultQrImageOptions.logo) as "true" | "false"),
+}).superRefine((request, context) => {
+  // Scanners need dark modules on a light background with clear contrast
+  const contrast = (colorLuminance(request.light) + 0.05) / (colorLuminance(request.dark) + 0.05);
+  if (contrast < 3) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["dark"], message: "The code colour must be much darker than the background" });
+  }
+  if (request.logo && request.format === "eps") {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["logo"], message: "A centre logo can only be added to SVG and PNG images" });
+  }
+  if (request.logo && (request.errorCorrection === "L" || request.errorCorrection === "M")) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["errorCorrection"], message: "Use error correction Q or H with a centre logo" });
+  }
+  if (request.format === "png" && qrImagePixels(request.size, request.dpi) > QR_IMAGE_MAX_PIXELS) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["size"], message: "That PNG would be too large; lower the size or resolution, or download SVG" });
+  }
+});
+
+export type QrImageRequest = z.infer<typeof qrImageRequestSchema>;
+
 export const insertFeedbackResponseSchema = createInsertSchema(feedbackResponses).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// What the public feedback form may submit; the case workflow is staff-only.
+// scanSession links the submission to the QR scan that opened the form.
+export const feedbackSubmissionSchema = insertFeedbackResponseSchema.omit({
+  status: true,
+  assignedTo: true,
+  resolutionReason: true,
+  resolvedAt: true,
+}).extend({
+  scanSession: z.string().max(32).optional(),
+});
+
+// Body of POST /api/qr-scans/:session/events (public)
+export const qrScanEventSchema = z.object({
+  step: z.enum(qrScanEvents),
+});
+
+// Query string of GET /api/analytics/qr-codes/:tenantId. Scans from the last
+// 30 days unless a range is given.
+export const qrFunnelRequestSchema = z.object({
+  groupBy: z.enum(qrFunnelGroupings).default("qrCode"),
+  locationId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type QrFunnelRequest = z.infer<typeof qrFunnelRequestSchema>;
+
+// Body of PATCH /api/feedback/:id/case; null unassigns or clears the reason
+export const feedbackCaseUpdateSchema = z.object({
+  status: z.enum(feedbackStatuses).optional(),
+  assignedTo: z.string().uuid().nullable().optional(),
+  resolutionReason: z.string().trim().max(1000).nullable().optional(),
+});
+
+export const insertFeedbackNoteSchema = createInsertSchema(feedbackNotes).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of POST /api/feedback/:id/notes
+export const feedbackNoteRequestSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+export const insertFeedbackReplySchema = createInsertSchema(feedbackReplies).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of POST /api/feedback/:id/replies
+export const feedbackReplyRequestSchema = z.object({
+  channel: z.enum(replyChannels),
+  body: z.string().trim().min(1).max(2000),
+});
+
+export const insertSmsConsentSchema = createInsertSchema(smsConsents, {
+  status: z.enum(smsConsentStatuses),
+  source: z.enum(smsConsentSources),
+}).omit({
+  updatedAt: true,
+});
+
+export const alertRulePriorities = ["low", "medium", "high", "critical"] as const;
+
 export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
   id: true,
+  lastTriggeredAt: true, // Only the rule engine sets this
   createdAt: true,
   updatedAt: true,
+}).extend({
+  priority: z.enum(alertRulePriorities).optional(),
+  cooldownPeriod: z.number().int().min(0).optional(),
 });
 
 export const insertAlertNotificationSchema = createInsertSchema(alertNotifications).omit({
@@ -392,6 +913,177 @@ export const insertAlertNotificationSchema = createInsertSchema(alertNotificatio
   createdAt: true,
 });
 
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of PUT /api/topic-keywords: topic id -> keywords
+export const topicKeywordsSchema = z.record(
+  z.string().regex(/^[a-z0-9_]{1,40}$/),
+  z.array(z.string().trim().min(1).max(60)).max(100)
+);
+
+// Query string of GET /api/feedback/:tenantId/search. Dates are ISO
+// timestamps (the client sends the edges of the chosen days in local time);
+// cursor is the nextCursor of the previous page.
+const queryFlag = z.enum(["true", "false"]).transform((value) => value === "true");
+
+export const feedbackSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  locationId: z.string().uuid().optional(),
+  qrCodeId: z.string().uuid().optional(),
+  section: z.string().max(100).optional(),
+  minRating: z.coerce.number().int().min(1).max(5).optional(),
+  maxRating: z.coerce.number().int().min(1).max(5).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sentiment: z.enum(["positive", "neutral", "negative"]).optional(),
+  tag: z.string().max(40).optional(),
+  status: z.enum([...feedbackStatuses, "open"]).optional(), // "open" is new or in progress
+  assignedTo: z.union([z.string().uuid(), z.literal("unassigned")]).optional(),
+  hasVoice: queryFlag.optional(),
+  hasImages: queryFlag.optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type FeedbackSearch = z.infer<typeof feedbackSearchSchema>;
+export type FeedbackFilters = Omit<FeedbackSearch, "cursor" | "limit">;
+
+export const exportFormats = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+const exportFormat = z.enum(exportFormats).default("csv");
+
+// Query string of GET /api/exports/:tenantId/feedback: the inbox filters,
+// without paging, plus the file format
+export const feedbackExportSchema = feedbackSearchSchema.omit({ cursor: true, limit: true }).extend({
+  format: exportFormat,
+});
+
+// Query string of the alert history and QR scan exports
+export const exportRangeSchema = z.object({
+  format: exportFormat,
+  locationId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type ExportRange = z.infer<typeof exportRangeSchema>;
+
+
+// Which CSV column fills each feedback field and custom question. Rows with no
+// location column (or an empty one) go to locationId.
+export const feedbackImportMappingSchema = z.object({
+  fields: z.record(z.enum(feedbackImportFields), z.string().min(1)),
+  customFields: z.array(z.object({
+    column: z.string().min(1),
+    name: z.string().trim().min(1).max(200),
+  })).max(100).default([]),
+  locationId: z.string().uuid().optional(),
+}).refine((mapping) => !!mapping.fields.overallRating, {
+  message: "Choose the column that holds the rating",
+  path: ["fields", "overallRating"],
+}).refine((mapping) => !!mapping.fields.location || !!mapping.locationId, {
+  message: "Choose a location column or a default location",
+  path: ["locationId"],
+});
+
+export type FeedbackImportMapping = z.infer<typeof feedbackImportMappingSchema>;
+
+const importRowErrorSchema: z.ZodType<ImportRowError> = z.object({
+  line: z.number().int(),
+  column: z.string().optional(),
+  message: z.string(),
+});
+
+export const insertFeedbackImportSchema = createInsertSchema(feedbackImports, {
+  headers: z.array(z.string()),
+  mapping: feedbackImportMappingSchema.nullish(),
+  errors: z.array(importRowErrorSchema).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of POST/PUT /api/webhooks; the secret is generated by the server
+export const webhookEndpointRequestSchema = z.object({
+  url: z.string().url().max(500).refine((url) => /^https?:\/\//i.test(url), "URL must use http or https"),
+  description: z.string().max(255).optional(),
+  events: z.array(z.enum(webhookEvents)).min(1),
+  isActive: z.boolean().optional(),
+});
+
+const severityToggles = z.object({ critical: z.boolean(), warning: z.boolean(), info: z.boolean() });
+
+// Body of PUT /api/notification-preferences
+export const notificationSettingsSchema = z.object({
+  email: z.object({
+    enabled: z.boolean(),
+    address: z.union([z.string().trim().email().max(255), z.literal("")]),
+    frequency: z.enum(emailAlertFrequencies),
+    alertTypes: severityToggles,
+  }),
+  sms: z.object({
+    enabled: z.boolean(),
+    phoneNumber: z.string().trim().max(20).refine((phone) => !phone || /^\+?[\d\s().-]{7,}$/.test(phone), "Enter a valid phone number"),
+    frequency: z.enum(smsAlertFrequencies),
+    alertTypes: severityToggles.omit({ info: true }),
+  }),
+  inApp: z.object({
+    enabled: z.boolean(),
+    sound: z.boolean(),
+    desktop: z.boolean(),
+    alertTypes: severityToggles,
+  }),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+    start: z.string().regex(timeOfDayPattern, "Quiet hours must start at a time like 22:00"),
+    end: z.string().regex(timeOfDayPattern, "Quiet hours must end at a time like 07:00"),
+    allowCritical: z.boolean(),
+  }).refine((quietHours) => quietHours.start !== quietHours.end, "Quiet hours must end at a different time than they start"),
+}) satisfies z.ZodType<NotificationSettings>;
+
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences, {
+  settings: notificationSettingsSchema,
+}).omit({
+  updatedAt: true,
+});
+
+export const insertDigestSubscriptionSchema = createInsertSchema(digestSubscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Body of POST /api/digest-subscriptions; no locationId means all locations
+export const digestSubscriptionRequestSchema = z.object({
+  frequency: z.enum(digestFrequencies),
+  locationId: z.string().uuid().nullish(),
+});
+
+// Body of PATCH /api/digest-subscriptions/:id
+export const digestSubscriptionUpdateSchema = z.object({
+  frequency: z.enum(digestFrequencies).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const insertAlertDeliverySchema = createInsertSchema(alertDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertMultimediaFileSchema = createInsertSchema(multimediaFiles).omit({
   id: true,
   createdAt: true,
@@ -405,6 +1097,12 @@ export type InsertTenant = z.infer<typeof insertTenantSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+
 export type Location = typeof locations.$inferSelect;
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 
@@ -417,12 +1115,40 @@ export type InsertQrCode = z.infer<typeof insertQrCodeSchema>;
 export type FeedbackResponse = typeof feedbackResponses.$inferSelect;
 export type InsertFeedbackResponse = z.infer<typeof insertFeedbackResponseSchema>;
 
+export type FeedbackNote = typeof feedbackNotes.$inferSelect;
+export type InsertFeedbackNote = z.infer<typeof insertFeedbackNoteSchema>;
+
+export type FeedbackReply = typeof feedbackReplies.$inferSelect;
+export type InsertFeedbackReply = z.infer<typeof insertFeedbackReplySchema>;
+
+export type SmsConsent = typeof smsConsents.$inferSelect;
+export type InsertSmsConsent = z.infer<typeof insertSmsConsentSchema>;
+
 export type AlertRule = typeof alertRules.$inferSelect;
 export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
 
 export type AlertNotification = typeof alertNotifications.$inferSelect;
 export type InsertAlertNotification = z.infer<typeof insertAlertNotificationSchema>;
 
+export type AlertDelivery = typeof alertDeliveries.$inferSelect;
+export type InsertAlertDelivery = z.infer<typeof insertAlertDeliverySchema>;
+
+export type FeedbackImport = typeof feedbackImports.$inferSelect;
+export type FeedbackImportSummary = Omit<FeedbackImport, "source">;
+export type InsertFeedbackImport = z.infer<typeof insertFeedbackImportSchema>;
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
+
+export type DigestSubscription = typeof digestSubscriptions.$inferSelect;
+export type InsertDigestSubscription = z.infer<typeof insertDigestSubscriptionSchema>;
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
 export type MultimediaFile = typeof multimediaFiles.$inferSelect;
 export type InsertMultimediaFile = z.infer<typeof insertMultimediaFileSchema>;
 
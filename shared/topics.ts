@@ -0,0 +1,29 @@
+// Topic tags assigned to feedback by keyword matching. Tenants may replace a
+// topic's keywords or add topics of their own (tenants.topicKeywords); topics
+// they leave out use these defaults. An empty list switches a topic off.
+
+export type TopicKeywords = Record<string, string[]>;
+
+export const defaultTopicKeywords: TopicKeywords = {
+  service: ["service", "served", "order", "ordered", "helpful", "attentive", "experience", "assistance", "support"],
+  cleanliness: ["clean", "dirty", "filthy", "messy", "hygiene", "smell", "smelly", "stain", "toilet", "bathroom", "restroom", "tidy", "dust"],
+  price: ["price", "prices", "expensive", "cheap", "overpriced", "cost", "value", "bill", "charge", "charged", "affordable", "refund"],
+  wait_time: ["wait", "waited", "waiting", "queue", "line", "slow", "delay", "delayed", "took forever", "minutes", "quick", "fast"],
+  staff: ["staff", "employee", "waiter", "waitress", "cashier", "manager", "receptionist", "nurse", "rude", "friendly", "polite", "team"],
+};
+
+export const topicLabels: Record<string, string> = {
+  service: "Service",
+  cleanliness: "Cleanliness",
+  price: "Price",
+  wait_time: "Wait time",
+  staff: "Staff",
+};
+
+export function topicLabel(topic: string): string {
+  return topicLabels[topic] || topic.replace(/_/g, " ");
+}
+
+export function effectiveTopicKeywords(custom: TopicKeywords | null | undefined): TopicKeywords {
+  return { ...defaultTopicKeywords, ...(custom || {}) };
+}